@@ -19,15 +19,19 @@ import {
 } from "@/components/ui/table";
 import { CreditService } from "@/lib/services/creditService";
 import { OrderService } from "@/lib/services/orderService";
-import { Customer, CreditTransaction, Sale, Order, PaymentMethod } from "@/lib/types";
+import { PricingService } from "@/lib/services/pricingService";
+import { Customer, CreditPayment, CreditTransaction, Sale, Order, PaymentMethod, PriceList } from "@/lib/types";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAuth } from "@/contexts/AuthContext";
 import { usePermissions } from "@/lib/hooks/usePermissions";
-import { doc, getDoc, collection, query, where, getDocs, orderBy, updateDoc, serverTimestamp } from "firebase/firestore";
+import { doc, getDoc, collection, query, where, getDocs, orderBy, updateDoc, serverTimestamp, deleteField } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { ArrowLeft, DollarSign, Eye } from "lucide-react";
+import { ArrowLeft, DollarSign, Eye, Printer } from "lucide-react";
 import Link from "next/link";
 import { TransactionDetailsDialog } from "@/components/admin/TransactionDetailsDialog";
+import { DEFAULT_PAYMENT_TERMS_DAYS, allocatePaymentFIFO, getCreditTransactionDueDate } from "@/lib/utils/credit";
+import { printCreditPaymentReceipt } from "@/lib/utils/receiptGenerator";
+import { roundAmount } from "@/lib/utils/accounting";
 
 export default function CustomerDetailPage() {
   const params = useParams();
@@ -35,6 +39,7 @@ export default function CustomerDetailPage() {
   const { user } = useAuth();
   const { hasPermission } = usePermissions();
   const [customer, setCustomer] = useState<Customer | null>(null);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
   const [credits, setCredits] = useState<CreditTransaction[]>([]);
   const [sales, setSales] = useState<Sale[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
@@ -50,6 +55,13 @@ export default function CustomerDetailPage() {
   const [settlementAmount, setSettlementAmount] = useState("");
   const [settlementNotes, setSettlementNotes] = useState("");
   const [settlementPaymentMethod, setSettlementPaymentMethod] = useState<PaymentMethod>("CASH");
+  const [payments, setPayments] = useState<CreditPayment[]>([]);
+  const [receivingPayment, setReceivingPayment] = useState(false);
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("CASH");
+  const [paymentNotes, setPaymentNotes] = useState("");
+  const [allocationMode, setAllocationMode] = useState<"FIFO" | "MANUAL">("FIFO");
+  const [manualAllocations, setManualAllocations] = useState<Record<string, string>>({});
   const [editing, setEditing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [formData, setFormData] = useState({
@@ -57,6 +69,9 @@ export default function CustomerDetailPage() {
     phone: "",
     email: "",
     address: "",
+    creditLimit: "",
+    paymentTermsDays: "",
+    priceListId: "retail",
   });
   const [selectedTransaction, setSelectedTransaction] = useState<{
     id: string;
@@ -68,8 +83,12 @@ export default function CustomerDetailPage() {
     if (customerId) {
       fetchCustomerData();
       fetchCredits();
+      fetchPayments();
       fetchSales();
       fetchOrders();
+      PricingService.getAllPriceLists()
+        .then(setPriceLists)
+        .catch((error) => console.error("Error fetching price lists:", error));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [customerId]);
@@ -85,6 +104,9 @@ export default function CustomerDetailPage() {
           phone: customerData.phone,
           email: customerData.email || "",
           address: customerData.address || "",
+          creditLimit: customerData.creditLimit?.toString() ?? "",
+          paymentTermsDays: customerData.paymentTermsDays?.toString() ?? "",
+          priceListId: customerData.priceListId || "retail",
         });
       }
     } catch (error) {
@@ -104,6 +126,9 @@ export default function CustomerDetailPage() {
         phone: formData.phone,
         email: formData.email || undefined,
         address: formData.address || undefined,
+        creditLimit: formData.creditLimit !== "" ? parseFloat(formData.creditLimit) : deleteField(),
+        paymentTermsDays: formData.paymentTermsDays !== "" ? parseInt(formData.paymentTermsDays) : deleteField(),
+        priceListId: formData.priceListId !== "retail" ? formData.priceListId : deleteField(),
         updatedAt: serverTimestamp(),
       });
       setEditing(false);
@@ -140,6 +165,14 @@ export default function CustomerDetailPage() {
     }
   };
 
+  const fetchPayments = async () => {
+    try {
+      setPayments(await CreditService.getCustomerPayments(customerId));
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+    }
+  };
+
   const fetchSales = async () => {
     setLoadingSales(true);
     setSalesError(null);
@@ -266,7 +299,7 @@ export default function CustomerDetailPage() {
     }
 
     try {
-      await CreditService.settleCredit(
+      const payment = await CreditService.settleCredit(
         selectedCredit.id,
         amount,
         user.uid,
@@ -277,13 +310,69 @@ export default function CustomerDetailPage() {
       setSettlementAmount("");
       setSettlementNotes("");
       fetchCredits();
+      fetchPayments();
       fetchCustomerData();
-      alert("Credit settled successfully");
+      if (confirm(`Credit settled successfully. Receipt ${payment.receiptNumber}. Print receipt?`)) {
+        printCreditPaymentReceipt(payment, customer?.name || "");
+      }
     } catch (error: unknown) {
       alert(error instanceof Error ? error.message : "Failed to settle credit");
     }
   };
 
+  const resetPaymentForm = () => {
+    setReceivingPayment(false);
+    setPaymentAmount("");
+    setPaymentMethod("CASH");
+    setPaymentNotes("");
+    setAllocationMode("FIFO");
+    setManualAllocations({});
+  };
+
+  const handleReceivePayment = async () => {
+    if (!customer || !user) return;
+
+    const amount = parseFloat(paymentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      alert("Please enter a valid amount");
+      return;
+    }
+
+    let allocations: Record<string, number> | undefined;
+    if (allocationMode === "MANUAL") {
+      allocations = {};
+      for (const [creditId, value] of Object.entries(manualAllocations)) {
+        const allocated = parseFloat(value);
+        if (!isNaN(allocated) && allocated > 0) {
+          allocations[creditId] = allocated;
+        }
+      }
+      const allocatedTotal = roundAmount(Object.values(allocations).reduce((sum, value) => sum + value, 0));
+      if (allocatedTotal !== roundAmount(amount)) {
+        alert(`Allocated Rs ${allocatedTotal.toFixed(2)} must equal the payment of Rs ${amount.toFixed(2)}`);
+        return;
+      }
+    }
+
+    try {
+      const payment = await CreditService.settleCustomerCredits(
+        customerId,
+        amount,
+        user.uid,
+        paymentMethod,
+        paymentNotes || undefined,
+        allocations
+      );
+      resetPaymentForm();
+      fetchCredits();
+      fetchPayments();
+      fetchCustomerData();
+      printCreditPaymentReceipt(payment, customer.name);
+    } catch (error: unknown) {
+      alert(error instanceof Error ? error.message : "Failed to record payment");
+    }
+  };
+
   if (loading) {
     return (
       <ProtectedRoute requiredPermission={{ resource: "customers", action: "view" }}>
@@ -311,6 +400,10 @@ export default function CustomerDetailPage() {
 
   const outstandingCredits = credits.filter((c) => c.dueAmount > 0);
   const totalOutstanding = outstandingCredits.reduce((sum, c) => sum + c.dueAmount, 0);
+  const fifoAllocations = allocatePaymentFIFO(outstandingCredits, parseFloat(paymentAmount) || 0);
+  const manualAllocatedTotal = roundAmount(
+    Object.values(manualAllocations).reduce((sum, value) => sum + (parseFloat(value) || 0), 0)
+  );
 
   return (
     <ProtectedRoute requiredPermission={{ resource: "customers", action: "view" }}>
@@ -401,6 +494,49 @@ export default function CustomerDetailPage() {
                         onChange={(e) => setFormData({ ...formData, address: e.target.value })}
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="creditLimit">Credit Limit (Rs)</Label>
+                      <Input
+                        id="creditLimit"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.creditLimit}
+                        onChange={(e) => setFormData({ ...formData, creditLimit: e.target.value })}
+                        placeholder="No limit"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="paymentTermsDays">Payment Terms (days)</Label>
+                      <Input
+                        id="paymentTermsDays"
+                        type="number"
+                        min="0"
+                        value={formData.paymentTermsDays}
+                        onChange={(e) => setFormData({ ...formData, paymentTermsDays: e.target.value })}
+                        placeholder={DEFAULT_PAYMENT_TERMS_DAYS.toString()}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Price List</Label>
+                      <Select
+                        value={formData.priceListId}
+                        onValueChange={(value) => setFormData({ ...formData, priceListId: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="retail">Retail</SelectItem>
+                          {priceLists.map((priceList) => (
+                            <SelectItem key={priceList.id} value={priceList.id}>
+                              {priceList.name}
+                              {!priceList.isActive && " (inactive)"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </>
                 ) : (
                   <>
@@ -424,6 +560,14 @@ export default function CustomerDetailPage() {
                         <p className="font-medium">{customer.address}</p>
                       </div>
                     )}
+                    <div>
+                      <p className="text-sm text-gray-600">Price List</p>
+                      <p className="font-medium">
+                        {customer.priceListId
+                          ? priceLists.find((priceList) => priceList.id === customer.priceListId)?.name || "-"
+                          : "Retail"}
+                      </p>
+                    </div>
                   </>
                 )}
                 <div>
@@ -452,6 +596,15 @@ export default function CustomerDetailPage() {
                     Rs {totalOutstanding.toFixed(2)}
                   </p>
                 </div>
+                <div>
+                  <p className="text-sm text-gray-600">Credit Limit</p>
+                  <p className="text-lg font-medium">
+                    {customer.creditLimit !== undefined ? `Rs ${customer.creditLimit.toFixed(2)}` : "No limit"}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Payment terms: {customer.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS} days
+                  </p>
+                </div>
                 <div>
                   <p className="text-sm text-gray-600">Loyalty Points</p>
                   <p className="text-lg font-medium">{customer.loyaltyPoints}</p>
@@ -479,8 +632,23 @@ export default function CustomerDetailPage() {
           {outstandingCredits.length > 0 && (
             <Card>
               <CardHeader>
-                <CardTitle>Outstanding Credits</CardTitle>
-                <CardDescription>Credit transactions with pending payments</CardDescription>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Outstanding Credits</CardTitle>
+                    <CardDescription>Credit transactions with pending payments</CardDescription>
+                  </div>
+                  {hasPermission("customers", "settleCredits") && !receivingPayment && (
+                    <Button
+                      onClick={() => {
+                        setSelectedCredit(null);
+                        setReceivingPayment(true);
+                      }}
+                    >
+                      <DollarSign className="mr-2 h-4 w-4" />
+                      Receive Payment
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="overflow-x-auto">
@@ -492,6 +660,7 @@ export default function CustomerDetailPage() {
                         <TableHead>Total Amount</TableHead>
                         <TableHead>Paid</TableHead>
                         <TableHead>Due</TableHead>
+                        <TableHead>Due Date</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -509,12 +678,18 @@ export default function CustomerDetailPage() {
                           <TableCell className="text-red-600 font-semibold">
                             Rs {credit.dueAmount.toFixed(2)}
                           </TableCell>
+                          <TableCell
+                            className={getCreditTransactionDueDate(credit) < new Date() ? "text-red-600 font-medium" : ""}
+                          >
+                            {getCreditTransactionDueDate(credit).toLocaleDateString()}
+                          </TableCell>
                           <TableCell className="text-right">
                             {hasPermission("customers", "settleCredits") && (
                               <Button
                                 variant="outline"
                                 size="sm"
                                 onClick={() => {
+                                  resetPaymentForm();
                                   setSelectedCredit(credit);
                                   setSettlementAmount(credit.dueAmount.toString());
                                 }}
@@ -533,6 +708,132 @@ export default function CustomerDetailPage() {
             </Card>
           )}
 
+          {receivingPayment && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Receive Payment</CardTitle>
+                <CardDescription>
+                  One payment settled across outstanding credits - Rs {totalOutstanding.toFixed(2)} due
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentAmount">Amount (Rs) *</Label>
+                    <Input
+                      id="paymentAmount"
+                      type="number"
+                      step="0.01"
+                      value={paymentAmount}
+                      onChange={(e) => setPaymentAmount(e.target.value)}
+                      max={totalOutstanding}
+                      placeholder="Amount received"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Payment Method *</Label>
+                    <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="CASH">Cash</SelectItem>
+                        <SelectItem value="BANK_TRANSFER">Bank Transfer</SelectItem>
+                        <SelectItem value="FONE_PAY">FonePay</SelectItem>
+                        <SelectItem value="CHEQUE">Cheque</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Allocation</Label>
+                    <Select
+                      value={allocationMode}
+                      onValueChange={(value) => setAllocationMode(value as "FIFO" | "MANUAL")}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="FIFO">Oldest credits first</SelectItem>
+                        <SelectItem value="MANUAL">Manual</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Sale ID</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Due</TableHead>
+                        <TableHead className="text-right">Settle</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {outstandingCredits.map((credit) => (
+                        <TableRow key={credit.id}>
+                          <TableCell className="font-mono text-sm">{credit.saleId}</TableCell>
+                          <TableCell>{credit.createdAt.toDate().toLocaleDateString()}</TableCell>
+                          <TableCell>Rs {credit.dueAmount.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">
+                            {allocationMode === "MANUAL" ? (
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                max={credit.dueAmount}
+                                value={manualAllocations[credit.id] || ""}
+                                onChange={(e) =>
+                                  setManualAllocations({ ...manualAllocations, [credit.id]: e.target.value })
+                                }
+                                className="w-32 ml-auto"
+                              />
+                            ) : fifoAllocations[credit.id] ? (
+                              `Rs ${fifoAllocations[credit.id].toFixed(2)}`
+                            ) : (
+                              "-"
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {allocationMode === "MANUAL" && (
+                  <p
+                    className={`text-sm ${
+                      manualAllocatedTotal === roundAmount(parseFloat(paymentAmount) || 0)
+                        ? "text-gray-600"
+                        : "text-red-600"
+                    }`}
+                  >
+                    Allocated Rs {manualAllocatedTotal.toFixed(2)} of Rs {(parseFloat(paymentAmount) || 0).toFixed(2)}
+                  </p>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="paymentNotes">Notes (Optional)</Label>
+                  <Input
+                    id="paymentNotes"
+                    type="text"
+                    value={paymentNotes}
+                    onChange={(e) => setPaymentNotes(e.target.value)}
+                    placeholder="Payment notes"
+                  />
+                </div>
+
+                <div className="flex gap-4">
+                  <Button onClick={handleReceivePayment}>Receive Payment</Button>
+                  <Button variant="outline" onClick={resetPaymentForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {selectedCredit && (
             <Card>
               <CardHeader>
@@ -618,6 +919,54 @@ export default function CustomerDetailPage() {
             </Card>
           )}
 
+          {payments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Payments</CardTitle>
+                <CardDescription>Payments received against credit</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Receipt #</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Method</TableHead>
+                        <TableHead>Settled Sales</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {payments.map((payment) => (
+                        <TableRow key={payment.id}>
+                          <TableCell className="font-mono text-sm">{payment.receiptNumber}</TableCell>
+                          <TableCell>{payment.createdAt.toDate().toLocaleDateString()}</TableCell>
+                          <TableCell>{payment.paymentMethod.replace("_", " ")}</TableCell>
+                          <TableCell>{payment.allocations.length}</TableCell>
+                          <TableCell className="text-green-600 font-semibold">
+                            Rs {payment.amount.toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => printCreditPaymentReceipt(payment, customer.name)}
+                            >
+                              <Printer className="mr-2 h-4 w-4" />
+                              Print
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Purchase History</CardTitle>
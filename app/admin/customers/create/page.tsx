@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { AdminLayout } from "@/components/admin/AdminLayout";
@@ -8,22 +8,35 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { collection, addDoc, serverTimestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Customer } from "@/lib/types";
+import { Customer, PriceList } from "@/lib/types";
+import { PricingService } from "@/lib/services/pricingService";
+import { DEFAULT_PAYMENT_TERMS_DAYS } from "@/lib/utils/credit";
 
 export default function CreateCustomerPage() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
 
   const [formData, setFormData] = useState({
     name: "",
     phone: "",
     email: "",
     address: "",
+    creditLimit: "",
+    paymentTermsDays: "",
+    priceListId: "retail",
   });
 
+  useEffect(() => {
+    PricingService.getAllPriceLists()
+      .then((lists) => setPriceLists(lists.filter((priceList) => priceList.isActive)))
+      .catch((error) => console.error("Error fetching price lists:", error));
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -38,6 +51,10 @@ export default function CreateCustomerPage() {
         loyaltyPoints: 0,
         totalSpent: 0,
         totalDue: 0,
+        // Only include credit terms that were entered (Firestore doesn't allow undefined)
+        ...(formData.creditLimit !== "" ? { creditLimit: parseFloat(formData.creditLimit) } : {}),
+        ...(formData.paymentTermsDays !== "" ? { paymentTermsDays: parseInt(formData.paymentTermsDays) } : {}),
+        ...(formData.priceListId !== "retail" ? { priceListId: formData.priceListId } : {}),
         createdAt: serverTimestamp() as any,
         updatedAt: serverTimestamp() as any,
       };
@@ -116,6 +133,69 @@ export default function CreateCustomerPage() {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>Credit Terms</CardTitle>
+                <CardDescription>How much the customer may buy on credit and how long they have to pay</CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="creditLimit">Credit Limit (Rs)</Label>
+                  <Input
+                    id="creditLimit"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.creditLimit}
+                    onChange={(e) => setFormData({ ...formData, creditLimit: e.target.value })}
+                    placeholder="No limit"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="paymentTermsDays">Payment Terms (days)</Label>
+                  <Input
+                    id="paymentTermsDays"
+                    type="number"
+                    min="0"
+                    value={formData.paymentTermsDays}
+                    onChange={(e) => setFormData({ ...formData, paymentTermsDays: e.target.value })}
+                    placeholder={DEFAULT_PAYMENT_TERMS_DAYS.toString()}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {priceLists.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Pricing</CardTitle>
+                  <CardDescription>Prices the customer buys at, at the POS and in the store</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <Label>Price List</Label>
+                    <Select
+                      value={formData.priceListId}
+                      onValueChange={(value) => setFormData({ ...formData, priceListId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="retail">Retail</SelectItem>
+                        {priceLists.map((priceList) => (
+                          <SelectItem key={priceList.id} value={priceList.id}>
+                            {priceList.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {error && (
               <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
                 {error}
@@ -22,8 +22,11 @@ import { useAuth } from "@/contexts/AuthContext";
 import { usePermissions } from "@/lib/hooks/usePermissions";
 import { collection, getDocs, doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { DollarSign, Eye } from "lucide-react";
+import { BellRing, Copy, DollarSign, Eye, MessageSquare } from "lucide-react";
 import { TransactionDetailsDialog } from "@/components/admin/TransactionDetailsDialog";
+import { generateReminderMessage, getCreditTransactionDueDate, getOverdueCustomers } from "@/lib/utils/credit";
+import { printCreditPaymentReceipt } from "@/lib/utils/receiptGenerator";
+import Link from "next/link";
 
 export default function CustomerCreditsPage() {
   const { user } = useAuth();
@@ -35,6 +38,7 @@ export default function CustomerCreditsPage() {
   const [settlementAmount, setSettlementAmount] = useState("");
   const [settlementNotes, setSettlementNotes] = useState("");
   const [settlementPaymentMethod, setSettlementPaymentMethod] = useState<PaymentMethod>("CASH");
+  const [reminderCustomerId, setReminderCustomerId] = useState<string | null>(null);
   const [selectedTransaction, setSelectedTransaction] = useState<{
     id: string;
     type: "SALE" | "ORDER" | "LEDGER";
@@ -86,7 +90,7 @@ export default function CustomerCreditsPage() {
     }
 
     try {
-      await CreditService.settleCredit(
+      const payment = await CreditService.settleCredit(
         selectedCredit.id,
         amount,
         user.uid,
@@ -97,12 +101,28 @@ export default function CustomerCreditsPage() {
       setSettlementAmount("");
       setSettlementNotes("");
       fetchCredits();
-      alert("Credit settled successfully");
+      if (confirm(`Credit settled successfully. Receipt ${payment.receiptNumber}. Print receipt?`)) {
+        printCreditPaymentReceipt(payment, customers[selectedCredit.customerId]?.name || "");
+      }
     } catch (error: any) {
       alert(error.message || "Failed to settle credit");
     }
   };
 
+  const handleMarkReminded = async (customerId: string) => {
+    try {
+      await CreditService.recordReminder(customerId);
+      setReminderCustomerId(null);
+      fetchCredits();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to record reminder");
+    }
+  };
+
+  const overdueCustomers = getOverdueCustomers(credits, customers);
+  const reminderFor = overdueCustomers.find((overdue) => overdue.customer.id === reminderCustomerId);
+  const reminderMessage = reminderFor ? generateReminderMessage(reminderFor) : "";
+
   return (
     <ProtectedRoute requiredPermission={{ resource: "customers", action: "viewCredits" }}>
       <AdminLayout>
@@ -111,6 +131,88 @@ export default function CustomerCreditsPage() {
           <p className="text-gray-600 mt-2">View and settle customer outstanding dues</p>
         </div>
 
+        {overdueCustomers.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Overdue Reminders</CardTitle>
+              <CardDescription>Customers with credit past its due date, most overdue first</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Overdue</TableHead>
+                      <TableHead>Total Due</TableHead>
+                      <TableHead>Days Overdue</TableHead>
+                      <TableHead>Last Reminded</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {overdueCustomers.map((overdue) => (
+                      <TableRow key={overdue.customer.id}>
+                        <TableCell className="font-medium">
+                          <Link href={`/admin/customers/${overdue.customer.id}`} className="hover:underline">
+                            {overdue.customer.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{overdue.customer.phone}</TableCell>
+                        <TableCell className="text-red-600 font-semibold">
+                          Rs {overdue.overdueAmount.toFixed(2)}
+                        </TableCell>
+                        <TableCell>Rs {overdue.totalDue.toFixed(2)}</TableCell>
+                        <TableCell>{overdue.daysOverdue}</TableCell>
+                        <TableCell>
+                          {overdue.customer.lastReminderAt?.toDate().toLocaleDateString() || "Never"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              setReminderCustomerId(
+                                reminderCustomerId === overdue.customer.id ? null : overdue.customer.id
+                              )
+                            }
+                          >
+                            <BellRing className="mr-2 h-4 w-4" />
+                            Remind
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {reminderFor && (
+                <div className="border rounded p-4 space-y-3">
+                  <p className="font-medium">Reminder for {reminderFor.customer.name}</p>
+                  <p className="whitespace-pre-line text-sm bg-gray-50 rounded p-3">{reminderMessage}</p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(reminderMessage)}>
+                      <Copy className="mr-2 h-4 w-4" />
+                      Copy
+                    </Button>
+                    <a href={`sms:${reminderFor.customer.phone}?body=${encodeURIComponent(reminderMessage)}`}>
+                      <Button variant="outline" size="sm">
+                        <MessageSquare className="mr-2 h-4 w-4" />
+                        Send SMS
+                      </Button>
+                    </a>
+                    <Button size="sm" onClick={() => handleMarkReminded(reminderFor.customer.id)}>
+                      Mark as Reminded
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>Outstanding Credits</CardTitle>
@@ -134,6 +236,7 @@ export default function CustomerCreditsPage() {
                       <TableHead>Paid</TableHead>
                       <TableHead>Due</TableHead>
                       <TableHead>Date</TableHead>
+                      <TableHead>Due Date</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -156,6 +259,11 @@ export default function CustomerCreditsPage() {
                           <TableCell>
                             {credit.createdAt.toDate().toLocaleDateString()}
                           </TableCell>
+                          <TableCell
+                            className={getCreditTransactionDueDate(credit) < new Date() ? "text-red-600 font-medium" : ""}
+                          >
+                            {getCreditTransactionDueDate(credit).toLocaleDateString()}
+                          </TableCell>
                           <TableCell className="text-right">
                             <div className="flex items-center justify-end gap-2">
                               <Button
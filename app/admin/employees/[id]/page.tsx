@@ -10,9 +10,10 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { PermissionMatrix } from "@/components/admin/PermissionMatrix";
-import { doc, getDoc, updateDoc, serverTimestamp } from "firebase/firestore";
+import { doc, getDoc, updateDoc, serverTimestamp, deleteField } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { User, UserRole, EmployeePermissions } from "@/lib/types";
+import { User, UserRole, EmployeePermissions, Warehouse } from "@/lib/types";
+import { WarehouseService } from "@/lib/services/warehouseService";
 import { ArrowLeft, BarChart3, Edit, Save, X } from "lucide-react";
 import Link from "next/link";
 
@@ -27,8 +28,10 @@ export default function EmployeeDetailPage() {
     displayName: "",
     role: "staff" as UserRole,
     baseSalary: "",
+    assignedWarehouseId: "",
   });
   const [permissions, setPermissions] = useState<EmployeePermissions | null>(null);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
 
   const fetchEmployeeData = async () => {
     try {
@@ -43,6 +46,7 @@ export default function EmployeeDetailPage() {
           displayName: userData.displayName || "",
           role: userData.role || "staff",
           baseSalary: (userData.baseSalary || 0).toString(),
+          assignedWarehouseId: userData.assignedWarehouseId || "",
         });
         
         // Initialize permissions from userData or create default
@@ -58,6 +62,7 @@ export default function EmployeeDetailPage() {
               delete: false,
               viewCredits: false,
               settleCredits: false,
+              overrideCreditLimit: false,
             },
             employees: { view: false, create: false, update: false, delete: false },
             vendors: { view: false, create: false, update: false, delete: false },
@@ -103,6 +108,9 @@ export default function EmployeeDetailPage() {
     if (employeeId) {
       fetchEmployeeData();
     }
+    WarehouseService.getAllWarehouses()
+      .then((warehouseList) => setWarehouses(warehouseList.filter((w) => w.isActive)))
+      .catch((error) => console.error("Error fetching warehouses:", error));
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [employeeId]);
 
@@ -118,6 +126,7 @@ export default function EmployeeDetailPage() {
         role: formData.role,
         permissions,
         baseSalary: parseFloat(formData.baseSalary) || 0,
+        assignedWarehouseId: formData.assignedWarehouseId || deleteField(),
         status: employee.status || "ACTIVE",
         finance: employee.finance || {
           currentAdvance: 0,
@@ -241,6 +250,28 @@ export default function EmployeeDetailPage() {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="assignedWarehouse">Assigned Warehouse</Label>
+                      <Select
+                        value={formData.assignedWarehouseId || "none"}
+                        onValueChange={(value) =>
+                          setFormData({ ...formData, assignedWarehouseId: value === "none" ? "" : value })
+                        }
+                      >
+                        <SelectTrigger id="assignedWarehouse">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None (use warehouse priority)</SelectItem>
+                          {warehouses.map((warehouse) => (
+                            <SelectItem key={warehouse.id} value={warehouse.id}>
+                              {warehouse.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500">POS sales are fulfilled from this warehouse first</p>
+                    </div>
                   </>
                 ) : (
                   <>
@@ -256,6 +287,12 @@ export default function EmployeeDetailPage() {
                       <p className="text-sm text-gray-600">Role</p>
                       <p className="font-medium capitalize">{employee.role}</p>
                     </div>
+                    <div>
+                      <p className="text-sm text-gray-600">Assigned Warehouse</p>
+                      <p className="font-medium">
+                        {warehouses.find((w) => w.id === employee.assignedWarehouseId)?.name || "None"}
+                      </p>
+                    </div>
                   </>
                 )}
                 <div>
@@ -24,6 +24,7 @@ const defaultPermissions: EmployeePermissions = {
       delete: false,
       viewCredits: false,
       settleCredits: false,
+      overrideCreditLimit: false,
     },
     employees: { view: false, create: false, update: false, delete: false },
     vendors: { view: false, create: false, update: false, delete: false },
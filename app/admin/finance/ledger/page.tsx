@@ -29,6 +29,7 @@ import { TransactionDetailsDialog } from "@/components/admin/TransactionDetailsD
 import { db } from "@/lib/firebase";
 import { doc, getDoc } from "firebase/firestore";
 import { User } from "@/lib/types";
+import { hasReceivedGoods } from "@/lib/utils/purchaseOrder";
 
 type UnifiedTransaction = {
   id: string;
@@ -249,7 +250,7 @@ export default function LedgerPage() {
       });
 
       // Add purchase orders (received) as expenses
-      const receivedPOs = purchaseOrders.filter((po) => po.status === "RECEIVED");
+      const receivedPOs = purchaseOrders.filter(hasReceivedGoods);
       receivedPOs.forEach((po) => {
         // Use receivedBy if available, otherwise createdBy
         const performedBy = po.receivedBy || po.createdBy;
@@ -314,7 +315,7 @@ export default function LedgerPage() {
       );
 
       // Calculate expenses from actual purchase orders (received)
-      const receivedPOs = purchaseOrders.filter((po) => po.status === "RECEIVED");
+      const receivedPOs = purchaseOrders.filter(hasReceivedGoods);
       const purchaseOrderExpenses = receivedPOs.reduce(
         (sum, po) => sum + (po.receivedTotalAmount ?? po.totalAmount),
         0
@@ -21,13 +21,14 @@ import { OrderService } from "@/lib/services/orderService";
 import { VendorService } from "@/lib/services/vendorService";
 import { LedgerEntry, Sale, Order, PurchaseOrder } from "@/lib/types";
 import { usePermissions } from "@/lib/hooks/usePermissions";
-import { DollarSign, TrendingUp, TrendingDown, FileText, BarChart3, Calendar, Eye } from "lucide-react";
+import { DollarSign, TrendingUp, TrendingDown, FileText, BarChart3, Calendar, Eye, Percent, Layers } from "lucide-react";
 import { Timestamp } from "firebase/firestore";
 import Link from "next/link";
 import { TransactionDetailsDialog } from "@/components/admin/TransactionDetailsDialog";
 import { db } from "@/lib/firebase";
 import { doc, getDoc } from "firebase/firestore";
 import { User } from "@/lib/types";
+import { hasReceivedGoods } from "@/lib/utils/purchaseOrder";
 
 type UnifiedTransaction = {
   id: string;
@@ -131,7 +132,7 @@ export default function FinancePage() {
       );
 
       // Calculate expenses from actual purchase orders (received)
-      const receivedPOs = purchaseOrders.filter((po) => po.status === "RECEIVED");
+      const receivedPOs = purchaseOrders.filter(hasReceivedGoods);
       const purchaseOrderExpenses = receivedPOs.reduce(
         (sum, po) => sum + (po.receivedTotalAmount ?? po.totalAmount),
         0
@@ -448,6 +449,30 @@ export default function FinancePage() {
                 </CardHeader>
               </Card>
             </Link>
+
+            <Link href="/admin/settings/tax">
+              <Card className="cursor-pointer hover:shadow-lg transition-shadow">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Percent className="h-5 w-5" />
+                    Tax Settings
+                  </CardTitle>
+                  <CardDescription>VAT rates and whether prices include tax</CardDescription>
+                </CardHeader>
+              </Card>
+            </Link>
+
+            <Link href="/admin/settings/costing">
+              <Card className="cursor-pointer hover:shadow-lg transition-shadow">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Layers className="h-5 w-5" />
+                    Inventory Costing
+                  </CardTitle>
+                  <CardDescription>FIFO or weighted average cost of goods sold</CardDescription>
+                </CardHeader>
+              </Card>
+            </Link>
           </div>
 
           <Card>
@@ -22,11 +22,18 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { FinanceReportService } from "@/lib/services/financeReportService";
+import {
+  AgedPayablesReport,
+  AgedReceivablesReport,
+  FinanceReportService,
+  SalesReport,
+} from "@/lib/services/financeReportService";
+import { downloadCSV, toCSV } from "@/lib/utils/csv";
+import Link from "next/link";
 import { FileText, Download, TrendingUp, TrendingDown } from "lucide-react";
 
 export default function FinanceReportsPage() {
-  const [reportType, setReportType] = useState<"pl" | "cashflow" | "balance" | "sales" | "expense">("pl");
+  const [reportType, setReportType] = useState<"pl" | "cashflow" | "balance" | "sales" | "expense" | "vat" | "payables" | "receivables">("pl");
   const [startDate, setStartDate] = useState(() => {
     const date = new Date();
     date.setDate(1); // First day of current month
@@ -54,7 +61,7 @@ export default function FinanceReportsPage() {
           data = await FinanceReportService.generateCashFlow(start, end);
           break;
         case "balance":
-          data = await FinanceReportService.generateBalanceSheet();
+          data = await FinanceReportService.generateBalanceSheet(end);
           break;
         case "sales":
           data = await FinanceReportService.generateSalesReport(start, end);
@@ -62,6 +69,16 @@ export default function FinanceReportsPage() {
         case "expense":
           data = await FinanceReportService.generateExpenseReport(start, end);
           break;
+        case "vat":
+          data = await FinanceReportService.generateVATReport(start, end);
+          break;
+        case "payables":
+          // Vendor balances are only known as they stand today
+          data = await FinanceReportService.generateAgedPayables();
+          break;
+        case "receivables":
+          data = await FinanceReportService.generateAgedReceivables();
+          break;
       }
       setReportData(data);
       console.log("Report data generated:", reportType, data);
@@ -78,6 +95,27 @@ export default function FinanceReportsPage() {
     generateReport();
   }, [generateReport]);
 
+  const exportAgedReport = (report: AgedPayablesReport | AgedReceivablesReport) => {
+    const isPayables = "vendors" in report;
+    const rows = (isPayables ? report.vendors : report.customers).map((row) => [
+      "vendorName" in row ? row.vendorName : row.customerName,
+      row.current.toFixed(2),
+      row.days31to60.toFixed(2),
+      row.days61to90.toFixed(2),
+      row.over90.toFixed(2),
+      row.total.toFixed(2),
+    ]);
+    const { totals } = report;
+    downloadCSV(
+      `aged-${isPayables ? "payables" : "receivables"}-${report.asOf.toISOString().split("T")[0]}.csv`,
+      toCSV([
+        [isPayables ? "Vendor" : "Customer", "0-30 days", "31-60 days", "61-90 days", "90+ days", "Total"],
+        ...rows,
+        ["Total", totals.current.toFixed(2), totals.days31to60.toFixed(2), totals.days61to90.toFixed(2), totals.over90.toFixed(2), totals.total.toFixed(2)],
+      ])
+    );
+  };
+
   return (
     <ProtectedRoute requiredPermission={{ resource: "finance", action: "view" }}>
       <AdminLayout>
@@ -106,6 +144,9 @@ export default function FinanceReportsPage() {
                       <SelectItem value="balance">Balance Sheet</SelectItem>
                       <SelectItem value="sales">Sales Report</SelectItem>
                       <SelectItem value="expense">Expense Report</SelectItem>
+                      <SelectItem value="vat">VAT Report</SelectItem>
+                      <SelectItem value="payables">Aged Payables</SelectItem>
+                      <SelectItem value="receivables">Aged Receivables</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -181,12 +222,12 @@ export default function FinanceReportsPage() {
                       </div>
                       <div className="mt-4 space-y-2 text-sm">
                         <div className="flex justify-between">
-                          <span>Purchases:</span>
-                          <span>Rs {(reportData.expenseBreakdown?.purchases ?? 0).toFixed(2)}</span>
+                          <span>Cost of Goods Sold:</span>
+                          <span>Rs {(reportData.expenseBreakdown?.costOfGoods ?? 0).toFixed(2)}</span>
                         </div>
                         <div className="flex justify-between">
-                          <span>Vendor Payments:</span>
-                          <span>Rs {(reportData.expenseBreakdown?.vendorPayments ?? 0).toFixed(2)}</span>
+                          <span>Purchases & Supplies:</span>
+                          <span>Rs {(reportData.expenseBreakdown?.purchases ?? 0).toFixed(2)}</span>
                         </div>
                         <div className="flex justify-between">
                           <span>Salaries:</span>
@@ -261,10 +302,6 @@ export default function FinanceReportsPage() {
                           <span>Cheque:</span>
                           <span>Rs {(reportData.cashInBreakdown?.cheque || 0).toFixed(2)}</span>
                         </div>
-                        <div className="flex justify-between">
-                          <span>Credit:</span>
-                          <span>Rs {(reportData.cashInBreakdown?.credit || 0).toFixed(2)}</span>
-                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -294,10 +331,6 @@ export default function FinanceReportsPage() {
                           <span>Cheque:</span>
                           <span>Rs {(reportData.cashOutBreakdown?.cheque || 0).toFixed(2)}</span>
                         </div>
-                        <div className="flex justify-between">
-                          <span>Credit:</span>
-                          <span>Rs {(reportData.cashOutBreakdown?.credit || 0).toFixed(2)}</span>
-                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -310,6 +343,16 @@ export default function FinanceReportsPage() {
                       <div className={`text-3xl font-bold ${(reportData.netCashFlow || 0) >= 0 ? "text-green-600" : "text-red-600"}`}>
                         Rs {(reportData.netCashFlow || 0).toFixed(2)}
                       </div>
+                      <div className="mt-4 space-y-2 text-sm">
+                        <div className="flex justify-between">
+                          <span>Opening Balance:</span>
+                          <span>Rs {(reportData.openingBalance || 0).toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between font-semibold">
+                          <span>Closing Balance:</span>
+                          <span>Rs {(reportData.closingBalance || 0).toFixed(2)}</span>
+                        </div>
+                      </div>
                     </CardContent>
                   </Card>
                 </div>
@@ -335,6 +378,10 @@ export default function FinanceReportsPage() {
                           <span>Receivables:</span>
                           <span>Rs {(reportData.assets?.receivables || 0).toFixed(2)}</span>
                         </div>
+                        <div className="flex justify-between">
+                          <span>Employee Advances:</span>
+                          <span>Rs {(reportData.assets?.advances || 0).toFixed(2)}</span>
+                        </div>
                         <div className="flex justify-between font-bold border-t pt-2">
                           <span>Total Assets:</span>
                           <span>Rs {(reportData.assets?.total || 0).toFixed(2)}</span>
@@ -369,8 +416,18 @@ export default function FinanceReportsPage() {
                       <div className={`text-3xl font-bold ${(reportData.equity || 0) >= 0 ? "text-green-600" : "text-red-600"}`}>
                         Rs {(reportData.equity || 0).toFixed(2)}
                       </div>
+                      <div className="mt-4 space-y-2 text-sm">
+                        <div className="flex justify-between">
+                          <span>Capital:</span>
+                          <span>Rs {(reportData.equityBreakdown?.capital || 0).toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Retained Earnings:</span>
+                          <span>Rs {(reportData.equityBreakdown?.retainedEarnings || 0).toFixed(2)}</span>
+                        </div>
+                      </div>
                       <p className="text-sm text-gray-600 mt-2">
-                        Assets - Liabilities
+                        As of {endDate} · Assets = Liabilities + Equity
                       </p>
                     </CardContent>
                   </Card>
@@ -448,6 +505,45 @@ export default function FinanceReportsPage() {
                     </CardContent>
                   </Card>
 
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Sales by Category</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Category</TableHead>
+                            <TableHead className="text-right">Revenue</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {reportData.salesByCategory && reportData.salesByCategory.length > 0 ? (
+                            reportData.salesByCategory.map((item: SalesReport["salesByCategory"][number]) => (
+                              <TableRow key={item.categoryId || item.categoryName}>
+                                <TableCell>
+                                  <span
+                                    style={{ paddingLeft: `${item.depth * 1.5}rem` }}
+                                    className={item.depth === 0 ? "font-medium" : ""}
+                                  >
+                                    {item.categoryName}
+                                  </span>
+                                </TableCell>
+                                <TableCell className="text-right">Rs {(item.revenue || 0).toFixed(2)}</TableCell>
+                              </TableRow>
+                            ))
+                          ) : (
+                            <TableRow>
+                              <TableCell colSpan={2} className="text-center text-gray-500">
+                                No sales data available
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+
                   <Card>
                     <CardHeader>
                       <CardTitle>Top Customers</CardTitle>
@@ -572,6 +668,218 @@ export default function FinanceReportsPage() {
                   </Card>
                 </div>
               )}
+
+              {reportType === "payables" && reportData.vendors && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <CardTitle>Aged Payables</CardTitle>
+                        <CardDescription>
+                          What is owed to each vendor as of {reportData.asOf.toLocaleDateString()}, by age of the deliveries
+                        </CardDescription>
+                      </div>
+                      <Button variant="outline" onClick={() => exportAgedReport(reportData)}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Export CSV
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Vendor</TableHead>
+                          <TableHead className="text-right">0-30 days</TableHead>
+                          <TableHead className="text-right">31-60 days</TableHead>
+                          <TableHead className="text-right">61-90 days</TableHead>
+                          <TableHead className="text-right">90+ days</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {reportData.vendors.length > 0 ? (
+                          reportData.vendors.map((row: AgedPayablesReport["vendors"][number]) => (
+                            <TableRow key={row.vendorId}>
+                              <TableCell className="font-medium">
+                                <Link href={`/admin/vendors/${row.vendorId}/statement`} className="hover:underline">
+                                  {row.vendorName}
+                                </Link>
+                              </TableCell>
+                              <TableCell className="text-right">Rs {row.current.toFixed(2)}</TableCell>
+                              <TableCell className="text-right">Rs {row.days31to60.toFixed(2)}</TableCell>
+                              <TableCell className="text-right">Rs {row.days61to90.toFixed(2)}</TableCell>
+                              <TableCell className="text-right text-red-600">Rs {row.over90.toFixed(2)}</TableCell>
+                              <TableCell className="text-right font-medium">Rs {row.total.toFixed(2)}</TableCell>
+                            </TableRow>
+                          ))
+                        ) : (
+                          <TableRow>
+                            <TableCell colSpan={6} className="text-center text-gray-500">
+                              Nothing is owed to vendors
+                            </TableCell>
+                          </TableRow>
+                        )}
+                        {reportData.vendors.length > 0 && (
+                          <TableRow className="font-bold">
+                            <TableCell>Total</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.current.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.days31to60.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.days61to90.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.over90.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.total.toFixed(2)}</TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+
+              {reportType === "receivables" && reportData.customers && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <CardTitle>Aged Receivables</CardTitle>
+                        <CardDescription>
+                          What each customer owes on credit as of {reportData.asOf.toLocaleDateString()}, by age of the sale
+                        </CardDescription>
+                      </div>
+                      <Button variant="outline" onClick={() => exportAgedReport(reportData)}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Export CSV
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Customer</TableHead>
+                          <TableHead className="text-right">Credit Limit</TableHead>
+                          <TableHead className="text-right">0-30 days</TableHead>
+                          <TableHead className="text-right">31-60 days</TableHead>
+                          <TableHead className="text-right">61-90 days</TableHead>
+                          <TableHead className="text-right">90+ days</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {reportData.customers.length > 0 ? (
+                          reportData.customers.map((row: AgedReceivablesReport["customers"][number]) => (
+                            <TableRow key={row.customerId}>
+                              <TableCell className="font-medium">
+                                <Link href={`/admin/customers/${row.customerId}`} className="hover:underline">
+                                  {row.customerName}
+                                </Link>
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {row.creditLimit !== undefined ? `Rs ${row.creditLimit.toFixed(2)}` : "-"}
+                              </TableCell>
+                              <TableCell className="text-right">Rs {row.current.toFixed(2)}</TableCell>
+                              <TableCell className="text-right">Rs {row.days31to60.toFixed(2)}</TableCell>
+                              <TableCell className="text-right">Rs {row.days61to90.toFixed(2)}</TableCell>
+                              <TableCell className="text-right text-red-600">Rs {row.over90.toFixed(2)}</TableCell>
+                              <TableCell
+                                className={`text-right font-medium ${
+                                  row.creditLimit !== undefined && row.total > row.creditLimit ? "text-red-600" : ""
+                                }`}
+                              >
+                                Rs {row.total.toFixed(2)}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        ) : (
+                          <TableRow>
+                            <TableCell colSpan={7} className="text-center text-gray-500">
+                              No customer owes anything on credit
+                            </TableCell>
+                          </TableRow>
+                        )}
+                        {reportData.customers.length > 0 && (
+                          <TableRow className="font-bold">
+                            <TableCell colSpan={2}>Total</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.current.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.days31to60.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.days61to90.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.over90.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">Rs {reportData.totals.total.toFixed(2)}</TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+
+              {reportType === "vat" && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Output Tax</CardTitle>
+                      <CardDescription>Collected on sales</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-3xl font-bold">
+                        Rs {(reportData.outputTax || 0).toFixed(2)}
+                      </div>
+                      <div className="mt-4 space-y-2 text-sm">
+                        <div className="flex justify-between">
+                          <span>POS Sales:</span>
+                          <span>Rs {(reportData.outputBreakdown?.sales || 0).toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Online Orders:</span>
+                          <span>Rs {(reportData.outputBreakdown?.orders || 0).toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Returns:</span>
+                          <span>-Rs {(reportData.outputBreakdown?.returns || 0).toFixed(2)}</span>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Input Tax</CardTitle>
+                      <CardDescription>Paid on purchases</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-3xl font-bold">
+                        Rs {(reportData.inputTax || 0).toFixed(2)}
+                      </div>
+                      <div className="mt-4 space-y-2 text-sm">
+                        <div className="flex justify-between">
+                          <span>Purchases:</span>
+                          <span>Rs {(reportData.inputBreakdown?.purchases || 0).toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Purchase Returns:</span>
+                          <span>-Rs {(reportData.inputBreakdown?.returns || 0).toFixed(2)}</span>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>{reportData.netPayable >= 0 ? "VAT Payable" : "VAT Refundable"}</CardTitle>
+                      <CardDescription>Output tax less input tax</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div
+                        className={`text-3xl font-bold ${
+                          reportData.netPayable >= 0 ? "text-red-600" : "text-green-600"
+                        }`}
+                      >
+                        Rs {Math.abs(reportData.netPayable || 0).toFixed(2)}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
             </div>
           ) : (
             <Card>
@@ -0,0 +1,404 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CategoryService } from "@/lib/services/categoryService";
+import { ImageService } from "@/lib/services/imageService";
+import { Category } from "@/lib/types";
+import { usePermissions } from "@/lib/hooks/usePermissions";
+import { flattenCategoryTree, getDescendantCategoryIds, slugify } from "@/lib/utils/categories";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+type CategoryForm = {
+  name: string;
+  slug: string;
+  parentId: string; // "none" for a top-level category
+  description: string;
+  sortOrder: string;
+};
+
+const EMPTY_FORM: CategoryForm = { name: "", slug: "", parentId: "none", description: "", sortOrder: "" };
+
+interface CategoryFieldsProps {
+  idPrefix: string;
+  form: CategoryForm;
+  onChange: (form: CategoryForm) => void;
+  parentOptions: Array<{ category: Category; depth: number }>;
+  onImageChange: (file: File | null) => void;
+}
+
+function CategoryFields({ idPrefix, form, onChange, parentOptions, onImageChange }: CategoryFieldsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-name`}>Category Name</Label>
+          <Input
+            id={`${idPrefix}-name`}
+            value={form.name}
+            onChange={(e) => onChange({ ...form, name: e.target.value })}
+            required
+            placeholder="Pressure Cookers"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-slug`}>Slug</Label>
+          <Input
+            id={`${idPrefix}-slug`}
+            value={form.slug}
+            onChange={(e) => onChange({ ...form, slug: e.target.value })}
+            placeholder={slugify(form.name) || "pressure-cookers"}
+          />
+          <p className="text-xs text-gray-500">Used in the storefront address: /store/category/slug</p>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Parent Category</Label>
+          <Select value={form.parentId} onValueChange={(value) => onChange({ ...form, parentId: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None (top level)</SelectItem>
+              {parentOptions.map(({ category, depth }) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {"  ".repeat(depth)}
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-sortOrder`}>Sort Order</Label>
+          <Input
+            id={`${idPrefix}-sortOrder`}
+            type="number"
+            value={form.sortOrder}
+            onChange={(e) => onChange({ ...form, sortOrder: e.target.value })}
+            placeholder="0"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+        <Input
+          id={`${idPrefix}-description`}
+          value={form.description}
+          onChange={(e) => onChange({ ...form, description: e.target.value })}
+          placeholder="Shown on the category's storefront page"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-image`}>Image</Label>
+        <Input
+          id={`${idPrefix}-image`}
+          type="file"
+          accept="image/*"
+          onChange={(e) => {
+            const file = e.target.files?.[0] || null;
+            if (file) {
+              const validation = ImageService.validateImage(file);
+              if (!validation.valid) {
+                alert(validation.error || "Invalid image");
+                e.target.value = "";
+                return;
+              }
+            }
+            onImageChange(file);
+          }}
+        />
+      </div>
+    </>
+  );
+}
+
+export default function CategoriesPage() {
+  const { hasPermission } = usePermissions();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [formData, setFormData] = useState<CategoryForm>(EMPTY_FORM);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [editFormData, setEditFormData] = useState<CategoryForm>(EMPTY_FORM);
+  const [editImageFile, setEditImageFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      setCategories(await CategoryService.getAllCategories());
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const tree = flattenCategoryTree(categories);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await CategoryService.createCategory(
+        {
+          name: formData.name.trim(),
+          slug: formData.slug.trim() || undefined,
+          parentId: formData.parentId !== "none" ? formData.parentId : undefined,
+          description: formData.description.trim() || undefined,
+          sortOrder: formData.sortOrder ? parseInt(formData.sortOrder) : undefined,
+          isActive: true,
+        },
+        imageFile || undefined
+      );
+      setFormData(EMPTY_FORM);
+      setImageFile(null);
+      setShowCreateForm(false);
+      fetchCategories();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to create category");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category);
+    setEditImageFile(null);
+    setEditFormData({
+      name: category.name,
+      slug: category.slug,
+      parentId: category.parentId || "none",
+      description: category.description || "",
+      sortOrder: category.sortOrder !== undefined ? category.sortOrder.toString() : "",
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingCategory) return;
+
+    setSaving(true);
+    try {
+      await CategoryService.updateCategory(
+        editingCategory.id,
+        {
+          name: editFormData.name.trim(),
+          slug: editFormData.slug.trim(),
+          isActive: editingCategory.isActive,
+          parentId: editFormData.parentId !== "none" ? editFormData.parentId : undefined,
+          description: editFormData.description.trim() || undefined,
+          sortOrder: editFormData.sortOrder ? parseInt(editFormData.sortOrder) : undefined,
+        },
+        editImageFile || undefined
+      );
+      setEditingCategory(null);
+      fetchCategories();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to update category");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (category: Category) => {
+    try {
+      await CategoryService.updateCategory(category.id, { ...category, isActive: !category.isActive });
+      fetchCategories();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to update category");
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Are you sure you want to delete "${category.name}"?`)) return;
+    try {
+      await CategoryService.deleteCategory(category.id);
+      fetchCategories();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to delete category");
+    }
+  };
+
+  // A category can't be moved under itself or its own subcategories
+  const editParentOptions = editingCategory
+    ? tree.filter(({ category }) => !getDescendantCategoryIds(editingCategory.id, categories).includes(category.id))
+    : tree;
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+      <AdminLayout>
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold">Categories</h1>
+            <p className="text-gray-600 mt-2">Organise products for the storefront and reports</p>
+          </div>
+          {hasPermission("inventory", "create") && (
+            <Button onClick={() => setShowCreateForm(!showCreateForm)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Category
+            </Button>
+          )}
+        </div>
+
+        {showCreateForm && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Create New Category</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <CategoryFields
+                  idPrefix="create"
+                  form={formData}
+                  onChange={setFormData}
+                  parentOptions={tree}
+                  onImageChange={setImageFile}
+                />
+                <div className="flex gap-4">
+                  <Button type="submit" disabled={saving}>
+                    {saving ? "Creating..." : "Create"}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Category Tree</CardTitle>
+            <CardDescription>Subcategories are listed under their parent</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">Loading...</div>
+            ) : categories.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No categories found. Create your first category to get started.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Slug</TableHead>
+                      <TableHead>Sort Order</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tree.map(({ category, depth }) => (
+                      <TableRow key={category.id}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-3" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                            {category.imageUrl && (
+                              <Image
+                                src={category.imageUrl}
+                                alt={category.name}
+                                width={32}
+                                height={32}
+                                unoptimized
+                                className="h-8 w-8 object-cover rounded"
+                              />
+                            )}
+                            {category.name}
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{category.slug}</TableCell>
+                        <TableCell>{category.sortOrder ?? 0}</TableCell>
+                        <TableCell>
+                          <span className={category.isActive ? "text-green-600" : "text-gray-400"}>
+                            {category.isActive ? "Active" : "Inactive"}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex gap-2 justify-end">
+                            {hasPermission("inventory", "update") && (
+                              <>
+                                <Button variant="outline" size="sm" onClick={() => handleEdit(category)}>
+                                  <Edit className="mr-2 h-4 w-4" />
+                                  Edit
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={() => handleToggleActive(category)}>
+                                  {category.isActive ? "Deactivate" : "Activate"}
+                                </Button>
+                              </>
+                            )}
+                            {hasPermission("inventory", "delete") && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDelete(category)}
+                                className="text-red-600 hover:text-red-700"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={editingCategory !== null} onOpenChange={(open) => !open && setEditingCategory(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit Category</DialogTitle>
+              <DialogDescription>Renaming a category renames it on its products too</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleUpdate} className="space-y-4">
+              <CategoryFields
+                idPrefix="edit"
+                form={editFormData}
+                onChange={setEditFormData}
+                parentOptions={editParentOptions}
+                onImageChange={setEditImageFile}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingCategory(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Updating..." : "Update"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,424 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  PromotionFields,
+  PromotionForm,
+  emptyPromotionForm,
+  formToPromotion,
+  promotionToForm,
+} from "@/components/admin/PromotionFields";
+import {
+  EMPTY_PRICE_LIST_FORM,
+  PriceListFields,
+  PriceListForm,
+  formToPriceList,
+  priceListToForm,
+} from "@/components/admin/PriceListFields";
+import { PricingService } from "@/lib/services/pricingService";
+import { ProductService } from "@/lib/services/productService";
+import { CategoryService } from "@/lib/services/categoryService";
+import { Category, PriceList, Product, Promotion } from "@/lib/types";
+import { usePermissions } from "@/lib/hooks/usePermissions";
+import { getCategoryLabel } from "@/lib/utils/categories";
+import { describePromotion, isPromotionRunning } from "@/lib/utils/pricing";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+function getPromotionStatus(promotion: Promotion): { label: string; className: string } {
+  if (!promotion.isActive) return { label: "Off", className: "text-gray-400" };
+  if (isPromotionRunning(promotion)) return { label: "Running", className: "text-green-600" };
+  return promotion.startsAt.toMillis() > Date.now()
+    ? { label: "Scheduled", className: "text-blue-600" }
+    : { label: "Ended", className: "text-gray-400" };
+}
+
+export default function PricingPage() {
+  const { hasPermission } = usePermissions();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // null: dialog closed, "new": creating, otherwise the one being edited
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | "new" | null>(null);
+  const [promotionForm, setPromotionForm] = useState<PromotionForm>(emptyPromotionForm());
+  const [editingPriceList, setEditingPriceList] = useState<PriceList | "new" | null>(null);
+  const [priceListForm, setPriceListForm] = useState<PriceListForm>(EMPTY_PRICE_LIST_FORM);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [promotionList, priceListList, productList, categoryList] = await Promise.all([
+        PricingService.getAllPromotions(),
+        PricingService.getAllPriceLists(),
+        ProductService.getAllProducts(),
+        CategoryService.getAllCategories(),
+      ]);
+      setPromotions(promotionList);
+      setPriceLists(priceListList);
+      setProducts(productList);
+      setCategories(categoryList);
+    } catch (error) {
+      console.error("Error fetching pricing:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeCoverage = (promotion: Promotion) => {
+    if (promotion.scope === "CART") {
+      return promotion.minSubtotal ? `Carts over Rs ${promotion.minSubtotal.toFixed(2)}` : "Whole cart";
+    }
+    const names =
+      promotion.scope === "PRODUCT"
+        ? (promotion.productIds || []).map((id) => products.find((p) => p.id === id)?.name || "Deleted product")
+        : (promotion.categoryIds || []).map((id) => getCategoryLabel(id, categories) || "Deleted category");
+    return names.length > 3 ? `${names.slice(0, 3).join(", ")} and ${names.length - 3} more` : names.join(", ");
+  };
+
+  const openPromotion = (promotion: Promotion | "new") => {
+    setEditingPromotion(promotion);
+    setPromotionForm(promotion === "new" ? emptyPromotionForm() : promotionToForm(promotion));
+  };
+
+  const handleSavePromotion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingPromotion) return;
+
+    setSaving(true);
+    try {
+      if (editingPromotion === "new") {
+        await PricingService.createPromotion(formToPromotion(promotionForm, true));
+      } else {
+        await PricingService.updatePromotion(
+          editingPromotion.id,
+          formToPromotion(promotionForm, editingPromotion.isActive)
+        );
+      }
+      setEditingPromotion(null);
+      fetchData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to save promotion");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePromotion = async (promotion: Promotion) => {
+    try {
+      await PricingService.setPromotionActive(promotion.id, !promotion.isActive);
+      fetchData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to update promotion");
+    }
+  };
+
+  const handleDeletePromotion = async (promotion: Promotion) => {
+    if (!confirm(`Are you sure you want to delete "${promotion.name}"?`)) return;
+    try {
+      await PricingService.deletePromotion(promotion.id);
+      fetchData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to delete promotion");
+    }
+  };
+
+  const openPriceList = (priceList: PriceList | "new") => {
+    setEditingPriceList(priceList);
+    setPriceListForm(priceList === "new" ? EMPTY_PRICE_LIST_FORM : priceListToForm(priceList));
+  };
+
+  const handleSavePriceList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingPriceList) return;
+
+    setSaving(true);
+    try {
+      if (editingPriceList === "new") {
+        await PricingService.createPriceList(formToPriceList(priceListForm, true));
+      } else {
+        await PricingService.updatePriceList(
+          editingPriceList.id,
+          formToPriceList(priceListForm, editingPriceList.isActive)
+        );
+      }
+      setEditingPriceList(null);
+      fetchData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to save price list");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePriceList = async (priceList: PriceList) => {
+    try {
+      await PricingService.updatePriceList(priceList.id, { ...priceList, isActive: !priceList.isActive });
+      fetchData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to update price list");
+    }
+  };
+
+  const handleDeletePriceList = async (priceList: PriceList) => {
+    if (!confirm(`Are you sure you want to delete "${priceList.name}"?`)) return;
+    try {
+      await PricingService.deletePriceList(priceList.id);
+      fetchData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to delete price list");
+    }
+  };
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+      <AdminLayout>
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold">Pricing</h1>
+          <p className="text-gray-600 mt-2">Promotions and customer price lists, used at the POS and in the store</p>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <CardTitle>Promotions</CardTitle>
+                  <CardDescription>
+                    Promotions don&apos;t stack - each item gets the one that saves the most, and one cart promotion
+                    can come off on top
+                  </CardDescription>
+                </div>
+                {hasPermission("inventory", "create") && (
+                  <Button onClick={() => openPromotion("new")}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Promotion
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">Loading...</div>
+              ) : promotions.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No promotions yet.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Offer</TableHead>
+                        <TableHead>Covers</TableHead>
+                        <TableHead>Runs</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {promotions.map((promotion) => {
+                        const status = getPromotionStatus(promotion);
+                        return (
+                          <TableRow key={promotion.id}>
+                            <TableCell className="font-medium">{promotion.name}</TableCell>
+                            <TableCell>{describePromotion(promotion)}</TableCell>
+                            <TableCell className="text-sm">{describeCoverage(promotion)}</TableCell>
+                            <TableCell className="text-sm">
+                              {promotion.startsAt.toDate().toLocaleString()}
+                              <br />
+                              {promotion.endsAt ? `to ${promotion.endsAt.toDate().toLocaleString()}` : "until switched off"}
+                            </TableCell>
+                            <TableCell>
+                              <span className={status.className}>{status.label}</span>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex gap-2 justify-end">
+                                {hasPermission("inventory", "update") && (
+                                  <>
+                                    <Button variant="outline" size="sm" onClick={() => openPromotion(promotion)}>
+                                      <Edit className="mr-2 h-4 w-4" />
+                                      Edit
+                                    </Button>
+                                    <Button variant="outline" size="sm" onClick={() => handleTogglePromotion(promotion)}>
+                                      {promotion.isActive ? "Switch Off" : "Switch On"}
+                                    </Button>
+                                  </>
+                                )}
+                                {hasPermission("inventory", "delete") && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleDeletePromotion(promotion)}
+                                    className="text-red-600 hover:text-red-700"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <CardTitle>Price Lists</CardTitle>
+                  <CardDescription>
+                    Customers without a price list pay retail; assign lists from the customer&apos;s page
+                  </CardDescription>
+                </div>
+                {hasPermission("inventory", "create") && (
+                  <Button onClick={() => openPriceList("new")}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Price List
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">Loading...</div>
+              ) : priceLists.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No price lists yet - everyone pays retail.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Off Retail</TableHead>
+                        <TableHead>Product Prices</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {priceLists.map((priceList) => (
+                        <TableRow key={priceList.id}>
+                          <TableCell className="font-medium">
+                            {priceList.name}
+                            {priceList.description && (
+                              <p className="text-xs text-gray-500 font-normal">{priceList.description}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>{priceList.discountPercent ? `${priceList.discountPercent}%` : "-"}</TableCell>
+                          <TableCell>{Object.keys(priceList.prices).length}</TableCell>
+                          <TableCell>
+                            <span className={priceList.isActive ? "text-green-600" : "text-gray-400"}>
+                              {priceList.isActive ? "Active" : "Inactive"}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex gap-2 justify-end">
+                              {hasPermission("inventory", "update") && (
+                                <>
+                                  <Button variant="outline" size="sm" onClick={() => openPriceList(priceList)}>
+                                    <Edit className="mr-2 h-4 w-4" />
+                                    Edit
+                                  </Button>
+                                  <Button variant="outline" size="sm" onClick={() => handleTogglePriceList(priceList)}>
+                                    {priceList.isActive ? "Deactivate" : "Activate"}
+                                  </Button>
+                                </>
+                              )}
+                              {hasPermission("inventory", "delete") && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleDeletePriceList(priceList)}
+                                  className="text-red-600 hover:text-red-700"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Dialog open={editingPromotion !== null} onOpenChange={(open) => !open && setEditingPromotion(null)}>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingPromotion === "new" ? "New Promotion" : "Edit Promotion"}</DialogTitle>
+              <DialogDescription>Sales already made keep the prices they were rung up at</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSavePromotion} className="space-y-4">
+              <PromotionFields
+                idPrefix="promotion"
+                form={promotionForm}
+                onChange={setPromotionForm}
+                products={products}
+                categories={categories}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingPromotion(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={editingPriceList !== null} onOpenChange={(open) => !open && setEditingPriceList(null)}>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingPriceList === "new" ? "New Price List" : "Edit Price List"}</DialogTitle>
+              <DialogDescription>Prices customers on this list buy at, before promotions</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSavePriceList} className="space-y-4">
+              <PriceListFields
+                idPrefix="price-list"
+                form={priceListForm}
+                onChange={setPriceListForm}
+                products={products}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingPriceList(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
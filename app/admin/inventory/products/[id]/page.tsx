@@ -10,8 +10,26 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ProductService } from "@/lib/services/productService";
 import { ImageService } from "@/lib/services/imageService";
+import { TaxService } from "@/lib/services/taxService";
+import { VendorService } from "@/lib/services/vendorService";
+import { ProductTaxFields, ProductTaxMode } from "@/components/admin/ProductTaxFields";
+import { ProductCategoryField } from "@/components/admin/ProductCategoryField";
+import {
+  AttributeRow,
+  ProductAttributesFields,
+  attributesToRows,
+  rowsToAttributes,
+} from "@/components/admin/ProductAttributesFields";
+import {
+  BundleRow,
+  ProductBundleFields,
+  bundleItemsToRows,
+  rowsToBundleItems,
+} from "@/components/admin/ProductBundleFields";
+import { CategoryService } from "@/lib/services/categoryService";
+import { getCategoryLabel } from "@/lib/utils/categories";
 import { PrinterService, ESCPOSCommands } from "@/lib/services/printerService";
-import { Product, Warehouse } from "@/lib/types";
+import { Category, Product, StockMovementType, TaxSettings, Vendor, Warehouse } from "@/lib/types";
 import { usePermissions } from "@/lib/hooks/usePermissions";
 import { collection, getDocs } from "firebase/firestore";
 import { db } from "@/lib/firebase";
@@ -20,14 +38,24 @@ import QRCode from "react-qr-code";
 import { parseQRData } from "@/lib/utils/qrCode";
 import Link from "next/link";
 import { ProductPOHistoryDialog } from "@/components/admin/ProductPOHistoryDialog";
+import { ProductStockCard } from "@/components/admin/ProductStockCard";
+import { ProductVariantsCard } from "@/components/admin/ProductVariantsCard";
+import { getVariantLabel, hasVariants } from "@/lib/utils/variants";
+import { getBundleAvailableStock, isBundle, validateBundleItems } from "@/lib/utils/bundles";
+import { getTotalAvailableStock } from "@/lib/utils/stockAllocation";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
 
 export default function ProductDetailPage() {
   const params = useParams();
   const router = useRouter();
   const productId = params.id as string;
   const { hasPermission } = usePermissions();
+  const { user } = useAuth();
   const [product, setProduct] = useState<Product | null>(null);
+  const [parentProduct, setParentProduct] = useState<Product | null>(null);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
   const [loading, setLoading] = useState(true);
   const [editing, setEditing] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -42,19 +70,43 @@ export default function ProductDetailPage() {
     sku: "",
     description: "",
     category: "",
+    categoryId: "",
     price: "",
     costPrice: "",
     discount: "",
+    taxRateId: "default",
+    taxMode: "default" as ProductTaxMode,
+    preferredVendorId: "none",
   });
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [attributeRows, setAttributeRows] = useState<AttributeRow[]>([]);
+  const [bundleRows, setBundleRows] = useState<BundleRow[]>([]);
+  const [allProducts, setAllProducts] = useState<Product[]>([]);
 
   const [warehouseData, setWarehouseData] = useState<
-    Record<string, { quantity: string; position: string; minQuantity: string }>
+    Record<string, { quantity: string; position: string; minQuantity: string; maxQuantity?: string }>
   >({});
+  // Why quantities changed while editing - recorded on the stock movements
+  const [stockChangeType, setStockChangeType] = useState<Extract<StockMovementType, "ADJUSTMENT" | "WRITE_OFF">>(
+    "ADJUSTMENT"
+  );
+  const [stockChangeReason, setStockChangeReason] = useState("");
 
   useEffect(() => {
     if (productId) {
       fetchProductData();
       fetchWarehouses();
+      TaxService.getTaxSettings().then(setTaxSettings);
+      CategoryService.getAllCategories()
+        .then(setCategories)
+        .catch((error) => console.error("Error fetching categories:", error));
+      VendorService.getAllVendors()
+        .then(setVendors)
+        .catch((error) => console.error("Error fetching vendors:", error));
+      ProductService.getAllProducts()
+        .then(setAllProducts)
+        .catch((error) => console.error("Error fetching products:", error));
     }
   }, [productId]);
 
@@ -63,24 +115,36 @@ export default function ProductDetailPage() {
       const productData = await ProductService.getProduct(productId);
       if (productData) {
         setProduct(productData);
+        setParentProduct(
+          productData.parentProductId ? await ProductService.getProduct(productData.parentProductId) : null
+        );
         setFormData({
           name: productData.name,
           sku: productData.sku,
           description: productData.description || "",
           category: productData.category,
+          categoryId: productData.categoryId || "",
           price: productData.price.toString(),
           costPrice: productData.costPrice?.toString() || "",
           discount: productData.discount?.toString() || "",
+          taxRateId: productData.taxRateId || "default",
+          taxMode:
+            productData.taxInclusive === undefined ? "default" : productData.taxInclusive ? "inclusive" : "exclusive",
+          preferredVendorId: productData.preferredVendorId || "none",
         });
+        setAttributeRows(attributesToRows(productData.attributes));
+        setBundleRows(bundleItemsToRows(productData.bundleItems));
 
         // Initialize warehouse data
-        const whData: Record<string, { quantity: string; position: string; minQuantity: string }> = {};
+        const whData: Record<string, { quantity: string; position: string; minQuantity: string; maxQuantity?: string }> =
+          {};
         Object.keys(productData.warehouses).forEach((whId) => {
           const wh = productData.warehouses[whId];
           whData[whId] = {
             quantity: wh.quantity.toString(),
             position: wh.position || "",
             minQuantity: wh.minQuantity?.toString() || "0",
+            maxQuantity: wh.maxQuantity?.toString() || "",
           };
         });
         setWarehouseData(whData);
@@ -125,10 +189,70 @@ export default function ProductDetailPage() {
   };
 
   const handleSave = async () => {
-    if (!product) return;
+    if (!product || !user) return;
     setError(null);
     setSaving(true);
 
+    const bundleItems = rowsToBundleItems(bundleRows);
+    const bundleError = isBundle(product) ? validateBundleItems(bundleItems, allProducts, product.id) : null;
+    if (bundleError) {
+      setError(bundleError);
+      setSaving(false);
+      return;
+    }
+
+    // Work out which warehouses actually changed before saving anything
+    const warehouseChanges = Object.entries(warehouseData)
+      .map(([warehouseId, data]) => {
+        const current = product.warehouses[warehouseId];
+        const quantity = data.quantity === "" ? current?.quantity ?? 0 : parseInt(data.quantity) || 0;
+        return {
+          warehouseId,
+          quantity,
+          position: data.position,
+          quantityChanged: quantity !== (current?.quantity ?? 0),
+          positionChanged: !!data.position && data.position !== (current?.position || ""),
+        };
+      })
+      .filter((change) => change.quantityChanged || change.positionChanged);
+
+    // Minimum and par levels only matter where the product is (or is about to be) stocked
+    const levelChanges = Object.entries(warehouseData)
+      .filter(
+        ([warehouseId]) =>
+          product.warehouses[warehouseId] || warehouseChanges.some((change) => change.warehouseId === warehouseId)
+      )
+      .map(([warehouseId, data]) => ({
+        warehouseId,
+        minQuantity: parseInt(data.minQuantity) || 0,
+        maxQuantity: data.maxQuantity ? parseInt(data.maxQuantity) || 0 : undefined,
+      }))
+      .filter(
+        (change) =>
+          change.minQuantity !== (product.warehouses[change.warehouseId]?.minQuantity || 0) ||
+          change.maxQuantity !== product.warehouses[change.warehouseId]?.maxQuantity
+      );
+    if (levelChanges.some((change) => change.maxQuantity !== undefined && change.maxQuantity < change.minQuantity)) {
+      setError("Par level must be at least the minimum quantity");
+      setSaving(false);
+      return;
+    }
+
+    const quantityChanges = warehouseChanges.filter((change) => change.quantityChanged);
+    if (quantityChanges.length > 0 && !stockChangeReason.trim()) {
+      setError("Enter a reason for the stock change");
+      setSaving(false);
+      return;
+    }
+    if (
+      stockChangeType === "WRITE_OFF" &&
+      quantityChanges.some((change) => change.quantity > (product.warehouses[change.warehouseId]?.quantity ?? 0))
+    ) {
+      setError("A write-off can only reduce stock");
+      setSaving(false);
+      return;
+    }
+
     try {
       // Upload new image if provided
       let imageUrl: string | undefined = product.imageUrl;
@@ -150,25 +274,34 @@ export default function ProductDetailPage() {
         sku: formData.sku,
         description: formData.description || undefined,
         category: formData.category,
+        categoryId: formData.categoryId || undefined,
+        attributes: rowsToAttributes(attributeRows),
         price: parseFloat(formData.price),
         costPrice: formData.costPrice ? parseFloat(formData.costPrice) : undefined,
         discount: formData.discount ? parseFloat(formData.discount) : undefined,
+        taxRateId: formData.taxRateId !== "default" ? formData.taxRateId : undefined,
+        taxInclusive: formData.taxMode !== "default" ? formData.taxMode === "inclusive" : undefined,
+        preferredVendorId: formData.preferredVendorId !== "none" ? formData.preferredVendorId : undefined,
         imageUrl,
+        ...(isBundle(product) ? { bundleItems } : {}),
       });
 
-      // Update warehouse quantities
-      for (const [warehouseId, data] of Object.entries(warehouseData)) {
-        if (data.quantity) {
-          await ProductService.updateWarehouseQuantity(
-            productId,
-            warehouseId,
-            parseInt(data.quantity) || 0,
-            data.position || undefined
-          );
-        }
+      // Update warehouse quantities - each change is recorded as a stock movement
+      for (const change of warehouseChanges) {
+        await ProductService.updateWarehouseQuantity(
+          productId,
+          change.warehouseId,
+          change.quantity,
+          { type: stockChangeType, performedBy: user.uid, reason: stockChangeReason.trim() },
+          change.position || undefined
+        );
+      }
+      for (const change of levelChanges) {
+        await ProductService.updateStockLevels(productId, change.warehouseId, change.minQuantity, change.maxQuantity);
       }
 
       setEditing(false);
+      setStockChangeReason("");
       setImageFile(null);
       await fetchProductData();
     } catch (err: any) {
@@ -329,15 +462,12 @@ export default function ProductDetailPage() {
                         onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                       />
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="category">Category</Label>
-                      <Input
-                        id="category"
-                        value={formData.category}
-                        onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                        required
-                      />
-                    </div>
+                    <ProductCategoryField
+                      categories={categories.filter((c) => c.isActive || c.id === formData.categoryId)}
+                      categoryId={formData.categoryId}
+                      category={formData.category}
+                      onChange={(values) => setFormData({ ...formData, ...values })}
+                    />
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       <div className="space-y-2">
                         <Label htmlFor="price">Selling Price (Rs)</Label>
@@ -373,6 +503,33 @@ export default function ProductDetailPage() {
                         />
                       </div>
                     </div>
+                    <ProductTaxFields
+                      settings={taxSettings}
+                      taxRateId={formData.taxRateId}
+                      taxMode={formData.taxMode}
+                      onChange={(values) => setFormData({ ...formData, ...values })}
+                    />
+                    <ProductAttributesFields rows={attributeRows} onChange={setAttributeRows} />
+                    <div className="space-y-2">
+                      <Label htmlFor="preferredVendorId">Preferred Vendor</Label>
+                      <Select
+                        value={formData.preferredVendorId}
+                        onValueChange={(value) => setFormData({ ...formData, preferredVendorId: value })}
+                      >
+                        <SelectTrigger id="preferredVendorId">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          {vendors.map((vendor) => (
+                            <SelectItem key={vendor.id} value={vendor.id}>
+                              {vendor.companyName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500">Reorder suggestions are raised against this vendor</p>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="image">Product Image</Label>
                       <Input id="image" type="file" accept="image/*" onChange={handleImageChange} />
@@ -389,16 +546,56 @@ export default function ProductDetailPage() {
                       <p className="text-sm text-gray-600">SKU</p>
                       <p className="font-mono font-medium">{product.sku}</p>
                     </div>
+                    {product.parentProductId && (
+                      <div>
+                        <p className="text-sm text-gray-600">Variant Of</p>
+                        <Link
+                          href={`/admin/inventory/products/${product.parentProductId}`}
+                          className="font-medium hover:underline"
+                        >
+                          {parentProduct?.name || product.parentProductId}
+                        </Link>
+                        <p className="text-sm text-gray-600">
+                          {getVariantLabel(product.variantValues || {}, parentProduct?.variantOptions)}
+                        </p>
+                      </div>
+                    )}
                     <div>
                       <p className="text-sm text-gray-600">Category</p>
-                      <p className="font-medium">{product.category}</p>
+                      <p className="font-medium">
+                        {product.categoryId && categories.some((c) => c.id === product.categoryId)
+                          ? getCategoryLabel(product.categoryId, categories)
+                          : product.category}
+                      </p>
                     </div>
+                    {product.attributes && Object.keys(product.attributes).length > 0 && (
+                      <div>
+                        <p className="text-sm text-gray-600">Attributes</p>
+                        {Object.entries(product.attributes).map(([key, value]) => (
+                          <p key={key} className="font-medium">
+                            {key}: {value}
+                          </p>
+                        ))}
+                      </div>
+                    )}
                     {product.description && (
                       <div>
                         <p className="text-sm text-gray-600">Description</p>
                         <p className="font-medium">{product.description}</p>
                       </div>
                     )}
+                    {product.preferredVendorId && (
+                      <div>
+                        <p className="text-sm text-gray-600">Preferred Vendor</p>
+                        <Link
+                          href={`/admin/vendors/${product.preferredVendorId}`}
+                          className="font-medium hover:underline"
+                        >
+                          {vendors.find((v) => v.id === product.preferredVendorId)?.companyName ||
+                            product.preferredVendorId}
+                        </Link>
+                      </div>
+                    )}
                     <div className="grid grid-cols-2 gap-4">
                       <div>
                         <p className="text-sm text-gray-600">Selling Price</p>
@@ -436,98 +633,229 @@ export default function ProductDetailPage() {
               </CardContent>
             </Card>
 
-            <Card>
-              <CardHeader>
-                <CardTitle>Inventory</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <p className="text-sm text-gray-600">Total Stock</p>
-                  <p className={`text-2xl font-bold ${totalStock === 0 ? "text-red-600" : "text-green-600"}`}>
-                    {totalStock} units
-                  </p>
-                </div>
+            {!hasVariants(product) && !isBundle(product) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Inventory</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <p className="text-sm text-gray-600">Total Stock</p>
+                    <p className={`text-2xl font-bold ${totalStock === 0 ? "text-red-600" : "text-green-600"}`}>
+                      {totalStock} units
+                    </p>
+                  </div>
 
-                {editing ? (
-                  <div className="space-y-4">
-                    {warehouses.map((warehouse) => (
-                      <div key={warehouse.id} className="p-4 border rounded space-y-2">
-                        <Label className="font-medium">{warehouse.name}</Label>
-                        <div className="grid grid-cols-2 gap-2">
-                          <div className="space-y-1">
-                            <Label htmlFor={`qty-${warehouse.id}`} className="text-xs">
-                              Quantity
-                            </Label>
-                            <Input
-                              id={`qty-${warehouse.id}`}
-                              type="number"
-                              value={warehouseData[warehouse.id]?.quantity || ""}
-                              onChange={(e) =>
-                                setWarehouseData({
-                                  ...warehouseData,
-                                  [warehouse.id]: {
-                                    ...warehouseData[warehouse.id],
-                                    quantity: e.target.value,
-                                    position: warehouseData[warehouse.id]?.position || "",
-                                    minQuantity: warehouseData[warehouse.id]?.minQuantity || "0",
-                                  },
-                                })
-                              }
-                              placeholder="0"
-                            />
-                          </div>
-                          <div className="space-y-1">
-                            <Label htmlFor={`pos-${warehouse.id}`} className="text-xs">
-                              Position
-                            </Label>
-                            <Input
-                              id={`pos-${warehouse.id}`}
-                              type="text"
-                              value={warehouseData[warehouse.id]?.position || ""}
-                              onChange={(e) =>
-                                setWarehouseData({
-                                  ...warehouseData,
-                                  [warehouse.id]: {
-                                    ...warehouseData[warehouse.id],
-                                    quantity: warehouseData[warehouse.id]?.quantity || "",
-                                    position: e.target.value,
-                                    minQuantity: warehouseData[warehouse.id]?.minQuantity || "0",
-                                  },
-                                })
-                              }
-                              placeholder="Row A - Shelf 2"
-                            />
+                  {editing ? (
+                    <div className="space-y-4">
+                      {warehouses.map((warehouse) => (
+                        <div key={warehouse.id} className="p-4 border rounded space-y-2">
+                          <Label className="font-medium">{warehouse.name}</Label>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="space-y-1">
+                              <Label htmlFor={`qty-${warehouse.id}`} className="text-xs">
+                                Quantity
+                              </Label>
+                              <Input
+                                id={`qty-${warehouse.id}`}
+                                type="number"
+                                value={warehouseData[warehouse.id]?.quantity || ""}
+                                onChange={(e) =>
+                                  setWarehouseData({
+                                    ...warehouseData,
+                                    [warehouse.id]: {
+                                      ...warehouseData[warehouse.id],
+                                      quantity: e.target.value,
+                                      position: warehouseData[warehouse.id]?.position || "",
+                                      minQuantity: warehouseData[warehouse.id]?.minQuantity || "0",
+                                    },
+                                  })
+                                }
+                                placeholder="0"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label htmlFor={`pos-${warehouse.id}`} className="text-xs">
+                                Position
+                              </Label>
+                              <Input
+                                id={`pos-${warehouse.id}`}
+                                type="text"
+                                value={warehouseData[warehouse.id]?.position || ""}
+                                onChange={(e) =>
+                                  setWarehouseData({
+                                    ...warehouseData,
+                                    [warehouse.id]: {
+                                      ...warehouseData[warehouse.id],
+                                      quantity: warehouseData[warehouse.id]?.quantity || "",
+                                      position: e.target.value,
+                                      minQuantity: warehouseData[warehouse.id]?.minQuantity || "0",
+                                    },
+                                  })
+                                }
+                                placeholder="Row A - Shelf 2"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label htmlFor={`min-${warehouse.id}`} className="text-xs">
+                                Min Quantity
+                              </Label>
+                              <Input
+                                id={`min-${warehouse.id}`}
+                                type="number"
+                                min="0"
+                                value={warehouseData[warehouse.id]?.minQuantity || ""}
+                                onChange={(e) =>
+                                  setWarehouseData({
+                                    ...warehouseData,
+                                    [warehouse.id]: {
+                                      ...warehouseData[warehouse.id],
+                                      quantity: warehouseData[warehouse.id]?.quantity || "",
+                                      position: warehouseData[warehouse.id]?.position || "",
+                                      minQuantity: e.target.value,
+                                    },
+                                  })
+                                }
+                                placeholder="0"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label htmlFor={`max-${warehouse.id}`} className="text-xs">
+                                Par Level
+                              </Label>
+                              <Input
+                                id={`max-${warehouse.id}`}
+                                type="number"
+                                min="0"
+                                value={warehouseData[warehouse.id]?.maxQuantity || ""}
+                                onChange={(e) =>
+                                  setWarehouseData({
+                                    ...warehouseData,
+                                    [warehouse.id]: {
+                                      ...warehouseData[warehouse.id],
+                                      quantity: warehouseData[warehouse.id]?.quantity || "",
+                                      position: warehouseData[warehouse.id]?.position || "",
+                                      minQuantity: warehouseData[warehouse.id]?.minQuantity || "0",
+                                      maxQuantity: e.target.value,
+                                    },
+                                  })
+                                }
+                                placeholder="Optional"
+                              />
+                            </div>
                           </div>
                         </div>
+                      ))}
+                      <div className="p-4 border rounded space-y-2 bg-gray-50">
+                        <Label className="font-medium">Reason for quantity changes</Label>
+                        <div className="flex gap-2">
+                          <Select
+                            value={stockChangeType}
+                            onValueChange={(value) => setStockChangeType(value as "ADJUSTMENT" | "WRITE_OFF")}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="ADJUSTMENT">Adjustment</SelectItem>
+                              <SelectItem value="WRITE_OFF">Write-off</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            value={stockChangeReason}
+                            onChange={(e) => setStockChangeReason(e.target.value)}
+                            placeholder="e.g., Damaged in storage"
+                          />
+                        </div>
+                        <p className="text-xs text-gray-500">Recorded on the stock card with each changed quantity</p>
                       </div>
-                    ))}
-                  </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {Object.entries(product.warehouses).map(([warehouseId, whData]) => {
+                        const warehouse = warehouses.find((w) => w.id === warehouseId);
+                        return (
+                          <div key={warehouseId} className="p-3 border rounded">
+                            <div className="flex justify-between items-center">
+                              <span className="font-medium">{warehouse?.name || warehouseId}</span>
+                              <span className={whData.quantity === 0 ? "text-red-600 font-semibold" : "font-semibold"}>
+                                {whData.quantity} units
+                              </span>
+                            </div>
+                            {whData.position && (
+                              <p className="text-xs text-gray-500 mt-1">Position: {whData.position}</p>
+                            )}
+                            <p className="text-xs text-gray-500 mt-1">
+                              Min: {whData.minQuantity || 0}
+                              {whData.maxQuantity !== undefined ? ` · Par: ${whData.maxQuantity}` : ""}
+                            </p>
+                          </div>
+                        );
+                      })}
+                      {Object.keys(product.warehouses).length === 0 && (
+                        <p className="text-sm text-gray-500">No warehouse assignments</p>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {hasVariants(product) ? (
+            <ProductVariantsCard
+              product={product}
+              warehouses={warehouses}
+              canCreate={hasPermission("inventory", "create")}
+              performedBy={user?.uid}
+            />
+          ) : isBundle(product) ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Bundle Components</CardTitle>
+                <CardDescription>
+                  {getBundleAvailableStock(product, allProducts)} bundles can be sold from the components&apos; stock
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {editing ? (
+                  <ProductBundleFields
+                    products={allProducts}
+                    rows={bundleRows}
+                    onChange={setBundleRows}
+                    bundleId={product.id}
+                  />
                 ) : (
-                  <div className="space-y-3">
-                    {Object.entries(product.warehouses).map(([warehouseId, whData]) => {
-                      const warehouse = warehouses.find((w) => w.id === warehouseId);
+                  <div className="space-y-2">
+                    {(product.bundleItems || []).map((item) => {
+                      const component = allProducts.find((p) => p.id === item.productId);
                       return (
-                        <div key={warehouseId} className="p-3 border rounded">
-                          <div className="flex justify-between items-center">
-                            <span className="font-medium">{warehouse?.name || warehouseId}</span>
-                            <span className={whData.quantity === 0 ? "text-red-600 font-semibold" : "font-semibold"}>
-                              {whData.quantity} units
-                            </span>
+                        <div key={item.productId} className="flex justify-between items-center p-2 border rounded">
+                          <div>
+                            <Link
+                              href={`/admin/inventory/products/${item.productId}`}
+                              className="font-medium hover:underline"
+                            >
+                              {component?.name || item.productId}
+                            </Link>
+                            <p className="text-xs text-gray-500 font-mono">{component?.sku}</p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-semibold">x {item.quantity}</p>
+                            <p className="text-xs text-gray-500">
+                              {component ? getTotalAvailableStock(component) : 0} available
+                            </p>
                           </div>
-                          {whData.position && (
-                            <p className="text-xs text-gray-500 mt-1">Position: {whData.position}</p>
-                          )}
                         </div>
                       );
                     })}
-                    {Object.keys(product.warehouses).length === 0 && (
-                      <p className="text-sm text-gray-500">No warehouse assignments</p>
-                    )}
                   </div>
                 )}
               </CardContent>
             </Card>
-          </div>
+          ) : (
+            <ProductStockCard product={product} warehouses={warehouses} performedBy={user?.uid} />
+          )}
 
           {product.trackTrace?.qrCodeUrl && (
             <Card>
@@ -8,13 +8,33 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { ProductService } from "@/lib/services/productService";
 import { ImageService } from "@/lib/services/imageService";
+import { TaxService } from "@/lib/services/taxService";
+import { ProductTaxFields, ProductTaxMode } from "@/components/admin/ProductTaxFields";
+import { ProductCategoryField } from "@/components/admin/ProductCategoryField";
+import { AttributeRow, ProductAttributesFields, rowsToAttributes } from "@/components/admin/ProductAttributesFields";
+import { BundleRow, ProductBundleFields, rowsToBundleItems } from "@/components/admin/ProductBundleFields";
+import { CategoryService } from "@/lib/services/categoryService";
 import { collection, getDocs } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Warehouse } from "@/lib/types";
+import { Category, Product, TaxSettings, VariantOption, Warehouse } from "@/lib/types";
 import { useAuth } from "@/contexts/AuthContext";
 import { Timestamp } from "firebase/firestore";
+import { getVariantCombinations, getVariantLabel } from "@/lib/utils/variants";
+import { validateBundleItems } from "@/lib/utils/bundles";
+import { Plus, Trash2 } from "lucide-react";
+
+type VariantRow = { sku: string; price: string; costPrice: string; quantities: Record<string, string> };
 
 export default function CreateProductPage() {
   const router = useRouter();
@@ -28,14 +48,27 @@ export default function CreateProductPage() {
     name: "",
     description: "",
     category: "",
+    categoryId: "",
     price: "",
     costPrice: "",
     discount: "",
+    taxRateId: "default",
+    taxMode: "default" as ProductTaxMode,
   });
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [attributeRows, setAttributeRows] = useState<AttributeRow[]>([]);
 
   const [warehouseData, setWarehouseData] = useState<Record<string, { quantity: string; position: string; minQuantity: string }>>({});
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [variantsEnabled, setVariantsEnabled] = useState(false);
+  const [optionInputs, setOptionInputs] = useState<{ name: string; values: string }[]>([{ name: "", values: "" }]);
+  // Keyed by variant label, so rows keep what was typed while options are edited
+  const [variantRows, setVariantRows] = useState<Record<string, VariantRow>>({});
+  const [bundleEnabled, setBundleEnabled] = useState(false);
+  const [bundleRows, setBundleRows] = useState<BundleRow[]>([{ productId: "", quantity: "1" }]);
+  const [products, setProducts] = useState<Product[]>([]);
 
   // Fetch warehouses on mount
   useEffect(() => {
@@ -52,6 +85,13 @@ export default function CreateProductPage() {
       }
     };
     fetchWarehouses();
+    TaxService.getTaxSettings().then(setTaxSettings);
+    CategoryService.getAllCategories()
+      .then((categoryList) => setCategories(categoryList.filter((c) => c.isActive)))
+      .catch((error) => console.error("Error fetching categories:", error));
+    ProductService.getAllProducts()
+      .then(setProducts)
+      .catch((error) => console.error("Error fetching products:", error));
   }, []);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -71,9 +111,44 @@ export default function CreateProductPage() {
     }
   };
 
+  const variantOptions: VariantOption[] = optionInputs
+    .map((option) => ({
+      name: option.name.trim(),
+      values: Array.from(new Set(option.values.split(",").map((value) => value.trim()).filter(Boolean))),
+    }))
+    .filter((option) => option.name && option.values.length > 0);
+  const variantCombinations = variantsEnabled ? getVariantCombinations(variantOptions) : [];
+
+  const getDefaultVariantSku = (values: Record<string, string>) =>
+    [formData.sku, ...variantOptions.map((option) => values[option.name])]
+      .join("-")
+      .replace(/\s+/g, "")
+      .toUpperCase();
+
+  const updateVariantRow = (label: string, updates: Partial<VariantRow>) => {
+    setVariantRows({
+      ...variantRows,
+      [label]: { ...(variantRows[label] || { sku: "", price: "", costPrice: "", quantities: {} }), ...updates },
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    if (!formData.category) {
+      setError("Select a category");
+      return;
+    }
+    if (variantsEnabled && variantCombinations.length === 0) {
+      setError("Add at least one option with values, e.g. Size: 3L, 5L, 7L");
+      return;
+    }
+    const bundleItems = rowsToBundleItems(bundleRows);
+    const bundleError = bundleEnabled ? validateBundleItems(bundleItems, products) : null;
+    if (bundleError) {
+      setError(bundleError);
+      return;
+    }
     setLoading(true);
 
     try {
@@ -90,23 +165,59 @@ export default function CreateProductPage() {
         }
       });
 
-      // Create product
-      await ProductService.createProduct(
+      // Create product - a product sold in variants or a bundle holds no stock itself
+      const productId = await ProductService.createProduct(
         {
           sku: formData.sku,
           name: formData.name,
           description: formData.description || undefined,
           category: formData.category,
+          ...(formData.categoryId ? { categoryId: formData.categoryId } : {}),
           price: parseFloat(formData.price),
           costPrice: formData.costPrice ? parseFloat(formData.costPrice) : undefined,
           discount: formData.discount ? parseFloat(formData.discount) : undefined,
-          warehouses: warehousesObj,
-          attributes: {},
+          // Tax overrides are only stored when they differ from the store default
+          ...(formData.taxRateId !== "default" ? { taxRateId: formData.taxRateId } : {}),
+          ...(formData.taxMode !== "default" ? { taxInclusive: formData.taxMode === "inclusive" } : {}),
+          warehouses: variantsEnabled || bundleEnabled ? {} : warehousesObj,
+          attributes: rowsToAttributes(attributeRows),
+          ...(variantsEnabled ? { variantOptions } : {}),
+          ...(bundleEnabled ? { bundleItems } : {}),
           isActive: true,
         },
-        imageFile || undefined
+        imageFile || undefined,
+        user?.uid
       );
 
+      for (const values of variantCombinations) {
+        const row = variantRows[getVariantLabel(values, variantOptions)];
+        const variantWarehouses: Record<string, { quantity: number; position: string; minQuantity: number }> = {};
+        Object.entries(row?.quantities || {}).forEach(([warehouseId, quantity]) => {
+          if (quantity) {
+            variantWarehouses[warehouseId] = {
+              quantity: parseInt(quantity) || 0,
+              position: "",
+              minQuantity: 0,
+            };
+          }
+        });
+        await ProductService.createVariant(
+          productId,
+          {
+            sku: row?.sku || getDefaultVariantSku(values),
+            price: row?.price ? parseFloat(row.price) : parseFloat(formData.price),
+            costPrice: row?.costPrice
+              ? parseFloat(row.costPrice)
+              : formData.costPrice
+              ? parseFloat(formData.costPrice)
+              : undefined,
+            warehouses: variantWarehouses,
+            variantValues: values,
+          },
+          user?.uid
+        );
+      }
+
       router.push("/admin/inventory/products");
     } catch (err: any) {
       setError(err.message || "Failed to create product");
@@ -169,17 +280,12 @@ export default function CreateProductPage() {
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="category">Category</Label>
-                  <Input
-                    id="category"
-                    type="text"
-                    value={formData.category}
-                    onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                    required
-                    placeholder="Kitchen Appliances"
-                  />
-                </div>
+                <ProductCategoryField
+                  categories={categories}
+                  categoryId={formData.categoryId}
+                  category={formData.category}
+                  onChange={(values) => setFormData({ ...formData, ...values })}
+                />
 
                 <div className="space-y-2">
                   <Label htmlFor="price">Selling Price (Rs)</Label>
@@ -221,6 +327,15 @@ export default function CreateProductPage() {
                 </div>
               </div>
 
+              <ProductTaxFields
+                settings={taxSettings}
+                taxRateId={formData.taxRateId}
+                taxMode={formData.taxMode}
+                onChange={(values) => setFormData({ ...formData, ...values })}
+              />
+
+              <ProductAttributesFields rows={attributeRows} onChange={setAttributeRows} />
+
               <div className="space-y-2">
                 <Label htmlFor="image">Product Image</Label>
                 <Input
@@ -238,7 +353,172 @@ export default function CreateProductPage() {
             </CardContent>
           </Card>
 
-          {warehouses.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Variants</CardTitle>
+              <CardDescription>Sizes, colours or capacities sold under this product</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="variantsEnabled"
+                  checked={variantsEnabled}
+                  onCheckedChange={(checked) => setVariantsEnabled(checked === true)}
+                  disabled={bundleEnabled}
+                />
+                <Label htmlFor="variantsEnabled">This product comes in variants</Label>
+              </div>
+
+              {variantsEnabled && (
+                <>
+                  {optionInputs.map((option, index) => (
+                    <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-4 items-end">
+                      <div className="space-y-2">
+                        <Label htmlFor={`option-name-${index}`}>Option</Label>
+                        <Input
+                          id={`option-name-${index}`}
+                          value={option.name}
+                          onChange={(e) =>
+                            setOptionInputs(
+                              optionInputs.map((o, i) => (i === index ? { ...o, name: e.target.value } : o))
+                            )
+                          }
+                          placeholder="Size"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`option-values-${index}`}>Values (comma separated)</Label>
+                        <Input
+                          id={`option-values-${index}`}
+                          value={option.values}
+                          onChange={(e) =>
+                            setOptionInputs(
+                              optionInputs.map((o, i) => (i === index ? { ...o, values: e.target.value } : o))
+                            )
+                          }
+                          placeholder="3L, 5L, 7L"
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setOptionInputs(optionInputs.filter((_, i) => i !== index))}
+                        disabled={optionInputs.length === 1}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setOptionInputs([...optionInputs, { name: "", values: "" }])}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Option
+                  </Button>
+
+                  {variantCombinations.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Variant</TableHead>
+                            <TableHead>SKU</TableHead>
+                            <TableHead>Price (Rs)</TableHead>
+                            <TableHead>Cost (Rs)</TableHead>
+                            {warehouses.map((warehouse) => (
+                              <TableHead key={warehouse.id}>{warehouse.name} Qty</TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {variantCombinations.map((values) => {
+                            const label = getVariantLabel(values, variantOptions);
+                            const row = variantRows[label];
+                            return (
+                              <TableRow key={label}>
+                                <TableCell className="font-medium whitespace-nowrap">{label}</TableCell>
+                                <TableCell>
+                                  <Input
+                                    value={row?.sku || ""}
+                                    onChange={(e) => updateVariantRow(label, { sku: e.target.value })}
+                                    placeholder={getDefaultVariantSku(values)}
+                                    className="min-w-36"
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    value={row?.price || ""}
+                                    onChange={(e) => updateVariantRow(label, { price: e.target.value })}
+                                    placeholder={formData.price || "0.00"}
+                                    className="w-28"
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    value={row?.costPrice || ""}
+                                    onChange={(e) => updateVariantRow(label, { costPrice: e.target.value })}
+                                    placeholder={formData.costPrice || "0.00"}
+                                    className="w-28"
+                                  />
+                                </TableCell>
+                                {warehouses.map((warehouse) => (
+                                  <TableCell key={warehouse.id}>
+                                    <Input
+                                      type="number"
+                                      value={row?.quantities[warehouse.id] || ""}
+                                      onChange={(e) =>
+                                        updateVariantRow(label, {
+                                          quantities: { ...row?.quantities, [warehouse.id]: e.target.value },
+                                        })
+                                      }
+                                      placeholder="0"
+                                      className="w-24"
+                                    />
+                                  </TableCell>
+                                ))}
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                      <p className="text-xs text-gray-500 mt-2">
+                        Blank prices and costs use the product&apos;s. Each variant gets its own QR code.
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Bundle</CardTitle>
+              <CardDescription>A set of other products sold together at one price, e.g. a gift set</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="bundleEnabled"
+                  checked={bundleEnabled}
+                  onCheckedChange={(checked) => setBundleEnabled(checked === true)}
+                  disabled={variantsEnabled}
+                />
+                <Label htmlFor="bundleEnabled">This product is a bundle of other products</Label>
+              </div>
+
+              {bundleEnabled && <ProductBundleFields products={products} rows={bundleRows} onChange={setBundleRows} />}
+            </CardContent>
+          </Card>
+
+          {warehouses.length > 0 && !variantsEnabled && !bundleEnabled && (
             <Card>
               <CardHeader>
                 <CardTitle>Warehouse Inventory</CardTitle>
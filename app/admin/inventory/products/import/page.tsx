@@ -0,0 +1,284 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ProductService } from "@/lib/services/productService";
+import { CategoryService } from "@/lib/services/categoryService";
+import { WarehouseService } from "@/lib/services/warehouseService";
+import { Category, Product, ProductImportRow, Warehouse } from "@/lib/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { downloadCSV, toCSV } from "@/lib/utils/csv";
+import { downloadXLSX, readSpreadsheet } from "@/lib/utils/spreadsheet";
+import { planProductImport, productsToSheetRows } from "@/lib/utils/productImport";
+import { ArrowLeft, Download, Upload } from "lucide-react";
+import Link from "next/link";
+
+function getActionColor(row: ProductImportRow) {
+  if (row.errors.length > 0) return "text-red-600";
+  switch (row.action) {
+    case "CREATE":
+      return "text-green-600";
+    case "UPDATE":
+      return "text-blue-600";
+    default:
+      return "text-gray-600";
+  }
+}
+
+export default function ImportProductsPage() {
+  const { user } = useAuth();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fileName, setFileName] = useState("");
+  const [plan, setPlan] = useState<ProductImportRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [productList, categoryList, warehouseList] = await Promise.all([
+        ProductService.getAllProducts(),
+        CategoryService.getAllCategories(),
+        WarehouseService.getAllWarehouses(),
+      ]);
+      setProducts(productList);
+      setCategories(categoryList);
+      setWarehouses(warehouseList);
+    } catch (error) {
+      console.error("Error fetching catalogue:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportFileName = (extension: string) =>
+    `products-${new Date().toISOString().split("T")[0]}.${extension}`;
+
+  const handleExportCSV = () => {
+    downloadCSV(exportFileName("csv"), toCSV(productsToSheetRows(products, categories, warehouses)));
+  };
+
+  const handleExportExcel = async () => {
+    try {
+      await downloadXLSX(exportFileName("xlsx"), productsToSheetRows(products, categories, warehouses), "Products");
+    } catch (error) {
+      console.error("Error exporting products:", error);
+      alert("Failed to export products");
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPlan(null);
+    setError(null);
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      const sheetRows = await readSpreadsheet(file);
+      setPlan(planProductImport(sheetRows, products, categories, warehouses));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the file");
+    } finally {
+      // Lets the same file be chosen again once it's been fixed
+      e.target.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan || !user) return;
+    if (!confirm(`Create ${createCount} and update ${updateCount} products?`)) return;
+
+    setImporting(true);
+    try {
+      const result = await ProductService.importProducts(plan, user.uid);
+      alert(`Imported: ${result.created} created, ${result.updated} updated`);
+      setPlan(null);
+      setFileName("");
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import products");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const errorCount = plan?.filter((row) => row.errors.length > 0).length || 0;
+  const createCount = plan?.filter((row) => row.action === "CREATE").length || 0;
+  const updateCount = plan?.filter((row) => row.action === "UPDATE").length || 0;
+  const unchangedCount = plan?.filter((row) => row.action === "UNCHANGED").length || 0;
+  // Unchanged rows are only listed when something is wrong with them
+  const listedRows = plan?.filter((row) => row.action !== "UNCHANGED" || row.errors.length > 0) || [];
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "inventory", action: "create" }}>
+      <AdminLayout>
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/admin/inventory/products">
+            <Button variant="outline" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">Import & Export Products</h1>
+            <p className="text-gray-600 mt-1">Edit the catalogue in a spreadsheet and bring the changes back in</p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Export Catalogue</CardTitle>
+              <CardDescription>
+                Every product and variant with its price, cost and stock in each warehouse
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={handleExportCSV} disabled={loading}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+              <Button variant="outline" onClick={handleExportExcel} disabled={loading}>
+                <Download className="mr-2 h-4 w-4" />
+                Export Excel
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Import Products</CardTitle>
+              <CardDescription>
+                Rows are matched to products by SKU - new SKUs are created, existing ones updated. Blank cells
+                leave a product&apos;s value as it is. Quantity columns are headed &quot;Qty: &quot; followed by
+                the warehouse ID, as in the export. Cost prices only apply to products not yet costed from
+                purchases.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="file">CSV or Excel file</Label>
+                <Input
+                  id="file"
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={handleFileChange}
+                  disabled={loading || importing}
+                />
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded">{error}</div>
+              )}
+
+              {plan && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <p className="text-sm text-gray-500">To create</p>
+                      <p className="text-2xl font-bold text-green-600">{createCount}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500">To update</p>
+                      <p className="text-2xl font-bold text-blue-600">{updateCount}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500">Unchanged</p>
+                      <p className="text-2xl font-bold">{unchangedCount}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500">Rows with errors</p>
+                      <p className={`text-2xl font-bold ${errorCount > 0 ? "text-red-600" : ""}`}>{errorCount}</p>
+                    </div>
+                  </div>
+
+                  {listedRows.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Row</TableHead>
+                            <TableHead>SKU</TableHead>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Action</TableHead>
+                            <TableHead>Changes</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {listedRows.map((row) => (
+                            <TableRow key={row.rowNumber}>
+                              <TableCell>{row.rowNumber}</TableCell>
+                              <TableCell className="font-mono text-sm">{row.sku}</TableCell>
+                              <TableCell>{row.name}</TableCell>
+                              <TableCell>
+                                <span className={`font-semibold ${getActionColor(row)}`}>
+                                  {row.errors.length > 0 ? "ERROR" : row.action}
+                                </span>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {row.errors.map((rowError) => (
+                                  <p key={rowError} className="text-red-600">
+                                    {rowError}
+                                  </p>
+                                ))}
+                                {row.action === "CREATE" && row.errors.length === 0 && (
+                                  <p className="text-gray-600">
+                                    Rs {(row.fields.price ?? 0).toFixed(2)}
+                                    {Object.keys(row.quantities).length > 0 &&
+                                      ` - ${Object.values(row.quantities).reduce((sum, q) => sum + q, 0)} in stock`}
+                                  </p>
+                                )}
+                                {row.changes.map((change) => (
+                                  <p key={change.field}>
+                                    <span className="text-gray-500">{change.field}:</span> {change.from || "-"} →{" "}
+                                    {change.to}
+                                  </p>
+                                ))}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-4">
+                    <Button
+                      onClick={handleImport}
+                      disabled={importing || errorCount > 0 || createCount + updateCount === 0}
+                    >
+                      <Upload className="mr-2 h-4 w-4" />
+                      {importing ? "Importing..." : `Import ${fileName}`}
+                    </Button>
+                    {errorCount > 0 && (
+                      <p className="text-sm text-red-600">Fix the rows with errors and choose the file again</p>
+                    )}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
@@ -18,9 +18,11 @@ import {
 import { ProductService } from "@/lib/services/productService";
 import { Product } from "@/lib/types";
 import { usePermissions } from "@/lib/hooks/usePermissions";
+import { getProductVariants, hasVariants } from "@/lib/utils/variants";
+import { getBundleAvailableStock, isBundle } from "@/lib/utils/bundles";
 import Fuse from "fuse.js";
 import Link from "next/link";
-import { Plus, Search } from "lucide-react";
+import { FileSpreadsheet, Plus, Search } from "lucide-react";
 
 export default function ProductsPage() {
   const router = useRouter();
@@ -70,7 +72,7 @@ export default function ProductsPage() {
       setFilteredProducts(filteredProducts.filter((p) => p.id !== productId));
     } catch (error) {
       console.error("Error deleting product:", error);
-      alert("Failed to delete product");
+      alert(error instanceof Error ? error.message : "Failed to delete product");
     }
   };
 
@@ -83,12 +85,20 @@ export default function ProductsPage() {
             <p className="text-gray-600 mt-2">Manage your inventory</p>
           </div>
           {hasPermission("inventory", "create") && (
-            <Link href="/admin/inventory/products/create">
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Product
-              </Button>
-            </Link>
+            <div className="flex gap-2">
+              <Link href="/admin/inventory/products/import">
+                <Button variant="outline">
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  Import / Export
+                </Button>
+              </Link>
+              <Link href="/admin/inventory/products/create">
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Product
+                </Button>
+              </Link>
+            </div>
           )}
         </div>
 
@@ -133,10 +143,15 @@ export default function ProductsPage() {
                   </TableHeader>
                   <TableBody>
                     {filteredProducts.map((product) => {
-                      const totalStock = Object.values(product.warehouses).reduce(
-                        (sum, wh) => sum + wh.quantity,
-                        0
-                      );
+                      // A product sold in variants holds no stock itself - its variants do; a bundle's
+                      // stock is how many can be made up from its components
+                      const variants = hasVariants(product) ? getProductVariants(product.id, products) : [];
+                      const totalStock = isBundle(product)
+                        ? getBundleAvailableStock(product, products)
+                        : [product, ...variants].reduce(
+                            (sum, p) => sum + Object.values(p.warehouses).reduce((whSum, wh) => whSum + wh.quantity, 0),
+                            0
+                          );
                       return (
                         <TableRow key={product.id}>
                           <TableCell>
@@ -153,7 +168,20 @@ export default function ProductsPage() {
                             )}
                           </TableCell>
                           <TableCell className="font-mono text-sm">{product.sku}</TableCell>
-                          <TableCell className="font-medium">{product.name}</TableCell>
+                          <TableCell className="font-medium">
+                            {product.name}
+                            {hasVariants(product) && (
+                              <p className="text-xs text-gray-500 font-normal">
+                                {variants.length} variant{variants.length === 1 ? "" : "s"}
+                              </p>
+                            )}
+                            {isBundle(product) && (
+                              <p className="text-xs text-gray-500 font-normal">
+                                Bundle of {product.bundleItems?.length} product
+                                {product.bundleItems?.length === 1 ? "" : "s"}
+                              </p>
+                            )}
+                          </TableCell>
                           <TableCell>{product.category}</TableCell>
                           <TableCell>
                             {product.discount && product.discount > 0 ? (
@@ -0,0 +1,302 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ReplenishmentService } from "@/lib/services/replenishmentService";
+import { VendorService } from "@/lib/services/vendorService";
+import { ReorderSuggestion, Vendor } from "@/lib/types";
+import { groupSuggestionsByVendor } from "@/lib/utils/reorder";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/lib/hooks/usePermissions";
+import { FileText, RefreshCw, Save } from "lucide-react";
+import Link from "next/link";
+
+export default function ReorderPage() {
+  const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [settings, setSettings] = useState({ salesWindowDays: "30", leadTimeDays: "7", coverDays: "30" });
+  const [loading, setLoading] = useState(true);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [suggestionList, vendorList, settingsData] = await Promise.all([
+        ReplenishmentService.getReorderSuggestions(),
+        VendorService.getAllVendors(),
+        ReplenishmentService.getSettings(),
+      ]);
+      setSuggestions(suggestionList);
+      setVendors(vendorList);
+      setSettings({
+        salesWindowDays: settingsData.salesWindowDays.toString(),
+        leadTimeDays: settingsData.leadTimeDays.toString(),
+        coverDays: settingsData.coverDays.toString(),
+      });
+      setQuantities(
+        Object.fromEntries(suggestionList.map((s) => [s.productId, s.suggestedQuantity.toString()]))
+      );
+    } catch (error) {
+      console.error("Error fetching reorder suggestions:", error);
+      setError("Failed to calculate reorder suggestions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getVendorName = (id: string) => vendors.find((v) => v.id === id)?.companyName || id;
+
+  const handleSaveSettings = async () => {
+    setError(null);
+    setSavingSettings(true);
+    try {
+      await ReplenishmentService.updateSettings({
+        salesWindowDays: parseInt(settings.salesWindowDays) || 0,
+        leadTimeDays: parseInt(settings.leadTimeDays) || 0,
+        coverDays: parseInt(settings.coverDays) || 0,
+      });
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleCreatePurchaseOrders = async () => {
+    if (!user) return;
+    // Quantities can be edited before ordering; zero leaves a product off the order
+    const selected = suggestions
+      .filter((s) => s.vendorId)
+      .map((s) => ({ ...s, suggestedQuantity: parseInt(quantities[s.productId]) || 0 }))
+      .filter((s) => s.suggestedQuantity > 0);
+    if (selected.length === 0) {
+      setError("Nothing to order - set a preferred vendor and a quantity first");
+      return;
+    }
+    const vendorCount = new Set(selected.map((s) => s.vendorId)).size;
+    if (!confirm(`Create ${vendorCount} draft purchase order(s) for ${selected.length} product(s)?`)) {
+      return;
+    }
+
+    setError(null);
+    setSuccess(null);
+    setCreating(true);
+    try {
+      const poIds = await ReplenishmentService.createDraftPurchaseOrders(selected, user.uid);
+      setSuccess(`Created ${poIds.length} purchase order(s) pending review`);
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create purchase orders");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const groups = Array.from(groupSuggestionsByVendor(suggestions).entries()).sort(([a], [b]) =>
+    // Products without a vendor go last
+    a === "" ? 1 : b === "" ? -1 : getVendorName(a).localeCompare(getVendorName(b))
+  );
+  const canOrder = hasPermission("vendors", "create");
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+      <AdminLayout>
+        <div className="space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold">Reorder Suggestions</h1>
+              <p className="text-gray-600 mt-2">Products running low, grouped by preferred vendor</p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={fetchData} disabled={loading}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Recalculate
+              </Button>
+              {canOrder && (
+                <Button onClick={handleCreatePurchaseOrders} disabled={creating || loading || suggestions.length === 0}>
+                  <FileText className="mr-2 h-4 w-4" />
+                  {creating ? "Creating..." : "Create Draft POs"}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+          {success && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+              {success}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Replenishment Settings</CardTitle>
+              <CardDescription>
+                Products are reordered when available stock plus stock on order falls to the minimum plus the
+                lead time&apos;s demand. Orders top stock up to the par level set on each warehouse, or to the
+                minimum plus the cover days&apos; demand.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="salesWindowDays">Sales Window (days)</Label>
+                  <Input
+                    id="salesWindowDays"
+                    type="number"
+                    min="1"
+                    value={settings.salesWindowDays}
+                    onChange={(e) => setSettings({ ...settings, salesWindowDays: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leadTimeDays">Lead Time (days)</Label>
+                  <Input
+                    id="leadTimeDays"
+                    type="number"
+                    min="0"
+                    value={settings.leadTimeDays}
+                    onChange={(e) => setSettings({ ...settings, leadTimeDays: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="coverDays">Cover (days)</Label>
+                  <Input
+                    id="coverDays"
+                    type="number"
+                    min="0"
+                    value={settings.coverDays}
+                    onChange={(e) => setSettings({ ...settings, coverDays: e.target.value })}
+                  />
+                </div>
+                {hasPermission("inventory", "update") && (
+                  <Button variant="outline" onClick={handleSaveSettings} disabled={savingSettings}>
+                    <Save className="mr-2 h-4 w-4" />
+                    {savingSettings ? "Saving..." : "Save & Recalculate"}
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {loading ? (
+            <div className="text-center py-12">Calculating reorder suggestions...</div>
+          ) : groups.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12 text-gray-500">
+                Everything is above its reorder point
+              </CardContent>
+            </Card>
+          ) : (
+            groups.map(([vendorId, vendorSuggestions]) => (
+              <Card key={vendorId || "unassigned"}>
+                <CardHeader>
+                  <CardTitle>
+                    {vendorId ? (
+                      <Link href={`/admin/vendors/${vendorId}`} className="hover:underline">
+                        {getVendorName(vendorId)}
+                      </Link>
+                    ) : (
+                      "No Preferred Vendor"
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    {vendorId
+                      ? `${vendorSuggestions.length} product${vendorSuggestions.length !== 1 ? "s" : ""} to reorder`
+                      : "Set a preferred vendor on these products to include them in a purchase order"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead className="text-right">Available</TableHead>
+                          <TableHead className="text-right">On Order</TableHead>
+                          <TableHead className="text-right">Daily Sales</TableHead>
+                          <TableHead className="text-right">Reorder Point</TableHead>
+                          <TableHead className="text-right">Target</TableHead>
+                          <TableHead className="text-right">Unit Cost</TableHead>
+                          <TableHead className="text-right">Order Qty</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {vendorSuggestions.map((suggestion) => (
+                          <TableRow key={suggestion.productId}>
+                            <TableCell>
+                              <Link
+                                href={`/admin/inventory/products/${suggestion.productId}`}
+                                className="font-medium hover:underline"
+                              >
+                                {suggestion.productName}
+                              </Link>
+                              <p className="text-xs text-gray-500 font-mono">{suggestion.sku}</p>
+                            </TableCell>
+                            <TableCell
+                              className={`text-right ${suggestion.available <= 0 ? "text-red-600 font-semibold" : ""}`}
+                            >
+                              {suggestion.available}
+                            </TableCell>
+                            <TableCell className="text-right">{suggestion.onOrder}</TableCell>
+                            <TableCell className="text-right">{suggestion.dailySales}</TableCell>
+                            <TableCell className="text-right">{suggestion.reorderPoint}</TableCell>
+                            <TableCell className="text-right">{suggestion.targetLevel}</TableCell>
+                            <TableCell className="text-right">Rs {suggestion.unitPrice.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">
+                              {vendorId && canOrder ? (
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  value={quantities[suggestion.productId] ?? ""}
+                                  onChange={(e) =>
+                                    setQuantities({ ...quantities, [suggestion.productId]: e.target.value })
+                                  }
+                                  className="w-24 ml-auto"
+                                />
+                              ) : (
+                                suggestion.suggestedQuantity
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,360 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ProductService } from "@/lib/services/productService";
+import { StockTakeService } from "@/lib/services/stockTakeService";
+import { WarehouseService } from "@/lib/services/warehouseService";
+import { Product, StockTake, StockTakeLine } from "@/lib/types";
+import { getLineVariance, summariseStockTake } from "@/lib/utils/stockTake";
+import { useBarcodeScanner } from "@/lib/hooks/useBarcodeScanner";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/lib/hooks/usePermissions";
+import { ArrowLeft, CheckCircle, Save, ScanLine, X } from "lucide-react";
+import Link from "next/link";
+
+type LineFilter = "all" | "uncounted" | "variance";
+
+export default function StockTakeDetailPage() {
+  const params = useParams();
+  const stockTakeId = params.id as string;
+  const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const [stockTake, setStockTake] = useState<StockTake | null>(null);
+  const [lines, setLines] = useState<StockTakeLine[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [warehouseName, setWarehouseName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [filter, setFilter] = useState<LineFilter>("all");
+  const [lastScan, setLastScan] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (stockTakeId) {
+      fetchStockTake();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stockTakeId]);
+
+  const fetchStockTake = async () => {
+    try {
+      const stockTakeData = await StockTakeService.getStockTake(stockTakeId);
+      setStockTake(stockTakeData);
+      if (stockTakeData) {
+        setLines(stockTakeData.lines);
+        setDirty(false);
+        const warehouse = await WarehouseService.getWarehouse(stockTakeData.warehouseId);
+        setWarehouseName(warehouse?.name || stockTakeData.warehouseId);
+        if (stockTakeData.status === "COUNTING") {
+          // Needed to add products found on the shelf that weren't expected there
+          setProducts(await ProductService.getAllProducts());
+        }
+      }
+    } catch (error) {
+      console.error("Error fetching stock-take:", error);
+      setError("Failed to load stock-take");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const counting = stockTake?.status === "COUNTING" && hasPermission("inventory", "update");
+
+  const setCount = (productId: string, countedQuantity: number | undefined) => {
+    setLines((current) =>
+      current.map((line) => {
+        if (line.productId !== productId) return line;
+        const updated = { ...line };
+        // Uncounted lines have no countedQuantity (Firestore doesn't allow undefined)
+        if (countedQuantity === undefined) {
+          delete updated.countedQuantity;
+        } else {
+          updated.countedQuantity = countedQuantity;
+        }
+        return updated;
+      })
+    );
+    setDirty(true);
+  };
+
+  // Each scan counts one unit
+  useBarcodeScanner({
+    onScan: (barcode) => {
+      if (!stockTake) return;
+      const line = lines.find((l) => l.sku === barcode);
+      if (line) {
+        const count = (line.countedQuantity || 0) + 1;
+        setCount(line.productId, count);
+        setLastScan(`${line.productName}: ${count}`);
+        return;
+      }
+      const product = products.find((p) => p.sku === barcode);
+      if (product) {
+        setLines((current) => [
+          ...current,
+          { ...StockTakeService.buildLine(product, stockTake.warehouseId), countedQuantity: 1 },
+        ]);
+        setDirty(true);
+        setLastScan(`${product.name}: 1 (not expected here)`);
+      } else {
+        setLastScan(`Unknown barcode ${barcode}`);
+      }
+    },
+    enabled: counting,
+  });
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setProcessing(true);
+    try {
+      await action();
+      await fetchStockTake();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update stock-take");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleSave = () => runAction(() => StockTakeService.saveCounts(stockTakeId, lines));
+
+  const handleApprove = () => {
+    if (!user) return;
+    const summary = summariseStockTake(lines);
+    const message =
+      `Approve this count? ${summary.linesWithVariance} product(s) will be adjusted ` +
+      `(estimated Rs ${summary.estimatedValue.toFixed(2)}).` +
+      (summary.uncounted > 0 ? ` ${summary.uncounted} uncounted product(s) will be left unchanged.` : "");
+    if (!confirm(message)) return;
+    runAction(async () => {
+      if (dirty) {
+        await StockTakeService.saveCounts(stockTakeId, lines);
+      }
+      await StockTakeService.approveStockTake(stockTakeId, user.uid);
+    });
+  };
+
+  const handleCancel = () => {
+    if (!user) return;
+    if (!confirm("Cancel this stock-take? Counts are discarded and no stock changes.")) return;
+    runAction(() => StockTakeService.cancelStockTake(stockTakeId, user.uid));
+  };
+
+  if (loading) {
+    return (
+      <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+        <AdminLayout>
+          <div className="text-center py-12">Loading stock-take...</div>
+        </AdminLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  if (!stockTake) {
+    return (
+      <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+        <AdminLayout>
+          <div className="text-center py-12">
+            <h1 className="text-2xl font-bold mb-4">Stock-take not found</h1>
+            <Link href="/admin/inventory/stock-takes">
+              <Button>Back to Stock-takes</Button>
+            </Link>
+          </div>
+        </AdminLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  const summary = summariseStockTake(lines);
+  const visibleLines = lines.filter((line) => {
+    const variance = getLineVariance(line);
+    if (filter === "uncounted") return variance === null;
+    if (filter === "variance") return variance !== null && variance !== 0;
+    return true;
+  });
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+      <AdminLayout>
+        <div className="space-y-6">
+          <div className="flex items-center gap-4">
+            <Link href="/admin/inventory/stock-takes">
+              <Button variant="outline" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-3xl font-bold">{stockTake.stockTakeNumber}</h1>
+              <p className="text-gray-600 mt-1">
+                {warehouseName}
+                {stockTake.position ? ` - ${stockTake.position}` : ""} · {stockTake.status}
+              </p>
+            </div>
+            {counting && (
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleSave} disabled={processing || !dirty}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Counts
+                </Button>
+                <Button onClick={handleApprove} disabled={processing || summary.counted === 0}>
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  Approve
+                </Button>
+                <Button variant="destructive" onClick={handleCancel} disabled={processing}>
+                  <X className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Counted</CardDescription>
+                <CardTitle className="text-2xl">
+                  {summary.counted} / {lines.length}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Units Short</CardDescription>
+                <CardTitle className="text-2xl text-red-600">{summary.unitsShort}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Units Over</CardDescription>
+                <CardTitle className="text-2xl text-green-600">{summary.unitsOver}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>
+                  {stockTake.varianceValue !== undefined ? "Variance Posted" : "Estimated Variance"}
+                </CardDescription>
+                <CardTitle
+                  className={`text-2xl ${(stockTake.varianceValue ?? summary.estimatedValue) < 0 ? "text-red-600" : ""}`}
+                >
+                  Rs {(stockTake.varianceValue ?? summary.estimatedValue).toFixed(2)}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Count Sheet</CardTitle>
+                  <CardDescription>
+                    {counting ? (
+                      <span className="flex items-center gap-1">
+                        <ScanLine className="h-4 w-4" />
+                        Scan items to count them one at a time, or type the count
+                        {lastScan && <span className="font-medium text-gray-900"> · {lastScan}</span>}
+                      </span>
+                    ) : (
+                      "Expected quantities as of when the count started"
+                    )}
+                  </CardDescription>
+                </div>
+                <Select value={filter} onValueChange={(value) => setFilter(value as LineFilter)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All items</SelectItem>
+                    <SelectItem value="uncounted">Not counted</SelectItem>
+                    <SelectItem value="variance">With variance</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>SKU</TableHead>
+                      <TableHead>Position</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Counted</TableHead>
+                      <TableHead className="text-right">Variance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleLines.map((line) => {
+                      const variance = getLineVariance(line);
+                      return (
+                        <TableRow key={line.productId}>
+                          <TableCell className="font-medium">{line.productName}</TableCell>
+                          <TableCell className="font-mono text-sm">{line.sku}</TableCell>
+                          <TableCell>{line.position || "-"}</TableCell>
+                          <TableCell className="text-right">{line.expectedQuantity}</TableCell>
+                          <TableCell className="text-right">
+                            {counting ? (
+                              <Input
+                                type="number"
+                                min="0"
+                                value={line.countedQuantity ?? ""}
+                                onChange={(e) =>
+                                  setCount(
+                                    line.productId,
+                                    e.target.value === "" ? undefined : Math.max(0, parseInt(e.target.value) || 0)
+                                  )
+                                }
+                                className="w-24 ml-auto"
+                              />
+                            ) : (
+                              line.countedQuantity ?? "-"
+                            )}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right font-semibold ${
+                              variance === null || variance === 0
+                                ? "text-gray-500"
+                                : variance < 0
+                                  ? "text-red-600"
+                                  : "text-green-600"
+                            }`}
+                          >
+                            {variance === null ? "-" : variance > 0 ? `+${variance}` : variance}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ProductService } from "@/lib/services/productService";
+import { StockTakeService } from "@/lib/services/stockTakeService";
+import { WarehouseService } from "@/lib/services/warehouseService";
+import { Product, StockTake, Warehouse } from "@/lib/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/lib/hooks/usePermissions";
+import { ClipboardList } from "lucide-react";
+import Link from "next/link";
+
+const ALL_POSITIONS = "all";
+
+function getStatusColor(status: StockTake["status"]) {
+  switch (status) {
+    case "COUNTING":
+      return "text-blue-600";
+    case "APPROVED":
+      return "text-green-600";
+    case "CANCELLED":
+      return "text-red-600";
+    default:
+      return "text-gray-600";
+  }
+}
+
+export default function StockTakesPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [warehouseId, setWarehouseId] = useState("");
+  const [position, setPosition] = useState(ALL_POSITIONS);
+  const [notes, setNotes] = useState("");
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [stockTakeList, warehouseList, productList] = await Promise.all([
+        StockTakeService.getAllStockTakes(),
+        WarehouseService.getAllWarehouses(),
+        ProductService.getAllProducts(),
+      ]);
+      setStockTakes(stockTakeList);
+      setWarehouses(warehouseList);
+      setProducts(productList);
+    } catch (error) {
+      console.error("Error fetching stock-takes:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getWarehouseName = (id: string) => warehouses.find((w) => w.id === id)?.name || id;
+
+  // Shelves/positions used in the selected warehouse, for counting one at a time
+  const positions = Array.from(
+    new Set(
+      products
+        .map((product) => product.warehouses?.[warehouseId]?.position)
+        .filter((value): value is string => !!value)
+    )
+  ).sort();
+
+  const handleStart = async () => {
+    if (!user || !warehouseId) return;
+    setStarting(true);
+    try {
+      const stockTakeId = await StockTakeService.startStockTake(
+        warehouseId,
+        user.uid,
+        position !== ALL_POSITIONS ? position : undefined,
+        notes.trim() || undefined
+      );
+      router.push(`/admin/inventory/stock-takes/${stockTakeId}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to start stock-take");
+      setStarting(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+      <AdminLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold">Stock-takes</h1>
+            <p className="text-gray-600 mt-2">Count what is on the shelves and correct the system to match</p>
+          </div>
+
+          {hasPermission("inventory", "update") && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardList className="h-5 w-5" />
+                  Start a Count
+                </CardTitle>
+                <CardDescription>
+                  Expected quantities are frozen when the count starts; sales can carry on while you count
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label>Warehouse</Label>
+                  <Select
+                    value={warehouseId}
+                    onValueChange={(value) => {
+                      setWarehouseId(value);
+                      setPosition(ALL_POSITIONS);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map((warehouse) => (
+                        <SelectItem key={warehouse.id} value={warehouse.id}>
+                          {warehouse.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Position / Shelf</Label>
+                  <Select value={position} onValueChange={setPosition} disabled={!warehouseId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_POSITIONS}>Whole warehouse</SelectItem>
+                      {positions.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {value}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Input
+                    id="notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="e.g., Monthly cycle count"
+                  />
+                </div>
+                <Button onClick={handleStart} disabled={!warehouseId || starting}>
+                  {starting ? "Starting..." : "Start Count"}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Count History</CardTitle>
+              <CardDescription>
+                {stockTakes.length} stock-take{stockTakes.length !== 1 ? "s" : ""}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">Loading stock-takes...</div>
+              ) : stockTakes.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No stock-takes yet.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Stock-take #</TableHead>
+                        <TableHead>Started</TableHead>
+                        <TableHead>Warehouse</TableHead>
+                        <TableHead>Position</TableHead>
+                        <TableHead>Lines</TableHead>
+                        <TableHead>Variance</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stockTakes.map((stockTake) => (
+                        <TableRow key={stockTake.id}>
+                          <TableCell className="font-mono text-sm">{stockTake.stockTakeNumber}</TableCell>
+                          <TableCell>{stockTake.startedAt.toDate().toLocaleDateString()}</TableCell>
+                          <TableCell>{getWarehouseName(stockTake.warehouseId)}</TableCell>
+                          <TableCell>{stockTake.position || "All"}</TableCell>
+                          <TableCell>{stockTake.lines.length}</TableCell>
+                          <TableCell
+                            className={(stockTake.varianceValue || 0) < 0 ? "text-red-600" : ""}
+                          >
+                            {stockTake.varianceValue !== undefined
+                              ? `Rs ${stockTake.varianceValue.toFixed(2)}`
+                              : "-"}
+                          </TableCell>
+                          <TableCell>
+                            <span className={`font-medium ${getStatusColor(stockTake.status)}`}>
+                              {stockTake.status}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Link href={`/admin/inventory/stock-takes/${stockTake.id}`}>
+                              <Button variant="outline" size="sm">
+                                {stockTake.status === "COUNTING" ? "Continue" : "View"}
+                              </Button>
+                            </Link>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
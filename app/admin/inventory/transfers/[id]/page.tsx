@@ -0,0 +1,313 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TransferService } from "@/lib/services/transferService";
+import { WarehouseService } from "@/lib/services/warehouseService";
+import { StockTransfer, Warehouse } from "@/lib/types";
+import { printTransferSlip } from "@/lib/utils/transferSlip";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/lib/hooks/usePermissions";
+import { ArrowLeft, PackageCheck, Printer, Truck, X } from "lucide-react";
+import Link from "next/link";
+
+export default function TransferDetailPage() {
+  const params = useParams();
+  const transferId = params.id as string;
+  const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const [transfer, setTransfer] = useState<StockTransfer | null>(null);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [receiving, setReceiving] = useState(false);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, string>>({});
+  const [discrepancyNotes, setDiscrepancyNotes] = useState("");
+
+  useEffect(() => {
+    if (transferId) {
+      fetchTransfer();
+      WarehouseService.getAllWarehouses()
+        .then(setWarehouses)
+        .catch((error) => console.error("Error fetching warehouses:", error));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [transferId]);
+
+  const fetchTransfer = async () => {
+    try {
+      const transferData = await TransferService.getTransfer(transferId);
+      setTransfer(transferData);
+      if (transferData) {
+        const quantities: Record<string, string> = {};
+        transferData.items.forEach((item) => {
+          quantities[item.productId] = item.quantity.toString();
+        });
+        setReceivedQuantities(quantities);
+      }
+    } catch (error) {
+      console.error("Error fetching transfer:", error);
+      setError("Failed to load transfer");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const warehouseNames = Object.fromEntries(warehouses.map((w) => [w.id, w.name]));
+  const getWarehouseName = (id: string) => warehouseNames[id] || id;
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    setProcessing(true);
+    try {
+      await action();
+      setReceiving(false);
+      await fetchTransfer();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update transfer");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDispatch = () => {
+    if (!user || !transfer) return;
+    if (!confirm(`Dispatch ${transfer.transferNumber}? Stock leaves ${getWarehouseName(transfer.fromWarehouseId)} now.`)) {
+      return;
+    }
+    runAction(() => TransferService.dispatchTransfer(transferId, user.uid));
+  };
+
+  const handleReceive = () => {
+    if (!user || !transfer) return;
+    const quantities: Record<string, number> = {};
+    for (const item of transfer.items) {
+      quantities[item.productId] = parseInt(receivedQuantities[item.productId]) || 0;
+    }
+    runAction(() =>
+      TransferService.receiveTransfer(transferId, quantities, user.uid, discrepancyNotes.trim() || undefined)
+    );
+  };
+
+  const handleCancel = () => {
+    if (!user || !transfer) return;
+    const message =
+      transfer.status === "IN_TRANSIT"
+        ? `Cancel ${transfer.transferNumber}? The goods go back into ${getWarehouseName(transfer.fromWarehouseId)}.`
+        : `Cancel ${transfer.transferNumber}?`;
+    if (!confirm(message)) return;
+    runAction(() => TransferService.cancelTransfer(transferId, user.uid));
+  };
+
+  if (loading) {
+    return (
+      <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+        <AdminLayout>
+          <div className="text-center py-12">Loading transfer...</div>
+        </AdminLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  if (!transfer) {
+    return (
+      <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+        <AdminLayout>
+          <div className="text-center py-12">
+            <h1 className="text-2xl font-bold mb-4">Transfer not found</h1>
+            <Link href="/admin/inventory/transfers">
+              <Button>Back to Transfers</Button>
+            </Link>
+          </div>
+        </AdminLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  const canUpdate = hasPermission("inventory", "update");
+  const hasDiscrepancy = transfer.items.some(
+    (item) => (parseInt(receivedQuantities[item.productId]) || 0) !== item.quantity
+  );
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+      <AdminLayout>
+        <div className="space-y-6">
+          <div className="flex items-center gap-4">
+            <Link href="/admin/inventory/transfers">
+              <Button variant="outline" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-3xl font-bold">{transfer.transferNumber}</h1>
+              <p className="text-gray-600 mt-1">
+                {getWarehouseName(transfer.fromWarehouseId)} → {getWarehouseName(transfer.toWarehouseId)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => printTransferSlip(transfer, warehouseNames)}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print Slip
+              </Button>
+              {canUpdate && transfer.status === "DRAFT" && (
+                <Button onClick={handleDispatch} disabled={processing}>
+                  <Truck className="mr-2 h-4 w-4" />
+                  Dispatch
+                </Button>
+              )}
+              {canUpdate && transfer.status === "IN_TRANSIT" && !receiving && (
+                <Button onClick={() => setReceiving(true)} disabled={processing}>
+                  <PackageCheck className="mr-2 h-4 w-4" />
+                  Receive
+                </Button>
+              )}
+              {canUpdate && (transfer.status === "DRAFT" || transfer.status === "IN_TRANSIT") && (
+                <Button variant="destructive" onClick={handleCancel} disabled={processing}>
+                  <X className="mr-2 h-4 w-4" />
+                  Cancel Transfer
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Transfer Information</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-600">Status</p>
+                <p className="font-semibold">{transfer.status.replace("_", " ")}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Created</p>
+                <p className="font-semibold">{transfer.createdAt.toDate().toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Dispatched</p>
+                <p className="font-semibold">{transfer.dispatchedAt?.toDate().toLocaleString() || "-"}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Received</p>
+                <p className="font-semibold">{transfer.receivedAt?.toDate().toLocaleString() || "-"}</p>
+              </div>
+              {transfer.notes && (
+                <div className="col-span-2 md:col-span-4">
+                  <p className="text-gray-600">Notes</p>
+                  <p>{transfer.notes}</p>
+                </div>
+              )}
+              {transfer.discrepancyNotes && (
+                <div className="col-span-2 md:col-span-4">
+                  <p className="text-gray-600">Discrepancy</p>
+                  <p>
+                    {transfer.discrepancyNotes}
+                    {transfer.lossValue ? ` (written off at cost: Rs ${transfer.lossValue.toFixed(2)})` : ""}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+              <CardDescription>
+                {receiving
+                  ? "Enter what actually arrived; anything short is written off as lost in transit"
+                  : `${transfer.items.length} product${transfer.items.length !== 1 ? "s" : ""}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead className="text-right">Sent</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfer.items.map((item) => (
+                    <TableRow key={item.productId}>
+                      <TableCell className="font-medium">{item.productName}</TableCell>
+                      <TableCell className="font-mono text-sm">{item.sku}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">
+                        {receiving ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            max={item.quantity}
+                            value={receivedQuantities[item.productId] ?? ""}
+                            onChange={(e) =>
+                              setReceivedQuantities({ ...receivedQuantities, [item.productId]: e.target.value })
+                            }
+                            className="w-24 ml-auto"
+                          />
+                        ) : item.receivedQuantity !== undefined ? (
+                          <span className={item.receivedQuantity < item.quantity ? "text-red-600 font-semibold" : ""}>
+                            {item.receivedQuantity}
+                          </span>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {receiving && (
+                <div className="space-y-4 border-t pt-4">
+                  {hasDiscrepancy && (
+                    <div className="space-y-2">
+                      <Label htmlFor="discrepancyNotes">Discrepancy Notes *</Label>
+                      <Input
+                        id="discrepancyNotes"
+                        value={discrepancyNotes}
+                        onChange={(e) => setDiscrepancyNotes(e.target.value)}
+                        placeholder="e.g., 2 units broken in transit"
+                      />
+                    </div>
+                  )}
+                  <div className="flex gap-2 justify-end">
+                    <Button variant="outline" onClick={() => setReceiving(false)} disabled={processing}>
+                      Back
+                    </Button>
+                    <Button onClick={handleReceive} disabled={processing}>
+                      {processing ? "Receiving..." : `Receive into ${getWarehouseName(transfer.toWarehouseId)}`}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
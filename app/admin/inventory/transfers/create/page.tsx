@@ -0,0 +1,303 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ProductService } from "@/lib/services/productService";
+import { TransferService } from "@/lib/services/transferService";
+import { WarehouseService } from "@/lib/services/warehouseService";
+import { Product, StockTransferItem, Warehouse } from "@/lib/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+import Link from "next/link";
+
+export default function CreateTransferPage() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [fromWarehouseId, setFromWarehouseId] = useState("");
+  const [toWarehouseId, setToWarehouseId] = useState("");
+  const [items, setItems] = useState<StockTransferItem[]>([]);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([WarehouseService.getAllWarehouses(), ProductService.getAllProducts()])
+      .then(([warehouseList, productList]) => {
+        setWarehouses(warehouseList);
+        setProducts(productList);
+      })
+      .catch((error) => {
+        console.error("Error loading transfer data:", error);
+        setError("Failed to load warehouses and products");
+      });
+  }, []);
+
+  // Units that can be sent: on hand in the source warehouse less anything held for online orders
+  const getAvailable = (productId: string) => {
+    const warehouse = products.find((p) => p.id === productId)?.warehouses[fromWarehouseId];
+    return warehouse ? warehouse.quantity - (warehouse.reserved || 0) : 0;
+  };
+
+  const sourceProducts = products.filter((product) => getAvailable(product.id) > 0);
+
+  const addItem = () => {
+    setItems([...items, { productId: "", productName: "", sku: "", quantity: 0 }]);
+  };
+
+  const removeItem = (index: number) => {
+    setItems(items.filter((_, i) => i !== index));
+  };
+
+  const updateItem = (index: number, updates: Partial<StockTransferItem>) => {
+    const updatedItems = [...items];
+    updatedItems[index] = { ...updatedItems[index], ...updates };
+
+    // If productId changed, update productName and sku
+    if (updates.productId) {
+      const product = products.find((p) => p.id === updates.productId);
+      if (product) {
+        updatedItems[index].productName = product.name;
+        updatedItems[index].sku = product.sku;
+      }
+    }
+
+    setItems(updatedItems);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!fromWarehouseId || !toWarehouseId) {
+      setError("Select both warehouses");
+      return;
+    }
+    if (fromWarehouseId === toWarehouseId) {
+      setError("Source and destination warehouses must be different");
+      return;
+    }
+    if (items.length === 0) {
+      setError("Please add at least one item");
+      return;
+    }
+    for (const item of items) {
+      if (!item.productId || item.quantity <= 0) {
+        setError("Please fill in all item details correctly");
+        return;
+      }
+      if (item.quantity > getAvailable(item.productId)) {
+        setError(`Only ${getAvailable(item.productId)} of ${item.productName} available to transfer`);
+        return;
+      }
+    }
+
+    setError(null);
+    setSaving(true);
+
+    try {
+      const transferId = await TransferService.createTransfer(
+        fromWarehouseId,
+        toWarehouseId,
+        items,
+        user.uid,
+        notes.trim() || undefined
+      );
+      router.push(`/admin/inventory/transfers/${transferId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create transfer");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "inventory", action: "create" }}>
+      <AdminLayout>
+        <div className="space-y-6">
+          <div className="flex items-center gap-4">
+            <Link href="/admin/inventory/transfers">
+              <Button variant="outline" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold">New Transfer</h1>
+              <p className="text-gray-600 mt-1">Stock stays in the source warehouse until the transfer is dispatched</p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Route</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Select
+                    value={fromWarehouseId}
+                    onValueChange={(value) => {
+                      setFromWarehouseId(value);
+                      setItems([]);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Source warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses.map((warehouse) => (
+                        <SelectItem key={warehouse.id} value={warehouse.id}>
+                          {warehouse.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  <Select value={toWarehouseId} onValueChange={setToWarehouseId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Destination warehouse" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {warehouses
+                        .filter((warehouse) => warehouse.id !== fromWarehouseId)
+                        .map((warehouse) => (
+                          <SelectItem key={warehouse.id} value={warehouse.id}>
+                            {warehouse.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Input
+                    id="notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="e.g., Restock for weekend sale"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <CardTitle>Items</CardTitle>
+                    <CardDescription>Products to send from the source warehouse</CardDescription>
+                  </div>
+                  <Button type="button" onClick={addItem} variant="outline" disabled={!fromWarehouseId}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Item
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {items.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    {fromWarehouseId ? 'No items added. Click "Add Item" to start.' : "Select a source warehouse first."}
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Available</TableHead>
+                          <TableHead>Quantity</TableHead>
+                          <TableHead className="w-[50px]"></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {items.map((item, index) => (
+                          <TableRow key={index}>
+                            <TableCell>
+                              <Select
+                                value={item.productId}
+                                onValueChange={(value) => updateItem(index, { productId: value })}
+                              >
+                                <SelectTrigger className="w-[240px]">
+                                  <SelectValue placeholder="Select product" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {sourceProducts.map((product) => (
+                                    <SelectItem key={product.id} value={product.id}>
+                                      {product.name} ({product.sku})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>{item.productId ? getAvailable(item.productId) : "-"}</TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="1"
+                                value={item.quantity || ""}
+                                onChange={(e) => updateItem(index, { quantity: parseInt(e.target.value) || 0 })}
+                                className="w-24"
+                                required
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="icon"
+                                onClick={() => removeItem(index)}
+                                className="text-red-600 hover:text-red-700"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="flex gap-4 justify-end">
+              <Link href="/admin/inventory/transfers">
+                <Button type="button" variant="outline" disabled={saving}>
+                  Cancel
+                </Button>
+              </Link>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Creating..." : "Create Transfer"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
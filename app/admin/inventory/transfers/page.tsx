@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TransferService } from "@/lib/services/transferService";
+import { WarehouseService } from "@/lib/services/warehouseService";
+import { StockTransfer, Warehouse } from "@/lib/types";
+import { usePermissions } from "@/lib/hooks/usePermissions";
+import { Plus } from "lucide-react";
+import Link from "next/link";
+
+function getTransferStatusColor(status: StockTransfer["status"]) {
+  switch (status) {
+    case "DRAFT":
+      return "text-gray-600";
+    case "IN_TRANSIT":
+      return "text-blue-600";
+    case "RECEIVED":
+      return "text-green-600";
+    case "CANCELLED":
+      return "text-red-600";
+    default:
+      return "text-gray-600";
+  }
+}
+
+export default function TransfersPage() {
+  const { hasPermission } = usePermissions();
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [transferList, warehouseList] = await Promise.all([
+        TransferService.getAllTransfers(),
+        WarehouseService.getAllWarehouses(),
+      ]);
+      setTransfers(transferList);
+      setWarehouses(warehouseList);
+    } catch (error) {
+      console.error("Error fetching transfers:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getWarehouseName = (id: string) => warehouses.find((w) => w.id === id)?.name || id;
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "inventory", action: "view" }}>
+      <AdminLayout>
+        <div className="space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold">Stock Transfers</h1>
+              <p className="text-gray-600 mt-2">Move stock between warehouses</p>
+            </div>
+            {hasPermission("inventory", "create") && (
+              <Link href="/admin/inventory/transfers/create">
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Transfer
+                </Button>
+              </Link>
+            )}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Transfer List</CardTitle>
+              <CardDescription>
+                {transfers.filter((t) => t.status === "IN_TRANSIT").length} in transit
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">Loading transfers...</div>
+              ) : transfers.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No transfers yet.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Transfer #</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>From</TableHead>
+                        <TableHead>To</TableHead>
+                        <TableHead>Units</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {transfers.map((transfer) => (
+                        <TableRow key={transfer.id}>
+                          <TableCell className="font-mono text-sm">{transfer.transferNumber}</TableCell>
+                          <TableCell>{transfer.createdAt.toDate().toLocaleDateString()}</TableCell>
+                          <TableCell>{getWarehouseName(transfer.fromWarehouseId)}</TableCell>
+                          <TableCell>{getWarehouseName(transfer.toWarehouseId)}</TableCell>
+                          <TableCell>
+                            {transfer.items.reduce((sum, item) => sum + item.quantity, 0)}
+                          </TableCell>
+                          <TableCell>
+                            <span className={`font-medium ${getTransferStatusColor(transfer.status)}`}>
+                              {transfer.status.replace("_", " ")}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Link href={`/admin/inventory/transfers/${transfer.id}`}>
+                              <Button variant="outline" size="sm">
+                                View Details
+                              </Button>
+                            </Link>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
@@ -31,10 +31,12 @@ export default function WarehousesPage() {
   const [formData, setFormData] = useState({
     name: "",
     address: "",
+    priority: "",
   });
   const [editFormData, setEditFormData] = useState({
     name: "",
     address: "",
+    priority: "",
   });
 
   useEffect(() => {
@@ -62,10 +64,11 @@ export default function WarehousesPage() {
       await addDoc(collection(db, "warehouses"), {
         name: formData.name,
         address: formData.address || undefined,
+        priority: parseInt(formData.priority) || 0,
         isActive: true,
         createdAt: Timestamp.now(),
       });
-      setFormData({ name: "", address: "" });
+      setFormData({ name: "", address: "", priority: "" });
       setShowCreateForm(false);
       fetchWarehouses();
     } catch (error) {
@@ -90,6 +93,7 @@ export default function WarehousesPage() {
     setEditFormData({
       name: warehouse.name,
       address: warehouse.address || "",
+      priority: warehouse.priority !== undefined ? warehouse.priority.toString() : "",
     });
   };
 
@@ -101,6 +105,7 @@ export default function WarehousesPage() {
       await updateDoc(doc(db, "warehouses", editingWarehouse.id), {
         name: editFormData.name,
         address: editFormData.address || undefined,
+        priority: parseInt(editFormData.priority) || 0,
         updatedAt: Timestamp.now(),
       });
       setEditingWarehouse(null);
@@ -156,6 +161,20 @@ export default function WarehousesPage() {
                     placeholder="Warehouse address"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priority">Allocation Priority</Label>
+                  <Input
+                    id="priority"
+                    type="number"
+                    min="0"
+                    value={formData.priority}
+                    onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                    placeholder="0"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Sales fall back to warehouses with lower numbers first
+                  </p>
+                </div>
                 <div className="flex gap-4">
                   <Button type="submit">Create</Button>
                   <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)}>
@@ -186,6 +205,7 @@ export default function WarehousesPage() {
                     <TableRow>
                       <TableHead>Name</TableHead>
                       <TableHead>Address</TableHead>
+                      <TableHead>Priority</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
@@ -195,6 +215,7 @@ export default function WarehousesPage() {
                       <TableRow key={warehouse.id}>
                         <TableCell className="font-medium">{warehouse.name}</TableCell>
                         <TableCell>{warehouse.address || "N/A"}</TableCell>
+                        <TableCell>{warehouse.priority ?? 0}</TableCell>
                         <TableCell>
                           <span
                             className={warehouse.isActive ? "text-green-600" : "text-gray-400"}
@@ -260,6 +281,20 @@ export default function WarehousesPage() {
                   placeholder="Warehouse address"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-priority">Allocation Priority</Label>
+                <Input
+                  id="edit-priority"
+                  type="number"
+                  min="0"
+                  value={editFormData.priority}
+                  onChange={(e) => setEditFormData({ ...editFormData, priority: e.target.value })}
+                  placeholder="0"
+                />
+                <p className="text-xs text-gray-500">
+                  Sales fall back to warehouses with lower numbers first
+                </p>
+              </div>
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setEditingWarehouse(null)}>
                   Cancel
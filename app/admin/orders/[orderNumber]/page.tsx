@@ -23,6 +23,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { OrderStatusTimeline } from "@/components/OrderStatusTimeline";
 import { OrderService } from "@/lib/services/orderService";
 import { Order, OrderStatus, User } from "@/lib/types";
 import { printReceipt, downloadReceiptHTML } from "@/lib/utils/receiptGenerator";
@@ -32,6 +33,14 @@ import Link from "next/link";
 import { db } from "@/lib/firebase";
 import { doc, getDoc } from "firebase/firestore";
 
+const statusLabels: Record<OrderStatus, string> = {
+  PENDING: "Pending",
+  CONFIRMED: "Confirmed",
+  SHIPPED: "Shipped",
+  COMPLETED: "Completed",
+  CANCELLED: "Cancelled",
+};
+
 export default function AdminOrderDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -42,6 +51,8 @@ export default function AdminOrderDetailPage() {
   const [updating, setUpdating] = useState(false);
   const [status, setStatus] = useState<OrderStatus>("PENDING");
   const [notes, setNotes] = useState("");
+  const [statusNote, setStatusNote] = useState("");
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
   const [performedByUser, setPerformedByUser] = useState<User | null>(null);
 
   useEffect(() => {
@@ -55,6 +66,8 @@ export default function AdminOrderDetailPage() {
         setOrder(foundOrder);
         setStatus(foundOrder.status);
         setNotes(foundOrder.notes || "");
+        setStatusNote("");
+        fetchActorNames(foundOrder);
 
         // Reset performedByUser first
         setPerformedByUser(null);
@@ -84,6 +97,36 @@ export default function AdminOrderDetailPage() {
     }
   };
 
+  // Resolve display names for everyone who appears in the status history
+  const fetchActorNames = async (foundOrder: Order) => {
+    const names: Record<string, string> = {
+      guest: "Guest",
+      system: "System",
+    };
+    if (foundOrder.customerId) {
+      names[foundOrder.customerId] = foundOrder.customerInfo.name;
+    }
+    const userIds = new Set(
+      OrderService.getStatusHistory(foundOrder)
+        .map((change) => change.performedBy)
+        .filter((id) => !names[id])
+    );
+    await Promise.all(
+      Array.from(userIds).map(async (userId) => {
+        try {
+          const userDoc = await getDoc(doc(db, "users", userId));
+          if (userDoc.exists()) {
+            const data = userDoc.data() as User;
+            names[userId] = data.displayName || data.email || userId;
+          }
+        } catch (error) {
+          console.error("Error fetching status history user:", error);
+        }
+      })
+    );
+    setActorNames(names);
+  };
+
   const handleStatusUpdate = async () => {
     if (!order || !user) {
       alert("User not authenticated. Please log in again.");
@@ -93,7 +136,9 @@ export default function AdminOrderDetailPage() {
     setUpdating(true);
     try {
       // Always pass user.uid to track who performed this update
-      await OrderService.updateOrderStatus(order.id, status, user.uid);
+      if (status !== order.status) {
+        await OrderService.updateOrderStatus(order.id, status, user.uid, statusNote.trim() || undefined);
+      }
       if (notes !== order.notes) {
         await OrderService.updateOrderNotes(order.id, notes);
       }
@@ -122,7 +167,7 @@ export default function AdminOrderDetailPage() {
     setUpdating(true);
     try {
       // Always pass user.uid to track who completed this order
-      await OrderService.updateOrderStatus(order.id, "COMPLETED", user.uid);
+      await OrderService.updateOrderStatus(order.id, "COMPLETED", user.uid, statusNote.trim() || undefined);
       // Small delay to ensure database update is reflected
       await new Promise(resolve => setTimeout(resolve, 500));
       await fetchOrder();
@@ -226,14 +271,27 @@ export default function AdminOrderDetailPage() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="PENDING">Pending</SelectItem>
-                      <SelectItem value="CONFIRMED">Confirmed</SelectItem>
-                      <SelectItem value="SHIPPED">Shipped</SelectItem>
-                      <SelectItem value="CANCELLED">Cancelled</SelectItem>
+                      {/* Only the current status and the moves allowed from it */}
+                      {[order.status, ...OrderService.STATUS_TRANSITIONS[order.status]].map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {statusLabels[option]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
 
+                {status !== order.status && (
+                  <div className="space-y-2">
+                    <Label>Status Note (optional)</Label>
+                    <Input
+                      value={statusNote}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                      placeholder="Reason for this status change..."
+                    />
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label>Notes</Label>
                   <Input
@@ -341,6 +399,16 @@ export default function AdminOrderDetailPage() {
             </Card>
           </div>
 
+          {/* Status History */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Status History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderStatusTimeline order={order} actorNames={actorNames} showNotes />
+            </CardContent>
+          </Card>
+
           {/* Order Items */}
           <Card>
             <CardHeader>
@@ -360,7 +428,19 @@ export default function AdminOrderDetailPage() {
                 <TableBody>
                   {order.items.map((item, index) => (
                     <TableRow key={index}>
-                      <TableCell className="font-medium">{item.productName}</TableCell>
+                      <TableCell className="font-medium">
+                        {item.productName}
+                        {item.bundle && (
+                          <p className="text-xs text-gray-500 font-normal">
+                            Part of {item.bundle.productName} x {item.bundle.quantity}
+                          </p>
+                        )}
+                        {item.promotion && (
+                          <p className="text-xs text-green-600 font-normal">
+                            {item.promotion.name}: -Rs {item.promotion.amount.toFixed(2)}
+                          </p>
+                        )}
+                      </TableCell>
                       <TableCell>{item.sku}</TableCell>
                       <TableCell className="text-right">{item.quantity}</TableCell>
                       <TableCell className="text-right">Rs {item.unitPrice.toFixed(2)}</TableCell>
@@ -27,6 +27,7 @@ import {
   AlertCircle,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { hasReceivedGoods } from "@/lib/utils/purchaseOrder";
 
 export default function AdminDashboardPage() {
   const { hasPermission } = usePermissions();
@@ -78,7 +79,7 @@ export default function AdminDashboardPage() {
       ]);
 
       // Calculate expenses from actual purchase orders (received)
-      const receivedPOs = purchaseOrders.filter((po) => po.status === "RECEIVED");
+      const receivedPOs = purchaseOrders.filter(hasReceivedGoods);
       const purchaseOrderExpenses = receivedPOs.reduce(
         (sum, po) => sum + (po.receivedTotalAmount ?? po.totalAmount),
         0
@@ -343,9 +344,9 @@ export default function AdminDashboardPage() {
                   <CardContent>
                     <div className="text-3xl font-bold">{stats.totalProducts}</div>
                     {stats.lowStockProducts > 0 && (
-                      <p className="text-sm text-red-600 mt-2">
+                      <Link href="/admin/inventory/reorder" className="block text-sm text-red-600 mt-2 hover:underline">
                         {stats.lowStockProducts} products low in stock
-                      </p>
+                      </Link>
                     )}
                     {hasPermission("inventory", "view") && (
                       <Link href="/admin/inventory/products">
@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { CostingService } from "@/lib/services/costingService";
+import { CostingMethod, OpeningStockPosting } from "@/lib/types";
+import { usePermissions } from "@/lib/hooks/usePermissions";
+import { BookOpen, Layers, Save } from "lucide-react";
+
+export default function CostingSettingsPage() {
+  const { isAdmin } = usePermissions();
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [method, setMethod] = useState<CostingMethod>("FIFO");
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+  const [openingStock, setOpeningStock] = useState<OpeningStockPosting | null>(null);
+  const [postingOpeningStock, setPostingOpeningStock] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const [costingMethod, openingStockPosting] = await Promise.all([
+        CostingService.getCostingMethod(),
+        CostingService.getOpeningStockPosting(),
+      ]);
+      setMethod(costingMethod);
+      setOpeningStock(openingStockPosting);
+    } catch (error) {
+      console.error("Error fetching costing settings:", error);
+      setError("Failed to load costing settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(false);
+    setSaving(true);
+
+    try {
+      await CostingService.updateCostingMethod(method);
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save costing settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePostOpeningStock = async () => {
+    if (!user) return;
+    if (!confirm("Post the value of the stock on hand as the opening Inventory balance? This can only be done once.")) {
+      return;
+    }
+
+    setPostingOpeningStock(true);
+    try {
+      setOpeningStock(await CostingService.postOpeningStock(user.uid));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to post opening stock");
+    } finally {
+      setPostingOpeningStock(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <ProtectedRoute requiredRole="admin">
+        <AdminLayout>
+          <div className="text-center py-12">
+            <p className="text-gray-600">Access denied. Admin only.</p>
+          </div>
+        </AdminLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  if (loading) {
+    return (
+      <ProtectedRoute requiredRole="admin">
+        <AdminLayout>
+          <div className="text-center py-12">Loading costing settings...</div>
+        </AdminLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <AdminLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold">Inventory Costing</h1>
+            <p className="text-gray-600 mt-2">Choose how stock is valued when it is sold</p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="h-5 w-5" />
+                Costing Method
+              </CardTitle>
+              <CardDescription>
+                Each goods receipt adds a cost layer; sales and orders record the cost of the stock they used
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSave} className="space-y-6">
+                {error && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                    {error}
+                  </div>
+                )}
+
+                {success && (
+                  <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+                    Costing settings saved successfully!
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Method</Label>
+                  <Select value={method} onValueChange={(value) => setMethod(value as CostingMethod)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="FIFO">FIFO (first in, first out)</SelectItem>
+                      <SelectItem value="WEIGHTED_AVERAGE">Weighted average</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="bg-blue-50 border border-blue-200 rounded p-4">
+                  <h4 className="font-semibold mb-2">Example Calculation:</h4>
+                  <p className="text-sm text-gray-700">
+                    10 units received at Rs 100, then 10 more at Rs 120, then 5 sold:
+                    <br />
+                    {method === "FIFO"
+                      ? "• Cost of goods sold is Rs 500 - the oldest units are used first"
+                      : "• Cost of goods sold is Rs 550 - every unit costs the average of Rs 110"}
+                  </p>
+                  <p className="text-sm text-gray-700 mt-2">
+                    Changing the method applies to stock sold from now on. Past sales keep the cost they were
+                    sold at.
+                  </p>
+                </div>
+
+                <Button type="submit" disabled={saving} className="w-full">
+                  <Save className="mr-2 h-4 w-4" />
+                  {saving ? "Saving..." : "Save Costing Settings"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BookOpen className="h-5 w-5" />
+                Opening Stock
+              </CardTitle>
+              <CardDescription>
+                The journal only sees stock bought and sold since it began. Post the stock that was already on
+                hand once, so the Inventory account on the balance sheet matches the stock valuation.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {openingStock ? (
+                <p className="text-sm text-gray-700">
+                  Rs {openingStock.value.toFixed(2)} posted to Inventory on{" "}
+                  {openingStock.postedAt.toDate().toLocaleDateString()}. Stock entered on new products is
+                  journalled as it is added.
+                </p>
+              ) : (
+                <Button onClick={handlePostOpeningStock} disabled={postingOpeningStock} className="w-full">
+                  {postingOpeningStock ? "Posting..." : "Post Opening Stock"}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
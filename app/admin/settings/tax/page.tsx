@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TaxService } from "@/lib/services/taxService";
+import { TaxRate, TaxSettings } from "@/lib/types";
+import { usePermissions } from "@/lib/hooks/usePermissions";
+import { Percent, Plus, Save, Trash2 } from "lucide-react";
+
+export default function TaxSettingsPage() {
+  const { isAdmin } = usePermissions();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [settings, setSettings] = useState<Omit<TaxSettings, "updatedAt">>({
+    enabled: false,
+    rates: [],
+    pricesIncludeTax: false,
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const currentSettings = await TaxService.getTaxSettings();
+      if (currentSettings) {
+        setSettings({
+          enabled: currentSettings.enabled,
+          rates: currentSettings.rates,
+          pricesIncludeTax: currentSettings.pricesIncludeTax,
+          ...(currentSettings.defaultRateId ? { defaultRateId: currentSettings.defaultRateId } : {}),
+        });
+      }
+    } catch (error) {
+      console.error("Error fetching tax settings:", error);
+      setError("Failed to load tax settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRate = (index: number, updates: Partial<TaxRate>) => {
+    const rates = settings.rates.map((rate, i) => (i === index ? { ...rate, ...updates } : rate));
+    setSettings({ ...settings, rates });
+  };
+
+  const addRate = () => {
+    setSettings({
+      ...settings,
+      rates: [...settings.rates, { id: `rate-${Date.now()}`, name: "", rate: 0 }],
+    });
+  };
+
+  const removeRate = (index: number) => {
+    const removed = settings.rates[index];
+    const rates = settings.rates.filter((_, i) => i !== index);
+    const next = { ...settings, rates };
+    if (removed.id === settings.defaultRateId) {
+      delete next.defaultRateId;
+    }
+    setSettings(next);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(false);
+
+    // Validation
+    if (settings.rates.some((rate) => !rate.name.trim())) {
+      setError("Every tax rate needs a name");
+      return;
+    }
+    if (settings.rates.some((rate) => rate.rate < 0 || rate.rate > 100)) {
+      setError("Tax rates must be between 0 and 100%");
+      return;
+    }
+    if (settings.enabled && !settings.defaultRateId) {
+      setError("Choose a default tax rate before enabling tax");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await TaxService.updateTaxSettings(settings);
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save tax settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <ProtectedRoute requiredRole="admin">
+        <AdminLayout>
+          <div className="text-center py-12">
+            <p className="text-gray-600">Access denied. Admin only.</p>
+          </div>
+        </AdminLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  if (loading) {
+    return (
+      <ProtectedRoute requiredRole="admin">
+        <AdminLayout>
+          <div className="text-center py-12">Loading tax settings...</div>
+        </AdminLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <AdminLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold">Tax Settings</h1>
+            <p className="text-gray-600 mt-2">Configure VAT rates applied to sales, orders and purchases</p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Percent className="h-5 w-5" />
+                VAT
+              </CardTitle>
+              <CardDescription>
+                Products use the default rate unless a different rate is set on the product
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSave} className="space-y-6">
+                {error && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                    {error}
+                  </div>
+                )}
+
+                {success && (
+                  <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+                    Tax settings saved successfully!
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="enabled"
+                    checked={settings.enabled}
+                    onCheckedChange={(checked) => setSettings({ ...settings, enabled: checked === true })}
+                  />
+                  <Label htmlFor="enabled">Charge tax on sales and orders</Label>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="pricesIncludeTax"
+                    checked={settings.pricesIncludeTax}
+                    onCheckedChange={(checked) =>
+                      setSettings({ ...settings, pricesIncludeTax: checked === true })
+                    }
+                  />
+                  <Label htmlFor="pricesIncludeTax">Selling prices already include tax</Label>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Tax Rates</Label>
+                  {settings.rates.map((rate, index) => (
+                    <div key={rate.id} className="flex gap-2 items-center">
+                      <Input
+                        value={rate.name}
+                        onChange={(e) => updateRate(index, { name: e.target.value })}
+                        placeholder="VAT 13%"
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        max="100"
+                        value={rate.rate}
+                        onChange={(e) => updateRate(index, { rate: parseFloat(e.target.value) || 0 })}
+                        className="w-32"
+                      />
+                      <span className="text-sm text-gray-600">%</span>
+                      <Button type="button" variant="outline" size="icon" onClick={() => removeRate(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button type="button" variant="outline" onClick={addRate}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Rate
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Default Rate</Label>
+                  <Select
+                    value={settings.defaultRateId || ""}
+                    onValueChange={(value) => setSettings({ ...settings, defaultRateId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select default rate" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {settings.rates.map((rate) => (
+                        <SelectItem key={rate.id} value={rate.id}>
+                          {rate.name || "Unnamed"} - {rate.rate}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="bg-blue-50 border border-blue-200 rounded p-4">
+                  <h4 className="font-semibold mb-2">Example Calculation:</h4>
+                  <p className="text-sm text-gray-700">
+                    An item priced at Rs 1,000 at {settings.rates.find((r) => r.id === settings.defaultRateId)?.rate ?? 0}%:
+                    <br />
+                    {settings.pricesIncludeTax
+                      ? "• Customer pays Rs 1,000, of which the tax portion is reported as VAT"
+                      : "• Tax is added on top and the customer pays the price plus VAT"}
+                  </p>
+                </div>
+
+                <Button type="submit" disabled={saving} className="w-full">
+                  <Save className="mr-2 h-4 w-4" />
+                  {saving ? "Saving..." : "Save Tax Settings"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
@@ -19,9 +19,9 @@ import {
 import { VendorService } from "@/lib/services/vendorService";
 import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Vendor, PaymentMethod } from "@/lib/types";
+import { Vendor, PaymentMethod, PurchaseReturn } from "@/lib/types";
 import { usePermissions } from "@/lib/hooks/usePermissions";
-import { ArrowLeft, Building2, DollarSign, Edit, Save, X } from "lucide-react";
+import { ArrowLeft, Building2, DollarSign, Edit, FileText, Save, X } from "lucide-react";
 import Link from "next/link";
 
 export default function VendorDetailPage() {
@@ -44,6 +44,7 @@ export default function VendorDetailPage() {
     performedBy: string;
     createdAt: any;
   }>>([]);
+  const [purchaseReturns, setPurchaseReturns] = useState<PurchaseReturn[]>([]);
   const [formData, setFormData] = useState({
     companyName: "",
     contactPerson: "",
@@ -83,11 +84,15 @@ export default function VendorDetailPage() {
     setLoadingHistory(true);
     setHistoryError(null);
     try {
-      const history = await VendorService.getVendorPaymentHistory(vendorId);
+      const [history, returns] = await Promise.all([
+        VendorService.getVendorPaymentHistory(vendorId),
+        VendorService.getVendorPurchaseReturns(vendorId),
+      ]);
       setPaymentHistory(history);
+      setPurchaseReturns(returns);
     } catch (error) {
       console.error("Error fetching payment history:", error);
-      setHistoryError("Failed to load payment history. Please try again.");
+      setHistoryError("Failed to load transactions. Please try again.");
     } finally {
       setLoadingHistory(false);
     }
@@ -117,6 +122,32 @@ export default function VendorDetailPage() {
     }
   };
 
+  // Payments and debit notes both reduce what is owed to the vendor, so they share one list
+  const transactions = [
+    ...paymentHistory.map((payment) => ({
+      id: payment.id,
+      type: "Payment",
+      reference: payment.paymentMethod as string,
+      amount: payment.amount,
+      notes: payment.notes,
+      imageUrl: payment.imageUrl,
+      purchaseOrderId: undefined as string | undefined,
+      performedBy: payment.performedBy,
+      createdAt: payment.createdAt,
+    })),
+    ...purchaseReturns.map((purchaseReturn) => ({
+      id: purchaseReturn.id,
+      type: "Debit Note",
+      reference: purchaseReturn.debitNoteNumber,
+      amount: purchaseReturn.totalAmount + (purchaseReturn.taxAmount || 0),
+      notes: purchaseReturn.reason,
+      imageUrl: undefined as string | undefined,
+      purchaseOrderId: purchaseReturn.purchaseOrderId as string | undefined,
+      performedBy: purchaseReturn.performedBy,
+      createdAt: purchaseReturn.createdAt,
+    })),
+  ].sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+
   if (loading) {
     return (
       <ProtectedRoute requiredPermission={{ resource: "vendors", action: "view" }}>
@@ -158,34 +189,42 @@ export default function VendorDetailPage() {
                 <p className="text-gray-600 mt-1">Vendor Details</p>
               </div>
             </div>
-            {hasPermission("vendors", "update") && (
-              <>
-                {!editing ? (
-                  <Button onClick={() => setEditing(true)}>
-                    <Edit className="mr-2 h-4 w-4" />
-                    Edit
-                  </Button>
-                ) : (
-                  <div className="flex gap-2">
-                    <Button onClick={handleSave} disabled={saving}>
-                      <Save className="mr-2 h-4 w-4" />
-                      {saving ? "Saving..." : "Save"}
-                    </Button>
-                    <Button
-                      variant="outline"
-                      onClick={() => {
-                        setEditing(false);
-                        fetchVendorData();
-                      }}
-                      disabled={saving}
-                    >
-                      <X className="mr-2 h-4 w-4" />
-                      Cancel
+            <div className="flex gap-2">
+              <Link href={`/admin/vendors/${vendorId}/statement`}>
+                <Button variant="outline">
+                  <FileText className="mr-2 h-4 w-4" />
+                  Statement
+                </Button>
+              </Link>
+              {hasPermission("vendors", "update") && (
+                <>
+                  {!editing ? (
+                    <Button onClick={() => setEditing(true)}>
+                      <Edit className="mr-2 h-4 w-4" />
+                      Edit
                     </Button>
-                  </div>
-                )}
-              </>
-            )}
+                  ) : (
+                    <div className="flex gap-2">
+                      <Button onClick={handleSave} disabled={saving}>
+                        <Save className="mr-2 h-4 w-4" />
+                        {saving ? "Saving..." : "Save"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setEditing(false);
+                          fetchVendorData();
+                        }}
+                        disabled={saving}
+                      >
+                        <X className="mr-2 h-4 w-4" />
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -340,8 +379,8 @@ export default function VendorDetailPage() {
             <CardHeader>
               <div className="flex justify-between items-center">
                 <div>
-                  <CardTitle>Payment History</CardTitle>
-                  <CardDescription>History of payments made to this vendor</CardDescription>
+                  <CardTitle>Transactions</CardTitle>
+                  <CardDescription>Payments made to this vendor and debit notes for returned goods</CardDescription>
                 </div>
                 <Button
                   variant="outline"
@@ -355,7 +394,7 @@ export default function VendorDetailPage() {
             </CardHeader>
             <CardContent>
               {loadingHistory ? (
-                <div className="text-center py-4">Loading payment history...</div>
+                <div className="text-center py-4">Loading transactions...</div>
               ) : historyError ? (
                 <div className="text-center py-4">
                   <p className="text-red-600 mb-2">{historyError}</p>
@@ -363,29 +402,52 @@ export default function VendorDetailPage() {
                     Retry
                   </Button>
                 </div>
-              ) : paymentHistory.length === 0 ? (
-                <div className="text-center py-4 text-gray-500">No payment history available</div>
+              ) : transactions.length === 0 ? (
+                <div className="text-center py-4 text-gray-500">No transactions available</div>
               ) : (
                 <div className="overflow-x-auto">
                   <Table>
                     <TableHeader>
                       <TableRow>
                         <TableHead>Date</TableHead>
+                        <TableHead>Type</TableHead>
                         <TableHead>Amount</TableHead>
-                        <TableHead>Payment Method</TableHead>
+                        <TableHead>Method / Reference</TableHead>
                         <TableHead>Notes</TableHead>
                         <TableHead>Receipt</TableHead>
                         <TableHead>Performed By</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {paymentHistory.map((payment) => (
-                        <TableRow key={payment.id}>
+                      {transactions.map((payment) => (
+                        <TableRow key={`${payment.type}-${payment.id}`}>
                           <TableCell>
                             {payment.createdAt?.toDate?.()?.toLocaleString() || "N/A"}
                           </TableCell>
+                          <TableCell>
+                            <span
+                              className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                payment.type === "Debit Note"
+                                  ? "bg-orange-100 text-orange-700"
+                                  : "bg-green-100 text-green-700"
+                              }`}
+                            >
+                              {payment.type}
+                            </span>
+                          </TableCell>
                           <TableCell className="font-medium">Rs {payment.amount.toFixed(2)}</TableCell>
-                          <TableCell>{payment.paymentMethod}</TableCell>
+                          <TableCell>
+                            {payment.purchaseOrderId ? (
+                              <Link
+                                href={`/admin/vendors/${vendorId}/purchase-orders/${payment.purchaseOrderId}`}
+                                className="font-mono text-blue-600 hover:underline"
+                              >
+                                {payment.reference}
+                              </Link>
+                            ) : (
+                              payment.reference
+                            )}
+                          </TableCell>
                           <TableCell>{payment.notes || "-"}</TableCell>
                           <TableCell>
                             {payment.imageUrl ? (
@@ -1,7 +1,8 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams } from "next/navigation";
+import Image from "next/image";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { AdminLayout } from "@/components/admin/AdminLayout";
 import { Button } from "@/components/ui/button";
@@ -19,9 +20,10 @@ import {
 import { VendorService } from "@/lib/services/vendorService";
 import { ImageService } from "@/lib/services/imageService";
 import { ProductService } from "@/lib/services/productService";
-import { PurchaseOrder, Vendor, Warehouse } from "@/lib/types";
+import { GoodsReceivedNote, PurchaseOrder, PurchaseReturn, Vendor, Warehouse } from "@/lib/types";
+import { getOutstandingQuantity, hasReceivedGoods, isAwaitingDelivery } from "@/lib/utils/purchaseOrder";
 import { useAuth } from "@/contexts/AuthContext";
-import { ArrowLeft, Package, Upload, X } from "lucide-react";
+import { ArrowLeft, Ban, Package, Undo2, Upload, X } from "lucide-react";
 import Link from "next/link";
 import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
@@ -29,11 +31,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 
 export default function PurchaseOrderDetailPage() {
   const params = useParams();
-  const router = useRouter();
   const vendorId = params.id as string;
   const poId = params.poId as string;
   const { user } = useAuth();
   const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const [grns, setGrns] = useState<GoodsReceivedNote[]>([]);
+  const [purchaseReturns, setPurchaseReturns] = useState<PurchaseReturn[]>([]);
   const [vendor, setVendor] = useState<Vendor | null>(null);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [loading, setLoading] = useState(true);
@@ -46,6 +49,12 @@ export default function PurchaseOrderDetailPage() {
   const [billImageFile, setBillImageFile] = useState<File | null>(null);
   const [billImagePreview, setBillImagePreview] = useState<string | null>(null);
   const [uploadingBill, setUploadingBill] = useState(false);
+  const [showCloseForm, setShowCloseForm] = useState(false);
+  const [closeReason, setCloseReason] = useState("");
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [returnData, setReturnData] = useState<Record<string, { quantity: string; warehouseId: string }>>({});
+  const [returnGrnId, setReturnGrnId] = useState("none");
+  const [returnReason, setReturnReason] = useState("");
 
   useEffect(() => {
     if (poId) {
@@ -64,12 +73,26 @@ export default function PurchaseOrderDetailPage() {
         // Fetch vendor
         const vendorData = await VendorService.getVendor(po.vendorId);
         setVendor(vendorData);
+        const [grnList, returnList] = await Promise.all([
+          VendorService.getPurchaseOrderGRNs(poId),
+          VendorService.getPurchaseOrderReturns(poId),
+        ]);
+        setGrns(grnList);
+        setPurchaseReturns(returnList);
 
-        // Initialize GRN data
+        // Returns default to the warehouse each product was last received into
+        const initialReturnData: Record<string, { quantity: string; warehouseId: string }> = {};
+        po.items.forEach((item) => {
+          const lastReceipt = [...grnList].reverse().flatMap((grn) => grn.items).find((i) => i.productId === item.productId);
+          initialReturnData[item.productId] = { quantity: "", warehouseId: lastReceipt?.warehouseId || "" };
+        });
+        setReturnData(initialReturnData);
+
+        // Initialize GRN data with whatever is still outstanding
         const initialGrnData: Record<string, { receivedQuantity: string; receivedUnitPrice: string; warehouseId: string }> = {};
         po.items.forEach((item) => {
           initialGrnData[item.productId] = {
-            receivedQuantity: item.quantity.toString(),
+            receivedQuantity: getOutstandingQuantity(po, item).toString(),
             receivedUnitPrice: item.unitPrice.toString(),
             warehouseId: "",
           };
@@ -162,7 +185,10 @@ export default function PurchaseOrderDetailPage() {
 
       await VendorService.processGRN(poId, receivedItems, user.uid, billImageUrl);
       alert("GRN processed successfully! Inventory has been updated.");
-      router.push(`/admin/vendors/${vendorId}/purchase-orders`);
+      setShowGRNForm(false);
+      setBillImageFile(null);
+      setBillImagePreview(null);
+      await fetchPurchaseOrder();
     } catch (err: unknown) {
       const error = err as { message?: string };
       setError(error.message || "Failed to process GRN");
@@ -172,12 +198,83 @@ export default function PurchaseOrderDetailPage() {
     }
   };
 
+  const handleCloseShort = async () => {
+    if (!user || !purchaseOrder) return;
+    if (!closeReason.trim()) {
+      setError("Enter a reason for closing the order short");
+      return;
+    }
+    if (!confirm("Close this purchase order? Anything not yet received will no longer be expected.")) {
+      return;
+    }
+
+    setError(null);
+    setProcessing(true);
+    try {
+      await VendorService.closePurchaseOrderShort(poId, closeReason, user.uid);
+      setShowCloseForm(false);
+      setCloseReason("");
+      await fetchPurchaseOrder();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to close purchase order");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handlePurchaseReturn = async () => {
+    if (!user || !purchaseOrder) return;
+
+    const returnedItems = Object.entries(returnData)
+      .map(([productId, data]) => ({
+        productId,
+        quantity: parseInt(data.quantity) || 0,
+        warehouseId: data.warehouseId,
+      }))
+      .filter((item) => item.quantity > 0);
+    if (returnedItems.length === 0) {
+      setError("Enter the quantity being returned for at least one item");
+      return;
+    }
+    if (returnedItems.some((item) => !item.warehouseId)) {
+      setError("Select the warehouse each returned item is taken from");
+      return;
+    }
+    if (!returnReason.trim()) {
+      setError("Enter a reason for the return");
+      return;
+    }
+
+    setError(null);
+    setProcessing(true);
+    try {
+      await VendorService.processPurchaseReturn(
+        poId,
+        returnedItems,
+        returnReason,
+        user.uid,
+        returnGrnId !== "none" ? returnGrnId : undefined
+      );
+      alert("Purchase return recorded. A debit note has been raised against the vendor.");
+      setShowReturnForm(false);
+      setReturnReason("");
+      setReturnGrnId("none");
+      await fetchPurchaseOrder();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to process purchase return");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const getStatusColor = (status: PurchaseOrder["status"]) => {
     switch (status) {
       case "PENDING":
         return "text-yellow-600 bg-yellow-50";
       case "APPROVED":
         return "text-blue-600 bg-blue-50";
+      case "PARTIALLY_RECEIVED":
+        return "text-orange-600 bg-orange-50";
       case "RECEIVED":
         return "text-green-600 bg-green-50";
       case "CANCELLED":
@@ -212,6 +309,11 @@ export default function PurchaseOrderDetailPage() {
     );
   }
 
+  const outstandingItems = purchaseOrder.items.filter((item) => getOutstandingQuantity(purchaseOrder, item) > 0);
+  const returnableItems = purchaseOrder.items.filter(
+    (item) => (item.receivedQuantity || 0) - (item.returnedQuantity || 0) > 0
+  );
+
   return (
     <ProtectedRoute requiredPermission={{ resource: "vendors", action: "view" }}>
       <AdminLayout>
@@ -228,12 +330,26 @@ export default function PurchaseOrderDetailPage() {
                 PO ID: {poId.slice(0, 8)}... | Vendor: {vendor?.companyName || "Unknown"}
               </p>
             </div>
-            {purchaseOrder.status !== "RECEIVED" && purchaseOrder.status !== "CANCELLED" && (
-              <Button onClick={() => setShowGRNForm(!showGRNForm)}>
-                <Package className="mr-2 h-4 w-4" />
-                {showGRNForm ? "Cancel GRN" : "Process GRN"}
-              </Button>
-            )}
+            <div className="flex gap-2">
+              {returnableItems.length > 0 && (
+                <Button variant="outline" onClick={() => setShowReturnForm(!showReturnForm)}>
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  {showReturnForm ? "Cancel Return" : "Return to Vendor"}
+                </Button>
+              )}
+              {isAwaitingDelivery(purchaseOrder) && (
+                <>
+                <Button onClick={() => setShowGRNForm(!showGRNForm)}>
+                  <Package className="mr-2 h-4 w-4" />
+                  {showGRNForm ? "Cancel GRN" : "Process GRN"}
+                </Button>
+                <Button variant="outline" onClick={() => setShowCloseForm(!showCloseForm)}>
+                  <Ban className="mr-2 h-4 w-4" />
+                  Close Short
+                </Button>
+                </>
+              )}
+            </div>
           </div>
 
           {error && (
@@ -242,6 +358,151 @@ export default function PurchaseOrderDetailPage() {
             </div>
           )}
 
+          {showCloseForm && isAwaitingDelivery(purchaseOrder) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Close Short</CardTitle>
+                <CardDescription>
+                  {hasReceivedGoods(purchaseOrder)
+                    ? "The order is marked received with what has arrived so far"
+                    : "Nothing has been received, so the order is cancelled"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="closeReason">Reason *</Label>
+                  <Input
+                    id="closeReason"
+                    value={closeReason}
+                    onChange={(e) => setCloseReason(e.target.value)}
+                    placeholder="e.g., Vendor discontinued the item"
+                  />
+                </div>
+                <div className="flex gap-4">
+                  <Button variant="destructive" onClick={handleCloseShort} disabled={processing}>
+                    {processing ? "Closing..." : "Close Purchase Order"}
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowCloseForm(false)} disabled={processing}>
+                    Cancel
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {showReturnForm && returnableItems.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Return to Vendor</CardTitle>
+                <CardDescription>
+                  Returned stock is taken out of the warehouse and a debit note is raised against the vendor&apos;s balance
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Returnable Qty</TableHead>
+                        <TableHead>Return Qty</TableHead>
+                        <TableHead>Warehouse</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {returnableItems.map((item) => (
+                        <TableRow key={item.productId}>
+                          <TableCell className="font-medium">{item.productName}</TableCell>
+                          <TableCell>{(item.receivedQuantity || 0) - (item.returnedQuantity || 0)}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              max={(item.receivedQuantity || 0) - (item.returnedQuantity || 0)}
+                              value={returnData[item.productId]?.quantity || ""}
+                              onChange={(e) =>
+                                setReturnData({
+                                  ...returnData,
+                                  [item.productId]: {
+                                    quantity: e.target.value,
+                                    warehouseId: returnData[item.productId]?.warehouseId || "",
+                                  },
+                                })
+                              }
+                              className="w-24"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={returnData[item.productId]?.warehouseId || ""}
+                              onValueChange={(value) =>
+                                setReturnData({
+                                  ...returnData,
+                                  [item.productId]: {
+                                    quantity: returnData[item.productId]?.quantity || "",
+                                    warehouseId: value,
+                                  },
+                                })
+                              }
+                            >
+                              <SelectTrigger className="w-[200px]">
+                                <SelectValue placeholder="Select warehouse" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {warehouses.map((warehouse) => (
+                                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                                    {warehouse.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Against GRN</Label>
+                    <Select value={returnGrnId} onValueChange={setReturnGrnId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Whole order</SelectItem>
+                        {grns.map((grn) => (
+                          <SelectItem key={grn.id} value={grn.id}>
+                            {grn.grnNumber}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="returnReason">Reason *</Label>
+                    <Input
+                      id="returnReason"
+                      value={returnReason}
+                      onChange={(e) => setReturnReason(e.target.value)}
+                      placeholder="e.g., Damaged in transit"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-4">
+                  <Button onClick={handlePurchaseReturn} disabled={processing}>
+                    {processing ? "Processing..." : "Raise Debit Note"}
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowReturnForm(false)} disabled={processing}>
+                    Cancel
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <Card>
               <CardHeader>
@@ -255,7 +516,7 @@ export default function PurchaseOrderDetailPage() {
                       purchaseOrder.status
                     )}`}
                   >
-                    {purchaseOrder.status}
+                    {purchaseOrder.status.replace("_", " ")}
                   </span>
                 </div>
                 <div>
@@ -266,12 +527,23 @@ export default function PurchaseOrderDetailPage() {
                 </div>
                 {purchaseOrder.receivedAt && (
                   <div>
-                    <p className="text-sm text-gray-600">Received Date</p>
+                    <p className="text-sm text-gray-600">
+                      {purchaseOrder.status === "PARTIALLY_RECEIVED" ? "Last Received Date" : "Received Date"}
+                    </p>
                     <p className="font-medium">
                       {purchaseOrder.receivedAt.toDate().toLocaleDateString()}
                     </p>
                   </div>
                 )}
+                {purchaseOrder.closedShortReason && (
+                  <div>
+                    <p className="text-sm text-gray-600">Closed Short</p>
+                    <p className="font-medium">{purchaseOrder.closedShortReason}</p>
+                    {purchaseOrder.closedAt && (
+                      <p className="text-xs text-gray-500">{purchaseOrder.closedAt.toDate().toLocaleDateString()}</p>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -304,7 +576,7 @@ export default function PurchaseOrderDetailPage() {
                   <p className="text-sm text-gray-600">Ordered Total Amount</p>
                   <p className="text-2xl font-bold">Rs {purchaseOrder.totalAmount.toFixed(2)}</p>
                 </div>
-                {purchaseOrder.status === "RECEIVED" && purchaseOrder.receivedTotalAmount !== undefined && (
+                {hasReceivedGoods(purchaseOrder) && purchaseOrder.receivedTotalAmount !== undefined && (
                   <div className="mt-4">
                     <p className="text-sm text-gray-600">Received Total Amount</p>
                     {purchaseOrder.receivedTotalAmount !== purchaseOrder.totalAmount ? (
@@ -324,6 +596,29 @@ export default function PurchaseOrderDetailPage() {
                     )}
                   </div>
                 )}
+                {(purchaseOrder.taxAmount || purchaseOrder.receivedTaxAmount) && (
+                  <div className="mt-4">
+                    <p className="text-sm text-gray-600">Input Tax (VAT)</p>
+                    <p className="text-lg font-medium">
+                      Rs {(purchaseOrder.receivedTaxAmount ?? purchaseOrder.taxAmount ?? 0).toFixed(2)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Payable to vendor: Rs{" "}
+                      {(
+                        (purchaseOrder.receivedTotalAmount ?? purchaseOrder.totalAmount) +
+                        (purchaseOrder.receivedTaxAmount ?? purchaseOrder.taxAmount ?? 0)
+                      ).toFixed(2)}
+                    </p>
+                  </div>
+                )}
+                {purchaseOrder.returnedTotalAmount ? (
+                  <div className="mt-4">
+                    <p className="text-sm text-gray-600">Returned to Vendor</p>
+                    <p className="text-lg font-medium text-red-600">
+                      - Rs {purchaseOrder.returnedTotalAmount.toFixed(2)}
+                    </p>
+                  </div>
+                ) : null}
                 <div className="mt-4">
                   <p className="text-sm text-gray-600">Items Count</p>
                   <p className="text-lg font-medium">{purchaseOrder.items.length} items</p>
@@ -346,13 +641,15 @@ export default function PurchaseOrderDetailPage() {
                       <TableHead>Ordered Qty</TableHead>
                       <TableHead>Ordered Unit Price</TableHead>
                       <TableHead>Ordered Total</TableHead>
-                      {purchaseOrder.status === "RECEIVED" && (
+                      {hasReceivedGoods(purchaseOrder) && (
                         <>
                           <TableHead>Received Qty</TableHead>
                           <TableHead>Received Unit Price</TableHead>
                           <TableHead>Received Total</TableHead>
                         </>
                       )}
+                      {purchaseReturns.length > 0 && <TableHead>Returned Qty</TableHead>}
+                      {isAwaitingDelivery(purchaseOrder) && <TableHead>Outstanding</TableHead>}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -364,9 +661,9 @@ export default function PurchaseOrderDetailPage() {
                         <TableCell className="font-medium">
                           Rs {(item.quantity * item.unitPrice).toFixed(2)}
                         </TableCell>
-                        {purchaseOrder.status === "RECEIVED" && (
+                        {hasReceivedGoods(purchaseOrder) && (
                           <>
-                            <TableCell>{item.receivedQuantity || item.quantity}</TableCell>
+                            <TableCell>{item.receivedQuantity || 0}</TableCell>
                             <TableCell>
                               {item.receivedUnitPrice !== undefined ? (
                                 item.receivedUnitPrice !== item.unitPrice ? (
@@ -407,6 +704,10 @@ export default function PurchaseOrderDetailPage() {
                             </TableCell>
                           </>
                         )}
+                        {purchaseReturns.length > 0 && <TableCell>{item.returnedQuantity || 0}</TableCell>}
+                        {isAwaitingDelivery(purchaseOrder) && (
+                          <TableCell className="font-medium">{getOutstandingQuantity(purchaseOrder, item)}</TableCell>
+                        )}
                       </TableRow>
                     ))}
                   </TableBody>
@@ -415,12 +716,12 @@ export default function PurchaseOrderDetailPage() {
             </CardContent>
           </Card>
 
-          {showGRNForm && purchaseOrder.status !== "RECEIVED" && (
+          {showGRNForm && isAwaitingDelivery(purchaseOrder) && (
             <Card>
               <CardHeader>
                 <CardTitle>Process GRN (Goods Received Note)</CardTitle>
                 <CardDescription>
-                  Record received quantities and update inventory
+                  Record what arrived in this delivery; anything still outstanding can be received later
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -429,7 +730,7 @@ export default function PurchaseOrderDetailPage() {
                     <TableHeader>
                       <TableRow>
                         <TableHead>Product</TableHead>
-                        <TableHead>Ordered Qty</TableHead>
+                        <TableHead>Outstanding Qty</TableHead>
                         <TableHead>Ordered Unit Price</TableHead>
                         <TableHead>Received Qty</TableHead>
                         <TableHead>Received Unit Price</TableHead>
@@ -437,10 +738,10 @@ export default function PurchaseOrderDetailPage() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {purchaseOrder.items.map((item) => (
+                      {outstandingItems.map((item) => (
                         <TableRow key={item.productId}>
                           <TableCell className="font-medium">{item.productName}</TableCell>
-                          <TableCell>{item.quantity}</TableCell>
+                          <TableCell>{getOutstandingQuantity(purchaseOrder, item)}</TableCell>
                           <TableCell className="text-gray-600">
                             Rs {item.unitPrice.toFixed(2)}
                           </TableCell>
@@ -448,7 +749,7 @@ export default function PurchaseOrderDetailPage() {
                             <Input
                               type="number"
                               min="0"
-                              max={item.quantity}
+                              max={getOutstandingQuantity(purchaseOrder, item)}
                               value={grnData[item.productId]?.receivedQuantity || ""}
                               onChange={(e) =>
                                 setGrnData({
@@ -570,6 +871,127 @@ export default function PurchaseOrderDetailPage() {
             </Card>
           )}
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Goods Received Notes</CardTitle>
+              <CardDescription>Every delivery received against this order</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {grns.length === 0 ? (
+                <p className="text-center py-6 text-gray-500">Nothing has been received yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {grns.map((grn) => (
+                    <div key={grn.id} className="border rounded p-4 space-y-3">
+                      <div className="flex justify-between items-start gap-4">
+                        <div>
+                          <p className="font-mono font-medium">{grn.grnNumber}</p>
+                          <p className="text-sm text-gray-600">{grn.receivedAt.toDate().toLocaleString()}</p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-bold">Rs {grn.totalAmount.toFixed(2)}</p>
+                          {grn.taxAmount ? (
+                            <p className="text-xs text-gray-500">+ Rs {grn.taxAmount.toFixed(2)} input tax</p>
+                          ) : null}
+                        </div>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Product</TableHead>
+                            <TableHead>Warehouse</TableHead>
+                            <TableHead className="text-right">Qty</TableHead>
+                            <TableHead className="text-right">Unit Price</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {grn.items.map((item) => (
+                            <TableRow key={item.productId}>
+                              <TableCell>{item.productName}</TableCell>
+                              <TableCell>
+                                {warehouses.find((w) => w.id === item.warehouseId)?.name || item.warehouseId}
+                              </TableCell>
+                              <TableCell className="text-right">{item.quantity}</TableCell>
+                              <TableCell className="text-right">Rs {item.unitPrice.toFixed(2)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                      {grn.billImageUrl && (
+                        <a href={grn.billImageUrl} target="_blank" rel="noopener noreferrer">
+                          <Image
+                            src={grn.billImageUrl}
+                            alt={`Bill for ${grn.grnNumber}`}
+                            width={320}
+                            height={240}
+                            unoptimized
+                            className="max-w-xs h-auto rounded border"
+                          />
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {purchaseReturns.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Debit Notes</CardTitle>
+                <CardDescription>Goods returned to the vendor from this order</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {purchaseReturns.map((purchaseReturn) => (
+                    <div key={purchaseReturn.id} className="border rounded p-4 space-y-3">
+                      <div className="flex justify-between items-start gap-4">
+                        <div>
+                          <p className="font-mono font-medium">{purchaseReturn.debitNoteNumber}</p>
+                          <p className="text-sm text-gray-600">{purchaseReturn.createdAt.toDate().toLocaleString()}</p>
+                          <p className="text-sm text-gray-600">
+                            {purchaseReturn.reason}
+                            {purchaseReturn.grnId &&
+                              ` · ${grns.find((g) => g.id === purchaseReturn.grnId)?.grnNumber || purchaseReturn.grnId}`}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-bold text-red-600">- Rs {purchaseReturn.totalAmount.toFixed(2)}</p>
+                          {purchaseReturn.taxAmount ? (
+                            <p className="text-xs text-gray-500">- Rs {purchaseReturn.taxAmount.toFixed(2)} input tax</p>
+                          ) : null}
+                        </div>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Product</TableHead>
+                            <TableHead>Warehouse</TableHead>
+                            <TableHead className="text-right">Qty</TableHead>
+                            <TableHead className="text-right">Unit Price</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {purchaseReturn.items.map((item) => (
+                            <TableRow key={item.productId}>
+                              <TableCell>{item.productName}</TableCell>
+                              <TableCell>
+                                {warehouses.find((w) => w.id === item.warehouseId)?.name || item.warehouseId}
+                              </TableCell>
+                              <TableCell className="text-right">{item.quantity}</TableCell>
+                              <TableCell className="text-right">Rs {item.unitPrice.toFixed(2)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {purchaseOrder.billImageUrl && (
             <Card>
               <CardHeader>
@@ -18,7 +18,9 @@ import {
 } from "@/components/ui/table";
 import { VendorService } from "@/lib/services/vendorService";
 import { ProductService } from "@/lib/services/productService";
-import { Vendor, Product, PurchaseOrderItem } from "@/lib/types";
+import { TaxService } from "@/lib/services/taxService";
+import { Vendor, Product, PurchaseOrderItem, TaxSettings } from "@/lib/types";
+import { calculateInputTax, getProductTaxRate } from "@/lib/utils/tax";
 import { useAuth } from "@/contexts/AuthContext";
 import { ArrowLeft, Plus, Trash2 } from "lucide-react";
 import Link from "next/link";
@@ -32,6 +34,7 @@ export default function CreatePurchaseOrderPage() {
   const [vendor, setVendor] = useState<Vendor | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [items, setItems] = useState<PurchaseOrderItem[]>([]);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -40,6 +43,7 @@ export default function CreatePurchaseOrderPage() {
     if (vendorId) {
       fetchVendorData();
       fetchProducts();
+      TaxService.getTaxSettings().then(setTaxSettings);
     }
   }, [vendorId]);
 
@@ -89,6 +93,13 @@ export default function CreatePurchaseOrderPage() {
       const product = products.find((p) => p.id === value);
       if (product) {
         updatedItems[index].productName = product.name;
+        // Default the vendor's tax to the product's rate; it can be changed per bill
+        const taxRate = getProductTaxRate(product, taxSettings);
+        if (taxRate > 0) {
+          updatedItems[index].taxRate = taxRate;
+        } else {
+          delete updatedItems[index].taxRate;
+        }
       }
     }
 
@@ -126,6 +137,7 @@ export default function CreatePurchaseOrderPage() {
   };
 
   const totalAmount = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+  const taxAmount = calculateInputTax(items);
 
   if (loading) {
     return (
@@ -202,6 +214,7 @@ export default function CreatePurchaseOrderPage() {
                             <TableHead>Product</TableHead>
                             <TableHead>Quantity</TableHead>
                             <TableHead>Unit Price (Rs)</TableHead>
+                            {taxSettings?.enabled && <TableHead>Tax %</TableHead>}
                             <TableHead>Total (Rs)</TableHead>
                             <TableHead className="w-[50px]"></TableHead>
                           </TableRow>
@@ -251,6 +264,30 @@ export default function CreatePurchaseOrderPage() {
                                   required
                                 />
                               </TableCell>
+                              {taxSettings?.enabled && (
+                                <TableCell>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={item.taxRate ?? ""}
+                                    onChange={(e) => {
+                                      const rate = parseFloat(e.target.value);
+                                      const updatedItems = [...items];
+                                      const updatedItem = { ...updatedItems[index] };
+                                      // Leave taxRate off untaxed lines (Firestore doesn't allow undefined)
+                                      if (rate > 0) {
+                                        updatedItem.taxRate = rate;
+                                      } else {
+                                        delete updatedItem.taxRate;
+                                      }
+                                      updatedItems[index] = updatedItem;
+                                      setItems(updatedItems);
+                                    }}
+                                    className="w-20"
+                                  />
+                                </TableCell>
+                              )}
                               <TableCell className="font-medium">
                                 Rs {(item.quantity * item.unitPrice).toFixed(2)}
                               </TableCell>
@@ -272,6 +309,11 @@ export default function CreatePurchaseOrderPage() {
                     </div>
                     <div className="flex justify-end pt-4 border-t">
                       <div className="text-right">
+                        {taxAmount > 0 && (
+                          <p className="text-sm text-gray-600">
+                            Input Tax: Rs {taxAmount.toFixed(2)} · Payable: Rs {(totalAmount + taxAmount).toFixed(2)}
+                          </p>
+                        )}
                         <p className="text-sm text-gray-600">Total Amount</p>
                         <p className="text-2xl font-bold">Rs {totalAmount.toFixed(2)}</p>
                       </div>
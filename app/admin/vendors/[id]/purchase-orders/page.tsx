@@ -50,6 +50,8 @@ export default function VendorPurchaseOrdersPage() {
         return "text-yellow-600";
       case "APPROVED":
         return "text-blue-600";
+      case "PARTIALLY_RECEIVED":
+        return "text-orange-600";
       case "RECEIVED":
         return "text-green-600";
       case "CANCELLED":
@@ -117,7 +119,7 @@ export default function VendorPurchaseOrdersPage() {
                           </TableCell>
                           <TableCell>
                             <span className={`font-medium capitalize ${getStatusColor(po.status)}`}>
-                              {po.status}
+                              {po.status.replace("_", " ")}
                             </span>
                           </TableCell>
                           <TableCell className="text-right">
@@ -0,0 +1,261 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FinanceReportService } from "@/lib/services/financeReportService";
+import { VendorStatement } from "@/lib/types";
+import { printVendorStatement, vendorStatementToCSV } from "@/lib/utils/vendorStatement";
+import { downloadCSV } from "@/lib/utils/csv";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import Link from "next/link";
+
+export default function VendorStatementPage() {
+  const params = useParams();
+  const vendorId = params.id as string;
+  const [startDate, setStartDate] = useState(() => {
+    const date = new Date();
+    date.setMonth(date.getMonth() - 3);
+    return date.toISOString().split("T")[0];
+  });
+  const [endDate, setEndDate] = useState(() => new Date().toISOString().split("T")[0]);
+  const [statement, setStatement] = useState<VendorStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatement = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const start = new Date(startDate);
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(endDate);
+      end.setHours(23, 59, 59, 999);
+      setStatement(await FinanceReportService.generateVendorStatement(vendorId, start, end));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load statement");
+      setStatement(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [vendorId, startDate, endDate]);
+
+  useEffect(() => {
+    if (vendorId) {
+      fetchStatement();
+    }
+  }, [vendorId, fetchStatement]);
+
+  const handleExportCSV = () => {
+    if (!statement) return;
+    downloadCSV(
+      `statement-${statement.vendorName.replace(/\s+/g, "-").toLowerCase()}-${startDate}-to-${endDate}.csv`,
+      vendorStatementToCSV(statement)
+    );
+  };
+
+  // The recorded balance is today's, so it can only be compared with a statement that runs to today
+  const showsDifference =
+    statement &&
+    statement.endDate >= new Date(new Date().setHours(0, 0, 0, 0)) &&
+    Math.abs(statement.closingBalance - statement.recordedBalance) >= 0.01;
+
+  return (
+    <ProtectedRoute requiredPermission={{ resource: "vendors", action: "view" }}>
+      <AdminLayout>
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href={`/admin/vendors/${vendorId}`}>
+                <Button variant="outline" size="icon">
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-3xl font-bold">Statement of Account</h1>
+                <p className="text-gray-600 mt-1">{statement?.vendorName || "Vendor"}</p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleExportCSV} disabled={!statement}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+              <Button onClick={() => statement && printVendorStatement(statement)} disabled={!statement}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print / PDF
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Start Date</Label>
+                  <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>End Date</Label>
+                  <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">Loading statement...</div>
+          ) : statement ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>Opening Balance</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-xl font-bold">Rs {statement.openingBalance.toFixed(2)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>Goods Received</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-xl font-bold">Rs {statement.totalReceived.toFixed(2)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>Payments</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-xl font-bold text-green-600">Rs {statement.totalPaid.toFixed(2)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>Returns</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-xl font-bold text-orange-600">Rs {statement.totalReturned.toFixed(2)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>Closing Balance</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-xl font-bold text-red-600">Rs {statement.closingBalance.toFixed(2)}</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {showsDifference && (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded">
+                  The vendor&apos;s recorded balance is Rs {statement.recordedBalance.toFixed(2)}, which differs
+                  from this statement by Rs {(statement.recordedBalance - statement.closingBalance).toFixed(2)}. The
+                  balance was changed outside of deliveries, payments and returns.
+                </div>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Transactions</CardTitle>
+                  <CardDescription>
+                    {statement.startDate.toLocaleDateString()} - {statement.endDate.toLocaleDateString()}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Reference</TableHead>
+                          <TableHead>Description</TableHead>
+                          <TableHead className="text-right">Debit</TableHead>
+                          <TableHead className="text-right">Credit</TableHead>
+                          <TableHead className="text-right">Balance</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        <TableRow className="font-medium">
+                          <TableCell>{statement.startDate.toLocaleDateString()}</TableCell>
+                          <TableCell colSpan={5}>Opening balance</TableCell>
+                          <TableCell className="text-right">Rs {statement.openingBalance.toFixed(2)}</TableCell>
+                        </TableRow>
+                        {statement.entries.map((entry) => (
+                          <TableRow key={`${entry.type}-${entry.id}`}>
+                            <TableCell>{entry.date.toLocaleDateString()}</TableCell>
+                            <TableCell>
+                              <span
+                                className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                  entry.type === "GRN"
+                                    ? "bg-blue-100 text-blue-700"
+                                    : entry.type === "RETURN"
+                                    ? "bg-orange-100 text-orange-700"
+                                    : "bg-green-100 text-green-700"
+                                }`}
+                              >
+                                {entry.type}
+                              </span>
+                            </TableCell>
+                            <TableCell className="font-mono">
+                              {entry.purchaseOrderId ? (
+                                <Link
+                                  href={`/admin/vendors/${vendorId}/purchase-orders/${entry.purchaseOrderId}`}
+                                  className="text-blue-600 hover:underline"
+                                >
+                                  {entry.reference}
+                                </Link>
+                              ) : (
+                                entry.reference
+                              )}
+                            </TableCell>
+                            <TableCell>{entry.description}</TableCell>
+                            <TableCell className="text-right">
+                              {entry.debit ? `Rs ${entry.debit.toFixed(2)}` : "-"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {entry.credit ? `Rs ${entry.credit.toFixed(2)}` : "-"}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">Rs {entry.balance.toFixed(2)}</TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow className="font-medium">
+                          <TableCell>{statement.endDate.toLocaleDateString()}</TableCell>
+                          <TableCell colSpan={5}>Closing balance</TableCell>
+                          <TableCell className="text-right">Rs {statement.closingBalance.toFixed(2)}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          ) : null}
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { Button } from "@/components/ui/button";
@@ -10,13 +10,42 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SaleService } from "@/lib/services/saleService";
 import { ProductService } from "@/lib/services/productService";
+import { TaxService } from "@/lib/services/taxService";
+import { ShiftService } from "@/lib/services/shiftService";
+import { OfflineService } from "@/lib/services/offlineService";
+import { PricingService } from "@/lib/services/pricingService";
+import { CategoryService } from "@/lib/services/categoryService";
 import { useBarcodeScanner } from "@/lib/hooks/useBarcodeScanner";
-import { Product, SaleItem, Customer, PaymentMethod } from "@/lib/types";
+import {
+  Product,
+  Sale,
+  SaleItem,
+  Customer,
+  PaymentMethod,
+  TaxSettings,
+  CashShift,
+  QueuedSale,
+  PriceList,
+  PricingContext,
+} from "@/lib/types";
+import { allocateStock, getTotalAvailableStock } from "@/lib/utils/stockAllocation";
+import { calculateTaxes, getProductTaxRate, isProductTaxInclusive } from "@/lib/utils/tax";
+import { getCreditLimitExcess } from "@/lib/utils/credit";
+import {
+  getProductVariants,
+  getVariantLabel,
+  getVariantPriceRange,
+  getVariantsAvailableStock,
+  hasVariants,
+} from "@/lib/utils/variants";
+import { expandBundleItems, getSellableStock, isBundle } from "@/lib/utils/bundles";
+import { getEffectivePrice } from "@/lib/utils/price";
+import { priceItems } from "@/lib/utils/pricing";
 import { usePermissions } from "@/lib/hooks/usePermissions";
 import { collection, getDocs } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import Fuse from "fuse.js";
-import { Search, ShoppingCart, User, Menu, X, LayoutDashboard, Package, User as UserIcon, LogOut, Users, Warehouse, Building2, DollarSign, CreditCard, ShoppingBag } from "lucide-react";
+import { Search, ShoppingCart, User, Undo2, Wallet, CloudOff, RefreshCw, Menu, X, LayoutDashboard, Package, User as UserIcon, LogOut, Users, Warehouse, Building2, DollarSign, CreditCard, ShoppingBag } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
@@ -24,6 +53,9 @@ import { cn } from "@/lib/utils";
 import { Sheet, SheetContent } from "@/components/ui/sheet";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Cart } from "@/components/pos/Cart";
+import { ReturnDialog } from "@/components/pos/ReturnDialog";
+import { ShiftDialog } from "@/components/pos/ShiftDialog";
+import { OfflineQueueDialog } from "@/components/pos/OfflineQueueDialog";
 
 export default function POSPage() {
   const router = useRouter();
@@ -46,19 +78,84 @@ export default function POSPage() {
   const [discountType, setDiscountType] = useState<"percentage" | "amount">("percentage");
   const [discountDialogOpen, setDiscountDialogOpen] = useState(false);
   const [discountInputValue, setDiscountInputValue] = useState<string>("");
+  const [returnDialogOpen, setReturnDialogOpen] = useState(false);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
+  const [shift, setShift] = useState<CashShift | null>(null);
+  const [shiftDialogOpen, setShiftDialogOpen] = useState(false);
+  const [online, setOnline] = useState(true);
+  const [saleQueue, setSaleQueue] = useState<QueuedSale[]>([]);
+  const [queueDialogOpen, setQueueDialogOpen] = useState(false);
+  const [variantPickerProduct, setVariantPickerProduct] = useState<Product | null>(null);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [pricing, setPricing] = useState<Omit<PricingContext, "priceList">>({ promotions: [], categories: [] });
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     fetchProducts();
     fetchCustomers();
+    fetchPricing();
+    fetchTaxSettings();
     // Refresh user data to get latest permissions
     refreshUser();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Load the cashier's open shift; without one, ask for an opening float
+  const userId = user?.uid;
+  useEffect(() => {
+    if (!userId) return;
+    ShiftService.getOpenShift(userId)
+      .then((openShift) => {
+        setShift(openShift);
+        OfflineService.cacheData("shift", openShift);
+        if (!openShift) {
+          setShiftDialogOpen(true);
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading shift:", error);
+        // Offline - keep selling against the shift that was open when we last had a connection
+        const cachedShift = OfflineService.getCachedData<CashShift>("shift");
+        if (cachedShift?.openedBy === userId) {
+          setShift(cachedShift);
+        }
+      });
+  }, [userId]);
+
+  // Track connectivity and sync queued sales whenever the connection comes back
+  useEffect(() => {
+    const syncQueuedSales = async () => {
+      if (OfflineService.getQueue().some((queued) => queued.status === "PENDING")) {
+        const result = await OfflineService.syncQueue();
+        if (result.synced > 0) {
+          fetchProducts();
+        }
+      }
+      setSaleQueue(OfflineService.getQueue());
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      syncQueuedSales().catch((error) => console.error("Error syncing queued sales:", error));
+    };
+    const handleOffline = () => setOnline(false);
+
+    setOnline(navigator.onLine);
+    setSaleQueue(OfflineService.getQueue());
+    if (navigator.onLine) {
+      handleOnline();
+    }
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
   useEffect(() => {
     if (!searchQuery.trim()) {
-      setFilteredProducts(products);
+      // Variants are picked from their product's card; searching finds them directly
+      setFilteredProducts(products.filter((product) => !product.parentProductId));
       return;
     }
 
@@ -71,14 +168,26 @@ export default function POSPage() {
     setFilteredProducts(results.map((result) => result.item));
   }, [searchQuery, products]);
 
+  // Prices come from the customer's price list and the running promotions, worked out again on every change
+  const pricedCart = useMemo(() => {
+    const priceList = priceLists.find((list) => list.isActive && list.id === selectedCustomer?.priceListId) || null;
+    return {
+      priceList,
+      ...priceItems(cart, new Map(products.map((product) => [product.id, product])), { ...pricing, priceList }),
+    };
+  }, [cart, products, priceLists, pricing, selectedCustomer]);
+
   // Update advance payment when total changes (for selected customers)
   useEffect(() => {
     if (selectedCustomer && cart.length > 0) {
-      const subtotal = cart.reduce((sum, item) => sum + item.subtotal, 0);
+      const subtotal = pricedCart.subtotal;
       const calculatedDiscount = discountType === "percentage" 
         ? subtotal * (discountAmount / 100)
         : discountAmount;
-      const total = subtotal - calculatedDiscount;
+      const { total } = calculateTaxes(
+        pricedCart.items,
+        Math.min(pricedCart.cartDiscount + calculatedDiscount, subtotal)
+      );
       // Set advance payment to total if it's 0 or less than total, or cap it if it exceeds total
       setAdvancePayment((prev) => {
         if (prev === 0 || prev > total) {
@@ -87,14 +196,14 @@ export default function POSPage() {
         return prev;
       });
     }
-  }, [cart, selectedCustomer, discountAmount, discountType]);
+  }, [cart.length, pricedCart, selectedCustomer, discountAmount, discountType]);
 
   // Barcode scanner integration
   useBarcodeScanner({
     onScan: (barcode) => {
       const product = products.find((p) => p.sku === barcode);
       if (product) {
-        addToCart(product);
+        selectProduct(product);
       }
     },
     enabled: true,
@@ -135,9 +244,14 @@ export default function POSPage() {
       const productList = await ProductService.getAllProducts();
       const activeProducts = productList.filter((p) => p.isActive);
       setProducts(activeProducts);
-      setFilteredProducts(activeProducts);
+      OfflineService.cacheData("products", activeProducts);
     } catch (error) {
       console.error("Error fetching products:", error);
+      // Fall back to the last catalogue we loaded so the till keeps working offline
+      const cachedProducts = OfflineService.getCachedData<Product[]>("products");
+      if (cachedProducts) {
+        setProducts(cachedProducts);
+      }
     } finally {
       setLoading(false);
     }
@@ -151,8 +265,55 @@ export default function POSPage() {
         customerList.push({ id: doc.id, ...doc.data() } as Customer);
       });
       setCustomers(customerList);
+      OfflineService.cacheData("customers", customerList);
     } catch (error) {
       console.error("Error fetching customers:", error);
+      const cachedCustomers = OfflineService.getCachedData<Customer[]>("customers");
+      if (cachedCustomers) {
+        setCustomers(cachedCustomers);
+      }
+    }
+  };
+
+  const fetchPricing = async () => {
+    try {
+      const [priceListList, promotions, categories] = await Promise.all([
+        PricingService.getAllPriceLists(),
+        PricingService.getActivePromotions(),
+        CategoryService.getAllCategories(),
+      ]);
+      setPriceLists(priceListList);
+      setPricing({ promotions, categories });
+      OfflineService.cacheData("pricing", { priceLists: priceListList, promotions, categories });
+    } catch (error) {
+      console.error("Error fetching pricing:", error);
+      const cachedPricing = OfflineService.getCachedData<
+        Omit<PricingContext, "priceList"> & { priceLists: PriceList[] }
+      >("pricing");
+      if (cachedPricing) {
+        setPriceLists(cachedPricing.priceLists);
+        setPricing({ promotions: cachedPricing.promotions, categories: cachedPricing.categories });
+      }
+    }
+  };
+
+  const fetchTaxSettings = async () => {
+    const settings = await TaxService.getTaxSettings();
+    if (settings) {
+      setTaxSettings(settings);
+      OfflineService.cacheData("tax", settings);
+    } else {
+      // Offline - keep charging tax at the rates we last loaded so queued sales aren't synced without it
+      setTaxSettings(OfflineService.getCachedData<TaxSettings>("tax"));
+    }
+  };
+
+  // A product sold in variants opens the variant picker instead of going into the cart
+  const selectProduct = (product: Product) => {
+    if (hasVariants(product)) {
+      setVariantPickerProduct(product);
+    } else {
+      addToCart(product);
     }
   };
 
@@ -167,22 +328,24 @@ export default function POSPage() {
         )
       );
     } else {
-      const effectivePrice = product.discount && product.discount > 0
-        ? product.price * (1 - product.discount / 100)
-        : product.price;
-      
-      setCart([
-        ...cart,
-        {
-          productId: product.id,
-          productName: product.name,
-          sku: product.sku,
-          quantity: 1,
-          unitPrice: effectivePrice,
-          discount: product.discount || 0,
-          subtotal: effectivePrice,
-        },
-      ]);
+      // Retail price until the cart is priced for the customer
+      const effectivePrice = getEffectivePrice(product.price, product.discount);
+
+      const newItem: SaleItem = {
+        productId: product.id,
+        productName: product.name,
+        sku: product.sku,
+        quantity: 1,
+        unitPrice: effectivePrice,
+        subtotal: effectivePrice,
+      };
+      // Only taxed lines carry tax fields (Firestore doesn't allow undefined)
+      const taxRate = getProductTaxRate(product, taxSettings);
+      if (taxRate > 0) {
+        newItem.taxRate = taxRate;
+        newItem.taxInclusive = isProductTaxInclusive(product, taxSettings);
+      }
+      setCart([...cart, newItem]);
     }
   };
 
@@ -193,7 +356,7 @@ export default function POSPage() {
           ? {
               ...item,
               ...updates,
-              subtotal: (updates.quantity || item.quantity) * (updates.unitPrice || item.unitPrice) - (updates.discount || item.discount || 0),
+              subtotal: (updates.quantity || item.quantity) * (updates.unitPrice || item.unitPrice),
             }
           : item
       )
@@ -205,12 +368,18 @@ export default function POSPage() {
   };
 
   const calculateTotals = () => {
-    const subtotal = cart.reduce((sum, item) => sum + item.subtotal, 0);
+    const subtotal = pricedCart.subtotal;
     const discount = discountType === "percentage" 
       ? subtotal * (discountAmount / 100)
       : discountAmount;
-    const finalDiscount = Math.min(discount, subtotal); // Ensure discount doesn't exceed subtotal
-    const total = Math.max(0, subtotal - finalDiscount);
+    // The cart promotion and the cashier's discount come off together, never more than the subtotal
+    const finalDiscount = Math.min(pricedCart.cartDiscount + discount, subtotal);
+
+    // Tax is worked out after the discount; exclusive tax is added on top, inclusive tax is already in the price
+    const taxed = calculateTaxes(pricedCart.items, finalDiscount);
+    const total = taxed.total;
+    const items = taxed.items.map(({ taxAmount, ...item }) => (item.taxRate ? { ...item, taxAmount } : item));
+    const includedTax = taxed.items.reduce((sum, item) => sum + (item.taxInclusive ? item.taxAmount : 0), 0);
     
     // For walk-in customers, they must pay full amount
     // For selected customers, use advance payment
@@ -220,13 +389,50 @@ export default function POSPage() {
     
     const creditAmount = selectedCustomer ? Math.max(0, total - paidAmount) : 0;
 
-    return { subtotal, discount: finalDiscount, total, paidAmount, creditAmount };
+    return {
+      subtotal,
+      discount: finalDiscount,
+      manualDiscount: finalDiscount - pricedCart.cartDiscount,
+      tax: taxed.tax,
+      includedTax,
+      total,
+      items,
+      paidAmount,
+      creditAmount,
+    };
+  };
+
+  // Keep the cached catalogue's stock in step with sales made offline
+  const deductLocalStock = (saleItems: SaleItem[]) => {
+    const warehouseOrder = user?.assignedWarehouseId ? [user.assignedWarehouseId] : [];
+    // Bundles come off their components' stock, as they will when the sale syncs
+    const soldItems = expandBundleItems(saleItems, new Map(products.map((product) => [product.id, product])));
+    const updated = products.map((product) => {
+      const quantity = soldItems
+        .filter((item) => item.productId === product.id)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      if (quantity === 0) return product;
+
+      const warehouses = structuredClone(product.warehouses);
+      allocateStock(product, quantity, warehouseOrder).allocations.forEach((allocation) => {
+        warehouses[allocation.warehouseId].quantity -= allocation.quantity;
+      });
+      return { ...product, warehouses };
+    });
+    setProducts(updated);
+    OfflineService.cacheData("products", updated);
   };
 
   const handleCheckout = async () => {
     if (!user || cart.length === 0) return;
 
-    const { total, paidAmount, creditAmount } = calculateTotals();
+    if (!shift) {
+      alert("Open a shift before taking sales.");
+      setShiftDialogOpen(true);
+      return;
+    }
+
+    const { subtotal, discount, tax, total, items, paidAmount, creditAmount } = calculateTotals();
     
     // Validation: For walk-in customers, they must pay full amount
     if (!selectedCustomer && paidAmount < total) {
@@ -245,24 +451,64 @@ export default function POSPage() {
       return;
     }
 
+    // Credit past the customer's limit needs someone allowed to override it
+    let creditLimitOverriddenBy: string | undefined;
+    const limitExcess = selectedCustomer ? getCreditLimitExcess(selectedCustomer, creditAmount) : 0;
+    if (selectedCustomer && limitExcess > 0) {
+      const limitMessage =
+        `This sale takes ${selectedCustomer.name} Rs ${limitExcess.toFixed(2)} over their credit limit ` +
+        `of Rs ${(selectedCustomer.creditLimit || 0).toFixed(2)} (Rs ${(selectedCustomer.totalDue || 0).toFixed(2)} already due).`;
+      if (!hasPermission("customers", "overrideCreditLimit")) {
+        alert(`${limitMessage}\n\nTake a larger payment or ask a manager to complete the sale.`);
+        return;
+      }
+      if (!confirm(`${limitMessage}\n\nOverride the credit limit and complete the sale?`)) {
+        return;
+      }
+      creditLimitOverriddenBy = user.uid;
+    }
+
     setProcessing(true);
 
+    // The ID and receipt number are made here so a sale that has to be queued keeps them
+    const localId = crypto.randomUUID();
+    const saleData: Omit<Sale, "id" | "createdAt"> = {
+      items,
+      subtotal,
+      discount,
+      ...(tax > 0 ? { tax } : {}),
+      total,
+      paidAmount,
+      dueAmount: creditAmount,
+      paymentMethod,
+      isCredit: creditAmount > 0,
+      performedBy: user.uid,
+      source: "POS", // Tag as POS sale
+      shiftId: shift.id,
+      receiptNumber: OfflineService.generateReceiptNumber(),
+      ...(creditLimitOverriddenBy ? { creditLimitOverriddenBy } : {}),
+      ...(pricedCart.promotions.length > 0 ? { promotions: pricedCart.promotions } : {}),
+      ...(pricedCart.priceList
+        ? { priceListId: pricedCart.priceList.id, priceListName: pricedCart.priceList.name }
+        : {}),
+    };
+
     try {
-      await SaleService.createSale(
-        {
-          items: cart,
-          subtotal: calculateTotals().subtotal,
-          discount: calculateTotals().discount,
-          total,
-          paidAmount,
-          dueAmount: creditAmount,
-          paymentMethod,
-          isCredit: creditAmount > 0,
-          performedBy: user.uid,
-          source: "POS", // Tag as POS sale
-        },
-        selectedCustomer?.id
-      );
+      let queued = !online;
+      if (!queued) {
+        try {
+          await SaleService.createSale(saleData, selectedCustomer?.id, user.assignedWarehouseId, localId);
+        } catch (error) {
+          // Couldn't reach the server - queue the sale rather than lose it
+          if (!OfflineService.isNetworkError(error)) throw error;
+          queued = true;
+        }
+      }
+      if (queued) {
+        OfflineService.queueSale(localId, saleData, selectedCustomer?.id, user.assignedWarehouseId);
+        setSaleQueue(OfflineService.getQueue());
+        deductLocalStock(items);
+      }
 
       // Reset cart and form
       setCart([]);
@@ -275,7 +521,11 @@ export default function POSPage() {
       setTimeout(() => {
         searchInputRef.current?.focus();
       }, 100);
-      alert("Sale completed successfully!");
+      alert(
+        queued
+          ? `No connection - sale ${saleData.receiptNumber} saved and will sync when back online.`
+          : `Sale completed successfully! Sale ID: ${localId}`
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to complete sale";
       alert(errorMessage);
@@ -284,7 +534,7 @@ export default function POSPage() {
     }
   };
 
-  const { subtotal, discount, total, paidAmount, creditAmount } = calculateTotals();
+  const { subtotal, manualDiscount, tax, includedTax, total, paidAmount, creditAmount } = calculateTotals();
 
   return (
     <ProtectedRoute requiredPermission={{ resource: "pos", action: "create" }}>
@@ -337,6 +587,38 @@ export default function POSPage() {
                 <User className="mr-2 h-4 w-4" />
                 New Customer
               </Button>
+              {(!online || saleQueue.length > 0) && (
+                <Button
+                  variant="outline"
+                  onClick={() => setQueueDialogOpen(true)}
+                  className={cn(
+                    "w-full md:w-auto h-12 md:h-10",
+                    saleQueue.some((queued) => queued.status === "CONFLICT") && "border-red-500 text-red-600"
+                  )}
+                >
+                  {online ? <RefreshCw className="mr-2 h-4 w-4" /> : <CloudOff className="mr-2 h-4 w-4" />}
+                  {online ? "" : "Offline"}
+                  {saleQueue.length > 0 && ` ${online ? "" : "- "}${saleQueue.length} queued`}
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => setShiftDialogOpen(true)}
+                className="w-full md:w-auto h-12 md:h-10"
+              >
+                <Wallet className="mr-2 h-4 w-4" />
+                {shift ? "Shift" : "Open Shift"}
+              </Button>
+              {hasPermission("pos", "update") && (
+                <Button
+                  variant="outline"
+                  onClick={() => setReturnDialogOpen(true)}
+                  className="w-full md:w-auto h-12 md:h-10"
+                >
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  Return
+                </Button>
+              )}
             </div>
           </div>
         </header>
@@ -553,7 +835,7 @@ export default function POSPage() {
                   autoFocus
                   onKeyDown={(e) => {
                     if (e.key === "Enter" && filteredProducts.length > 0) {
-                      addToCart(filteredProducts[0]);
+                      selectProduct(filteredProducts[0]);
                       setSearchQuery("");
                     }
                     if (e.key === "Escape") {
@@ -569,15 +851,16 @@ export default function POSPage() {
             ) : (
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-2 md:gap-4">
                 {filteredProducts.map((product) => {
-                  const totalStock = Object.values(product.warehouses).reduce(
-                    (sum, wh) => sum + wh.quantity,
-                    0
-                  );
+                  const variants = hasVariants(product) ? getProductVariants(product.id, products) : [];
+                  const totalStock = hasVariants(product)
+                    ? getVariantsAvailableStock(variants)
+                    : getSellableStock(product, products);
+                  const priceRange = getVariantPriceRange(variants);
                   return (
                     <Card
                       key={product.id}
                       className="cursor-pointer hover:shadow-lg active:scale-95 transition-all min-h-[120px] md:min-h-[150px]"
-                      onClick={() => addToCart(product)}
+                      onClick={() => selectProduct(product)}
                     >
                       <CardContent className="p-2 md:p-4">
                         {product.imageUrl ? (
@@ -592,17 +875,33 @@ export default function POSPage() {
                           </div>
                         )}
                         <h3 className="font-semibold text-xs md:text-sm mb-1 line-clamp-2">{product.name}</h3>
-                        <p className="text-xs text-gray-500 mb-1">SKU: {product.sku}</p>
-                        {product.discount && product.discount > 0 ? (
-                          <div>
-                            <p className="text-xs text-gray-400 line-through">Rs {product.price.toFixed(2)}</p>
+                        {hasVariants(product) ? (
+                          <>
+                            <p className="text-xs text-gray-500 mb-1">{variants.length} variants</p>
                             <p className="font-bold text-green-600 text-xs md:text-sm">
-                              Rs {(product.price * (1 - product.discount / 100)).toFixed(2)}
+                              {priceRange.min === priceRange.max
+                                ? `Rs ${priceRange.min.toFixed(2)}`
+                                : `From Rs ${priceRange.min.toFixed(2)}`}
                             </p>
-                            <p className="text-xs text-red-600 font-semibold">-{product.discount.toFixed(0)}%</p>
-                          </div>
+                          </>
                         ) : (
-                          <p className="font-bold text-green-600 text-xs md:text-sm">Rs {product.price.toFixed(2)}</p>
+                          <>
+                            <p className="text-xs text-gray-500 mb-1">
+                              SKU: {product.sku}
+                              {isBundle(product) && " · Bundle"}
+                            </p>
+                            {product.discount && product.discount > 0 ? (
+                              <div>
+                                <p className="text-xs text-gray-400 line-through">Rs {product.price.toFixed(2)}</p>
+                                <p className="font-bold text-green-600 text-xs md:text-sm">
+                                  Rs {(product.price * (1 - product.discount / 100)).toFixed(2)}
+                                </p>
+                                <p className="text-xs text-red-600 font-semibold">-{product.discount.toFixed(0)}%</p>
+                              </div>
+                            ) : (
+                              <p className="font-bold text-green-600 text-xs md:text-sm">Rs {product.price.toFixed(2)}</p>
+                            )}
+                          </>
                         )}
                         <p className={`text-xs ${totalStock === 0 ? "text-red-600" : "text-gray-500"}`}>
                           Stock: {totalStock}
@@ -619,9 +918,13 @@ export default function POSPage() {
           <div className="hidden md:flex w-96 bg-white border-l flex flex-col">
             <Card className="flex flex-col h-full">
               <Cart
-                cart={cart}
+                cart={pricedCart.items}
                 subtotal={subtotal}
-                discount={discount}
+                discount={manualDiscount}
+                cartPromotion={pricedCart.cartPromotion}
+                priceListName={pricedCart.priceList?.name}
+                tax={tax}
+                includedTax={includedTax}
                 total={total}
                 paidAmount={paidAmount}
                 creditAmount={creditAmount}
@@ -721,7 +1024,7 @@ export default function POSPage() {
                       if (discountType === "percentage") {
                         setDiscountAmount(Math.min(100, Math.max(0, value)));
                       } else {
-                        const subtotal = cart.reduce((sum, item) => sum + item.subtotal, 0);
+                        const subtotal = pricedCart.subtotal;
                         setDiscountAmount(Math.min(subtotal, Math.max(0, value)));
                       }
                       setDiscountDialogOpen(false);
@@ -731,12 +1034,12 @@ export default function POSPage() {
                 />
                 {discountType === "percentage" && discountInputValue && (
                   <p className="text-xs text-gray-500">
-                    Discount: Rs {((cart.reduce((sum, item) => sum + item.subtotal, 0) * (parseFloat(discountInputValue) || 0)) / 100).toFixed(2)}
+                    Discount: Rs {((pricedCart.subtotal * (parseFloat(discountInputValue) || 0)) / 100).toFixed(2)}
                   </p>
                 )}
                 {discountType === "amount" && discountInputValue && (
                   <p className="text-xs text-gray-500">
-                    Max discount: Rs {cart.reduce((sum, item) => sum + item.subtotal, 0).toFixed(2)}
+                    Max discount: Rs {pricedCart.subtotal.toFixed(2)}
                   </p>
                 )}
               </div>
@@ -757,7 +1060,7 @@ export default function POSPage() {
                   if (discountType === "percentage") {
                     setDiscountAmount(Math.min(100, Math.max(0, value)));
                   } else {
-                    const subtotal = cart.reduce((sum, item) => sum + item.subtotal, 0);
+                    const subtotal = pricedCart.subtotal;
                     setDiscountAmount(Math.min(subtotal, Math.max(0, value)));
                   }
                   setDiscountDialogOpen(false);
@@ -770,6 +1073,80 @@ export default function POSPage() {
           </DialogContent>
         </Dialog>
 
+        {/* Variant Picker Dialog */}
+        <Dialog open={!!variantPickerProduct} onOpenChange={(open) => !open && setVariantPickerProduct(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{variantPickerProduct?.name}</DialogTitle>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-2 max-h-[60vh] overflow-y-auto">
+              {variantPickerProduct &&
+                getProductVariants(variantPickerProduct.id, products).map((variant) => {
+                  const variantStock = getTotalAvailableStock(variant);
+                  const variantPrice =
+                    variant.discount && variant.discount > 0
+                      ? variant.price * (1 - variant.discount / 100)
+                      : variant.price;
+                  return (
+                    <Button
+                      key={variant.id}
+                      variant="outline"
+                      className="h-auto flex-col items-start p-3"
+                      onClick={() => {
+                        addToCart(variant);
+                        setVariantPickerProduct(null);
+                      }}
+                    >
+                      <span className="font-semibold">
+                        {getVariantLabel(variant.variantValues || {}, variantPickerProduct.variantOptions)}
+                      </span>
+                      <span className="text-xs text-gray-500">SKU: {variant.sku}</span>
+                      <span className="text-green-600 font-bold">Rs {variantPrice.toFixed(2)}</span>
+                      <span className={`text-xs ${variantStock === 0 ? "text-red-600" : "text-gray-500"}`}>
+                        Stock: {variantStock}
+                      </span>
+                    </Button>
+                  );
+                })}
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Sales Return Dialog */}
+        {user && (
+          <ReturnDialog
+            open={returnDialogOpen}
+            onOpenChange={setReturnDialogOpen}
+            performedBy={user.uid}
+            shiftId={shift?.id}
+            onReturnProcessed={() => fetchProducts()}
+          />
+        )}
+
+        {/* Offline Sales Queue Dialog */}
+        <OfflineQueueDialog
+          open={queueDialogOpen}
+          onOpenChange={setQueueDialogOpen}
+          queue={saleQueue}
+          online={online}
+          onQueueChange={() => {
+            setSaleQueue(OfflineService.getQueue());
+            fetchProducts();
+          }}
+        />
+
+        {/* Cash Drawer Shift Dialog */}
+        {user && (
+          <ShiftDialog
+            open={shiftDialogOpen}
+            onOpenChange={setShiftDialogOpen}
+            shift={shift}
+            performedBy={user.uid}
+            warehouseId={user.assignedWarehouseId}
+            onShiftChange={setShift}
+          />
+        )}
+
         {/* Floating Cart Button - Mobile Only */}
         {cart.length > 0 && (
           <Button
@@ -793,9 +1170,13 @@ export default function POSPage() {
           <SheetContent side="bottom" className="h-[85vh] flex flex-col p-0">
             <div className="flex flex-col h-full">
               <Cart
-                cart={cart}
+                cart={pricedCart.items}
                 subtotal={subtotal}
-                discount={discount}
+                discount={manualDiscount}
+                cartPromotion={pricedCart.cartPromotion}
+                priceListName={pricedCart.priceList?.name}
+                tax={tax}
+                includedTax={includedTax}
                 total={total}
                 paidAmount={paidAmount}
                 creditAmount={creditAmount}
@@ -24,6 +24,7 @@ const adminPermissions: EmployeePermissions = {
       delete: true,
       viewCredits: true,
       settleCredits: true,
+      overrideCreditLimit: true,
     },
     employees: { view: true, create: true, update: true, delete: true },
     vendors: { view: true, create: true, update: true, delete: true },
@@ -4,6 +4,9 @@ import { useEffect, useState } from "react";
 import { useParams } from "next/navigation";
 import { ProductService } from "@/lib/services/productService";
 import { Product } from "@/lib/types";
+import { getTotalAvailableStock } from "@/lib/utils/stockAllocation";
+import { findVariant, getVariantPriceRange, hasVariants } from "@/lib/utils/variants";
+import { getSellableStock, isBundle } from "@/lib/utils/bundles";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -14,6 +17,9 @@ export default function ProductDetailPage() {
   const params = useParams();
   const productId = params.id as string;
   const [product, setProduct] = useState<Product | null>(null);
+  const [variants, setVariants] = useState<Product[]>([]);
+  const [bundleComponents, setBundleComponents] = useState<Product[]>([]);
+  const [selectedValues, setSelectedValues] = useState<Record<string, string>>({});
   const [quantity, setQuantity] = useState(1);
   const [loading, setLoading] = useState(true);
 
@@ -27,6 +33,19 @@ export default function ProductDetailPage() {
     try {
       const productData = await ProductService.getProduct(productId);
       setProduct(productData);
+      if (productData && hasVariants(productData)) {
+        const productVariants = (await ProductService.getProductVariants(productId)).filter((v) => v.isActive);
+        setVariants(productVariants);
+        // Start on the first variant in stock so there's always something to add
+        const initial = productVariants.find((v) => getTotalAvailableStock(v) > 0) || productVariants[0];
+        setSelectedValues(initial?.variantValues || {});
+      }
+      if (productData && isBundle(productData)) {
+        const components = await Promise.all(
+          (productData.bundleItems || []).map((item) => ProductService.getProduct(item.productId))
+        );
+        setBundleComponents(components.filter((component): component is Product => !!component));
+      }
     } catch (error) {
       console.error("Error fetching product:", error);
     } finally {
@@ -34,29 +53,32 @@ export default function ProductDetailPage() {
     }
   };
 
+  // What goes into the cart - the chosen variant for a product sold in variants
+  const sellable = product && hasVariants(product) ? findVariant(variants, selectedValues) : product;
+
   const handleAddToCart = () => {
+    if (!sellable) return;
+
     // Add to cart logic (can use localStorage or context)
     const cart = JSON.parse(localStorage.getItem("cart") || "[]");
-    const existingItem = cart.find((item: any) => item.productId === productId);
+    const existingItem = cart.find((item: any) => item.productId === sellable.id);
 
-    if (!product) return;
-    
     // Calculate effective price (with discount)
-    const effectivePrice = product.discount && product.discount > 0
-      ? product.price * (1 - product.discount / 100)
-      : product.price;
+    const effectivePrice = sellable.discount && sellable.discount > 0
+      ? sellable.price * (1 - sellable.discount / 100)
+      : sellable.price;
 
     if (existingItem) {
       existingItem.quantity += quantity;
     } else {
       cart.push({
-        productId: product.id,
-        productName: product.name,
-        sku: product.sku,
+        productId: sellable.id,
+        productName: sellable.name,
+        sku: sellable.sku,
         price: effectivePrice,
-        originalPrice: product.discount && product.discount > 0 ? product.price : undefined,
+        originalPrice: sellable.discount && sellable.discount > 0 ? sellable.price : undefined,
         quantity,
-        imageUrl: product.imageUrl,
+        imageUrl: sellable.imageUrl,
       });
     }
 
@@ -85,7 +107,9 @@ export default function ProductDetailPage() {
     );
   }
 
-  const totalStock = Object.values(product.warehouses).reduce((sum, wh) => sum + wh.quantity, 0);
+  // Units held for other customers' unshipped orders aren't available to buy
+  const totalStock = sellable ? getSellableStock(sellable, bundleComponents) : 0;
+  const priceRange = getVariantPriceRange(variants);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -128,21 +152,67 @@ export default function ProductDetailPage() {
             <div>
               <h1 className="text-3xl font-bold mb-2">{product.name}</h1>
               <p className="text-gray-600 mb-4">{product.category}</p>
-              {product.discount && product.discount > 0 ? (
+              {!sellable ? (
+                <p className="text-3xl font-bold text-green-600 mb-4">
+                  {priceRange.min === priceRange.max
+                    ? `Rs ${priceRange.min.toFixed(2)}`
+                    : `Rs ${priceRange.min.toFixed(2)} - Rs ${priceRange.max.toFixed(2)}`}
+                </p>
+              ) : sellable.discount && sellable.discount > 0 ? (
                 <div className="mb-4">
-                  <p className="text-xl text-gray-400 line-through">Rs {product.price.toFixed(2)}</p>
+                  <p className="text-xl text-gray-400 line-through">Rs {sellable.price.toFixed(2)}</p>
                   <p className="text-3xl font-bold text-green-600">
-                    Rs {(product.price * (1 - product.discount / 100)).toFixed(2)}
+                    Rs {(sellable.price * (1 - sellable.discount / 100)).toFixed(2)}
                   </p>
-                  <p className="text-sm text-red-600 font-semibold mt-1">-{product.discount.toFixed(0)}% OFF</p>
+                  <p className="text-sm text-red-600 font-semibold mt-1">-{sellable.discount.toFixed(0)}% OFF</p>
                 </div>
               ) : (
                 <p className="text-3xl font-bold text-green-600 mb-4">
-                  Rs {product.price.toFixed(2)}
+                  Rs {sellable.price.toFixed(2)}
                 </p>
               )}
             </div>
 
+            {product.variantOptions?.map((option) => (
+              <div key={option.name}>
+                <h2 className="font-semibold mb-2">{option.name}</h2>
+                <div className="flex flex-wrap gap-2">
+                  {option.values.map((value) => {
+                    // Values with no variant in stock alongside the other choices are shown struck through
+                    const match = findVariant(variants, { ...selectedValues, [option.name]: value });
+                    const available = !!match && getTotalAvailableStock(match) > 0;
+                    return (
+                      <Button
+                        key={value}
+                        variant={selectedValues[option.name] === value ? "default" : "outline"}
+                        size="sm"
+                        className={available ? "" : "line-through opacity-60"}
+                        onClick={() => {
+                          setSelectedValues({ ...selectedValues, [option.name]: value });
+                          setQuantity(1);
+                        }}
+                      >
+                        {value}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
+            {isBundle(product) && (
+              <div>
+                <h2 className="font-semibold mb-2">In this set</h2>
+                <ul className="list-disc list-inside text-gray-700">
+                  {(product.bundleItems || []).map((item) => (
+                    <li key={item.productId}>
+                      {item.quantity} x {bundleComponents.find((c) => c.id === item.productId)?.name || "Item"}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {product.description && (
               <div>
                 <h2 className="font-semibold mb-2">Description</h2>
@@ -153,7 +223,7 @@ export default function ProductDetailPage() {
             <div>
               <p className="text-sm text-gray-600 mb-2">
                 Stock: <span className={totalStock === 0 ? "text-red-600" : "text-green-600"}>
-                  {totalStock === 0 ? "Out of Stock" : `${totalStock} available`}
+                  {!sellable ? "This combination isn't available" : totalStock === 0 ? "Out of Stock" : `${totalStock} available`}
                 </span>
               </p>
             </div>
@@ -12,8 +12,13 @@ import { ArrowLeft, Trash2, Download, Printer } from "lucide-react";
 import { useStoreAuth } from "@/contexts/StoreAuthContext";
 import { OrderService } from "@/lib/services/orderService";
 import { LoyaltyService } from "@/lib/services/loyaltyService";
+import { ProductService } from "@/lib/services/productService";
+import { PricingService } from "@/lib/services/pricingService";
+import { TaxService } from "@/lib/services/taxService";
 import { printReceipt, downloadReceiptHTML } from "@/lib/utils/receiptGenerator";
-import { Order, OrderItem } from "@/lib/types";
+import { calculateTaxes, getProductTaxRate, isProductTaxInclusive } from "@/lib/utils/tax";
+import { priceItems } from "@/lib/utils/pricing";
+import { Order, OrderItem, PricingContext, Product } from "@/lib/types";
 
 interface CartItem {
   productId: string;
@@ -43,6 +48,9 @@ export default function CartPage() {
   const [orderPlaced, setOrderPlaced] = useState(false);
   const [orderNumber, setOrderNumber] = useState("");
   const [order, setOrder] = useState<Order | null>(null);
+  const [productTaxes, setProductTaxes] = useState<Record<string, { taxRate: number; taxInclusive: boolean }>>({});
+  const [products, setProducts] = useState<Map<string, Product>>(new Map());
+  const [pricingContext, setPricingContext] = useState<PricingContext>({ promotions: [], categories: [] });
 
   useEffect(() => {
     const cartData = JSON.parse(localStorage.getItem("cart") || "[]");
@@ -54,6 +62,59 @@ export default function CartPage() {
     }
   }, [customer]);
 
+  // Items are priced from the products as they are now, not as they were when added to the cart.
+  // Tax is worked out again when the order is placed; this is the estimate shown in the cart
+  const cartProductIds = cart.map((item) => item.productId).join(",");
+  useEffect(() => {
+    const loadProducts = async () => {
+      const [settings, productList] = await Promise.all([
+        TaxService.getTaxSettings(),
+        Promise.all(cartProductIds.split(",").map((productId) => ProductService.getProduct(productId))),
+      ]);
+      const loaded = productList.filter((product): product is Product => !!product);
+      setProducts(new Map(loaded.map((product) => [product.id, product])));
+
+      const taxes: Record<string, { taxRate: number; taxInclusive: boolean }> = {};
+      if (settings?.enabled) {
+        loaded.forEach((product) => {
+          taxes[product.id] = {
+            taxRate: getProductTaxRate(product, settings),
+            taxInclusive: isProductTaxInclusive(product, settings),
+          };
+        });
+      }
+      setProductTaxes(taxes);
+    };
+
+    if (cartProductIds) {
+      loadProducts().catch((error) => console.error("Error loading cart products:", error));
+    }
+  }, [cartProductIds]);
+
+  // A signed-in customer buys at their price list
+  const priceListId = customer?.priceListId;
+  useEffect(() => {
+    PricingService.getPricingContext(priceListId)
+      .then(setPricingContext)
+      .catch((error) => console.error("Error loading pricing:", error));
+  }, [priceListId]);
+
+  const pricedCart = priceItems(
+    cart.map(
+      (item): OrderItem => ({
+        productId: item.productId,
+        productName: item.productName,
+        sku: item.sku || "",
+        quantity: item.quantity,
+        unitPrice: item.price,
+        subtotal: item.price * item.quantity,
+        imageUrl: item.imageUrl,
+      })
+    ),
+    products,
+    pricingContext
+  );
+
   const loadLoyaltyData = async () => {
     if (!customer) return;
     
@@ -86,17 +147,28 @@ export default function CartPage() {
   };
 
   const calculateSubtotal = () => {
-    return cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    return pricedCart.subtotal;
+  };
+
+  // The cart promotion comes off alongside any loyalty discount
+  const totalDiscount = Math.min(pricedCart.cartDiscount + discount, pricedCart.subtotal);
+
+  const calculateTax = () => {
+    return calculateTaxes(
+      pricedCart.items.map((item) => ({ subtotal: item.subtotal, ...productTaxes[item.productId] })),
+      totalDiscount
+    );
   };
 
   const calculateTotal = () => {
-    return Math.max(0, calculateSubtotal() - discount);
+    return calculateTax().total;
   };
 
   const handlePointsChange = (points: number) => {
     if (!loyaltyRules || !customer) return;
     
-    const subtotal = calculateSubtotal();
+    // Points pay for what's left after the cart promotion
+    const subtotal = calculateSubtotal() - pricedCart.cartDiscount;
     const maxPoints = LoyaltyService.calculateMaxRedeemablePoints(
       loyaltyPoints,
       subtotal,
@@ -123,16 +195,7 @@ export default function CartPage() {
       const subtotal = calculateSubtotal();
       const total = calculateTotal();
 
-      // Convert cart items to order items
-      const orderItems: OrderItem[] = cart.map(item => ({
-        productId: item.productId,
-        productName: item.productName,
-        sku: item.sku || "",
-        quantity: item.quantity,
-        unitPrice: item.price,
-        subtotal: item.price * item.quantity,
-        imageUrl: item.imageUrl,
-      }));
+      const orderItems: OrderItem[] = pricedCart.items;
 
       // Create order data
       const orderData: any = {
@@ -143,7 +206,7 @@ export default function CartPage() {
         },
         items: orderItems,
         subtotal,
-        discount,
+        discount: totalDiscount,
         total,
         paymentMethod: "COD",
         status: "PENDING",
@@ -159,6 +222,14 @@ export default function CartPage() {
         orderData.customerInfo.email = formData.email;
       }
 
+      if (pricedCart.promotions.length > 0) {
+        orderData.promotions = pricedCart.promotions;
+      }
+      if (pricingContext.priceList) {
+        orderData.priceListId = pricingContext.priceList.id;
+        orderData.priceListName = pricingContext.priceList.name;
+      }
+
       // Only include loyaltyPointsUsed if points are being redeemed
       if (pointsToRedeem > 0) {
         orderData.loyaltyPointsUsed = pointsToRedeem;
@@ -228,7 +299,10 @@ export default function CartPage() {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           <div className="md:col-span-2 space-y-4">
             <h1 className="text-2xl font-bold">Shopping Cart</h1>
-            {cart.map((item) => (
+            {cart.map((item, index) => {
+              const priced = pricedCart.items[index];
+              const retailPrice = products.get(item.productId)?.price ?? item.originalPrice;
+              return (
               <Card key={item.productId}>
                 <CardContent className="p-4">
                   <div className="flex gap-4">
@@ -241,16 +315,21 @@ export default function CartPage() {
                     )}
                     <div className="flex-1">
                       <h3 className="font-semibold">{item.productName}</h3>
-                      {item.originalPrice && item.originalPrice > item.price ? (
+                      {retailPrice && retailPrice > priced.unitPrice ? (
                         <div>
-                          <p className="text-sm text-gray-400 line-through">Rs {item.originalPrice.toFixed(2)}</p>
-                          <p className="text-gray-600 font-semibold">Rs {item.price.toFixed(2)} each</p>
+                          <p className="text-sm text-gray-400 line-through">Rs {retailPrice.toFixed(2)}</p>
+                          <p className="text-gray-600 font-semibold">Rs {priced.unitPrice.toFixed(2)} each</p>
                           <p className="text-xs text-red-600 font-semibold">
-                            -{((1 - item.price / item.originalPrice) * 100).toFixed(0)}% OFF
+                            -{((1 - priced.unitPrice / retailPrice) * 100).toFixed(0)}% OFF
                           </p>
                         </div>
                       ) : (
-                        <p className="text-gray-600">Rs {item.price.toFixed(2)} each</p>
+                        <p className="text-gray-600">Rs {priced.unitPrice.toFixed(2)} each</p>
+                      )}
+                      {priced.promotion && (
+                        <p className="text-sm text-green-600">
+                          {priced.promotion.name}: -Rs {priced.promotion.amount.toFixed(2)}
+                        </p>
                       )}
                       <div className="flex items-center gap-4 mt-2">
                         <div className="flex items-center gap-2">
@@ -287,13 +366,14 @@ export default function CartPage() {
                         </Button>
                       </div>
                       <p className="mt-2 font-semibold">
-                        Rs {(item.price * item.quantity).toFixed(2)}
+                        Rs {priced.subtotal.toFixed(2)}
                       </p>
                     </div>
                   </div>
                 </CardContent>
               </Card>
-            ))}
+              );
+            })}
           </div>
 
           <div>
@@ -371,12 +451,27 @@ export default function CartPage() {
                       <span>Subtotal:</span>
                       <span>Rs {calculateSubtotal().toFixed(2)}</span>
                     </div>
+                    {pricingContext.priceList && (
+                      <p className="text-xs text-gray-500">{pricingContext.priceList.name} prices</p>
+                    )}
+                    {pricedCart.cartPromotion && (
+                      <div className="flex justify-between text-green-600">
+                        <span>{pricedCart.cartPromotion.name}:</span>
+                        <span>-Rs {pricedCart.cartPromotion.amount.toFixed(2)}</span>
+                      </div>
+                    )}
                     {discount > 0 && (
                       <div className="flex justify-between text-green-600">
                         <span>Discount:</span>
                         <span>-Rs {discount.toFixed(2)}</span>
                       </div>
                     )}
+                    {calculateTax().tax > 0 && (
+                      <div className="flex justify-between text-sm text-gray-600">
+                        <span>VAT:</span>
+                        <span>Rs {calculateTax().tax.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between font-bold text-lg">
                       <span>Total:</span>
                       <span>Rs {calculateTotal().toFixed(2)}</span>
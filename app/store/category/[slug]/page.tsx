@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { CategoryService } from "@/lib/services/categoryService";
+import { ProductService } from "@/lib/services/productService";
+import { Category, Product } from "@/lib/types";
+import { getCategoryPath, getChildCategories } from "@/lib/utils/categories";
+import { Button } from "@/components/ui/button";
+import { CategoryGrid, ProductCatalog } from "@/components/store/ProductCatalog";
+import Link from "next/link";
+import Image from "next/image";
+import { ArrowLeft, ShoppingCart } from "lucide-react";
+
+export default function CategoryPage() {
+  const params = useParams();
+  const slug = params.slug as string;
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setError(null);
+      const [productList, categoryList] = await Promise.all([
+        ProductService.getAllProducts(),
+        CategoryService.getAllCategories(),
+      ]);
+      setProducts(productList.filter((p) => p.isActive));
+      setCategories(categoryList.filter((c) => c.isActive));
+    } catch (error) {
+      console.error("Error fetching category:", error);
+      setError("Failed to load products. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const category = categories.find((c) => c.slug === slug);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div>Loading...</div>
+      </div>
+    );
+  }
+
+  if (!category && !error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Category not found</h1>
+          <Link href="/store">
+            <Button>Back to Store</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex justify-between items-center">
+            <Link href="/store">
+              <Button variant="outline">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
+              </Button>
+            </Link>
+            <Link href="/store/cart">
+              <Button variant="outline">
+                <ShoppingCart className="mr-2 h-4 w-4" />
+                Cart
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        {error || !category ? (
+          <div className="text-center py-12">
+            <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md mx-auto">
+              <p className="text-red-800 font-semibold mb-2">Error Loading Products</p>
+              <p className="text-red-600 text-sm">{error}</p>
+              <Button onClick={fetchData} className="mt-4" variant="outline">
+                Retry
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <nav className="text-sm text-gray-500 mb-4">
+              <Link href="/store" className="hover:underline">
+                Store
+              </Link>
+              {getCategoryPath(category.id, categories).map((c) => (
+                <span key={c.id}>
+                  {" / "}
+                  {c.id === category.id ? (
+                    <span className="text-gray-900">{c.name}</span>
+                  ) : (
+                    <Link href={`/store/category/${c.slug}`} className="hover:underline">
+                      {c.name}
+                    </Link>
+                  )}
+                </span>
+              ))}
+            </nav>
+
+            <div className="flex flex-col sm:flex-row gap-4 mb-6">
+              {category.imageUrl && (
+                <Image
+                  src={category.imageUrl}
+                  alt={category.name}
+                  width={192}
+                  height={128}
+                  unoptimized
+                  className="w-full sm:w-48 h-32 object-cover rounded"
+                />
+              )}
+              <div>
+                <h1 className="text-3xl font-bold mb-2">{category.name}</h1>
+                {category.description && <p className="text-gray-600">{category.description}</p>}
+              </div>
+            </div>
+
+            <CategoryGrid categories={getChildCategories(category.id, categories)} />
+            <ProductCatalog key={category.id} products={products} categories={categories} categoryId={category.id} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -190,6 +190,16 @@ export default function OrderDetailPage() {
                   )}
                   <div className="flex-1">
                     <h4 className="font-semibold">{item.productName}</h4>
+                    {item.bundle && (
+                      <p className="text-sm text-gray-600">
+                        Part of {item.bundle.productName} x {item.bundle.quantity}
+                      </p>
+                    )}
+                    {item.promotion && (
+                      <p className="text-sm text-green-600">
+                        {item.promotion.name}: -Rs {item.promotion.amount.toFixed(2)}
+                      </p>
+                    )}
                     <p className="text-sm text-gray-600">SKU: {item.sku}</p>
                     <p className="text-sm text-gray-600">Quantity: {item.quantity}</p>
                   </div>
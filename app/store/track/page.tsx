@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { OrderStatusTimeline } from "@/components/OrderStatusTimeline";
 import { OrderService } from "@/lib/services/orderService";
 import { Order } from "@/lib/types";
 import Link from "next/link";
@@ -189,6 +190,11 @@ export default function TrackOrderPage() {
                     </div>
                   </div>
 
+                  <div className="mt-4">
+                    <h4 className="font-semibold mb-2">Progress:</h4>
+                    <OrderStatusTimeline order={order} />
+                  </div>
+
                   <div className="mt-4">
                     <h4 className="font-semibold mb-2">Items:</h4>
                     <div className="space-y-2">
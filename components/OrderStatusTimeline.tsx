@@ -0,0 +1,42 @@
+"use client";
+
+import { OrderService } from "@/lib/services/orderService";
+import { Order, OrderStatus } from "@/lib/types";
+
+interface OrderStatusTimelineProps {
+  order: Order;
+  // Display names keyed by user ID - when omitted the actor is not shown (e.g. for customers)
+  actorNames?: Record<string, string>;
+  // Notes are internal remarks (e.g. cancellation reasons) - only shown to staff
+  showNotes?: boolean;
+}
+
+const statusDotColor: Record<OrderStatus, string> = {
+  PENDING: "bg-yellow-500",
+  CONFIRMED: "bg-green-500",
+  SHIPPED: "bg-blue-500",
+  COMPLETED: "bg-purple-500",
+  CANCELLED: "bg-red-500",
+};
+
+export function OrderStatusTimeline({ order, actorNames, showNotes = false }: OrderStatusTimelineProps) {
+  const history = OrderService.getStatusHistory(order);
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {history.map((change, index) => (
+        <li key={index} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${statusDotColor[change.status]}`}
+          />
+          <p className="font-medium text-sm">{change.status}</p>
+          <p className="text-xs text-gray-500">
+            {change.timestamp.toDate().toLocaleString()}
+            {actorNames && ` · ${actorNames[change.performedBy] || change.performedBy}`}
+          </p>
+          {showNotes && change.note && <p className="text-sm text-gray-600 mt-1">{change.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
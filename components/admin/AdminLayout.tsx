@@ -22,6 +22,11 @@ import {
   User as UserIcon,
   ShoppingBag,
   Clock,
+  ArrowLeftRight,
+  ClipboardList,
+  PackagePlus,
+  FolderTree,
+  Tag,
 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { OrderService } from "@/lib/services/orderService";
@@ -61,12 +66,42 @@ const navItems: NavItem[] = [
     icon: Package,
     permission: { resource: "inventory", action: "view" },
   },
+  {
+    title: "Categories",
+    href: "/admin/inventory/categories",
+    icon: FolderTree,
+    permission: { resource: "inventory", action: "view" },
+  },
+  {
+    title: "Pricing",
+    href: "/admin/inventory/pricing",
+    icon: Tag,
+    permission: { resource: "inventory", action: "view" },
+  },
   {
     title: "Warehouses",
     href: "/admin/inventory/warehouses",
     icon: Warehouse,
     permission: { resource: "inventory", action: "view" },
   },
+  {
+    title: "Transfers",
+    href: "/admin/inventory/transfers",
+    icon: ArrowLeftRight,
+    permission: { resource: "inventory", action: "view" },
+  },
+  {
+    title: "Stock-takes",
+    href: "/admin/inventory/stock-takes",
+    icon: ClipboardList,
+    permission: { resource: "inventory", action: "view" },
+  },
+  {
+    title: "Reorder",
+    href: "/admin/inventory/reorder",
+    icon: PackagePlus,
+    permission: { resource: "inventory", action: "view" },
+  },
   {
     title: "Vendors",
     href: "/admin/vendors",
@@ -33,6 +33,7 @@ const actionLabels: Record<string, string> = {
   delete: "Delete",
   viewCredits: "View Credits",
   settleCredits: "Settle Credits",
+  overrideCreditLimit: "Override Credit Limit",
   applyDiscount: "Apply Discount",
 };
 
@@ -71,6 +72,7 @@ export function PermissionMatrix({ permissions, onChange }: PermissionMatrixProp
           delete: false,
           viewCredits: false,
           settleCredits: false,
+          overrideCreditLimit: false,
         },
         employees: { view: false, create: false, update: false, delete: false },
         vendors: { view: false, create: false, update: false, delete: false },
@@ -114,7 +116,7 @@ export function PermissionMatrix({ permissions, onChange }: PermissionMatrixProp
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const resourcePerms = newPermissions.resources[resource] as any;
 
-    if (resource === "customers" && (action === "viewCredits" || action === "settleCredits")) {
+    if (resource === "customers" && (action === "viewCredits" || action === "settleCredits" || action === "overrideCreditLimit")) {
       resourcePerms[action] = value;
     } else if (resource === "pos" && action === "applyDiscount") {
       resourcePerms[action] = value;
@@ -148,7 +150,7 @@ export function PermissionMatrix({ permissions, onChange }: PermissionMatrixProp
                   {Object.keys(resourcePerms).map((action) => {
                     if (typeof resourcePerms[action as keyof typeof resourcePerms] !== "boolean") {
                       // Handle nested permissions for customers
-                      if (isCustomers && (action === "viewCredits" || action === "settleCredits")) {
+                      if (isCustomers && (action === "viewCredits" || action === "settleCredits" || action === "overrideCreditLimit")) {
                         const checked = (resourcePerms as Record<string, boolean>)[action] || false;
                         return (
                           <div key={action} className="flex items-center space-x-2">
@@ -0,0 +1,161 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PriceList, Product } from "@/lib/types";
+import { getEffectivePrice } from "@/lib/utils/price";
+import { hasVariants } from "@/lib/utils/variants";
+import { Plus, Trash2 } from "lucide-react";
+
+export type PriceListForm = {
+  name: string;
+  description: string;
+  discountPercent: string;
+  prices: Array<{ productId: string; price: string }>;
+};
+
+export const EMPTY_PRICE_LIST_FORM: PriceListForm = { name: "", description: "", discountPercent: "", prices: [] };
+
+/**
+ * Form values for an existing price list
+ */
+export function priceListToForm(priceList: PriceList): PriceListForm {
+  return {
+    name: priceList.name,
+    description: priceList.description || "",
+    discountPercent: priceList.discountPercent?.toString() ?? "",
+    prices: Object.entries(priceList.prices).map(([productId, price]) => ({ productId, price: price.toString() })),
+  };
+}
+
+/**
+ * The price list a form describes, skipping price rows with no product chosen
+ */
+export function formToPriceList(form: PriceListForm, isActive: boolean): Omit<PriceList, "id" | "createdAt" | "updatedAt"> {
+  const prices: Record<string, number> = {};
+  form.prices
+    .filter((row) => row.productId && row.price !== "")
+    .forEach((row) => {
+      prices[row.productId] = parseFloat(row.price) || 0;
+    });
+  return {
+    name: form.name.trim(),
+    description: form.description.trim() || undefined,
+    discountPercent: form.discountPercent ? parseFloat(form.discountPercent) : undefined,
+    prices,
+    isActive,
+  };
+}
+
+interface PriceListFieldsProps {
+  idPrefix: string;
+  form: PriceListForm;
+  onChange: (form: PriceListForm) => void;
+  products: Product[];
+}
+
+/**
+ * A price list's name, blanket discount and product prices
+ */
+export function PriceListFields({ idPrefix, form, onChange, products }: PriceListFieldsProps) {
+  // Products sold in variants are priced through their variants
+  const choices = products
+    .filter((product) => !hasVariants(product))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const updateRow = (index: number, updates: Partial<PriceListForm["prices"][number]>) =>
+    onChange({ ...form, prices: form.prices.map((row, i) => (i === index ? { ...row, ...updates } : row)) });
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+          <Input
+            id={`${idPrefix}-name`}
+            value={form.name}
+            onChange={(e) => onChange({ ...form, name: e.target.value })}
+            required
+            placeholder="Wholesale"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-discountPercent`}>Discount Off Retail (%)</Label>
+          <Input
+            id={`${idPrefix}-discountPercent`}
+            type="number"
+            step="0.01"
+            min="0"
+            max="100"
+            value={form.discountPercent}
+            onChange={(e) => onChange({ ...form, discountPercent: e.target.value })}
+            placeholder="0"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+        <Input
+          id={`${idPrefix}-description`}
+          value={form.description}
+          onChange={(e) => onChange({ ...form, description: e.target.value })}
+          placeholder="Trade customers buying by the carton"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Product Prices</Label>
+        {form.prices.map((row, index) => {
+          const product = products.find((p) => p.id === row.productId);
+          return (
+            <div key={index} className="grid grid-cols-[1fr_7rem_auto] gap-2 items-center">
+              <Select value={row.productId} onValueChange={(value) => updateRow(index, { productId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {choices
+                    .filter((p) => p.id === row.productId || !form.prices.some((r) => r.productId === p.id))
+                    .map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name} ({p.sku}) - Rs {getEffectivePrice(p.price, p.discount).toFixed(2)}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={row.price}
+                onChange={(e) => updateRow(index, { price: e.target.value })}
+                placeholder={product ? product.price.toFixed(2) : "Price"}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => onChange({ ...form, prices: form.prices.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...form, prices: [...form.prices, { productId: "", price: "" }] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Product Price
+        </Button>
+        <p className="text-xs text-gray-500">
+          Products without their own price here get the discount off retail. Customers on the list never pay more
+          than the retail price.
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+
+export type AttributeRow = { key: string; value: string };
+
+interface ProductAttributesFieldsProps {
+  rows: AttributeRow[];
+  onChange: (rows: AttributeRow[]) => void;
+}
+
+/**
+ * Editable rows for a product's attributes record
+ */
+export function attributesToRows(attributes?: Record<string, string>): AttributeRow[] {
+  return Object.entries(attributes || {}).map(([key, value]) => ({ key, value }));
+}
+
+/**
+ * Attributes record from the rows, skipping incomplete ones
+ */
+export function rowsToAttributes(rows: AttributeRow[]): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  rows.forEach((row) => {
+    if (row.key.trim() && row.value.trim()) {
+      attributes[row.key.trim()] = row.value.trim();
+    }
+  });
+  return attributes;
+}
+
+/**
+ * Key/value attributes of a product, e.g. material or wattage
+ */
+export function ProductAttributesFields({ rows, onChange }: ProductAttributesFieldsProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Attributes</Label>
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+          <Input
+            value={row.key}
+            onChange={(e) => onChange(rows.map((r, i) => (i === index ? { ...r, key: e.target.value } : r)))}
+            placeholder="Material"
+          />
+          <Input
+            value={row.value}
+            onChange={(e) => onChange(rows.map((r, i) => (i === index ? { ...r, value: e.target.value } : r)))}
+            placeholder="Stainless steel"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...rows, { key: "", value: "" }])}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Attribute
+      </Button>
+      <p className="text-xs text-gray-500">Shoppers can filter the storefront by these</p>
+    </div>
+  );
+}
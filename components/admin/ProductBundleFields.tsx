@@ -0,0 +1,96 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BundleItem, Product } from "@/lib/types";
+import { isBundle } from "@/lib/utils/bundles";
+import { hasVariants } from "@/lib/utils/variants";
+import { Plus, Trash2 } from "lucide-react";
+
+export type BundleRow = { productId: string; quantity: string };
+
+interface ProductBundleFieldsProps {
+  products: Product[];
+  rows: BundleRow[];
+  onChange: (rows: BundleRow[]) => void;
+  bundleId?: string; // The bundle being edited, left out of the choices
+}
+
+/**
+ * Editable rows for a bundle's components
+ */
+export function bundleItemsToRows(items?: BundleItem[]): BundleRow[] {
+  return (items || []).map((item) => ({ productId: item.productId, quantity: String(item.quantity) }));
+}
+
+/**
+ * Bundle components from the rows, skipping ones with no product chosen
+ */
+export function rowsToBundleItems(rows: BundleRow[]): BundleItem[] {
+  return rows
+    .filter((row) => row.productId)
+    .map((row) => ({ productId: row.productId, quantity: parseInt(row.quantity) || 0 }));
+}
+
+/**
+ * Products and quantities that make up a bundle
+ */
+export function ProductBundleFields({ products, rows, onChange, bundleId }: ProductBundleFieldsProps) {
+  // Only products that hold stock themselves can go in a bundle
+  const choices = products
+    .filter((product) => product.id !== bundleId && !isBundle(product) && !hasVariants(product))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const componentsValue = rows.reduce((sum, row) => {
+    const product = products.find((p) => p.id === row.productId);
+    return sum + (product ? product.price * (parseInt(row.quantity) || 0) : 0);
+  }, 0);
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-[1fr_6rem_auto] gap-2">
+          <Select
+            value={row.productId}
+            onValueChange={(value) => onChange(rows.map((r, i) => (i === index ? { ...r, productId: value } : r)))}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select product" />
+            </SelectTrigger>
+            <SelectContent>
+              {choices.map((product) => (
+                <SelectItem key={product.id} value={product.id}>
+                  {product.name} ({product.sku})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="1"
+            value={row.quantity}
+            onChange={(e) => onChange(rows.map((r, i) => (i === index ? { ...r, quantity: e.target.value } : r)))}
+            placeholder="Qty"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            disabled={rows.length === 1}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...rows, { productId: "", quantity: "1" }])}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Component
+      </Button>
+      <p className="text-xs text-gray-500">
+        Components sell for Rs {componentsValue.toFixed(2)} on their own. The bundle holds no stock - selling one takes
+        stock from each component, and its price is shared across them in proportion to these prices.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Category } from "@/lib/types";
+import { flattenCategoryTree } from "@/lib/utils/categories";
+
+interface ProductCategoryFieldProps {
+  categories: Category[];
+  categoryId: string; // "" when none is chosen
+  category: string;
+  onChange: (values: { categoryId: string; category: string }) => void;
+}
+
+/**
+ * Category a product is filed under
+ * Picks from the managed category tree, falling back to free text until categories are set up.
+ */
+export function ProductCategoryField({ categories, categoryId, category, onChange }: ProductCategoryFieldProps) {
+  if (categories.length === 0) {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="category">Category</Label>
+        <Input
+          id="category"
+          type="text"
+          value={category}
+          onChange={(e) => onChange({ categoryId: "", category: e.target.value })}
+          required
+          placeholder="Kitchen Appliances"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Category</Label>
+      <Select
+        value={categoryId}
+        onValueChange={(value) =>
+          onChange({ categoryId: value, category: categories.find((c) => c.id === value)?.name || "" })
+        }
+      >
+        <SelectTrigger>
+          <SelectValue placeholder={category ? `${category} (not in the category tree)` : "Select category"} />
+        </SelectTrigger>
+        <SelectContent>
+          {flattenCategoryTree(categories).map(({ category: option, depth }) => (
+            <SelectItem key={option.id} value={option.id}>
+              {"  ".repeat(depth)}
+              {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
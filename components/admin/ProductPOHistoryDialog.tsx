@@ -17,8 +17,9 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { VendorService } from "@/lib/services/vendorService";
-import { PurchaseOrder, Vendor } from "@/lib/types";
+import { PurchaseOrder, PurchaseReturn, Vendor } from "@/lib/types";
 import { Loader2 } from "lucide-react";
+import { hasReceivedGoods } from "@/lib/utils/purchaseOrder";
 
 interface ProductPOHistoryDialogProps {
   productId: string;
@@ -34,6 +35,7 @@ export function ProductPOHistoryDialog({
   onOpenChange,
 }: ProductPOHistoryDialogProps) {
   const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [purchaseReturns, setPurchaseReturns] = useState<PurchaseReturn[]>([]);
   const [vendors, setVendors] = useState<Record<string, Vendor>>({});
   const [loading, setLoading] = useState(false);
 
@@ -46,20 +48,24 @@ export function ProductPOHistoryDialog({
   const fetchPOHistory = async () => {
     setLoading(true);
     try {
-      const pos = await VendorService.getPurchaseOrdersByProduct(productId);
+      const [pos, returns] = await Promise.all([
+        VendorService.getPurchaseOrdersByProduct(productId),
+        VendorService.getPurchaseReturnsByProduct(productId),
+      ]);
       setPurchaseOrders(pos);
+      setPurchaseReturns(returns);
 
-      // Fetch vendor details for each PO
+      // Fetch vendor details for each PO and return
       const vendorMap: Record<string, Vendor> = {};
-      for (const po of pos) {
-        if (!vendorMap[po.vendorId]) {
+      for (const vendorId of [...pos.map((po) => po.vendorId), ...returns.map((r) => r.vendorId)]) {
+        if (!vendorMap[vendorId]) {
           try {
-            const vendor = await VendorService.getVendor(po.vendorId);
+            const vendor = await VendorService.getVendor(vendorId);
             if (vendor) {
-              vendorMap[po.vendorId] = vendor;
+              vendorMap[vendorId] = vendor;
             }
           } catch (error) {
-            console.error(`Error fetching vendor ${po.vendorId}:`, error);
+            console.error(`Error fetching vendor ${vendorId}:`, error);
           }
         }
       }
@@ -105,6 +111,7 @@ export function ProductPOHistoryDialog({
                   <TableHead>Ordered Unit Price</TableHead>
                   <TableHead>Received Qty</TableHead>
                   <TableHead>Received Unit Price</TableHead>
+                  <TableHead>Returned Qty</TableHead>
                   <TableHead>Total Amount</TableHead>
                 </TableRow>
               </TableHeader>
@@ -118,7 +125,7 @@ export function ProductPOHistoryDialog({
                   const receivedPrice = item.receivedUnitPrice ?? item.unitPrice;
                   const orderedTotal = item.quantity * item.unitPrice;
                   const receivedTotal = receivedQty * receivedPrice;
-                  const isReceived = po.status === "RECEIVED";
+                  const isReceived = hasReceivedGoods(po);
 
                   return (
                     <TableRow key={po.id}>
@@ -133,6 +140,8 @@ export function ProductPOHistoryDialog({
                           className={`px-2 py-1 rounded-full text-xs font-medium ${
                             po.status === "RECEIVED"
                               ? "bg-green-100 text-green-700"
+                              : po.status === "PARTIALLY_RECEIVED"
+                              ? "bg-orange-100 text-orange-700"
                               : po.status === "APPROVED"
                               ? "bg-blue-100 text-blue-700"
                               : po.status === "CANCELLED"
@@ -167,6 +176,13 @@ export function ProductPOHistoryDialog({
                           "-"
                         )}
                       </TableCell>
+                      <TableCell>
+                        {item.returnedQuantity ? (
+                          <span className="text-red-600">{item.returnedQuantity}</span>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
                       <TableCell>
                         {isReceived ? (
                           receivedTotal !== orderedTotal ? (
@@ -190,6 +206,45 @@ export function ProductPOHistoryDialog({
                 })}
               </TableBody>
             </Table>
+
+            {purchaseReturns.length > 0 && (
+              <div className="mt-6">
+                <h3 className="font-semibold mb-2">Returns to Vendor</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Debit Note</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Qty</TableHead>
+                      <TableHead>Unit Price</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {purchaseReturns.map((purchaseReturn) => {
+                      const item = purchaseReturn.items.find((i) => i.productId === productId);
+                      if (!item) return null;
+
+                      return (
+                        <TableRow key={purchaseReturn.id}>
+                          <TableCell>
+                            {purchaseReturn.createdAt?.toDate?.()?.toLocaleDateString() || "N/A"}
+                          </TableCell>
+                          <TableCell className="font-mono">{purchaseReturn.debitNoteNumber}</TableCell>
+                          <TableCell className="font-medium">
+                            {vendors[purchaseReturn.vendorId]?.companyName || "Unknown Vendor"}
+                          </TableCell>
+                          <TableCell>{purchaseReturn.reason}</TableCell>
+                          <TableCell className="text-red-600">{item.quantity}</TableCell>
+                          <TableCell>Rs {item.unitPrice.toFixed(2)}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
           </div>
         )}
       </DialogContent>
@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StockMovementService } from "@/lib/services/stockMovementService";
+import { Product, StockCard, StockMovementType, Warehouse } from "@/lib/types";
+import { Loader2 } from "lucide-react";
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  OPENING: "Opening stock",
+  SALE: "POS sale",
+  SALE_RETURN: "Sale return",
+  ORDER: "Online order",
+  ORDER_CANCEL: "Order cancelled",
+  GRN: "Goods received",
+  TRANSFER_OUT: "Transfer out",
+  TRANSFER_IN: "Transfer in",
+  ADJUSTMENT: "Adjustment",
+  WRITE_OFF: "Write-off",
+  STOCK_TAKE: "Stock-take",
+  PURCHASE_RETURN: "Returned to vendor",
+};
+
+interface ProductStockCardProps {
+  product: Product;
+  warehouses: Warehouse[];
+  performedBy?: string;
+}
+
+export function ProductStockCard({ product, warehouses, performedBy }: ProductStockCardProps) {
+  const [cards, setCards] = useState<StockCard[]>([]);
+  const [warehouseId, setWarehouseId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [reconciling, setReconciling] = useState(false);
+
+  const fetchStockCards = async () => {
+    setLoading(true);
+    try {
+      const stockCards = await StockMovementService.getStockCards(product);
+      setCards(stockCards);
+      setWarehouseId((current) => current || stockCards[0]?.warehouseId || "");
+    } catch (error) {
+      console.error("Error fetching stock card:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStockCards();
+    // Reload whenever the product is saved and refetched
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product]);
+
+  const card = cards.find((c) => c.warehouseId === warehouseId);
+  const getWarehouseName = (id: string) => warehouses.find((w) => w.id === id)?.name || id;
+
+  const handleReconcile = async () => {
+    if (!card || !performedBy) return;
+    if (
+      !confirm(
+        `Record an adjustment of ${card.difference > 0 ? "+" : ""}${card.difference} so the stock card matches the ${card.warehouseQuantity} units on hand?`
+      )
+    ) {
+      return;
+    }
+    setReconciling(true);
+    try {
+      await StockMovementService.reconcile(card, product, performedBy);
+      await fetchStockCards();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to reconcile stock");
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Stock Card</CardTitle>
+            <CardDescription>Every movement in and out of the warehouse with the running balance</CardDescription>
+          </div>
+          {cards.length > 0 && (
+            <Select value={warehouseId} onValueChange={setWarehouseId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select warehouse" />
+              </SelectTrigger>
+              <SelectContent>
+                {cards.map((c) => (
+                  <SelectItem key={c.warehouseId} value={c.warehouseId}>
+                    {getWarehouseName(c.warehouseId)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : !card ? (
+          <p className="text-sm text-gray-500 text-center py-4">No stock has been recorded for this product</p>
+        ) : (
+          <>
+            {card.difference !== 0 && (
+              <div className="flex items-center justify-between gap-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded text-sm">
+                <span>
+                  The warehouse holds {card.warehouseQuantity} units but the movements add up to{" "}
+                  {card.closingBalance}. A change of {card.difference > 0 ? "+" : ""}
+                  {card.difference} was not recorded.
+                </span>
+                {performedBy && (
+                  <Button size="sm" variant="outline" onClick={handleReconcile} disabled={reconciling}>
+                    {reconciling ? "Reconciling..." : "Reconcile"}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Movement</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">In</TableHead>
+                  <TableHead className="text-right">Out</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell colSpan={6} className="text-gray-500">
+                    Opening balance
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{card.openingBalance}</TableCell>
+                </TableRow>
+                {card.lines.map(({ movement, balance }) => (
+                  <TableRow key={movement.id}>
+                    <TableCell>{movement.createdAt?.toDate?.()?.toLocaleString() || "N/A"}</TableCell>
+                    <TableCell>{MOVEMENT_LABELS[movement.type] || movement.type}</TableCell>
+                    <TableCell className="font-mono text-xs">{movement.referenceId || "-"}</TableCell>
+                    <TableCell className="text-gray-600">{movement.reason || "-"}</TableCell>
+                    <TableCell className="text-right text-green-600">
+                      {movement.quantity > 0 ? movement.quantity : ""}
+                    </TableCell>
+                    <TableCell className="text-right text-red-600">
+                      {movement.quantity < 0 ? -movement.quantity : ""}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{balance}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TaxSettings } from "@/lib/types";
+
+export type ProductTaxMode = "default" | "inclusive" | "exclusive";
+
+interface ProductTaxFieldsProps {
+  settings: TaxSettings | null;
+  taxRateId: string; // "default" to use the store default rate
+  taxMode: ProductTaxMode;
+  onChange: (values: { taxRateId: string; taxMode: ProductTaxMode }) => void;
+}
+
+/**
+ * Tax rate and pricing mode overrides for a product
+ * Renders nothing while tax is disabled in settings
+ */
+export function ProductTaxFields({ settings, taxRateId, taxMode, onChange }: ProductTaxFieldsProps) {
+  if (!settings?.enabled) {
+    return null;
+  }
+
+  const defaultRate = settings.rates.find((rate) => rate.id === settings.defaultRateId);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Tax Rate</Label>
+        <Select value={taxRateId} onValueChange={(value) => onChange({ taxRateId: value, taxMode })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">
+              Store default{defaultRate ? ` (${defaultRate.name})` : " (none)"}
+            </SelectItem>
+            {settings.rates.map((rate) => (
+              <SelectItem key={rate.id} value={rate.id}>
+                {rate.name} - {rate.rate}%
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Price Includes Tax</Label>
+        <Select
+          value={taxMode}
+          onValueChange={(value) => onChange({ taxRateId, taxMode: value as ProductTaxMode })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">
+              Store default ({settings.pricesIncludeTax ? "inclusive" : "exclusive"})
+            </SelectItem>
+            <SelectItem value="inclusive">Yes - tax is part of the price</SelectItem>
+            <SelectItem value="exclusive">No - tax is added on top</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
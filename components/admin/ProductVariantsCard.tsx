@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ProductService } from "@/lib/services/productService";
+import { Product, Warehouse } from "@/lib/types";
+import { getVariantLabel } from "@/lib/utils/variants";
+import { Loader2, Plus } from "lucide-react";
+
+interface ProductVariantsCardProps {
+  product: Product;
+  warehouses: Warehouse[];
+  canCreate: boolean;
+  performedBy?: string;
+}
+
+export function ProductVariantsCard({ product, warehouses, canCreate, performedBy }: ProductVariantsCardProps) {
+  const [variants, setVariants] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [sku, setSku] = useState("");
+  const [price, setPrice] = useState("");
+  const [costPrice, setCostPrice] = useState("");
+  const [warehouseId, setWarehouseId] = useState("");
+  const [quantity, setQuantity] = useState("");
+
+  const options = product.variantOptions || [];
+
+  const fetchVariants = async () => {
+    setLoading(true);
+    try {
+      setVariants(await ProductService.getProductVariants(product.id));
+    } catch (error) {
+      console.error("Error fetching variants:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchVariants();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product.id]);
+
+  const resetForm = () => {
+    setAdding(false);
+    setValues({});
+    setSku("");
+    setPrice("");
+    setCostPrice("");
+    setWarehouseId("");
+    setQuantity("");
+  };
+
+  const handleAddVariant = async () => {
+    if (!sku.trim() || !price) {
+      alert("Enter a SKU and price for the variant");
+      return;
+    }
+    const startingStock = parseInt(quantity) || 0;
+    if (startingStock > 0 && !warehouseId) {
+      alert("Select the warehouse the starting stock is in");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await ProductService.createVariant(
+        product.id,
+        {
+          sku: sku.trim(),
+          price: parseFloat(price),
+          costPrice: costPrice ? parseFloat(costPrice) : undefined,
+          warehouses:
+            startingStock > 0 ? { [warehouseId]: { quantity: startingStock, position: "", minQuantity: 0 } } : {},
+          variantValues: values,
+        },
+        performedBy
+      );
+      resetForm();
+      await fetchVariants();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to add variant");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Variants</CardTitle>
+            <CardDescription>
+              {options.map((option) => `${option.name}: ${option.values.join(", ")}`).join(" · ")}
+            </CardDescription>
+          </div>
+          {canCreate && !adding && (
+            <Button variant="outline" onClick={() => setAdding(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Variant
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {adding && (
+          <div className="p-4 border rounded space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {options.map((option) => (
+                <div key={option.name} className="space-y-2">
+                  <Label>{option.name}</Label>
+                  <Select
+                    value={values[option.name] || ""}
+                    onValueChange={(value) => setValues({ ...values, [option.name]: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Select ${option.name}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {option.values.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {value}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="variant-sku">SKU / Barcode</Label>
+                <Input id="variant-sku" value={sku} onChange={(e) => setSku(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="variant-price">Selling Price (Rs)</Label>
+                <Input
+                  id="variant-price"
+                  type="number"
+                  step="0.01"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  placeholder={product.price.toFixed(2)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="variant-cost">Cost Price (Rs)</Label>
+                <Input
+                  id="variant-cost"
+                  type="number"
+                  step="0.01"
+                  value={costPrice}
+                  onChange={(e) => setCostPrice(e.target.value)}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Starting Stock Warehouse</Label>
+                <Select value={warehouseId} onValueChange={setWarehouseId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="variant-quantity">Starting Stock</Label>
+                <Input
+                  id="variant-quantity"
+                  type="number"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleAddVariant} disabled={saving}>
+                {saving ? "Adding..." : "Add Variant"}
+              </Button>
+              <Button variant="outline" onClick={resetForm} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : variants.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No variants have been added yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead className="text-right">Stock</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {variants.map((variant) => (
+                <TableRow key={variant.id}>
+                  <TableCell>
+                    <Link href={`/admin/inventory/products/${variant.id}`} className="font-medium hover:underline">
+                      {getVariantLabel(variant.variantValues || {}, options)}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{variant.sku}</TableCell>
+                  <TableCell className="text-right">Rs {variant.price.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    {variant.costPrice !== undefined ? `Rs ${variant.costPrice.toFixed(2)}` : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {Object.values(variant.warehouses).reduce((sum, wh) => sum + wh.quantity, 0)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
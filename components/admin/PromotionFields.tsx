@@ -0,0 +1,407 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Category, Product, Promotion, PromotionScope, PromotionType } from "@/lib/types";
+import { flattenCategoryTree } from "@/lib/utils/categories";
+import { PROMOTION_TYPE_LABELS } from "@/lib/utils/pricing";
+import { Plus, Trash2, X } from "lucide-react";
+import { Timestamp } from "firebase/firestore";
+
+export type PromotionForm = {
+  name: string;
+  type: PromotionType;
+  scope: PromotionScope;
+  productIds: string[];
+  categoryIds: string[];
+  value: string;
+  minSubtotal: string;
+  buyQuantity: string;
+  getQuantity: string;
+  quantityBreaks: Array<{ minQuantity: string; discountPercent: string }>;
+  startsAt: string; // datetime-local value
+  endsAt: string; // Empty to run until switched off
+};
+
+// Local date and time as a datetime-local input value, e.g. "2026-10-19T09:30"
+const toDateTimeInput = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * A blank form for a promotion starting now
+ */
+export function emptyPromotionForm(): PromotionForm {
+  return {
+    name: "",
+    type: "PERCENT_OFF",
+    scope: "PRODUCT",
+    productIds: [],
+    categoryIds: [],
+    value: "",
+    minSubtotal: "",
+    buyQuantity: "",
+    getQuantity: "",
+    quantityBreaks: [{ minQuantity: "", discountPercent: "" }],
+    startsAt: toDateTimeInput(new Date()),
+    endsAt: "",
+  };
+}
+
+/**
+ * Form values for an existing promotion
+ */
+export function promotionToForm(promotion: Promotion): PromotionForm {
+  return {
+    name: promotion.name,
+    type: promotion.type,
+    scope: promotion.scope,
+    productIds: promotion.productIds || [],
+    categoryIds: promotion.categoryIds || [],
+    value: promotion.value?.toString() ?? "",
+    minSubtotal: promotion.minSubtotal?.toString() ?? "",
+    buyQuantity: promotion.buyQuantity?.toString() ?? "",
+    getQuantity: promotion.getQuantity?.toString() ?? "",
+    quantityBreaks: promotion.quantityBreaks?.length
+      ? promotion.quantityBreaks.map((b) => ({
+          minQuantity: b.minQuantity.toString(),
+          discountPercent: b.discountPercent.toString(),
+        }))
+      : [{ minQuantity: "", discountPercent: "" }],
+    startsAt: toDateTimeInput(promotion.startsAt.toDate()),
+    endsAt: promotion.endsAt ? toDateTimeInput(promotion.endsAt.toDate()) : "",
+  };
+}
+
+/**
+ * The promotion a form describes, keeping only the fields its type and scope use
+ */
+export function formToPromotion(
+  form: PromotionForm,
+  isActive: boolean
+): Omit<Promotion, "id" | "createdAt" | "updatedAt"> {
+  const promotion: Omit<Promotion, "id" | "createdAt" | "updatedAt"> = {
+    name: form.name.trim(),
+    type: form.type,
+    scope: form.scope,
+    startsAt: Timestamp.fromDate(new Date(form.startsAt)),
+    isActive,
+  };
+  if (form.endsAt) promotion.endsAt = Timestamp.fromDate(new Date(form.endsAt));
+  if (form.scope === "PRODUCT") promotion.productIds = form.productIds;
+  if (form.scope === "CATEGORY") promotion.categoryIds = form.categoryIds;
+  if (form.scope === "CART" && form.minSubtotal) promotion.minSubtotal = parseFloat(form.minSubtotal);
+
+  if (form.type === "PERCENT_OFF" || form.type === "AMOUNT_OFF") {
+    promotion.value = parseFloat(form.value) || 0;
+  } else if (form.type === "BUY_X_GET_Y") {
+    promotion.buyQuantity = Number(form.buyQuantity) || 0;
+    promotion.getQuantity = Number(form.getQuantity) || 0;
+  } else {
+    promotion.quantityBreaks = form.quantityBreaks
+      .filter((b) => b.minQuantity || b.discountPercent)
+      .map((b) => ({ minQuantity: Number(b.minQuantity) || 0, discountPercent: parseFloat(b.discountPercent) || 0 }))
+      .sort((a, b) => a.minQuantity - b.minQuantity);
+  }
+  return promotion;
+}
+
+interface PromotionFieldsProps {
+  idPrefix: string;
+  form: PromotionForm;
+  onChange: (form: PromotionForm) => void;
+  products: Product[];
+  categories: Category[];
+}
+
+/**
+ * What a promotion gives, what it covers and when it runs
+ */
+export function PromotionFields({ idPrefix, form, onChange, products, categories }: PromotionFieldsProps) {
+  const productChoices = products
+    .filter((product) => !form.productIds.includes(product.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  // A cart promotion can only take a percentage or an amount off
+  const typeChoices = (Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).filter(
+    (type) => form.scope !== "CART" || type === "PERCENT_OFF" || type === "AMOUNT_OFF"
+  );
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          value={form.name}
+          onChange={(e) => onChange({ ...form, name: e.target.value })}
+          required
+          placeholder="Dashain Sale"
+        />
+        <p className="text-xs text-gray-500">Shown against the discount in the cart and on receipts</p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Applies To</Label>
+          <Select
+            value={form.scope}
+            onValueChange={(value) => {
+              const scope = value as PromotionScope;
+              const keepsType = scope !== "CART" || form.type === "PERCENT_OFF" || form.type === "AMOUNT_OFF";
+              onChange({ ...form, scope, type: keepsType ? form.type : "PERCENT_OFF" });
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="PRODUCT">Products</SelectItem>
+              <SelectItem value="CATEGORY">Categories</SelectItem>
+              <SelectItem value="CART">Whole cart</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Offer</Label>
+          <Select value={form.type} onValueChange={(value) => onChange({ ...form, type: value as PromotionType })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {typeChoices.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {PROMOTION_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {form.scope === "PRODUCT" && (
+        <div className="space-y-2">
+          <Label>Products</Label>
+          {form.productIds.map((productId) => {
+            const product = products.find((p) => p.id === productId);
+            return (
+              <div key={productId} className="flex items-center justify-between border rounded px-3 py-1 text-sm">
+                <span>
+                  {product ? `${product.name} (${product.sku})` : "Deleted product"}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange({ ...form, productIds: form.productIds.filter((id) => id !== productId) })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+          <Select value="" onValueChange={(value) => onChange({ ...form, productIds: [...form.productIds, value] })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Add a product" />
+            </SelectTrigger>
+            <SelectContent>
+              {productChoices.map((product) => (
+                <SelectItem key={product.id} value={product.id}>
+                  {product.name} ({product.sku})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">A product sold in variants covers all of its variants</p>
+        </div>
+      )}
+
+      {form.scope === "CATEGORY" && (
+        <div className="space-y-2">
+          <Label>Categories</Label>
+          <div className="max-h-48 overflow-y-auto border rounded p-2 space-y-1">
+            {flattenCategoryTree(categories).map(({ category, depth }) => (
+              <div key={category.id} className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                <Checkbox
+                  id={`${idPrefix}-category-${category.id}`}
+                  checked={form.categoryIds.includes(category.id)}
+                  onCheckedChange={(checked) =>
+                    onChange({
+                      ...form,
+                      categoryIds:
+                        checked === true
+                          ? [...form.categoryIds, category.id]
+                          : form.categoryIds.filter((id) => id !== category.id),
+                    })
+                  }
+                />
+                <Label htmlFor={`${idPrefix}-category-${category.id}`} className="font-normal">
+                  {category.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Each category includes its subcategories</p>
+        </div>
+      )}
+
+      {(form.type === "PERCENT_OFF" || form.type === "AMOUNT_OFF") && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-value`}>
+              {form.type === "PERCENT_OFF"
+                ? "Percentage Off"
+                : form.scope === "CART"
+                  ? "Amount Off the Cart (Rs)"
+                  : "Amount Off Each Unit (Rs)"}
+            </Label>
+            <Input
+              id={`${idPrefix}-value`}
+              type="number"
+              step="0.01"
+              min="0"
+              max={form.type === "PERCENT_OFF" ? "100" : undefined}
+              value={form.value}
+              onChange={(e) => onChange({ ...form, value: e.target.value })}
+              required
+            />
+          </div>
+          {form.scope === "CART" && (
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-minSubtotal`}>Minimum Spend (Rs)</Label>
+              <Input
+                id={`${idPrefix}-minSubtotal`}
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.minSubtotal}
+                onChange={(e) => onChange({ ...form, minSubtotal: e.target.value })}
+                placeholder="No minimum"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {form.type === "BUY_X_GET_Y" && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-buyQuantity`}>Buy</Label>
+              <Input
+                id={`${idPrefix}-buyQuantity`}
+                type="number"
+                min="1"
+                value={form.buyQuantity}
+                onChange={(e) => onChange({ ...form, buyQuantity: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-getQuantity`}>Get Free</Label>
+              <Input
+                id={`${idPrefix}-getQuantity`}
+                type="number"
+                min="1"
+                value={form.getQuantity}
+                onChange={(e) => onChange({ ...form, getQuantity: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Units of everything the promotion covers count together; the cheapest ones are free
+          </p>
+        </div>
+      )}
+
+      {form.type === "QUANTITY_BREAK" && (
+        <div className="space-y-2">
+          <Label>Quantity Breaks</Label>
+          {form.quantityBreaks.map((quantityBreak, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Input
+                type="number"
+                min="2"
+                value={quantityBreak.minQuantity}
+                onChange={(e) =>
+                  onChange({
+                    ...form,
+                    quantityBreaks: form.quantityBreaks.map((b, i) =>
+                      i === index ? { ...b, minQuantity: e.target.value } : b
+                    ),
+                  })
+                }
+                placeholder="From quantity"
+              />
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                value={quantityBreak.discountPercent}
+                onChange={(e) =>
+                  onChange({
+                    ...form,
+                    quantityBreaks: form.quantityBreaks.map((b, i) =>
+                      i === index ? { ...b, discountPercent: e.target.value } : b
+                    ),
+                  })
+                }
+                placeholder="% off"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() =>
+                  onChange({ ...form, quantityBreaks: form.quantityBreaks.filter((_, i) => i !== index) })
+                }
+                disabled={form.quantityBreaks.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({ ...form, quantityBreaks: [...form.quantityBreaks, { minQuantity: "", discountPercent: "" }] })
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Break
+          </Button>
+          <p className="text-xs text-gray-500">The highest break reached applies to every unit</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-startsAt`}>Starts</Label>
+          <Input
+            id={`${idPrefix}-startsAt`}
+            type="datetime-local"
+            value={form.startsAt}
+            onChange={(e) => onChange({ ...form, startsAt: e.target.value })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-endsAt`}>Ends</Label>
+          <Input
+            id={`${idPrefix}-endsAt`}
+            type="datetime-local"
+            value={form.endsAt}
+            onChange={(e) => onChange({ ...form, endsAt: e.target.value })}
+          />
+          <p className="text-xs text-gray-500">Leave blank to run until switched off</p>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -26,6 +26,7 @@ import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
+import { hasReceivedGoods } from "@/lib/utils/purchaseOrder";
 
 interface TransactionDetailsDialogProps {
   transactionId: string;
@@ -256,11 +257,18 @@ export function TransactionDetailsDialog({
                   <TableBody>
                     {sale.items.map((item, index) => (
                       <TableRow key={index}>
-                        <TableCell className="font-medium">{item.productName}</TableCell>
+                        <TableCell className="font-medium">
+                          {item.productName}
+                          {item.promotion && (
+                            <p className="text-xs font-normal text-green-600">
+                              {item.promotion.name}: -Rs {item.promotion.amount.toFixed(2)}
+                            </p>
+                          )}
+                        </TableCell>
                         <TableCell>{item.quantity}</TableCell>
                         <TableCell>Rs {item.unitPrice.toFixed(2)}</TableCell>
                         <TableCell className="text-right font-medium">
-                          Rs {(item.quantity * item.unitPrice).toFixed(2)}
+                          Rs {item.subtotal.toFixed(2)}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -282,6 +290,20 @@ export function TransactionDetailsDialog({
                   </p>
                 </div>
               )}
+              {sale.promotions && sale.promotions.length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600">Promotions</p>
+                  <p className="text-sm font-medium">
+                    {sale.promotions.map((promotion) => promotion.name).join(", ")}
+                  </p>
+                </div>
+              )}
+              {sale.priceListName && (
+                <div>
+                  <p className="text-sm text-gray-600">Price List</p>
+                  <p className="text-sm font-medium">{sale.priceListName}</p>
+                </div>
+              )}
               {sale.tax && sale.tax > 0 && (
                 <div>
                   <p className="text-sm text-gray-600">Tax</p>
@@ -377,7 +399,14 @@ export function TransactionDetailsDialog({
                   <TableBody>
                     {order.items.map((item, index) => (
                       <TableRow key={index}>
-                        <TableCell className="font-medium">{item.productName}</TableCell>
+                        <TableCell className="font-medium">
+                          {item.productName}
+                          {item.promotion && (
+                            <p className="text-xs font-normal text-green-600">
+                              {item.promotion.name}: -Rs {item.promotion.amount.toFixed(2)}
+                            </p>
+                          )}
+                        </TableCell>
                         <TableCell className="font-mono text-xs">{item.sku}</TableCell>
                         <TableCell>{item.quantity}</TableCell>
                         <TableCell>Rs {item.unitPrice.toFixed(2)}</TableCell>
@@ -404,6 +433,20 @@ export function TransactionDetailsDialog({
                   </p>
                 </div>
               )}
+              {order.promotions && order.promotions.length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600">Promotions</p>
+                  <p className="text-sm font-medium">
+                    {order.promotions.map((promotion) => promotion.name).join(", ")}
+                  </p>
+                </div>
+              )}
+              {order.priceListName && (
+                <div>
+                  <p className="text-sm text-gray-600">Price List</p>
+                  <p className="text-sm font-medium">{order.priceListName}</p>
+                </div>
+              )}
               <div>
                 <p className="text-sm text-gray-600">Total</p>
                 <p className="text-xl font-bold text-green-600">
@@ -507,6 +550,7 @@ export function TransactionDetailsDialog({
                   <p className="text-sm text-gray-600">Status</p>
                   <p className={`font-medium ${
                     purchaseOrder.status === "RECEIVED" ? "text-green-600" :
+                    purchaseOrder.status === "PARTIALLY_RECEIVED" ? "text-orange-600" :
                     purchaseOrder.status === "APPROVED" ? "text-blue-600" :
                     purchaseOrder.status === "CANCELLED" ? "text-red-600" :
                     "text-yellow-600"
@@ -552,7 +596,7 @@ export function TransactionDetailsDialog({
                       <TableHead>Product</TableHead>
                       <TableHead>Ordered Qty</TableHead>
                       <TableHead>Ordered Unit Price</TableHead>
-                      {purchaseOrder.status === "RECEIVED" && (
+                      {hasReceivedGoods(purchaseOrder) && (
                         <>
                           <TableHead>Received Qty</TableHead>
                           <TableHead>Received Unit Price</TableHead>
@@ -567,7 +611,7 @@ export function TransactionDetailsDialog({
                       const receivedQty = item.receivedQuantity || 0;
                       const receivedPrice = item.receivedUnitPrice ?? item.unitPrice;
                       const receivedTotal = receivedQty * receivedPrice;
-                      const isReceived = purchaseOrder.status === "RECEIVED";
+                      const isReceived = hasReceivedGoods(purchaseOrder);
                       
                       return (
                         <TableRow key={index}>
@@ -621,7 +665,7 @@ export function TransactionDetailsDialog({
                 <p className="text-sm text-gray-600">Ordered Total Amount</p>
                 <p className="text-lg font-semibold">Rs {purchaseOrder.totalAmount.toFixed(2)}</p>
               </div>
-              {purchaseOrder.status === "RECEIVED" && purchaseOrder.receivedTotalAmount !== undefined && (
+              {hasReceivedGoods(purchaseOrder) && purchaseOrder.receivedTotalAmount !== undefined && (
                 <div>
                   <p className="text-sm text-gray-600">Received Total Amount</p>
                   {purchaseOrder.receivedTotalAmount !== purchaseOrder.totalAmount ? (
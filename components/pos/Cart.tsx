@@ -5,14 +5,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { SaleItem, Customer, PaymentMethod } from "@/lib/types";
+import { SaleItem, Customer, PaymentMethod, AppliedPromotion } from "@/lib/types";
 import { ShoppingCart, Trash2 } from "lucide-react";
 import { DiscountSection } from "./DiscountSection";
+import { getCreditLimitExcess } from "@/lib/utils/credit";
 
 interface CartProps {
   cart: SaleItem[];
   subtotal: number;
-  discount: number;
+  discount: number; // Cashier's discount, on top of any cart promotion
+  cartPromotion?: AppliedPromotion;
+  priceListName?: string; // The customer's price list, when they aren't on retail prices
+  tax: number; // Total tax on the sale
+  includedTax: number; // Part of tax already inside item prices
   total: number;
   paidAmount: number;
   creditAmount: number;
@@ -36,6 +41,10 @@ export function Cart({
   cart,
   subtotal,
   discount,
+  cartPromotion,
+  priceListName,
+  tax,
+  includedTax,
   total,
   paidAmount,
   creditAmount,
@@ -95,6 +104,11 @@ export function Cart({
                   <div className="flex-1">
                     <p className="font-semibold text-sm">{item.productName}</p>
                     <p className="text-xs text-gray-500">SKU: {item.sku}</p>
+                    {item.promotion && (
+                      <p className="text-xs text-green-600">
+                        {item.promotion.name}: -Rs {item.promotion.amount.toFixed(2)}
+                      </p>
+                    )}
                   </div>
                   <Button
                     variant="ghost"
@@ -147,12 +161,33 @@ export function Cart({
             <span>Subtotal:</span>
             <span>Rs {subtotal.toFixed(2)}</span>
           </div>
+          {priceListName && (
+            <div className="text-xs text-gray-500">{priceListName} prices</div>
+          )}
+          {cartPromotion && (
+            <div className="flex justify-between text-sm text-green-600">
+              <span>{cartPromotion.name}:</span>
+              <span>-Rs {cartPromotion.amount.toFixed(2)}</span>
+            </div>
+          )}
           <DiscountSection
             discount={discount}
             hasPermission={hasPermission("pos", "applyDiscount")}
             onApplyDiscount={onApplyDiscount}
             onRemoveDiscount={onRemoveDiscount}
           />
+          {tax - includedTax > 0 && (
+            <div className="flex justify-between text-sm">
+              <span>Tax:</span>
+              <span>Rs {(tax - includedTax).toFixed(2)}</span>
+            </div>
+          )}
+          {includedTax > 0 && (
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>Incl. tax:</span>
+              <span>Rs {includedTax.toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between text-lg font-bold border-t pt-2">
             <span>Total:</span>
             <span>Rs {total.toFixed(2)}</span>
@@ -195,6 +230,12 @@ export function Cart({
               <span>Rs {creditAmount.toFixed(2)}</span>
             </div>
           )}
+          {selectedCustomer && getCreditLimitExcess(selectedCustomer, creditAmount) > 0 && (
+            <div className="text-xs text-red-600 font-medium">
+              Exceeds credit limit of Rs {(selectedCustomer.creditLimit || 0).toFixed(2)} by Rs{" "}
+              {getCreditLimitExcess(selectedCustomer, creditAmount).toFixed(2)}
+            </div>
+          )}
           {!selectedCustomer && (
             <div className="text-xs text-gray-500 pt-1">
               Walk-in customers must pay full amount
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { OfflineService } from "@/lib/services/offlineService";
+import { QueuedSale } from "@/lib/types";
+import { RefreshCw } from "lucide-react";
+
+interface OfflineQueueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  queue: QueuedSale[];
+  online: boolean;
+  onQueueChange: () => void; // Called after a sync, retry or discard so the POS can reload
+}
+
+export function OfflineQueueDialog({ open, onOpenChange, queue, online, onQueueChange }: OfflineQueueDialogProps) {
+  const [syncing, setSyncing] = useState(false);
+
+  const runSync = async (sync: () => Promise<{ synced: number; conflicts: number; pending: number }>) => {
+    setSyncing(true);
+    try {
+      const result = await sync();
+      if (result.pending > 0 && !online) {
+        alert("Still offline - queued sales will sync when the connection returns.");
+      }
+    } catch (error) {
+      console.error("Error syncing queued sales:", error);
+      alert(error instanceof Error ? error.message : "Failed to sync sales");
+    } finally {
+      setSyncing(false);
+      onQueueChange();
+    }
+  };
+
+  const handleDiscard = (queued: QueuedSale) => {
+    if (!confirm(`Discard sale ${queued.receiptNumber}? It will not be recorded.`)) return;
+    OfflineService.discardQueuedSale(queued.localId);
+    onQueueChange();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Offline Sales</DialogTitle>
+          <DialogDescription>
+            Sales made without a connection sync in order once the POS is back online
+          </DialogDescription>
+        </DialogHeader>
+
+        {queue.length === 0 ? (
+          <p className="py-6 text-center text-gray-500">All sales are synced</p>
+        ) : (
+          <div className="space-y-2 py-2">
+            {queue.map((queued) => (
+              <div
+                key={queued.localId}
+                className={`border rounded p-3 text-sm ${
+                  queued.status === "CONFLICT" ? "border-red-300 bg-red-50" : ""
+                }`}
+              >
+                <div className="flex justify-between">
+                  <span className="font-medium">{queued.receiptNumber}</span>
+                  <span>Rs {queued.saleData.total.toFixed(2)}</span>
+                </div>
+                <p className="text-gray-500">
+                  {new Date(queued.queuedAt).toLocaleString()} - {queued.saleData.items.length} item(s)
+                </p>
+                {queued.status === "CONFLICT" && (
+                  <div className="mt-2 space-y-2">
+                    <p className="text-red-700">{queued.error}</p>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={syncing || !online}
+                        onClick={() => runSync(() => OfflineService.retryQueuedSale(queued.localId))}
+                      >
+                        Retry
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => handleDiscard(queued)}>
+                        Discard
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() => runSync(() => OfflineService.syncQueue())}
+            disabled={syncing || !online || queue.every((queued) => queued.status !== "PENDING")}
+          >
+            <RefreshCw className={`mr-2 h-4 w-4 ${syncing ? "animate-spin" : ""}`} />
+            {syncing ? "Syncing..." : "Sync Now"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SaleService } from "@/lib/services/saleService";
+import { printReturnReceipt } from "@/lib/utils/receiptGenerator";
+import { Sale, SaleReturn, PaymentMethod } from "@/lib/types";
+import { Printer, Search } from "lucide-react";
+
+interface ReturnDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  performedBy: string;
+  shiftId?: string; // Open cash drawer shift, so cash refunds come out of it
+  onReturnProcessed?: (saleReturn: SaleReturn) => void;
+}
+
+export function ReturnDialog({ open, onOpenChange, performedBy, shiftId, onReturnProcessed }: ReturnDialogProps) {
+  const [saleId, setSaleId] = useState("");
+  const [sale, setSale] = useState<Sale | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>("CASH");
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [completedReturn, setCompletedReturn] = useState<SaleReturn | null>(null);
+
+  const reset = () => {
+    setSaleId("");
+    setSale(null);
+    setQuantities({});
+    setRefundMethod("CASH");
+    setReason("");
+    setCompletedReturn(null);
+  };
+
+  // Returnable quantity per product across all of the sale's lines
+  const returnable = (sale?.items || []).reduce<Record<string, number>>((acc, item) => {
+    acc[item.productId] = (acc[item.productId] || 0) + item.quantity - (item.returnedQuantity || 0);
+    return acc;
+  }, {});
+
+  const handleFindSale = async () => {
+    if (!saleId.trim()) return;
+    setLoading(true);
+    try {
+      const saleData = await SaleService.getSale(saleId.trim());
+      if (!saleData) {
+        alert("Sale not found");
+        return;
+      }
+      setSale(saleData);
+      setQuantities({});
+    } catch (error) {
+      console.error("Error fetching sale:", error);
+      alert("Failed to load sale");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleProcessReturn = async () => {
+    if (!sale) return;
+    const items = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([productId, quantity]) => ({ productId, quantity }));
+    if (items.length === 0) {
+      alert("Enter a quantity for at least one item");
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const saleReturn = await SaleService.processReturn(
+        sale.id,
+        items,
+        refundMethod,
+        performedBy,
+        reason.trim() || undefined,
+        shiftId
+      );
+      setCompletedReturn(saleReturn);
+      onReturnProcessed?.(saleReturn);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to process return";
+      alert(errorMessage);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const uniqueItems = (sale?.items || []).filter(
+    (item, index, items) => items.findIndex((i) => i.productId === item.productId) === index
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sales Return</DialogTitle>
+          <DialogDescription>Return items from an existing sale and refund the customer</DialogDescription>
+        </DialogHeader>
+
+        {completedReturn ? (
+          <div className="space-y-4 py-4">
+            <p className="text-green-600 font-medium">
+              Return {completedReturn.returnNumber} processed successfully
+            </p>
+            <div className="text-sm space-y-1">
+              {completedReturn.creditAdjusted > 0 && (
+                <p>Adjusted against credit: Rs {completedReturn.creditAdjusted.toFixed(2)}</p>
+              )}
+              <p>
+                Refund to customer ({completedReturn.refundMethod}): Rs{" "}
+                {completedReturn.refundedAmount.toFixed(2)}
+              </p>
+              <p className="font-semibold">Total refund: Rs {completedReturn.total.toFixed(2)}</p>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => printReturnReceipt(completedReturn)}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print Receipt
+              </Button>
+              <Button onClick={reset}>New Return</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Sale ID"
+                value={saleId}
+                onChange={(e) => setSaleId(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleFindSale();
+                  }
+                }}
+                autoFocus
+              />
+              <Button variant="outline" onClick={handleFindSale} disabled={loading}>
+                <Search className="mr-2 h-4 w-4" />
+                {loading ? "Finding..." : "Find"}
+              </Button>
+            </div>
+
+            {sale && (
+              <>
+                <div className="text-sm text-gray-600">
+                  Sold on {sale.createdAt.toDate().toLocaleString()} · Total Rs {sale.total.toFixed(2)}
+                  {sale.returnedTotal ? ` · Already refunded Rs ${sale.returnedTotal.toFixed(2)}` : ""}
+                </div>
+                <div className="space-y-2">
+                  {uniqueItems.map((item) => (
+                    <div key={item.productId} className="flex items-center justify-between gap-4 border rounded p-2">
+                      <div>
+                        <p className="font-medium text-sm">{item.productName}</p>
+                        {item.bundle && <p className="text-xs text-gray-500">Part of {item.bundle.productName}</p>}
+                        <p className="text-xs text-gray-500">
+                          Returnable: {returnable[item.productId] || 0}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        inputMode="numeric"
+                        className="w-24"
+                        min={0}
+                        max={returnable[item.productId] || 0}
+                        value={quantities[item.productId] ?? ""}
+                        disabled={(returnable[item.productId] || 0) === 0}
+                        onChange={(e) => {
+                          const value = Math.max(
+                            0,
+                            Math.min(parseInt(e.target.value) || 0, returnable[item.productId] || 0)
+                          );
+                          setQuantities({ ...quantities, [item.productId]: value });
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Refund Method</Label>
+                    <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as PaymentMethod)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="CASH">Cash</SelectItem>
+                        <SelectItem value="BANK_TRANSFER">Bank Transfer</SelectItem>
+                        <SelectItem value="FONE_PAY">FonePay</SelectItem>
+                        <SelectItem value="CHEQUE">Cheque</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {sale.isCredit && (
+                      <p className="text-xs text-gray-500">
+                        Any open credit on this sale is reduced before money is refunded
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="return-reason">Reason</Label>
+                    <Input
+                      id="return-reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="e.g., Damaged item"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleProcessReturn} disabled={!sale || processing}>
+                {processing ? "Processing..." : "Process Return"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShiftService } from "@/lib/services/shiftService";
+import { PrinterService } from "@/lib/services/printerService";
+import { CashMovementType, CashShift, ShiftReport } from "@/lib/types";
+import { Printer } from "lucide-react";
+
+interface ShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shift: CashShift | null; // Currently open shift, if any
+  performedBy: string;
+  warehouseId?: string;
+  onShiftChange: (shift: CashShift | null) => void;
+}
+
+/**
+ * Print an X or Z report on the configured thermal printer
+ */
+async function printShiftReport(shift: CashShift, report: ShiftReport, kind: "X" | "Z") {
+  const settings = await PrinterService.getSettings();
+  if (!settings || !settings.type) {
+    alert("Please configure a printer in Settings first");
+    return;
+  }
+  const printer = PrinterService.getInstance();
+  try {
+    await printer.connect(settings.type);
+    await printer.printShiftReport(shift, report, kind);
+  } catch (error) {
+    console.error("Error printing shift report:", error);
+    alert(error instanceof Error ? error.message : "Failed to print report");
+  } finally {
+    await printer.disconnect();
+  }
+}
+
+function ReportLine({ label, amount, bold }: { label: string; amount: number; bold?: boolean }) {
+  return (
+    <div className={`flex justify-between ${bold ? "font-semibold" : ""}`}>
+      <span>{label}</span>
+      <span>Rs {amount.toFixed(2)}</span>
+    </div>
+  );
+}
+
+export function ShiftDialog({
+  open,
+  onOpenChange,
+  shift,
+  performedBy,
+  warehouseId,
+  onShiftChange,
+}: ShiftDialogProps) {
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [movementType, setMovementType] = useState<CashMovementType>("IN");
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  const [countedCash, setCountedCash] = useState("");
+  const [notes, setNotes] = useState("");
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [closed, setClosed] = useState<{ shift: CashShift; report: ShiftReport } | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (open && shift) {
+      ShiftService.getShiftReport(shift)
+        .then(setReport)
+        .catch((error) => console.error("Error loading shift report:", error));
+    }
+  }, [open, shift]);
+
+  const reset = () => {
+    setOpeningFloat("");
+    setMovementAmount("");
+    setMovementReason("");
+    setCountedCash("");
+    setNotes("");
+    setReport(null);
+    setClosed(null);
+  };
+
+  const handleOpenShift = async () => {
+    setProcessing(true);
+    try {
+      const newShift = await ShiftService.openShift(performedBy, parseFloat(openingFloat) || 0, warehouseId);
+      onShiftChange(newShift);
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to open shift");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCashMovement = async () => {
+    if (!shift) return;
+    setProcessing(true);
+    try {
+      const updated = await ShiftService.addCashMovement(
+        shift.id,
+        movementType,
+        parseFloat(movementAmount) || 0,
+        movementReason,
+        performedBy
+      );
+      onShiftChange(updated);
+      setMovementAmount("");
+      setMovementReason("");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to record cash movement");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCloseShift = async () => {
+    if (!shift) return;
+    if (countedCash === "") {
+      alert("Enter the cash counted in the drawer");
+      return;
+    }
+    setProcessing(true);
+    try {
+      const result = await ShiftService.closeShift(
+        shift.id,
+        parseFloat(countedCash) || 0,
+        performedBy,
+        notes.trim() || undefined
+      );
+      setClosed(result);
+      onShiftChange(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to close shift");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const variance = closed?.shift.variance || 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{closed ? "Shift Closed" : shift ? `Shift ${shift.shiftNumber}` : "Open Shift"}</DialogTitle>
+          <DialogDescription>
+            {shift || closed
+              ? "Cash drawer movements and reconciliation"
+              : "Count the cash in the drawer to start taking sales"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {closed ? (
+          <div className="space-y-4 py-2 text-sm">
+            <div className="space-y-1">
+              <ReportLine label="Expected cash" amount={closed.report.expectedCash} />
+              <ReportLine label="Counted cash" amount={closed.shift.countedCash || 0} />
+              <p className={`font-semibold ${variance < 0 ? "text-red-600" : "text-green-600"}`}>
+                {variance === 0
+                  ? "Drawer balanced"
+                  : `${variance > 0 ? "Over" : "Short"} by Rs ${Math.abs(variance).toFixed(2)}`}
+              </p>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => printShiftReport(closed.shift, closed.report, "Z")}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print Z Report
+              </Button>
+              <Button
+                onClick={() => {
+                  reset();
+                  onOpenChange(false);
+                }}
+              >
+                Done
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : !shift ? (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="openingFloat">Opening Float (Rs)</Label>
+              <Input
+                id="openingFloat"
+                type="number"
+                step="0.01"
+                min="0"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <DialogFooter>
+              <Button onClick={handleOpenShift} disabled={processing}>
+                {processing ? "Opening..." : "Open Shift"}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-6 py-2 text-sm">
+            {report && (
+              <div className="space-y-1">
+                <ReportLine label="Opening float" amount={report.openingFloat} />
+                <ReportLine label={`Cash sales (${report.salesCount} sales)`} amount={report.cashSales} />
+                <ReportLine label="Cash refunds" amount={-report.cashRefunds} />
+                <ReportLine label="Cash in" amount={report.cashIn} />
+                <ReportLine label="Cash out" amount={-report.cashOut} />
+                <ReportLine label="Expected in drawer" amount={report.expectedCash} bold />
+              </div>
+            )}
+
+            <div className="space-y-2 border-t pt-4">
+              <Label>Cash In / Out</Label>
+              <div className="flex gap-2">
+                <Select value={movementType} onValueChange={(value) => setMovementType(value as CashMovementType)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="IN">Cash In</SelectItem>
+                    <SelectItem value="OUT">Cash Out</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={movementAmount}
+                  onChange={(e) => setMovementAmount(e.target.value)}
+                  placeholder="Amount"
+                  className="w-32"
+                />
+                <Input
+                  value={movementReason}
+                  onChange={(e) => setMovementReason(e.target.value)}
+                  placeholder="Reason"
+                />
+              </div>
+              <Button variant="outline" onClick={handleCashMovement} disabled={processing} className="w-full">
+                Record
+              </Button>
+              {shift.movements.length > 0 && (
+                <div className="space-y-1 text-gray-600">
+                  {shift.movements.map((movement, index) => (
+                    <div key={index} className="flex justify-between">
+                      <span>
+                        {movement.type === "IN" ? "In" : "Out"} - {movement.reason}
+                      </span>
+                      <span>Rs {movement.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label htmlFor="countedCash">Counted Cash (Rs)</Label>
+              <Input
+                id="countedCash"
+                type="number"
+                step="0.01"
+                min="0"
+                value={countedCash}
+                onChange={(e) => setCountedCash(e.target.value)}
+                placeholder="0.00"
+              />
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes (optional)" />
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => report && printShiftReport(shift, report, "X")}
+                disabled={!report}
+              >
+                <Printer className="mr-2 h-4 w-4" />
+                Print X Report
+              </Button>
+              <Button variant="destructive" onClick={handleCloseShift} disabled={processing}>
+                {processing ? "Closing..." : "Close Shift"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,322 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import Fuse from "fuse.js";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CatalogFilters, CatalogSort, Category, Product } from "@/lib/types";
+import {
+  EMPTY_CATALOG_FILTERS,
+  buildCatalog,
+  filterCatalog,
+  getAttributeFacets,
+  paginate,
+  sortCatalog,
+} from "@/lib/utils/catalog";
+import { getChildCategories, getDescendantCategoryIds } from "@/lib/utils/categories";
+import { Search } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+interface CategoryGridProps {
+  categories: Category[];
+}
+
+/**
+ * Tiles linking to category landing pages
+ */
+export function CategoryGrid({ categories }: CategoryGridProps) {
+  if (categories.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4 mb-6">
+      {categories.map((category) => (
+        <Link key={category.id} href={`/store/category/${category.slug}`}>
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow h-full">
+            <CardContent className="p-3 text-center">
+              {category.imageUrl ? (
+                <Image
+                  src={category.imageUrl}
+                  alt={category.name}
+                  width={200}
+                  height={96}
+                  unoptimized
+                  className="w-full h-24 object-cover rounded mb-2"
+                />
+              ) : (
+                <div className="w-full h-24 bg-gray-200 rounded mb-2" />
+              )}
+              <p className="font-semibold text-sm">{category.name}</p>
+            </CardContent>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+interface ProductCatalogProps {
+  products: Product[]; // Active products, variants included
+  categories: Category[]; // Active categories
+  categoryId?: string; // Only list this category and its subcategories
+}
+
+/**
+ * Searchable storefront product grid with facet filters, sorting and pagination
+ */
+export function ProductCatalog({ products, categories, categoryId }: ProductCatalogProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [filters, setFilters] = useState<CatalogFilters>(EMPTY_CATALOG_FILTERS);
+  const [sort, setSort] = useState<CatalogSort>("newest");
+  const [page, setPage] = useState(1);
+
+  const scoped = useMemo(() => {
+    const entries = buildCatalog(products);
+    if (!categoryId) return entries;
+    const ids = new Set(getDescendantCategoryIds(categoryId, categories));
+    return entries.filter((entry) => ids.has(entry.product.categoryId || ""));
+  }, [products, categories, categoryId]);
+
+  const searched = useMemo(() => {
+    if (!searchQuery.trim()) return scoped;
+    const fuse = new Fuse(scoped, {
+      keys: ["product.name", "product.sku", "product.category", "product.description"],
+      threshold: 0.3,
+    });
+    return fuse.search(searchQuery).map((result) => result.item);
+  }, [scoped, searchQuery]);
+
+  const filtered = filterCatalog(searched, filters, categories);
+  const { items, page: currentPage, pageCount } = paginate(sortCatalog(filtered, sort), page, PAGE_SIZE);
+  const attributeFacets = getAttributeFacets(searched);
+  const categoryFacets = getChildCategories(categoryId, categories)
+    .map((category) => {
+      const ids = new Set(getDescendantCategoryIds(category.id, categories));
+      return { category, count: searched.filter((entry) => ids.has(entry.product.categoryId || "")).length };
+    })
+    .filter((facet) => facet.count > 0);
+
+  // Any change to what's listed starts again from the first page
+  const updateFilters = (updates: Partial<CatalogFilters>) => {
+    setFilters({ ...filters, ...updates });
+    setPage(1);
+  };
+
+  const toggleValue = (values: string[], value: string) =>
+    values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+  const hasFilters =
+    filters.categoryIds.length > 0 ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.inStockOnly ||
+    Object.values(filters.attributes).some((values) => values.length > 0);
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <aside className="md:w-64 shrink-0 space-y-6">
+        {categoryFacets.length > 0 && (
+          <div>
+            <h3 className="font-semibold mb-2">Category</h3>
+            <div className="space-y-2">
+              {categoryFacets.map(({ category, count }) => (
+                <div key={category.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`category-${category.id}`}
+                    checked={filters.categoryIds.includes(category.id)}
+                    onCheckedChange={() =>
+                      updateFilters({ categoryIds: toggleValue(filters.categoryIds, category.id) })
+                    }
+                  />
+                  <Label htmlFor={`category-${category.id}`} className="font-normal">
+                    {category.name} <span className="text-gray-400">({count})</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h3 className="font-semibold mb-2">Price (Rs)</h3>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              placeholder="Min"
+              value={filters.minPrice ?? ""}
+              onChange={(e) => updateFilters({ minPrice: e.target.value ? parseFloat(e.target.value) : undefined })}
+            />
+            <span className="text-gray-400">-</span>
+            <Input
+              type="number"
+              min="0"
+              placeholder="Max"
+              value={filters.maxPrice ?? ""}
+              onChange={(e) => updateFilters({ maxPrice: e.target.value ? parseFloat(e.target.value) : undefined })}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="in-stock"
+            checked={filters.inStockOnly}
+            onCheckedChange={(checked) => updateFilters({ inStockOnly: checked === true })}
+          />
+          <Label htmlFor="in-stock" className="font-normal">
+            In stock only
+          </Label>
+        </div>
+
+        {Object.entries(attributeFacets).map(([key, values]) => (
+          <div key={key}>
+            <h3 className="font-semibold mb-2">{key}</h3>
+            <div className="space-y-2">
+              {values.map(({ value, count }) => (
+                <div key={value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`attribute-${key}-${value}`}
+                    checked={(filters.attributes[key] || []).includes(value)}
+                    onCheckedChange={() =>
+                      updateFilters({
+                        attributes: { ...filters.attributes, [key]: toggleValue(filters.attributes[key] || [], value) },
+                      })
+                    }
+                  />
+                  <Label htmlFor={`attribute-${key}-${value}`} className="font-normal">
+                    {value} <span className="text-gray-400">({count})</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {hasFilters && (
+          <Button variant="outline" size="sm" onClick={() => updateFilters(EMPTY_CATALOG_FILTERS)}>
+            Clear filters
+          </Button>
+        )}
+      </aside>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-col sm:flex-row gap-4 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              placeholder="Search products..."
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setPage(1);
+              }}
+              className="pl-10"
+            />
+          </div>
+          <Select
+            value={sort}
+            onValueChange={(value) => {
+              setSort(value as CatalogSort);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest</SelectItem>
+              <SelectItem value="price-asc">Price: Low to High</SelectItem>
+              <SelectItem value="price-desc">Price: High to Low</SelectItem>
+              <SelectItem value="name">Name</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">
+          {filtered.length} product{filtered.length === 1 ? "" : "s"}
+        </p>
+
+        {items.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            {searchQuery || hasFilters ? "No products found matching your search." : "No products available."}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+            {items.map(({ product, variants, price, inStock }) => (
+              <Link key={product.id} href={`/store/${product.id}`}>
+                <Card className="cursor-pointer hover:shadow-lg transition-shadow h-full">
+                  <CardContent className="p-4">
+                    {product.imageUrl ? (
+                      <Image
+                        src={product.imageUrl}
+                        alt={product.name}
+                        width={300}
+                        height={192}
+                        unoptimized
+                        className="w-full h-48 object-cover rounded mb-3"
+                      />
+                    ) : (
+                      <div className="w-full h-48 bg-gray-200 rounded mb-3 flex items-center justify-center">
+                        <span className="text-gray-400">No Image</span>
+                      </div>
+                    )}
+                    <h3 className="font-semibold mb-2 line-clamp-2">{product.name}</h3>
+                    <p className="text-sm text-gray-500 mb-2">{product.category}</p>
+                    {variants.length > 0 ? (
+                      <p className="font-bold text-lg text-green-600 mb-2">
+                        {variants.some((variant) => variant.price !== variants[0].price) ? "From " : ""}
+                        Rs {price.toFixed(2)}
+                      </p>
+                    ) : product.discount && product.discount > 0 ? (
+                      <div className="mb-2">
+                        <p className="text-sm text-gray-400 line-through">Rs {product.price.toFixed(2)}</p>
+                        <p className="font-bold text-lg text-green-600">Rs {price.toFixed(2)}</p>
+                        <p className="text-xs text-red-600 font-semibold">-{product.discount.toFixed(0)}% OFF</p>
+                      </div>
+                    ) : (
+                      <p className="font-bold text-lg text-green-600 mb-2">Rs {price.toFixed(2)}</p>
+                    )}
+                    {!inStock && <p className="text-xs text-red-600">Out of Stock</p>}
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-2 mt-6">
+            <Button variant="outline" size="sm" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 1}>
+              Previous
+            </Button>
+            {Array.from({ length: pageCount }, (_, i) => i + 1).map((pageNumber) => (
+              <Button
+                key={pageNumber}
+                variant={pageNumber === currentPage ? "default" : "outline"}
+                size="sm"
+                onClick={() => setPage(pageNumber)}
+              >
+                {pageNumber}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage === pageCount}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
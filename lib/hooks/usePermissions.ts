@@ -4,7 +4,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { EmployeePermissions } from "@/lib/types";
 
 type ResourceName = keyof EmployeePermissions["resources"];
-type PermissionAction = "view" | "create" | "update" | "delete" | "viewCredits" | "settleCredits" | "applyDiscount";
+type PermissionAction = "view" | "create" | "update" | "delete" | "viewCredits" | "settleCredits" | "overrideCreditLimit" | "applyDiscount";
 
 export function usePermissions() {
   const { user } = useAuth();
@@ -25,7 +25,7 @@ export function usePermissions() {
 
       // Handle special permissions for customers resource
       if (resource === "customers") {
-        if (action === "viewCredits" || action === "settleCredits") {
+        if (action === "viewCredits" || action === "settleCredits" || action === "overrideCreditLimit") {
           return (resourcePerms as any)[action] === true;
         }
       }
@@ -0,0 +1,155 @@
+// Accounting Service - Double-entry journal behind the ledger
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  Timestamp,
+  Transaction,
+  setDoc,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { JournalEntry, JournalLine } from "@/lib/types";
+import { getAccount, getAccountBalances, getReversalLines, isBalanced, roundAmount } from "@/lib/utils/accounting";
+
+export class AccountingService {
+  /**
+   * Post a journal entry
+   * Lines with no amount are dropped; the rest must balance and use known accounts.
+   * When a transaction is passed, the entry is written as part of it instead of immediately
+   */
+  static async postJournalEntry(
+    entry: Omit<JournalEntry, "id" | "date" | "createdAt">,
+    transaction?: Transaction
+  ): Promise<string | null> {
+    try {
+      const lines: JournalLine[] = entry.lines
+        .map((line) => ({
+          accountCode: line.accountCode,
+          debit: roundAmount(line.debit),
+          credit: roundAmount(line.credit),
+        }))
+        .filter((line) => line.debit !== 0 || line.credit !== 0);
+
+      // Nothing to post (e.g., a zero-value sale)
+      if (lines.length === 0) {
+        return null;
+      }
+
+      const unknownAccount = lines.find((line) => !getAccount(line.accountCode));
+      if (unknownAccount) {
+        throw new Error(`Unknown account ${unknownAccount.accountCode}`);
+      }
+      if (!isBalanced(lines)) {
+        throw new Error(`Journal entry "${entry.description}" does not balance`);
+      }
+
+      const now = Timestamp.now();
+      const entryRef = doc(collection(db, "journal_entries"));
+      const entryData = {
+        ...entry,
+        lines,
+        date: now,
+        createdAt: now,
+      };
+
+      if (transaction) {
+        transaction.set(entryRef, entryData);
+      } else {
+        await setDoc(entryRef, entryData);
+      }
+      return entryRef.id;
+    } catch (error) {
+      console.error("Error posting journal entry:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Post an entry that cancels the net effect of everything journalled against a related ID
+   * Safe to call more than once - once the net is zero nothing further is posted.
+   * When a transaction is passed, the reversal is written as part of it instead of immediately
+   */
+  static async reverseJournalEntries(
+    relatedId: string,
+    performedBy: string,
+    reason?: string,
+    transaction?: Transaction
+  ): Promise<string | null> {
+    try {
+      const entries = await this.getJournalEntriesByRelatedId(relatedId);
+      if (entries.length === 0) {
+        return null;
+      }
+
+      const reversal: Omit<JournalEntry, "id" | "date" | "createdAt"> = {
+        source: entries[0].source,
+        description: `Reversal of ${entries[0].description}${reason ? ` (${reason})` : ""}`,
+        lines: getReversalLines(entries),
+        relatedId,
+        performedBy,
+      };
+      const originalEntry = entries.find((entry) => !entry.reversalOf);
+      if (originalEntry) {
+        reversal.reversalOf = originalEntry.id;
+      }
+      return await this.postJournalEntry(reversal, transaction);
+    } catch (error) {
+      console.error("Error reversing journal entries:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get journal entries for a date range, oldest first
+   */
+  static async getJournalEntries(startDate: Date, endDate: Date): Promise<JournalEntry[]> {
+    try {
+      const q = query(
+        collection(db, "journal_entries"),
+        where("date", ">=", Timestamp.fromDate(startDate)),
+        where("date", "<=", Timestamp.fromDate(endDate)),
+        orderBy("date", "asc")
+      );
+
+      const querySnapshot = await getDocs(q);
+      const entries: JournalEntry[] = [];
+      querySnapshot.forEach((doc) => {
+        entries.push({ id: doc.id, ...doc.data() } as JournalEntry);
+      });
+      return entries;
+    } catch (error) {
+      console.error("Error fetching journal entries:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all journal entries linked to a sale, order, return, purchase order, vendor or credit
+   */
+  static async getJournalEntriesByRelatedId(relatedId: string): Promise<JournalEntry[]> {
+    try {
+      const q = query(collection(db, "journal_entries"), where("relatedId", "==", relatedId));
+      const querySnapshot = await getDocs(q);
+      const entries: JournalEntry[] = [];
+      querySnapshot.forEach((doc) => {
+        entries.push({ id: doc.id, ...doc.data() } as JournalEntry);
+      });
+      return entries.sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+    } catch (error) {
+      console.error("Error fetching journal entries by related ID:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the balance of every account from the entries posted in a date range
+   * Pass new Date(0) as the start for closing balances
+   */
+  static async getAccountBalances(startDate: Date, endDate: Date): Promise<Record<string, number>> {
+    const entries = await this.getJournalEntries(startDate, endDate);
+    return getAccountBalances(entries);
+  }
+}
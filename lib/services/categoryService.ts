@@ -0,0 +1,195 @@
+// Category Service - Business logic for the product category tree
+import {
+  collection,
+  doc,
+  addDoc,
+  deleteDoc,
+  deleteField,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Category } from "@/lib/types";
+import { getDescendantCategoryIds, slugify } from "@/lib/utils/categories";
+import { ImageService } from "./imageService";
+
+export class CategoryService {
+  /**
+   * Get all categories
+   */
+  static async getAllCategories(): Promise<Category[]> {
+    try {
+      const querySnapshot = await getDocs(collection(db, "categories"));
+      const categories: Category[] = [];
+      querySnapshot.forEach((doc) => {
+        categories.push({ id: doc.id, ...doc.data() } as Category);
+      });
+      return categories;
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a category by ID
+   */
+  static async getCategory(categoryId: string): Promise<Category | null> {
+    try {
+      const categoryDoc = await getDoc(doc(db, "categories", categoryId));
+      if (categoryDoc.exists()) {
+        return { id: categoryDoc.id, ...categoryDoc.data() } as Category;
+      }
+      return null;
+    } catch (error) {
+      console.error("Error fetching category:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a category
+   * The slug defaults to one made from the name and must not already be in use.
+   */
+  static async createCategory(
+    categoryData: Omit<Category, "id" | "slug" | "createdAt" | "updatedAt"> & { slug?: string },
+    imageFile?: File
+  ): Promise<string> {
+    try {
+      const slug = slugify(categoryData.slug || categoryData.name);
+      await this.assertSlugAvailable(slug);
+
+      // Only include optional fields if defined (Firestore doesn't allow undefined)
+      const data: Omit<Category, "id"> = {
+        name: categoryData.name,
+        slug,
+        isActive: categoryData.isActive,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      };
+      if (categoryData.parentId) data.parentId = categoryData.parentId;
+      if (categoryData.description) data.description = categoryData.description;
+      if (categoryData.sortOrder !== undefined) data.sortOrder = categoryData.sortOrder;
+      if (imageFile) {
+        data.imageUrl = await ImageService.uploadImage(imageFile, "categories");
+      }
+
+      const categoryRef = await addDoc(collection(db, "categories"), data);
+      return categoryRef.id;
+    } catch (error) {
+      console.error("Error creating category:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a category
+   * A category can't be moved under itself or one of its subcategories. Renaming it renames
+   * the category shown on its products too.
+   */
+  static async updateCategory(
+    categoryId: string,
+    updates: Pick<Category, "name" | "slug" | "isActive"> &
+      Partial<Pick<Category, "parentId" | "description" | "sortOrder">>,
+    imageFile?: File
+  ): Promise<void> {
+    try {
+      const categories = await this.getAllCategories();
+      const category = categories.find((c) => c.id === categoryId);
+      if (!category) throw new Error("Category not found");
+
+      if (updates.parentId && getDescendantCategoryIds(categoryId, categories).includes(updates.parentId)) {
+        throw new Error("A category can't be moved under itself or one of its subcategories");
+      }
+      const slug = slugify(updates.slug || updates.name);
+      if (slug !== category.slug) {
+        await this.assertSlugAvailable(slug);
+      }
+
+      let imageUrl = category.imageUrl;
+      if (imageFile) {
+        if (category.imageUrl) {
+          try {
+            await ImageService.deleteImage(category.imageUrl);
+          } catch (err) {
+            console.warn("Failed to delete old image:", err);
+          }
+        }
+        imageUrl = await ImageService.uploadImage(imageFile, "categories");
+      }
+
+      const batch = writeBatch(db);
+      // Optional fields left empty are cleared rather than rejected by Firestore
+      batch.update(doc(db, "categories", categoryId), {
+        name: updates.name,
+        slug,
+        isActive: updates.isActive,
+        parentId: updates.parentId || deleteField(),
+        description: updates.description || deleteField(),
+        sortOrder: updates.sortOrder ?? deleteField(),
+        imageUrl: imageUrl || deleteField(),
+        updatedAt: Timestamp.now(),
+      });
+      if (updates.name !== category.name) {
+        const productsSnapshot = await getDocs(
+          query(collection(db, "products"), where("categoryId", "==", categoryId))
+        );
+        productsSnapshot.forEach((productDoc) => {
+          batch.update(productDoc.ref, { category: updates.name, updatedAt: Timestamp.now() });
+        });
+      }
+      await batch.commit();
+    } catch (error) {
+      console.error("Error updating category:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a category
+   * Only empty categories - with no subcategories or products - can be deleted.
+   */
+  static async deleteCategory(categoryId: string): Promise<void> {
+    try {
+      const childrenSnapshot = await getDocs(
+        query(collection(db, "categories"), where("parentId", "==", categoryId))
+      );
+      if (!childrenSnapshot.empty) {
+        throw new Error("Move or delete this category's subcategories first");
+      }
+      const productsSnapshot = await getDocs(
+        query(collection(db, "products"), where("categoryId", "==", categoryId))
+      );
+      if (!productsSnapshot.empty) {
+        throw new Error(`${productsSnapshot.size} product(s) are still filed under this category`);
+      }
+
+      const category = await this.getCategory(categoryId);
+      if (category?.imageUrl) {
+        try {
+          await ImageService.deleteImage(category.imageUrl);
+        } catch (err) {
+          console.warn("Failed to delete image:", err);
+        }
+      }
+      await deleteDoc(doc(db, "categories", categoryId));
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      throw error;
+    }
+  }
+
+  private static async assertSlugAvailable(slug: string): Promise<void> {
+    if (!slug) {
+      throw new Error("Category slug can't be empty");
+    }
+    const existing = await getDocs(query(collection(db, "categories"), where("slug", "==", slug)));
+    if (!existing.empty) {
+      throw new Error(`The slug "${slug}" is already used by another category`);
+    }
+  }
+}
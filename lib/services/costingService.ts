@@ -0,0 +1,95 @@
+// Costing Service - How inventory is valued when it is sold
+import { collection, doc, getDoc, getDocs, runTransaction, setDoc, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { CostingMethod, CostingSettings, OpeningStockPosting, Product } from "@/lib/types";
+import { ACCOUNTS, roundAmount } from "@/lib/utils/accounting";
+import { getCostLayers, getLayersValue } from "@/lib/utils/costing";
+import { AccountingService } from "./accountingService";
+import { LedgerService } from "./ledgerService";
+
+export class CostingService {
+  /**
+   * Get the costing method in use (FIFO until configured)
+   */
+  static async getCostingMethod(): Promise<CostingMethod> {
+    try {
+      const settingsDoc = await getDoc(doc(db, "settings", "costing"));
+      if (!settingsDoc.exists()) {
+        return "FIFO";
+      }
+      return (settingsDoc.data() as CostingSettings).method;
+    } catch (error) {
+      console.error("Error fetching costing settings:", error);
+      return "FIFO";
+    }
+  }
+
+  /**
+   * Change the costing method (admin only)
+   * Applies to stock sold from now on; past sales keep the cost they were sold at
+   */
+  static async updateCostingMethod(method: CostingMethod): Promise<void> {
+    try {
+      await setDoc(doc(db, "settings", "costing"), {
+        method,
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error("Error updating costing settings:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the opening stock posting, or null if stock on hand hasn't been brought onto the books yet
+   */
+  static async getOpeningStockPosting(): Promise<OpeningStockPosting | null> {
+    try {
+      const postingDoc = await getDoc(doc(db, "settings", "opening_stock"));
+      return postingDoc.exists() ? (postingDoc.data() as OpeningStockPosting) : null;
+    } catch (error) {
+      console.error("Error fetching opening stock posting:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Bring the stock that was on hand before the journal began onto the books (admin only, once)
+   * The journal only sees stock move from the cut-over on, so cost of goods sold would otherwise
+   * push Inventory below zero. Inventory is trued up to the value of every product's cost layers,
+   * against Opening Balance Equity. Stock added to new products after this is journalled as it comes.
+   */
+  static async postOpeningStock(performedBy: string): Promise<OpeningStockPosting> {
+    try {
+      const [productsSnapshot, balances] = await Promise.all([
+        getDocs(collection(db, "products")),
+        AccountingService.getAccountBalances(new Date(0), new Date()),
+      ]);
+      let stockValue = 0;
+      productsSnapshot.forEach((productDoc) => {
+        stockValue += getLayersValue(getCostLayers(productDoc.data() as Product)).value;
+      });
+      const value = roundAmount(stockValue - (balances[ACCOUNTS.INVENTORY] || 0));
+
+      return await runTransaction(db, async (transaction) => {
+        const postingRef = doc(db, "settings", "opening_stock");
+        if ((await transaction.get(postingRef)).exists()) {
+          throw new Error("Opening stock has already been posted");
+        }
+        const posting: OpeningStockPosting = { value, postedBy: performedBy, postedAt: Timestamp.now() };
+        await LedgerService.postOpeningStock(
+          "opening_stock",
+          value,
+          "Opening stock on hand at cut-over",
+          performedBy,
+          transaction
+        );
+        transaction.set(postingRef, posting);
+        return posting;
+      });
+    } catch (error) {
+      console.error("Error posting opening stock:", error);
+      throw error;
+    }
+  }
+}
@@ -9,40 +9,64 @@ import {
   query,
   where,
   orderBy,
+  runTransaction,
   Timestamp,
+  Transaction,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { CreditTransaction, Customer, PaymentMethod } from "@/lib/types";
+import { CreditPayment, CreditPaymentAllocation, CreditTransaction, Customer, PaymentMethod } from "@/lib/types";
 import { LedgerService } from "./ledgerService";
+import { allocatePaymentFIFO, getCreditDueDate } from "@/lib/utils/credit";
+import { roundAmount } from "@/lib/utils/accounting";
 
 export class CreditService {
   /**
    * Create a credit transaction from a sale
+   * Inside a transaction only the credit document is written; the caller owns the
+   * customer read and must add dueAmount to totalDue itself
+   * @param paymentTermsDays The customer's payment terms, used for the due date inside a
+   *   transaction (outside one they are read from the customer)
    */
   static async createCreditTransaction(
     customerId: string,
     saleId: string,
     items: CreditTransaction["items"],
     totalAmount: number,
-    paidAmount: number
+    paidAmount: number,
+    transaction?: Transaction,
+    paymentTermsDays?: number
   ): Promise<string> {
     try {
       const dueAmount = totalAmount - paidAmount;
-
-      const creditRef = await addDoc(collection(db, "credit_transactions"), {
+      const now = new Date();
+      const creditData = {
         customerId,
         saleId,
         items,
         totalAmount,
         paidAmount,
         dueAmount,
-        createdAt: Timestamp.now(),
+        createdAt: Timestamp.fromDate(now),
+        dueDate: Timestamp.fromDate(getCreditDueDate(now, paymentTermsDays)),
         settlementHistory: [],
-      });
+      };
+
+      if (transaction) {
+        const creditRef = doc(collection(db, "credit_transactions"));
+        transaction.set(creditRef, creditData);
+        return creditRef.id;
+      }
 
-      // Update customer total due (if customer document exists)
       const customerRef = doc(db, "customers", customerId);
       const customerDoc = await getDoc(customerRef);
+      if (customerDoc.exists()) {
+        const terms = (customerDoc.data() as Customer).paymentTermsDays;
+        creditData.dueDate = Timestamp.fromDate(getCreditDueDate(now, terms));
+      }
+
+      const creditRef = await addDoc(collection(db, "credit_transactions"), creditData);
+
+      // Update customer total due (if customer document exists)
       if (customerDoc.exists()) {
         const customer = customerDoc.data() as Customer;
         await updateDoc(customerRef, {
@@ -59,6 +83,7 @@ export class CreditService {
 
   /**
    * Settle a credit (partial or full payment)
+   * Recorded as a customer payment allocated entirely to this credit
    */
   static async settleCredit(
     creditId: string,
@@ -66,71 +91,173 @@ export class CreditService {
     settledBy: string,
     paymentMethod: PaymentMethod,
     notes?: string
-  ): Promise<void> {
-    try {
-      const creditRef = doc(db, "credit_transactions", creditId);
-      const creditDoc = await getDoc(creditRef);
+  ): Promise<CreditPayment> {
+    const credit = await this.getCreditTransaction(creditId);
+    if (!credit) {
+      throw new Error("Credit transaction not found");
+    }
+    return this.settleCustomerCredits(credit.customerId, amount, settledBy, paymentMethod, notes, {
+      [creditId]: amount,
+    });
+  }
+
+  static generatePaymentReceiptNumber(): string {
+    const timestamp = Date.now();
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+    return `CP-${timestamp}-${random}`;
+  }
 
-      if (!creditDoc.exists()) {
-        throw new Error("Credit transaction not found");
+  /**
+   * Take one payment from a customer and settle their open credits with it
+   * The credits, the customer's totalDue, the payment receipt and the journal entry are all
+   * written in one Firestore transaction.
+   * @param allocations Amount to settle on each credit by credit ID; when omitted the payment
+   *   settles the oldest credits first
+   */
+  static async settleCustomerCredits(
+    customerId: string,
+    amount: number,
+    settledBy: string,
+    paymentMethod: PaymentMethod,
+    notes?: string,
+    allocations?: Record<string, number>
+  ): Promise<CreditPayment> {
+    try {
+      const paymentAmount = roundAmount(amount);
+      if (paymentAmount <= 0) {
+        throw new Error("Payment amount must be greater than zero");
       }
 
-      const credit = { id: creditDoc.id, ...creditDoc.data() } as CreditTransaction;
+      // Which credits are open is looked up first; their balances are re-read in the transaction
+      const creditsSnapshot = await getDocs(
+        query(collection(db, "credit_transactions"), where("customerId", "==", customerId))
+      );
+      const openCreditIds = creditsSnapshot.docs
+        .filter((creditDoc) => (creditDoc.data() as CreditTransaction).dueAmount > 0)
+        .map((creditDoc) => creditDoc.id);
 
-      if (amount > credit.dueAmount) {
-        throw new Error("Settlement amount cannot exceed due amount");
-      }
+      const paymentRef = doc(collection(db, "credit_payments"));
+      const payment = await runTransaction(db, async (transaction) => {
+        // Reads first - Firestore transactions require all reads before any write
+        const customerRef = doc(db, "customers", customerId);
+        const customerDoc = await transaction.get(customerRef);
+        const credits: CreditTransaction[] = [];
+        for (const creditId of new Set([...openCreditIds, ...Object.keys(allocations || {})])) {
+          const creditDoc = await transaction.get(doc(db, "credit_transactions", creditId));
+          if (creditDoc.exists()) {
+            credits.push({ id: creditDoc.id, ...creditDoc.data() } as CreditTransaction);
+          }
+        }
 
-      const newPaidAmount = credit.paidAmount + amount;
-      const newDueAmount = credit.dueAmount - amount;
-      const isFullySettled = newDueAmount === 0;
+        const totalDue = roundAmount(credits.reduce((sum, credit) => sum + credit.dueAmount, 0));
+        if (paymentAmount > totalDue) {
+          throw new Error(`Payment cannot exceed the outstanding credit of Rs ${totalDue.toFixed(2)}`);
+        }
 
-      // Build settlement history entry - only include notes if defined
-      const settlementEntry: any = {
-        amount,
-        date: Timestamp.now(),
-        settledBy,
-      };
-      
-      // Only add notes if it's defined (Firestore doesn't allow undefined)
-      if (notes) {
-        settlementEntry.notes = notes;
-      }
+        const settlements = allocations || allocatePaymentFIFO(credits, paymentAmount);
+        const allocated = roundAmount(Object.values(settlements).reduce((sum, value) => sum + value, 0));
+        if (allocated !== paymentAmount) {
+          throw new Error(
+            `Allocated Rs ${allocated.toFixed(2)} does not match the payment of Rs ${paymentAmount.toFixed(2)}`
+          );
+        }
 
-      // Build update object - only include settledAt if fully settled
-      const updateData: any = {
-        paidAmount: newPaidAmount,
-        dueAmount: newDueAmount,
-        settlementHistory: [
-          ...(credit.settlementHistory || []),
-          settlementEntry,
-        ],
-      };
+        const now = Timestamp.now();
+        const paymentAllocations: CreditPaymentAllocation[] = [];
+        for (const [creditId, value] of Object.entries(settlements)) {
+          const settled = roundAmount(value);
+          if (settled === 0) continue;
+          const credit = credits.find((c) => c.id === creditId);
+          if (!credit) {
+            throw new Error("Credit transaction not found");
+          }
+          if (credit.customerId !== customerId) {
+            throw new Error(`Credit for sale #${credit.saleId} belongs to another customer`);
+          }
+          if (settled < 0 || settled > credit.dueAmount) {
+            throw new Error(
+              `Rs ${settled.toFixed(2)} cannot be settled on sale #${credit.saleId}, which has Rs ${credit.dueAmount.toFixed(2)} due`
+            );
+          }
 
-      // Only add settledAt if fully settled (Firestore doesn't allow undefined)
-      if (isFullySettled) {
-        updateData.settledAt = Timestamp.now();
-      }
+          // Build settlement history entry - only include notes if defined
+          const settlementEntry: CreditTransaction["settlementHistory"][number] = {
+            amount: settled,
+            date: now,
+            settledBy,
+            paymentMethod,
+            paymentId: paymentRef.id,
+          };
+          if (notes) {
+            settlementEntry.notes = notes;
+          }
 
-      // Update credit transaction
-      await updateDoc(creditRef, updateData);
+          const newDueAmount = roundAmount(credit.dueAmount - settled);
+          const updateData: Partial<CreditTransaction> = {
+            paidAmount: roundAmount(credit.paidAmount + settled),
+            dueAmount: newDueAmount,
+            settlementHistory: [...(credit.settlementHistory || []), settlementEntry],
+          };
+          // Only add settledAt if fully settled (Firestore doesn't allow undefined)
+          if (newDueAmount === 0) {
+            updateData.settledAt = now;
+          }
+          transaction.update(doc(db, "credit_transactions", credit.id), updateData);
+          paymentAllocations.push({ creditId: credit.id, saleId: credit.saleId, amount: settled });
+        }
 
-      // Update customer total due
-      const customerRef = doc(db, "customers", credit.customerId);
-      const customerDoc = await getDoc(customerRef);
-      if (customerDoc.exists()) {
-        const customer = customerDoc.data() as Customer;
-        await updateDoc(customerRef, {
-          totalDue: Math.max(0, (customer.totalDue || 0) - amount),
-        });
-      }
+        let remainingDue = roundAmount(totalDue - paymentAmount);
+        if (customerDoc.exists()) {
+          const customer = customerDoc.data() as Customer;
+          remainingDue = Math.max(0, roundAmount((customer.totalDue || 0) - paymentAmount));
+          transaction.update(customerRef, { totalDue: remainingDue });
+        }
+
+        // Create payment record - only include notes if defined
+        const paymentData: Omit<CreditPayment, "id"> = {
+          receiptNumber: this.generatePaymentReceiptNumber(),
+          customerId,
+          amount: paymentAmount,
+          paymentMethod,
+          allocations: paymentAllocations,
+          remainingDue,
+          settledBy,
+          createdAt: now,
+        };
+        if (notes) {
+          paymentData.notes = notes;
+        }
+        transaction.set(paymentRef, paymentData);
 
-      // Note: We do NOT create a ledger income entry here because:
-      // - The income was already recorded when the sale was made (full total amount)
-      // - This settlement is just reducing Accounts Receivable (customer credit)
-      // - Following accrual accounting: income recorded when sale made, not when collected
+        // No income is recorded here - it was recognised when the sale was made.
+        // The journal only moves the amount from Accounts Receivable into cash/bank.
+        await LedgerService.postCreditSettlement(paymentRef.id, paymentAmount, paymentMethod, settledBy, transaction);
+
+        return { id: paymentRef.id, ...paymentData };
+      });
+
+      return payment;
+    } catch (error) {
+      console.error("Error settling customer credits:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the payments a customer has made against their credit, newest first
+   */
+  static async getCustomerPayments(customerId: string): Promise<CreditPayment[]> {
+    try {
+      const q = query(collection(db, "credit_payments"), where("customerId", "==", customerId));
+      const querySnapshot = await getDocs(q);
+      const payments: CreditPayment[] = [];
+      querySnapshot.forEach((doc) => {
+        payments.push({ id: doc.id, ...doc.data() } as CreditPayment);
+      });
+      // Sorted here to avoid needing a composite index
+      return payments.sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
     } catch (error) {
-      console.error("Error settling credit:", error);
+      console.error("Error fetching customer payments:", error);
       throw error;
     }
   }
@@ -198,5 +325,18 @@ export class CreditService {
       throw error;
     }
   }
-}
 
+  /**
+   * Record that a customer has been reminded about their overdue credit
+   */
+  static async recordReminder(customerId: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, "customers", customerId), {
+        lastReminderAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error("Error recording payment reminder:", error);
+      throw error;
+    }
+  }
+}
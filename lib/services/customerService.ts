@@ -12,6 +12,7 @@ import {
 import { db } from "@/lib/firebase";
 import { Customer, Sale, Order } from "@/lib/types";
 import { OrderService } from "./orderService";
+import { SaleService } from "./saleService";
 
 export class CustomerService {
   /**
@@ -53,7 +54,8 @@ export class CustomerService {
       let salesTotal = 0;
       salesSnapshot.forEach((doc) => {
         const sale = doc.data() as Sale;
-        salesTotal += sale.total;
+        // Net of any returns processed against the sale
+        salesTotal += sale.total - (sale.returnedTotal || 0);
       });
 
       // Get online orders
@@ -74,24 +76,26 @@ export class CustomerService {
    */
   static async getCustomerTransactionHistory(customerId: string): Promise<Array<{
     id: string;
-    type: "SALE" | "ORDER";
+    type: "SALE" | "ORDER" | "RETURN";
     source: "POS" | "ONLINE";
     total: number;
     date: Date;
     status?: string;
     orderNumber?: string;
     saleId?: string;
+    returnNumber?: string;
   }>> {
     try {
       const transactions: Array<{
         id: string;
-        type: "SALE" | "ORDER";
+        type: "SALE" | "ORDER" | "RETURN";
         source: "POS" | "ONLINE";
         total: number;
         date: Date;
         status?: string;
         orderNumber?: string;
         saleId?: string;
+        returnNumber?: string;
       }> = [];
 
       // Fetch POS sales
@@ -126,6 +130,20 @@ export class CustomerService {
         });
       });
 
+      // Fetch sales returns (totals are negative as they reduce what the customer spent)
+      const returns = await SaleService.getCustomerReturns(customerId);
+      returns.forEach((saleReturn) => {
+        transactions.push({
+          id: saleReturn.id,
+          type: "RETURN",
+          source: "POS",
+          total: -saleReturn.total,
+          date: saleReturn.createdAt.toDate(),
+          saleId: saleReturn.saleId,
+          returnNumber: saleReturn.returnNumber,
+        });
+      });
+
       // Sort by date (newest first)
       transactions.sort((a, b) => b.date.getTime() - a.date.getTime());
 
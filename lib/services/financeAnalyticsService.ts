@@ -5,6 +5,8 @@ import { OrderService } from "./orderService";
 import { VendorService } from "./vendorService";
 import { ProductService } from "./productService";
 import { CustomerService } from "./customerService";
+import { getCostOfGoods } from "@/lib/utils/accounting";
+import { hasReceivedGoods } from "@/lib/utils/purchaseOrder";
 
 export interface ProfitMargins {
   grossMargin: number; // (Revenue - COGS) / Revenue
@@ -88,7 +90,7 @@ export class FinanceAnalyticsService {
       ]);
 
       // Calculate expenses from actual purchase orders (received)
-      const receivedPOs = purchaseOrders.filter((po) => po.status === "RECEIVED");
+      const receivedPOs = purchaseOrders.filter(hasReceivedGoods);
       const purchaseOrderExpenses = receivedPOs.reduce(
         (sum, po) => sum + (po.receivedTotalAmount ?? po.totalAmount),
         0
@@ -125,9 +127,12 @@ export class FinanceAnalyticsService {
       // Total expenses = purchase order expenses + ledger expenses
       const expenses = purchaseOrderExpenses + ledgerExpenses;
 
-      // Estimate COGS (Cost of Goods Sold) - would need product cost prices
-      // For now, estimate as 60% of revenue (typical retail margin)
-      const cogs = revenue * 0.6;
+      // COGS from the cost snapshotted on each line when it was sold; older lines without
+      // a snapshot fall back to the product's current cost price
+      const products = new Map((await ProductService.getAllProducts()).map((product) => [product.id, product]));
+      const cogs =
+        sales.reduce((sum, sale) => sum + getCostOfGoods(sale.items, products), 0) +
+        confirmedOrCompletedOrders.reduce((sum, order) => sum + getCostOfGoods(order.items, products), 0);
       const grossProfit = revenue - cogs;
       const netProfit = revenue - expenses;
 
@@ -167,7 +172,7 @@ export class FinanceAnalyticsService {
         LedgerService.getEntries(startDate, endDate),
         VendorService.getPurchaseOrdersByDateRange(startDate, endDate),
       ]);
-      const receivedPOs = purchaseOrders.filter((po) => po.status === "RECEIVED");
+      const receivedPOs = purchaseOrders.filter(hasReceivedGoods);
 
       // Filter ledger entries (excluding auto-generated entries, VENDOR_PAY, and credit settlements)
       const validEntries = entries.filter((entry) => {
@@ -264,8 +269,9 @@ export class FinanceAnalyticsService {
 
       const productMap = new Map<
         string,
-        { name: string; quantity: number; revenue: number }
+        { name: string; quantity: number; revenue: number; cost: number }
       >();
+      const products = new Map((await ProductService.getAllProducts()).map((product) => [product.id, product]));
 
       sales.forEach((sale) => {
         sale.items.forEach((item) => {
@@ -273,9 +279,11 @@ export class FinanceAnalyticsService {
             name: item.productName,
             quantity: 0,
             revenue: 0,
+            cost: 0,
           };
           existing.quantity += item.quantity;
           existing.revenue += item.subtotal;
+          existing.cost += getCostOfGoods([item], products);
           productMap.set(item.productId, existing);
         });
       });
@@ -286,9 +294,11 @@ export class FinanceAnalyticsService {
             name: item.productName,
             quantity: 0,
             revenue: 0,
+            cost: 0,
           };
           existing.quantity += item.quantity;
           existing.revenue += item.subtotal;
+          existing.cost += getCostOfGoods([item], products);
           productMap.set(item.productId, existing);
         });
       });
@@ -299,6 +309,7 @@ export class FinanceAnalyticsService {
           productName: data.name,
           quantitySold: data.quantity,
           revenue: data.revenue,
+          profit: data.revenue - data.cost,
         }))
         .sort((a, b) => b.revenue - a.revenue)
         .slice(0, limit);
@@ -400,7 +411,7 @@ export class FinanceAnalyticsService {
       ]);
       
       // Calculate current expenses
-      const currentReceivedPOs = currentPOs.filter((po) => po.status === "RECEIVED");
+      const currentReceivedPOs = currentPOs.filter(hasReceivedGoods);
       const currentPOExpenses = currentReceivedPOs.reduce(
         (sum, po) => sum + (po.receivedTotalAmount ?? po.totalAmount),
         0
@@ -446,7 +457,7 @@ export class FinanceAnalyticsService {
       ]);
       
       // Calculate previous expenses
-      const previousReceivedPOs = previousPOs.filter((po) => po.status === "RECEIVED");
+      const previousReceivedPOs = previousPOs.filter(hasReceivedGoods);
       const previousPOExpenses = previousReceivedPOs.reduce(
         (sum, po) => sum + (po.receivedTotalAmount ?? po.totalAmount),
         0
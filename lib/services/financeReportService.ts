@@ -3,7 +3,28 @@ import { LedgerService } from "./ledgerService";
 import { SaleService } from "./saleService";
 import { OrderService } from "./orderService";
 import { VendorService } from "./vendorService";
+import { AccountingService } from "./accountingService";
 import { CreditService } from "./creditService";
+import { CustomerService } from "./customerService";
+import { ProductService } from "./productService";
+import { CategoryService } from "./categoryService";
+import {
+  ACCOUNTS,
+  CASH_ACCOUNTS,
+  getAccountBalances,
+  roundAmount,
+  sumAccountType,
+} from "@/lib/utils/accounting";
+import { hasReceivedGoods } from "@/lib/utils/purchaseOrder";
+import { flattenCategoryTree, rollUpCategoryAmounts } from "@/lib/utils/categories";
+import { addAgingBuckets, ageOutstandingBalance, emptyAgingBuckets } from "@/lib/utils/aging";
+import {
+  buildVendorStatement,
+  getPaymentTransactions,
+  getReceiptTransactions,
+  getReturnTransactions,
+} from "@/lib/utils/vendorStatement";
+import { AgingBuckets, VendorStatement } from "@/lib/types";
 // Types are imported as needed in the code
 
 export interface PLStatement {
@@ -11,13 +32,13 @@ export interface PLStatement {
   expenses: number;
   netProfit: number;
   incomeBreakdown: {
-    sales: number;
+    sales: number; // POS sales net of returns
     orders: number;
     other: number;
   };
   expenseBreakdown: {
+    costOfGoods: number;
     purchases: number;
-    vendorPayments: number;
     salaries: number;
     rent: number;
     utilities: number;
@@ -26,37 +47,57 @@ export interface PLStatement {
 }
 
 export interface CashFlow {
+  openingBalance: number;
   cashIn: number;
   cashOut: number;
   netCashFlow: number;
+  closingBalance: number; // openingBalance + netCashFlow
   cashInBreakdown: {
     cash: number;
     bankTransfer: number;
     fonePay: number;
     cheque: number;
-    credit: number;
   };
   cashOutBreakdown: {
     cash: number;
     bankTransfer: number;
     fonePay: number;
     cheque: number;
-    credit: number;
   };
 }
 
 export interface BalanceSheet {
   assets: {
-    cash: number;
+    cash: number; // Cash, bank, FonePay and cheques in hand
     inventory: number;
     receivables: number; // Customer credits
+    advances: number; // Employee advances
     total: number;
   };
   liabilities: {
     payables: number; // Vendor balances
     total: number;
   };
-  equity: number; // Assets - Liabilities
+  equity: number; // Capital + retained earnings, equal to Assets - Liabilities
+  equityBreakdown: {
+    capital: number;
+    retainedEarnings: number;
+  };
+}
+
+export interface VATReport {
+  outputTax: number; // Tax charged on sales and orders, net of returns
+  inputTax: number; // Tax paid on purchases, net of purchase returns
+  netPayable: number; // outputTax - inputTax (negative means refundable)
+  outputBreakdown: {
+    sales: number;
+    orders: number;
+    returns: number;
+  };
+  inputBreakdown: {
+    purchases: number;
+    returns: number; // Reclaimed tax given back on goods returned to vendors
+  };
 }
 
 export interface SalesReport {
@@ -69,7 +110,13 @@ export interface SalesReport {
     quantity: number;
     revenue: number;
   }>;
-  salesByCategory: Record<string, number>;
+  // Category tree order; each category's revenue includes its subcategories
+  salesByCategory: Array<{
+    categoryId?: string; // Undefined for products filed under a free-text category
+    categoryName: string;
+    depth: number;
+    revenue: number;
+  }>;
   salesByCustomer: Array<{
     customerId: string;
     customerName: string;
@@ -89,105 +136,69 @@ export interface ExpenseReport {
   }>;
 }
 
+export interface AgedPayablesReport {
+  asOf: Date;
+  vendors: Array<AgingBuckets & {
+    vendorId: string;
+    vendorName: string;
+  }>;
+  totals: AgingBuckets;
+}
+
+export interface AgedReceivablesReport {
+  asOf: Date;
+  customers: Array<AgingBuckets & {
+    customerId: string;
+    customerName: string;
+    creditLimit?: number;
+  }>;
+  totals: AgingBuckets;
+}
+
 export class FinanceReportService {
   /**
    * Generate P&L Statement for a date range
+   * Derived from income and expense account movements in the journal
    */
   static async generatePLStatement(
     startDate: Date,
     endDate: Date
   ): Promise<PLStatement> {
     try {
-      // Get actual POS sales and online orders directly (more accurate than ledger alone)
-      const sales = await SaleService.getSales(startDate, endDate);
-      const posSalesRevenue = sales.reduce((sum, sale) => sum + sale.total, 0);
+      const entries = await AccountingService.getJournalEntries(startDate, endDate);
+      const balances = getAccountBalances(entries);
 
-      const orders = await OrderService.getAllOrders({
-        startDate,
-        endDate,
-      });
-      const confirmedOrCompletedOrders = orders.filter(
-        (o) => o.status === "CONFIRMED" || o.status === "COMPLETED"
+      // Split revenue by where it came from; returns only ever apply to POS sales
+      const posBalances = getAccountBalances(
+        entries.filter((entry) => entry.source === "SALE" || entry.source === "SALE_RETURN")
       );
-      const onlineOrdersRevenue = confirmedOrCompletedOrders.reduce((sum, order) => sum + order.total, 0);
-
-      // Get purchase orders and ledger entries
-      const [entries, purchaseOrders] = await Promise.all([
-        LedgerService.getEntries(startDate, endDate),
-        VendorService.getPurchaseOrdersByDateRange(startDate, endDate),
-      ]);
+      const orderBalances = getAccountBalances(entries.filter((entry) => entry.source === "ORDER"));
 
-      // Calculate expenses from actual purchase orders (received)
-      const receivedPOs = purchaseOrders.filter((po) => po.status === "RECEIVED");
-      const purchaseOrderExpenses = receivedPOs.reduce(
-        (sum, po) => sum + (po.receivedTotalAmount ?? po.totalAmount),
-        0
-      );
+      const income = sumAccountType(balances, "INCOME");
+      const expenses = sumAccountType(balances, "EXPENSE");
 
-      let expenses = purchaseOrderExpenses;
       const incomeBreakdown = {
-        sales: posSalesRevenue, // POS sales revenue
-        orders: onlineOrdersRevenue, // Online orders revenue
+        sales: posBalances[ACCOUNTS.SALES] + posBalances[ACCOUNTS.SALES_RETURNS],
+        orders: orderBalances[ACCOUNTS.SALES],
         other: 0,
       };
+      incomeBreakdown.other = income - incomeBreakdown.sales - incomeBreakdown.orders;
+
       const expenseBreakdown = {
-        purchases: purchaseOrderExpenses, // Purchase orders expenses
-        vendorPayments: 0,
-        salaries: 0,
-        rent: 0,
-        utilities: 0,
+        costOfGoods: balances[ACCOUNTS.COST_OF_GOODS],
+        purchases: balances[ACCOUNTS.PURCHASES],
+        salaries: balances[ACCOUNTS.SALARIES],
+        rent: balances[ACCOUNTS.RENT],
+        utilities: balances[ACCOUNTS.UTILITIES],
         other: 0,
       };
-
-      // Calculate expenses and other income from ledger (excluding auto-generated entries)
-      const manualLedgerEntries = entries.filter((entry) => {
-        // Exclude auto-generated sales entries
-        if (entry.category === "SALES" && entry.relatedId) {
-          return false;
-        }
-        // Exclude auto-generated purchase order entries
-        if (entry.category === "PURCHASE" && entry.relatedId) {
-          return false;
-        }
-        // Exclude VENDOR_PAY entries (these are just payments, not expenses)
-        if (entry.category === "VENDOR_PAY") {
-          return false;
-        }
-        // Exclude credit settlement entries
-        const isCreditSettlement = entry.category === "SALES" && 
-          entry.description?.toLowerCase().includes("credit settlement");
-        if (isCreditSettlement) {
-          return false;
-        }
-        return true;
-      });
-
-      manualLedgerEntries.forEach((entry) => {
-        if (entry.type === "INCOME") {
-          // Only count other income (not sales, as we're using direct sales/orders data)
-          if (entry.category !== "SALES") {
-            incomeBreakdown.other += entry.amount;
-          }
-        } else if (entry.type === "EXPENSE") {
-          expenses += entry.amount;
-          switch (entry.category) {
-            case "SALARY":
-              expenseBreakdown.salaries += entry.amount;
-              break;
-            case "RENT":
-              expenseBreakdown.rent += entry.amount;
-              break;
-            case "UTILITY":
-              expenseBreakdown.utilities += entry.amount;
-              break;
-            default:
-              expenseBreakdown.other += entry.amount;
-          }
-        }
-      });
-
-      // Total income = POS sales + Online orders + Other income
-      const income = posSalesRevenue + onlineOrdersRevenue + incomeBreakdown.other;
+      expenseBreakdown.other =
+        expenses -
+        expenseBreakdown.costOfGoods -
+        expenseBreakdown.purchases -
+        expenseBreakdown.salaries -
+        expenseBreakdown.rent -
+        expenseBreakdown.utilities;
 
       return {
         income,
@@ -204,181 +215,52 @@ export class FinanceReportService {
 
   /**
    * Generate Cash Flow statement
+   * Money in and out is read straight off the cash, bank, FonePay and cheque accounts,
+   * so the net flow always equals the change in their balance
    */
   static async generateCashFlow(
     startDate: Date,
     endDate: Date
   ): Promise<CashFlow> {
     try {
-      // Get actual sales and orders for accurate cash flow
-      const sales = await SaleService.getSales(startDate, endDate);
-      const orders = await OrderService.getAllOrders({
-        startDate,
-        endDate,
-      });
-      const confirmedOrCompletedOrders = orders.filter(
-        (o) => o.status === "CONFIRMED" || o.status === "COMPLETED"
-      );
-
-      // Get expenses from ledger
-      const entries = await LedgerService.getEntries(startDate, endDate);
+      const [openingBalances, entries] = await Promise.all([
+        AccountingService.getAccountBalances(new Date(0), new Date(startDate.getTime() - 1)),
+        AccountingService.getJournalEntries(startDate, endDate),
+      ]);
 
-      const cashInBreakdown = {
-        cash: 0,
-        bankTransfer: 0,
-        fonePay: 0,
-        cheque: 0,
-        credit: 0,
-      };
-      const cashOutBreakdown = {
-        cash: 0,
-        bankTransfer: 0,
-        fonePay: 0,
-        cheque: 0,
-        credit: 0,
+      const breakdownKeys: Record<string, keyof CashFlow["cashInBreakdown"]> = {
+        [ACCOUNTS.CASH]: "cash",
+        [ACCOUNTS.BANK]: "bankTransfer",
+        [ACCOUNTS.FONE_PAY]: "fonePay",
+        [ACCOUNTS.CHEQUES]: "cheque",
       };
-
-      // Process POS sales (accrual accounting: include all sales as income when sale happens)
-      // All payment methods are included as cash in (accrual accounting)
-      sales.forEach((sale) => {
-        switch (sale.paymentMethod) {
-          case "CASH":
-            cashInBreakdown.cash += sale.total;
-            break;
-          case "BANK_TRANSFER":
-            cashInBreakdown.bankTransfer += sale.total;
-            break;
-          case "FONE_PAY":
-            cashInBreakdown.fonePay += sale.total;
-            break;
-          case "CHEQUE":
-            cashInBreakdown.cheque += sale.total;
-            break;
-          case "CREDIT":
-            // Credit sales: include as cash in (accrual accounting - income when sale happens)
-            cashInBreakdown.credit += sale.total;
-            break;
-        }
-      });
-
-      // Process online orders (accrual accounting: include all orders as income when order happens)
-      // All orders are included as cash in (accrual accounting - income when order happens)
-      confirmedOrCompletedOrders.forEach((order) => {
-        // Map COD to CASH, others to their respective categories
-        // In accrual accounting, all orders count as income regardless of payment method
-        if (order.paymentMethod === "COD" || order.paymentMethod === "BANK_TRANSFER") {
-          // COD is cash on delivery, BANK_TRANSFER goes to bank
-          if (order.paymentMethod === "COD") {
-            cashInBreakdown.cash += order.total;
-          } else {
-            cashInBreakdown.bankTransfer += order.total;
-          }
-        } else if (order.paymentMethod === "FONE_PAY") {
-          cashInBreakdown.fonePay += order.total;
-        } else {
-          // Default to CASH for any other payment method (accrual accounting)
-          cashInBreakdown.cash += order.total;
-        }
-      });
-
-      // Get purchase orders for cash flow (accrual accounting: include as expenses when purchase happens)
-      const purchaseOrders = await VendorService.getPurchaseOrdersByDateRange(startDate, endDate);
-      
-      // Process purchase orders (received) as cash out (accrual accounting - expense when purchase happens)
-      // Purchase orders are included as cash out (even though cash not paid yet)
-      const receivedPOs = purchaseOrders.filter((po) => po.status === "RECEIVED");
-      receivedPOs.forEach((po) => {
-        const poAmount = po.receivedTotalAmount ?? po.totalAmount;
-        // Purchase orders are typically on credit, but we include as cash out (accrual accounting)
-        // Categorize as CREDIT since they're typically on credit terms
-        cashOutBreakdown.credit += poAmount;
-      });
-
-      // Filter ledger entries (excluding auto-generated entries, but including VENDOR_PAY for cash flow)
-      const validEntries = entries.filter((entry) => {
-        // Exclude auto-generated sales entries
-        if (entry.category === "SALES" && entry.relatedId) {
-          return false;
-        }
-        // Exclude auto-generated purchase order entries (we're using actual PO data above)
-        if (entry.category === "PURCHASE" && entry.relatedId) {
-          return false;
-        }
-        // Include VENDOR_PAY entries for cash flow (these are actual cash outflows)
-        // But note: VENDOR_PAY doesn't create new expense (already recorded in PO), just cash movement
-        // Exclude credit settlement entries (these are just collections, not new income)
-        const isCreditSettlement = entry.category === "SALES" && 
-          entry.description?.toLowerCase().includes("credit settlement");
-        if (isCreditSettlement) {
-          return false;
-        }
-        return true;
-      });
-
-      // Process other income and expenses from ledger
-      validEntries.forEach((entry) => {
-        if (entry.type === "INCOME" && entry.category !== "SALES") {
-          // Other income (not sales, as we've already processed sales/orders)
-          switch (entry.paymentMethod) {
-            case "CASH":
-              cashInBreakdown.cash += entry.amount;
-              break;
-            case "BANK_TRANSFER":
-              cashInBreakdown.bankTransfer += entry.amount;
-              break;
-            case "FONE_PAY":
-              cashInBreakdown.fonePay += entry.amount;
-              break;
-            case "CHEQUE":
-              cashInBreakdown.cheque += entry.amount;
-              break;
-            case "CREDIT":
-              cashInBreakdown.credit += entry.amount;
-              break;
-          }
-        } else if (entry.type === "EXPENSE" || entry.category === "VENDOR_PAY") {
-          // Include all expenses AND VENDOR_PAY entries (these are actual cash outflows)
-          // Note: VENDOR_PAY is excluded from P&L expenses but included in cash flow
-          switch (entry.paymentMethod) {
-            case "CASH":
-              cashOutBreakdown.cash += entry.amount;
-              break;
-            case "BANK_TRANSFER":
-              cashOutBreakdown.bankTransfer += entry.amount;
-              break;
-            case "FONE_PAY":
-              cashOutBreakdown.fonePay += entry.amount;
-              break;
-            case "CHEQUE":
-              cashOutBreakdown.cheque += entry.amount;
-              break;
-            case "CREDIT":
-              // Credit expenses: include as cash out (accrual accounting - expense when incurred)
-              cashOutBreakdown.credit += entry.amount;
-              break;
-          }
-        }
+      const cashInBreakdown = { cash: 0, bankTransfer: 0, fonePay: 0, cheque: 0 };
+      const cashOutBreakdown = { cash: 0, bankTransfer: 0, fonePay: 0, cheque: 0 };
+
+      entries.forEach((entry) => {
+        entry.lines.forEach((line) => {
+          const key = breakdownKeys[line.accountCode];
+          if (!key) return;
+          cashInBreakdown[key] += line.debit;
+          cashOutBreakdown[key] += line.credit;
+        });
       });
 
-      const cashIn =
-        cashInBreakdown.cash +
-        cashInBreakdown.bankTransfer +
-        cashInBreakdown.fonePay +
-        cashInBreakdown.cheque +
-        cashInBreakdown.credit;
-      const cashOut =
-        cashOutBreakdown.cash +
-        cashOutBreakdown.bankTransfer +
-        cashOutBreakdown.fonePay +
-        cashOutBreakdown.cheque +
-        cashOutBreakdown.credit;
+      const cashIn = roundAmount(Object.values(cashInBreakdown).reduce((sum, amount) => sum + amount, 0));
+      const cashOut = roundAmount(Object.values(cashOutBreakdown).reduce((sum, amount) => sum + amount, 0));
+      const openingBalance = roundAmount(
+        CASH_ACCOUNTS.reduce((sum, code) => sum + (openingBalances[code] || 0), 0)
+      );
+      const netCashFlow = roundAmount(cashIn - cashOut);
 
       return {
-        cashIn: cashIn || 0,
-        cashOut: cashOut || 0,
-        netCashFlow: (cashIn || 0) - (cashOut || 0),
-        cashInBreakdown: cashInBreakdown || { cash: 0, bankTransfer: 0, fonePay: 0 },
-        cashOutBreakdown: cashOutBreakdown || { cash: 0, bankTransfer: 0, fonePay: 0 },
+        openingBalance,
+        cashIn,
+        cashOut,
+        netCashFlow,
+        closingBalance: roundAmount(openingBalance + netCashFlow),
+        cashInBreakdown,
+        cashOutBreakdown,
       };
     } catch (error) {
       console.error("Error generating cash flow:", error);
@@ -387,97 +269,40 @@ export class FinanceReportService {
   }
 
   /**
-   * Generate Balance Sheet
+   * Generate Balance Sheet as of a date
+   * Built from closing account balances; retained earnings are the cumulative P&L,
+   * so assets always equal liabilities plus equity
    */
-  static async generateBalanceSheet(): Promise<BalanceSheet> {
+  static async generateBalanceSheet(asOf: Date = new Date()): Promise<BalanceSheet> {
     try {
-      // Calculate receivables (outstanding customer credits)
-      const outstandingCredits = await CreditService.getAllOutstandingCredits();
-      const receivables = outstandingCredits.reduce(
-        (sum, credit) => sum + (credit.dueAmount || 0),
-        0
-      );
-
-      // Calculate payables (outstanding vendor balances)
-      const vendors = await VendorService.getAllVendors();
-      const payables = vendors.reduce(
-        (sum, vendor) => sum + (vendor.balance > 0 ? vendor.balance : 0),
-        0
-      );
-
-      // Calculate inventory value from products
-      const { ProductService } = await import("./productService");
-      const products = await ProductService.getAllProducts();
-      let inventory = 0;
-      products.forEach((product) => {
-        if (product.costPrice) {
-          Object.values(product.warehouses || {}).forEach((warehouse) => {
-            inventory += (warehouse.quantity || 0) * (product.costPrice || 0);
-          });
-        }
-      });
-
-      // Calculate cash from actual sales and orders + ledger entries
-      // Get all POS sales with CASH payment
-      const allSales = await SaleService.getSales(new Date(0), new Date());
-      let cashFromSales = 0;
-      allSales.forEach((sale) => {
-        if (sale.paymentMethod === "CASH") {
-          cashFromSales += sale.total;
-        }
-      });
-
-      // Get all confirmed/completed orders with COD (which is CASH)
-      const allOrders = await OrderService.getAllOrders({});
-      const allConfirmedOrders = allOrders.filter(
-        (o) => (o.status === "CONFIRMED" || o.status === "COMPLETED") && o.paymentMethod === "COD"
-      );
-      const cashFromOrders = allConfirmedOrders.reduce((sum, order) => sum + order.total, 0);
-
-      // Get cash from ledger (other income and expenses)
-      const allEntries = await LedgerService.getEntries(
-        new Date(0), // From beginning
-        new Date() // To now
-      );
-      
-      let cashFromLedger = 0;
-      allEntries.forEach((entry) => {
-        // Exclude credit settlement entries (these are just collections, not new income)
-        const isCreditSettlement = entry.category === "SALES" && 
-          entry.description?.toLowerCase().includes("credit settlement");
-        
-        // Skip SALES category as we've already counted from actual sales/orders
-        // Also exclude credit settlements
-        if (entry.type === "INCOME" && entry.category !== "SALES" && !isCreditSettlement) {
-          if (entry.paymentMethod === "CASH") {
-            cashFromLedger += entry.amount;
-          }
-        } else if (entry.type === "EXPENSE" && entry.category !== "VENDOR_PAY") {
-          // Exclude VENDOR_PAY entries (these are just payments, not expenses)
-          if (entry.paymentMethod === "CASH") {
-            cashFromLedger -= entry.amount;
-          }
-        }
-      });
-
-      const cash = cashFromSales + cashFromOrders + cashFromLedger;
+      const balances = await AccountingService.getAccountBalances(new Date(0), asOf);
 
+      const cash = roundAmount(CASH_ACCOUNTS.reduce((sum, code) => sum + balances[code], 0));
       const assets = {
-        cash: cash || 0,
-        inventory: inventory || 0,
-        receivables: receivables || 0,
-        total: (cash || 0) + (inventory || 0) + (receivables || 0),
+        cash,
+        inventory: balances[ACCOUNTS.INVENTORY],
+        receivables: balances[ACCOUNTS.RECEIVABLES],
+        advances: balances[ACCOUNTS.EMPLOYEE_ADVANCES],
+        total: sumAccountType(balances, "ASSET"),
       };
 
       const liabilities = {
-        payables: payables || 0,
-        total: payables || 0,
+        payables: balances[ACCOUNTS.PAYABLES],
+        total: sumAccountType(balances, "LIABILITY"),
+      };
+
+      const equityBreakdown = {
+        capital: sumAccountType(balances, "EQUITY"),
+        retainedEarnings: roundAmount(
+          sumAccountType(balances, "INCOME") - sumAccountType(balances, "EXPENSE")
+        ),
       };
 
       return {
         assets,
         liabilities,
-        equity: assets.total - liabilities.total,
+        equity: roundAmount(equityBreakdown.capital + equityBreakdown.retainedEarnings),
+        equityBreakdown,
       };
     } catch (error) {
       console.error("Error generating balance sheet:", error);
@@ -487,6 +312,7 @@ export class FinanceReportService {
           cash: 0,
           inventory: 0,
           receivables: 0,
+          advances: 0,
           total: 0,
         },
         liabilities: {
@@ -494,10 +320,76 @@ export class FinanceReportService {
           total: 0,
         },
         equity: 0,
+        equityBreakdown: {
+          capital: 0,
+          retainedEarnings: 0,
+        },
       };
     }
   }
 
+  /**
+   * Generate VAT report for a date range
+   * Output and input tax are read off the VAT account, split by what posted them
+   */
+  static async generateVATReport(
+    startDate: Date,
+    endDate: Date
+  ): Promise<VATReport> {
+    try {
+      const entries = await AccountingService.getJournalEntries(startDate, endDate);
+
+      const outputBreakdown = { sales: 0, orders: 0, returns: 0 };
+      const inputBreakdown = { purchases: 0, returns: 0 };
+      entries.forEach((entry) => {
+        entry.lines
+          .filter((line) => line.accountCode === ACCOUNTS.VAT)
+          .forEach((line) => {
+            switch (entry.source) {
+              case "SALE":
+                outputBreakdown.sales += line.credit - line.debit;
+                break;
+              case "ORDER":
+                outputBreakdown.orders += line.credit - line.debit;
+                break;
+              case "SALE_RETURN":
+                outputBreakdown.returns += line.debit - line.credit;
+                break;
+              case "GRN":
+                inputBreakdown.purchases += line.debit - line.credit;
+                break;
+              case "PURCHASE_RETURN":
+                inputBreakdown.returns += line.credit - line.debit;
+                break;
+            }
+          });
+      });
+
+      const outputTax = roundAmount(
+        outputBreakdown.sales + outputBreakdown.orders - outputBreakdown.returns
+      );
+      const inputTax = roundAmount(inputBreakdown.purchases - inputBreakdown.returns);
+
+      return {
+        outputTax,
+        inputTax,
+        netPayable: roundAmount(outputTax - inputTax),
+        outputBreakdown: {
+          sales: roundAmount(outputBreakdown.sales),
+          orders: roundAmount(outputBreakdown.orders),
+          returns: roundAmount(outputBreakdown.returns),
+        },
+        inputBreakdown: {
+          purchases: roundAmount(inputBreakdown.purchases),
+          returns: roundAmount(inputBreakdown.returns),
+        },
+      };
+    } catch (error) {
+      console.error("Error generating VAT report:", error);
+      throw error;
+    }
+  }
+
   /**
    * Generate Sales Report
    */
@@ -566,6 +458,44 @@ export class FinanceReportService {
         })
       );
 
+      // Aggregate by category, rolling each category up into its parents
+      const [products, categories] = await Promise.all([
+        ProductService.getAllProducts(),
+        CategoryService.getAllCategories(),
+      ]);
+      const productById = new Map(products.map((product) => [product.id, product]));
+      const categoryIds = new Set(categories.map((category) => category.id));
+      const directRevenue: Record<string, number> = {};
+      const uncategorizedRevenue: Record<string, number> = {};
+
+      productMap.forEach((data, productId) => {
+        const product = productById.get(productId);
+        // Variants are filed under their product's category
+        const parent = product?.parentProductId ? productById.get(product.parentProductId) : undefined;
+        const categoryId = parent?.categoryId || product?.categoryId;
+        if (categoryId && categoryIds.has(categoryId)) {
+          directRevenue[categoryId] = (directRevenue[categoryId] || 0) + data.revenue;
+        } else {
+          const name = parent?.category || product?.category || "Uncategorized";
+          uncategorizedRevenue[name] = (uncategorizedRevenue[name] || 0) + data.revenue;
+        }
+      });
+
+      const categoryTotals = rollUpCategoryAmounts(directRevenue, categories);
+      const salesByCategory: SalesReport["salesByCategory"] = [
+        ...flattenCategoryTree(categories)
+          .filter(({ category }) => categoryTotals[category.id])
+          .map(({ category, depth }) => ({
+            categoryId: category.id,
+            categoryName: category.name,
+            depth,
+            revenue: categoryTotals[category.id],
+          })),
+        ...Object.entries(uncategorizedRevenue)
+          .map(([categoryName, revenue]) => ({ categoryName, depth: 0, revenue }))
+          .sort((a, b) => b.revenue - a.revenue),
+      ];
+
       // Aggregate by customer
       const customerMap = new Map<string, { name: string; totalSpent: number; orderCount: number }>();
       
@@ -609,7 +539,7 @@ export class FinanceReportService {
         totalOrders: totalOrderCount || 0,
         averageOrderValue: averageOrderValue || 0,
         salesByProduct: salesByProduct.sort((a, b) => b.revenue - a.revenue) || [],
-        salesByCategory: {}, // Would need product category data
+        salesByCategory,
         salesByCustomer: salesByCustomer.sort((a, b) => b.totalSpent - a.totalSpent) || [],
       };
     } catch (error) {
@@ -620,7 +550,7 @@ export class FinanceReportService {
         totalOrders: 0,
         averageOrderValue: 0,
         salesByProduct: [],
-        salesByCategory: {},
+        salesByCategory: [],
         salesByCustomer: [],
       };
     }
@@ -641,7 +571,7 @@ export class FinanceReportService {
       ]);
 
       // Calculate expenses from actual purchase orders (received)
-      const receivedPOs = purchaseOrders.filter((po) => po.status === "RECEIVED");
+      const receivedPOs = purchaseOrders.filter(hasReceivedGoods);
       const purchaseOrderExpenses = receivedPOs.reduce(
         (sum, po) => sum + (po.receivedTotalAmount ?? po.totalAmount),
         0
@@ -721,5 +651,120 @@ export class FinanceReportService {
       };
     }
   }
-}
 
+  /**
+   * Generate a vendor's statement of account for a date range
+   */
+  static async generateVendorStatement(
+    vendorId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<VendorStatement> {
+    try {
+      const vendor = await VendorService.getVendor(vendorId);
+      if (!vendor) {
+        throw new Error("Vendor not found");
+      }
+
+      const [grns, purchaseOrders, payments, purchaseReturns] = await Promise.all([
+        VendorService.getVendorGRNs(vendorId),
+        VendorService.getAllPurchaseOrders(),
+        VendorService.getVendorPaymentHistory(vendorId),
+        VendorService.getVendorPurchaseReturns(vendorId),
+      ]);
+      const vendorOrders = purchaseOrders.filter((po) => po.vendorId === vendorId);
+
+      return buildVendorStatement(
+        vendor,
+        [
+          ...getReceiptTransactions(grns, vendorOrders),
+          ...getPaymentTransactions(payments),
+          ...getReturnTransactions(purchaseReturns),
+        ],
+        startDate,
+        endDate
+      );
+    } catch (error) {
+      console.error("Error generating vendor statement:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate Aged Payables: what is owed to each vendor, by how long it has been owed
+   * Each vendor's balance is aged against their most recent deliveries, as payments settle
+   * the oldest deliveries first.
+   */
+  static async generateAgedPayables(asOf: Date = new Date()): Promise<AgedPayablesReport> {
+    try {
+      const [vendors, grns, purchaseOrders] = await Promise.all([
+        VendorService.getAllVendors(),
+        VendorService.getAllGRNs(),
+        VendorService.getAllPurchaseOrders(),
+      ]);
+      const receipts = getReceiptTransactions(grns, purchaseOrders);
+      const vendorByOrder = new Map(purchaseOrders.map((po) => [po.id, po.vendorId]));
+
+      let totals = emptyAgingBuckets();
+      const rows = vendors
+        .filter((vendor) => vendor.balance > 0)
+        .map((vendor) => {
+          const charges = receipts
+            .filter((receipt) => receipt.purchaseOrderId && vendorByOrder.get(receipt.purchaseOrderId) === vendor.id)
+            .filter((receipt) => receipt.date <= asOf)
+            .map((receipt) => ({ date: receipt.date, amount: receipt.credit }));
+          const buckets = ageOutstandingBalance(charges, vendor.balance, asOf);
+          totals = addAgingBuckets(totals, buckets);
+          return { vendorId: vendor.id, vendorName: vendor.companyName, ...buckets };
+        })
+        .sort((a, b) => b.total - a.total);
+
+      return { asOf, vendors: rows, totals };
+    } catch (error) {
+      console.error("Error generating aged payables:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate Aged Receivables: what each customer owes on credit, by age of the sale
+   */
+  static async generateAgedReceivables(asOf: Date = new Date()): Promise<AgedReceivablesReport> {
+    try {
+      const credits = await CreditService.getAllOutstandingCredits();
+      const creditsByCustomer = new Map<string, typeof credits>();
+      for (const credit of credits) {
+        creditsByCustomer.set(credit.customerId, [...(creditsByCustomer.get(credit.customerId) || []), credit]);
+      }
+
+      let totals = emptyAgingBuckets();
+      const rows: AgedReceivablesReport["customers"] = [];
+      for (const [customerId, customerCredits] of creditsByCustomer) {
+        const customer = await CustomerService.getCustomer(customerId);
+        const charges = customerCredits.map((credit) => ({
+          date: credit.createdAt.toDate(),
+          amount: credit.dueAmount,
+        }));
+        const outstanding = charges.reduce((sum, charge) => sum + charge.amount, 0);
+        const buckets = ageOutstandingBalance(charges, outstanding, asOf);
+        totals = addAgingBuckets(totals, buckets);
+
+        // Only include creditLimit if the customer has one
+        const row: AgedReceivablesReport["customers"][number] = {
+          customerId,
+          customerName: customer?.name || "Unknown Customer",
+          ...buckets,
+        };
+        if (customer?.creditLimit !== undefined) {
+          row.creditLimit = customer.creditLimit;
+        }
+        rows.push(row);
+      }
+
+      return { asOf, customers: rows.sort((a, b) => b.total - a.total), totals };
+    } catch (error) {
+      console.error("Error generating aged receivables:", error);
+      throw error;
+    }
+  }
+}
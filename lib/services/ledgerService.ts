@@ -8,19 +8,33 @@ import {
   where,
   orderBy,
   Timestamp,
+  Transaction,
   sum,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { LedgerEntry, LedgerEntryType, LedgerCategory, PaymentMethod } from "@/lib/types";
+import { JournalSource, LedgerEntry, LedgerEntryType, LedgerCategory, PaymentMethod } from "@/lib/types";
+import { ACCOUNTS, getExpenseAccount, getPaymentAccount } from "@/lib/utils/accounting";
+import { AccountingService } from "./accountingService";
 
 export class LedgerService {
   /**
    * Create a ledger entry
+   * When a transaction is passed, the entry is written as part of it instead of immediately
    */
   static async createEntry(
-    entry: Omit<LedgerEntry, "id" | "createdAt">
+    entry: Omit<LedgerEntry, "id" | "createdAt">,
+    transaction?: Transaction
   ): Promise<string> {
     try {
+      if (transaction) {
+        const entryRef = doc(collection(db, "finance_ledger"));
+        transaction.set(entryRef, {
+          ...entry,
+          createdAt: Timestamp.now(),
+        });
+        return entryRef.id;
+      }
+
       const entryRef = await addDoc(collection(db, "finance_ledger"), {
         ...entry,
         createdAt: Timestamp.now(),
@@ -34,39 +48,210 @@ export class LedgerService {
 
   /**
    * Auto-post income entry for a sale
+   * Also journals the sale: money received (or receivable) against revenue and output VAT,
+   * and the cost of the goods out of inventory. Without details the sale is treated as fully
+   * paid and untaxed.
    */
   static async postSaleIncome(
     saleId: string,
     amount: number,
     paymentMethod: PaymentMethod,
-    performedBy: string
+    performedBy: string,
+    transaction?: Transaction,
+    details?: { paidAmount?: number; costOfGoods?: number; tax?: number; source?: JournalSource }
   ): Promise<string> {
-    return this.createEntry({
-      date: Timestamp.now(),
-      type: "INCOME",
-      category: "SALES",
-      amount,
-      description: `Sale #${saleId}`,
-      relatedId: saleId,
-      paymentMethod,
-      performedBy,
-    });
+    // The paid part of a credit sale is taken in cash at the till
+    const paidAmount = details?.paidAmount ?? (paymentMethod === "CREDIT" ? 0 : amount);
+    const paidAccount = getPaymentAccount(paymentMethod === "CREDIT" ? "CASH" : paymentMethod, "IN");
+    const costOfGoods = details?.costOfGoods ?? 0;
+    const tax = details?.tax ?? 0;
+
+    await AccountingService.postJournalEntry(
+      {
+        source: details?.source ?? "SALE",
+        description: `${details?.source === "ORDER" ? "Order" : "Sale"} #${saleId}`,
+        lines: [
+          { accountCode: paidAccount, debit: paidAmount, credit: 0 },
+          { accountCode: ACCOUNTS.RECEIVABLES, debit: amount - paidAmount, credit: 0 },
+          { accountCode: ACCOUNTS.SALES, debit: 0, credit: amount - tax },
+          { accountCode: ACCOUNTS.VAT, debit: 0, credit: tax },
+          { accountCode: ACCOUNTS.COST_OF_GOODS, debit: costOfGoods, credit: 0 },
+          { accountCode: ACCOUNTS.INVENTORY, debit: 0, credit: costOfGoods },
+        ],
+        relatedId: saleId,
+        performedBy,
+      },
+      transaction
+    );
+
+    return this.createEntry(
+      {
+        date: Timestamp.now(),
+        type: "INCOME",
+        category: "SALES",
+        amount,
+        description: `Sale #${saleId}`,
+        relatedId: saleId,
+        paymentMethod,
+        performedBy,
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Auto-post reversing entries for sale income recorded against a sale or order
+   * Reversals are negative SALES income linked by the same relatedId, so the net income for
+   * that relatedId returns to zero. Safe to call more than once - only the unreversed
+   * balance is reversed. When a transaction is passed, the existing entries are read first
+   * and the reversals are written as part of it.
+   */
+  static async reverseSaleIncome(
+    relatedId: string,
+    performedBy: string,
+    reason?: string,
+    transaction?: Transaction
+  ): Promise<string[]> {
+    try {
+      const entries = await this.getEntriesByRelatedId(relatedId);
+      const saleEntries = entries.filter(
+        (entry) => entry.type === "INCOME" && entry.category === "SALES"
+      );
+
+      // Net per payment method, so each reversal mirrors the original posting
+      const netByMethod = new Map<PaymentMethod, number>();
+      saleEntries.forEach((entry) => {
+        netByMethod.set(entry.paymentMethod, (netByMethod.get(entry.paymentMethod) || 0) + entry.amount);
+      });
+
+      // The journal reversal reads its entries before anything below is written
+      await AccountingService.reverseJournalEntries(relatedId, performedBy, reason, transaction);
+
+      const originalEntryId = saleEntries.find((entry) => entry.amount > 0 && !entry.reversalOf)?.id;
+      const reversalIds: string[] = [];
+      for (const [paymentMethod, net] of netByMethod) {
+        if (net <= 0) continue;
+        const entry: Omit<LedgerEntry, "id" | "createdAt"> = {
+          date: Timestamp.now(),
+          type: "INCOME",
+          category: "SALES",
+          amount: -net,
+          description: `Reversal of Sale #${relatedId}${reason ? ` (${reason})` : ""}`,
+          relatedId,
+          paymentMethod,
+          performedBy,
+        };
+        if (originalEntryId) {
+          entry.reversalOf = originalEntryId;
+        }
+        reversalIds.push(await this.createEntry(entry, transaction));
+      }
+
+      return reversalIds;
+    } catch (error) {
+      console.error("Error reversing sale income:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Auto-post refund entry for a sales return (reverses sale income)
+   * A CREDIT refund is journalled against the customer's receivable rather than money;
+   * tax is the part of the amount that reverses output VAT
+   */
+  static async postSaleRefund(
+    returnId: string,
+    saleId: string,
+    amount: number,
+    paymentMethod: PaymentMethod,
+    performedBy: string,
+    transaction?: Transaction,
+    tax = 0
+  ): Promise<string> {
+    await AccountingService.postJournalEntry(
+      {
+        source: "SALE_RETURN",
+        description: `Refund for Sale #${saleId} (Return #${returnId})`,
+        lines: [
+          { accountCode: ACCOUNTS.SALES_RETURNS, debit: amount - tax, credit: 0 },
+          { accountCode: ACCOUNTS.VAT, debit: tax, credit: 0 },
+          { accountCode: getPaymentAccount(paymentMethod, "IN"), debit: 0, credit: amount },
+        ],
+        relatedId: returnId,
+        performedBy,
+      },
+      transaction
+    );
+
+    return this.createEntry(
+      {
+        date: Timestamp.now(),
+        type: "EXPENSE",
+        category: "REFUND",
+        amount,
+        description: `Refund for Sale #${saleId} (Return #${returnId})`,
+        relatedId: returnId,
+        paymentMethod,
+        performedBy,
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Journal returned goods back into inventory at cost
+   */
+  static async postReturnedStock(
+    returnId: string,
+    saleId: string,
+    costOfGoods: number,
+    performedBy: string,
+    transaction?: Transaction
+  ): Promise<string | null> {
+    return AccountingService.postJournalEntry(
+      {
+        source: "SALE_RETURN",
+        description: `Stock returned from Sale #${saleId} (Return #${returnId})`,
+        lines: [
+          { accountCode: ACCOUNTS.INVENTORY, debit: costOfGoods, credit: 0 },
+          { accountCode: ACCOUNTS.COST_OF_GOODS, debit: 0, credit: costOfGoods },
+        ],
+        relatedId: returnId,
+        performedBy,
+      },
+      transaction
+    );
   }
 
   /**
    * Auto-post expense entry for a purchase
+   * Received goods are journalled into inventory; they only become an expense once sold.
+   * Input tax is claimed against VAT and owed to the vendor on top of the goods amount
    */
   static async postPurchaseExpense(
     purchaseOrderId: string,
     amount: number,
     paymentMethod: PaymentMethod,
-    performedBy: string
+    performedBy: string,
+    tax = 0
   ): Promise<string> {
+    await AccountingService.postJournalEntry({
+      source: "GRN",
+      description: `Goods received for Purchase Order #${purchaseOrderId}`,
+      lines: [
+        { accountCode: ACCOUNTS.INVENTORY, debit: amount, credit: 0 },
+        { accountCode: ACCOUNTS.VAT, debit: tax, credit: 0 },
+        { accountCode: getPaymentAccount(paymentMethod, "OUT"), debit: 0, credit: amount + tax },
+      ],
+      relatedId: purchaseOrderId,
+      performedBy,
+    });
+
     return this.createEntry({
       date: Timestamp.now(),
       type: "EXPENSE",
       category: "PURCHASE",
-      amount,
+      amount: amount + tax,
       description: `Purchase Order #${purchaseOrderId}`,
       relatedId: purchaseOrderId,
       paymentMethod,
@@ -74,8 +259,228 @@ export class LedgerService {
     });
   }
 
+  /**
+   * Auto-post a purchase return (debit note) against a purchase order
+   * Reverses the purchase: the vendor owes us (or we owe them less) and the goods and input tax
+   * come back out of inventory and VAT. The journal entry is linked to the purchase return document.
+   */
+  static async postPurchaseReturn(
+    returnId: string,
+    debitNoteNumber: string,
+    purchaseOrderId: string,
+    amount: number,
+    performedBy: string,
+    tax = 0
+  ): Promise<string> {
+    await AccountingService.postJournalEntry({
+      source: "PURCHASE_RETURN",
+      description: `Goods returned on Purchase Order #${purchaseOrderId} (Debit Note #${debitNoteNumber})`,
+      lines: [
+        { accountCode: ACCOUNTS.PAYABLES, debit: amount + tax, credit: 0 },
+        { accountCode: ACCOUNTS.INVENTORY, debit: 0, credit: amount },
+        { accountCode: ACCOUNTS.VAT, debit: 0, credit: tax },
+      ],
+      relatedId: returnId,
+      performedBy,
+    });
+
+    return this.createEntry({
+      date: Timestamp.now(),
+      type: "EXPENSE",
+      category: "PURCHASE",
+      amount: -(amount + tax),
+      description: `Return on Purchase Order #${purchaseOrderId} (Debit Note #${debitNoteNumber})`,
+      relatedId: purchaseOrderId,
+      paymentMethod: "CREDIT",
+      performedBy,
+    });
+  }
+
+  /**
+   * Journal a payment to a vendor against their payable balance
+   */
+  static async postVendorPayment(
+    vendorId: string,
+    amount: number,
+    paymentMethod: PaymentMethod,
+    performedBy: string
+  ): Promise<string | null> {
+    return AccountingService.postJournalEntry({
+      source: "VENDOR_PAYMENT",
+      description: `Payment to Vendor #${vendorId}`,
+      lines: [
+        { accountCode: ACCOUNTS.PAYABLES, debit: amount, credit: 0 },
+        { accountCode: getPaymentAccount(paymentMethod, "OUT"), debit: 0, credit: amount },
+      ],
+      relatedId: vendorId,
+      performedBy,
+    });
+  }
+
+  /**
+   * Journal money collected against a customer's credit
+   * @param paymentId The customer payment, which may settle several credits
+   */
+  static async postCreditSettlement(
+    paymentId: string,
+    amount: number,
+    paymentMethod: PaymentMethod,
+    performedBy: string,
+    transaction?: Transaction
+  ): Promise<string | null> {
+    return AccountingService.postJournalEntry(
+      {
+        source: "CREDIT_SETTLEMENT",
+        description: `Credit settlement #${paymentId}`,
+        lines: [
+          { accountCode: getPaymentAccount(paymentMethod, "IN"), debit: amount, credit: 0 },
+          { accountCode: ACCOUNTS.RECEIVABLES, debit: 0, credit: amount },
+        ],
+        relatedId: paymentId,
+        performedBy,
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Post the over/short found when a cash drawer shift is closed
+   * Cash over is income, cash short is an expense; both are journalled against Cash Over/Short
+   */
+  static async postCashVariance(
+    shiftId: string,
+    variance: number,
+    performedBy: string,
+    transaction?: Transaction
+  ): Promise<string | null> {
+    if (variance === 0) {
+      return null;
+    }
+
+    const amount = Math.abs(variance);
+    const description = `Cash ${variance > 0 ? "over" : "short"} on shift #${shiftId}`;
+    await AccountingService.postJournalEntry(
+      {
+        source: "SHIFT",
+        description,
+        lines:
+          variance > 0
+            ? [
+                { accountCode: ACCOUNTS.CASH, debit: amount, credit: 0 },
+                { accountCode: ACCOUNTS.CASH_OVER_SHORT, debit: 0, credit: amount },
+              ]
+            : [
+                { accountCode: ACCOUNTS.CASH_OVER_SHORT, debit: amount, credit: 0 },
+                { accountCode: ACCOUNTS.CASH, debit: 0, credit: amount },
+              ],
+        relatedId: shiftId,
+        performedBy,
+      },
+      transaction
+    );
+
+    return this.createEntry(
+      {
+        date: Timestamp.now(),
+        type: variance > 0 ? "INCOME" : "EXPENSE",
+        category: "OTHER",
+        amount,
+        description,
+        relatedId: shiftId,
+        paymentMethod: "CASH",
+        performedBy,
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Journal a change in the value of stock that wasn't bought or sold (e.g., lost in transit)
+   * Losses are expensed to Inventory Shrinkage; gains are credited back to it. Also recorded in the
+   * ledger so shrinkage shows in the daily P&L and expense report
+   * @param value Signed change in inventory value: negative for a loss, positive for a gain
+   */
+  static async postInventoryVariance(
+    referenceId: string,
+    value: number,
+    description: string,
+    performedBy: string
+  ): Promise<string | null> {
+    if (value === 0) {
+      return null;
+    }
+
+    const amount = Math.abs(value);
+    await AccountingService.postJournalEntry({
+      source: "STOCK",
+      description,
+      lines:
+        value < 0
+          ? [
+              { accountCode: ACCOUNTS.INVENTORY_SHRINKAGE, debit: amount, credit: 0 },
+              { accountCode: ACCOUNTS.INVENTORY, debit: 0, credit: amount },
+            ]
+          : [
+              { accountCode: ACCOUNTS.INVENTORY, debit: amount, credit: 0 },
+              { accountCode: ACCOUNTS.INVENTORY_SHRINKAGE, debit: 0, credit: amount },
+            ],
+      relatedId: referenceId,
+      performedBy,
+    });
+
+    // No money changes hands, so it's recorded like other non-cash entries
+    return this.createEntry({
+      date: Timestamp.now(),
+      type: value > 0 ? "INCOME" : "EXPENSE",
+      category: "OTHER",
+      amount,
+      description,
+      relatedId: referenceId,
+      paymentMethod: "CREDIT",
+      performedBy,
+    });
+  }
+
+  /**
+   * Journal stock brought onto the books rather than bought, against Opening Balance Equity
+   * @param value Value of the stock; negative takes an overstatement back off Inventory
+   */
+  static async postOpeningStock(
+    referenceId: string,
+    value: number,
+    description: string,
+    performedBy: string,
+    transaction?: Transaction
+  ): Promise<string | null> {
+    if (value === 0) {
+      return null;
+    }
+
+    const amount = Math.abs(value);
+    return AccountingService.postJournalEntry(
+      {
+        source: "OPENING",
+        description,
+        lines:
+          value > 0
+            ? [
+                { accountCode: ACCOUNTS.INVENTORY, debit: amount, credit: 0 },
+                { accountCode: ACCOUNTS.OPENING_BALANCE_EQUITY, debit: 0, credit: amount },
+              ]
+            : [
+                { accountCode: ACCOUNTS.OPENING_BALANCE_EQUITY, debit: amount, credit: 0 },
+                { accountCode: ACCOUNTS.INVENTORY, debit: 0, credit: amount },
+              ],
+        relatedId: referenceId,
+        performedBy,
+      },
+      transaction
+    );
+  }
+
   /**
    * Create manual expense entry
+   * Salaries, rent and other expenses are journalled against the matching expense account
    */
   static async createExpense(
     category: LedgerCategory,
@@ -84,6 +489,16 @@ export class LedgerService {
     paymentMethod: PaymentMethod,
     performedBy: string
   ): Promise<string> {
+    await AccountingService.postJournalEntry({
+      source: "EXPENSE",
+      description,
+      lines: [
+        { accountCode: getExpenseAccount(category), debit: amount, credit: 0 },
+        { accountCode: getPaymentAccount(paymentMethod, "OUT"), debit: 0, credit: amount },
+      ],
+      performedBy,
+    });
+
     return this.createEntry({
       date: Timestamp.now(),
       type: "EXPENSE",
@@ -173,6 +588,24 @@ export class LedgerService {
     }
   }
 
+  /**
+   * Get all ledger entries linked to a sale, order, employee or vendor
+   */
+  static async getEntriesByRelatedId(relatedId: string): Promise<LedgerEntry[]> {
+    try {
+      const q = query(collection(db, "finance_ledger"), where("relatedId", "==", relatedId));
+      const querySnapshot = await getDocs(q);
+      const entries: LedgerEntry[] = [];
+      querySnapshot.forEach((doc) => {
+        entries.push({ id: doc.id, ...doc.data() } as LedgerEntry);
+      });
+      return entries;
+    } catch (error) {
+      console.error("Error fetching ledger entries by related ID:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get day book (all transactions for today)
    */
@@ -0,0 +1,201 @@
+// Offline Service - Local catalogue cache and queued POS sales for when the shop is offline
+import { Timestamp } from "firebase/firestore";
+import { FirebaseError } from "firebase/app";
+import { QueuedSale, Sale } from "@/lib/types";
+import { SaleService } from "./saleService";
+
+const QUEUE_KEY = "posSaleQueue";
+const CACHE_PREFIX = "posCache:";
+
+// Firestore error codes that mean "couldn't reach the server", not "the sale was rejected"
+const NETWORK_ERROR_CODES = ["unavailable", "deadline-exceeded", "cancelled"];
+
+export type OfflineCacheKey = "products" | "customers" | "shift" | "pricing" | "tax";
+
+export class OfflineService {
+  private static syncing = false;
+
+  /**
+   * Save data the POS needs to keep working offline
+   * Firestore Timestamps come back from the cache as plain { seconds, nanoseconds } objects.
+   */
+  static cacheData(key: OfflineCacheKey, data: unknown): void {
+    try {
+      localStorage.setItem(CACHE_PREFIX + key, JSON.stringify(data));
+    } catch (error) {
+      // Quota exceeded or storage disabled - the POS still works online
+      console.warn(`Failed to cache ${key}:`, error);
+    }
+  }
+
+  /**
+   * Get data saved by cacheData, or null if nothing has been cached yet
+   */
+  static getCachedData<T>(key: OfflineCacheKey): T | null {
+    try {
+      const data = localStorage.getItem(CACHE_PREFIX + key);
+      return data ? (JSON.parse(data) as T) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether an error means the server couldn't be reached
+   */
+  static isNetworkError(error: unknown): boolean {
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      return true;
+    }
+    return error instanceof FirebaseError && NETWORK_ERROR_CODES.includes(error.code);
+  }
+
+  /**
+   * Generate a receipt number at the till, without needing the server
+   */
+  static generateReceiptNumber(): string {
+    const timestamp = Date.now();
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+    return `RCP-${timestamp}-${random}`;
+  }
+
+  /**
+   * Get queued sales, oldest first
+   */
+  static getQueue(): QueuedSale[] {
+    try {
+      return JSON.parse(localStorage.getItem(QUEUE_KEY) || "[]") as QueuedSale[];
+    } catch {
+      return [];
+    }
+  }
+
+  private static saveQueue(queue: QueuedSale[]): void {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+
+  /**
+   * Add a sale to the queue to be synced when the connection returns
+   * @param localId ID the sale will be stored under (the same one used for the online attempt)
+   */
+  static queueSale(
+    localId: string,
+    saleData: Omit<Sale, "id" | "createdAt">,
+    customerId?: string,
+    warehouseId?: string
+  ): QueuedSale {
+    // Only include optional fields if they're defined - the sale is written to Firestore as-is
+    const queued: QueuedSale = {
+      localId,
+      receiptNumber: saleData.receiptNumber || this.generateReceiptNumber(),
+      saleData,
+      queuedAt: new Date().toISOString(),
+      status: "PENDING",
+    };
+    if (customerId) {
+      queued.customerId = customerId;
+    }
+    if (warehouseId) {
+      queued.warehouseId = warehouseId;
+    }
+
+    this.saveQueue([...this.getQueue(), queued]);
+    return queued;
+  }
+
+  /**
+   * Sync pending sales to Firestore in the order they were made
+   * Sales that are rejected (e.g., stock would go negative, duplicate receipt number) are marked
+   * as conflicts for review and the rest carry on; a network error stops the run so the
+   * remaining sales keep their order for the next attempt.
+   */
+  static async syncQueue(): Promise<{ synced: number; conflicts: number; pending: number }> {
+    if (this.syncing) {
+      return this.getQueueCounts(0);
+    }
+
+    this.syncing = true;
+    let synced = 0;
+    try {
+      for (const queued of this.getQueue()) {
+        if (queued.status !== "PENDING") continue;
+
+        try {
+          await this.syncSale(queued);
+          this.saveQueue(this.getQueue().filter((item) => item.localId !== queued.localId));
+          synced++;
+        } catch (error) {
+          if (this.isNetworkError(error)) {
+            break;
+          }
+          this.updateQueuedSale(queued.localId, {
+            status: "CONFLICT",
+            error: error instanceof Error ? error.message : "Sale could not be synced",
+          });
+        }
+      }
+    } finally {
+      this.syncing = false;
+    }
+
+    return this.getQueueCounts(synced);
+  }
+
+  /**
+   * Put a conflicting sale back in the queue (e.g., after correcting stock) and sync again
+   */
+  static async retryQueuedSale(localId: string): Promise<{ synced: number; conflicts: number; pending: number }> {
+    const queue = this.getQueue().map((item) => {
+      if (item.localId !== localId) return item;
+      const retried: QueuedSale = { ...item, status: "PENDING" };
+      delete retried.error;
+      return retried;
+    });
+    this.saveQueue(queue);
+    return this.syncQueue();
+  }
+
+  /**
+   * Remove a sale from the queue without recording it
+   */
+  static discardQueuedSale(localId: string): void {
+    this.saveQueue(this.getQueue().filter((item) => item.localId !== localId));
+  }
+
+  private static updateQueuedSale(localId: string, updates: Partial<QueuedSale>): void {
+    this.saveQueue(this.getQueue().map((item) => (item.localId === localId ? { ...item, ...updates } : item)));
+  }
+
+  private static getQueueCounts(synced: number): { synced: number; conflicts: number; pending: number } {
+    const queue = this.getQueue();
+    return {
+      synced,
+      conflicts: queue.filter((item) => item.status === "CONFLICT").length,
+      pending: queue.filter((item) => item.status === "PENDING").length,
+    };
+  }
+
+  private static async syncSale(queued: QueuedSale): Promise<void> {
+    // An earlier attempt may have committed before the connection dropped
+    const existing = await SaleService.getSale(queued.localId);
+    if (existing) {
+      return;
+    }
+
+    const duplicates = await SaleService.getSalesByReceiptNumber(queued.receiptNumber);
+    if (duplicates.length > 0) {
+      throw new Error(`Receipt number ${queued.receiptNumber} is already used by sale ${duplicates[0].id}`);
+    }
+
+    await SaleService.createSale(
+      {
+        ...queued.saleData,
+        receiptNumber: queued.receiptNumber,
+        offlineRecordedAt: Timestamp.fromDate(new Date(queued.queuedAt)),
+      },
+      queued.customerId,
+      queued.warehouseId,
+      queued.localId
+    );
+  }
+}
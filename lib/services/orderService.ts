@@ -2,7 +2,6 @@
 import {
   collection,
   doc,
-  addDoc,
   updateDoc,
   getDoc,
   getDocs,
@@ -11,11 +10,22 @@ import {
   orderBy,
   Timestamp,
   QueryConstraint,
+  runTransaction,
+  Transaction,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Order, OrderStatus } from "@/lib/types";
+import { Order, OrderItem, OrderStatus, OrderStatusChange, OrderStockStatus, Product } from "@/lib/types";
+import { getCostOfGoods } from "@/lib/utils/accounting";
+import { getCostLayers, getProductCostPrice, issueFromLayers, receiveIntoLayers } from "@/lib/utils/costing";
+import { allocateStock } from "@/lib/utils/stockAllocation";
+import { expandBundleItems, getBundleComponentIds } from "@/lib/utils/bundles";
+import { calculateTaxes, getProductTaxRate, isProductTaxInclusive } from "@/lib/utils/tax";
+import { CostingService } from "./costingService";
 import { LoyaltyService } from "./loyaltyService";
 import { LedgerService } from "./ledgerService";
+import { TaxService } from "./taxService";
+import { StockMovementService } from "./stockMovementService";
+import { WarehouseService } from "./warehouseService";
 
 export class OrderService {
   /**
@@ -49,14 +59,6 @@ export class OrderService {
             orderData.total,
             rules.earnRate
           );
-
-          // Update customer loyalty points
-          if (loyaltyPointsEarned > 0 || loyaltyPointsUsed > 0) {
-            await LoyaltyService.updateCustomerPoints(
-              orderData.customerId,
-              loyaltyPointsEarned - loyaltyPointsUsed
-            );
-          }
         }
       }
 
@@ -73,10 +75,16 @@ export class OrderService {
         loyaltyPointsEarned: number;
         loyaltyPointsUsed: number;
         source: "POS" | "ONLINE";
+        stockStatus: OrderStockStatus;
+        statusHistory: OrderStatusChange[];
         createdAt: Timestamp;
         updatedAt: Timestamp;
         customerId?: string;
         notes?: string;
+        tax?: number;
+        promotions?: Order["promotions"];
+        priceListId?: string;
+        priceListName?: string;
       };
 
       const orderDoc: OrderDocument = {
@@ -91,6 +99,14 @@ export class OrderService {
         loyaltyPointsEarned,
         loyaltyPointsUsed,
         source: "ONLINE", // Tag as online order
+        stockStatus: "RESERVED",
+        statusHistory: [
+          {
+            status: orderData.status,
+            performedBy: orderData.customerId || "guest",
+            timestamp: now,
+          },
+        ],
         createdAt: now,
         updatedAt: now,
       };
@@ -104,8 +120,91 @@ export class OrderService {
       if (orderData.notes) {
         orderDoc.notes = orderData.notes;
       }
+      if (orderData.promotions && orderData.promotions.length > 0) {
+        orderDoc.promotions = orderData.promotions;
+      }
+      if (orderData.priceListId) {
+        orderDoc.priceListId = orderData.priceListId;
+        orderDoc.priceListName = orderData.priceListName;
+      }
+
+      // Reserve stock and create the order together so an order can never exist
+      // for stock that was never held
+      const orderRef = doc(collection(db, "orders"));
+      const warehouseOrder = await WarehouseService.getAllocationOrder();
+      const taxSettings = await TaxService.getTaxSettings();
+
+      await runTransaction(db, async (transaction) => {
+        const products = await this.getOrderProducts(transaction, orderData.items);
+        // Bundles are held and shipped as their components
+        const orderItems = expandBundleItems(orderData.items, products);
+        const reservedQuantities: Record<string, number> = {};
+
+        const reservedItems: OrderItem[] = orderItems.map((item) => {
+          const product = products.get(item.productId);
+          if (!product) {
+            throw new Error(`${item.productName} is no longer available`);
+          }
+
+          const { allocations, shortfall } = allocateStock(product, item.quantity, warehouseOrder);
+          if (shortfall > 0) {
+            throw new Error(
+              `Only ${item.quantity - shortfall} of ${item.productName} available`
+            );
+          }
+
+          // Hold the units so later allocations in this order see them as taken
+          for (const allocation of allocations) {
+            const warehouse = product.warehouses[allocation.warehouseId];
+            warehouse.reserved = (warehouse.reserved || 0) + allocation.quantity;
+            reservedQuantities[item.productId] = (reservedQuantities[item.productId] || 0) + allocation.quantity;
+          }
 
-      const orderRef = await addDoc(collection(db, "orders"), orderDoc);
+          // Tax is always taken from the product as stored, not from what the cart sent - a
+          // bundle component is taxed as the bundle it was sold in
+          const taxProduct = (item.bundle && products.get(item.bundle.productId)) || product;
+          const taxRate = getProductTaxRate(taxProduct, taxSettings);
+          if (taxRate > 0) {
+            return {
+              ...item,
+              allocations,
+              taxRate,
+              taxInclusive: isProductTaxInclusive(taxProduct, taxSettings),
+            };
+          }
+          return { ...item, allocations };
+        });
+
+        const taxed = calculateTaxes(reservedItems, orderData.discount);
+        const items = taxed.items.map(({ taxAmount, ...item }) =>
+          item.taxRate ? { ...item, taxAmount } : item
+        );
+
+        // Only products with units held are written, each naming the order that holds them so the
+        // security rules can check a guest's reservation against the order it was made for
+        Object.keys(reservedQuantities).forEach((productId) => {
+          transaction.update(doc(db, "products", productId), {
+            warehouses: products.get(productId)!.warehouses,
+            reservedFor: orderRef.id,
+            updatedAt: Timestamp.now(),
+          });
+        });
+        transaction.set(orderRef, {
+          ...orderDoc,
+          reservedQuantities,
+          items,
+          total: taxed.total,
+          ...(taxed.tax > 0 ? { tax: taxed.tax } : {}),
+        });
+      });
+
+      // Update customer loyalty points once the order is placed
+      if (orderData.customerId && (loyaltyPointsEarned > 0 || loyaltyPointsUsed > 0)) {
+        await LoyaltyService.updateCustomerPoints(
+          orderData.customerId,
+          loyaltyPointsEarned - loyaltyPointsUsed
+        );
+      }
 
       // Create ledger entry for order (income when confirmed)
       // We'll create it when order is confirmed, not on creation
@@ -282,13 +381,65 @@ export class OrderService {
     return this.getAllOrders({ customerId });
   }
 
+  /**
+   * Allowed status transitions - anything not listed here is rejected
+   */
+  static readonly STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    PENDING: ["CONFIRMED", "CANCELLED"],
+    CONFIRMED: ["SHIPPED", "COMPLETED", "CANCELLED"],
+    SHIPPED: ["COMPLETED", "CANCELLED"],
+    COMPLETED: [],
+    CANCELLED: [],
+  };
+
+  /**
+   * Check whether an order may move from one status to another
+   */
+  static canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return this.STATUS_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Get an order's status history, oldest first
+   * Orders created before history was recorded get one rebuilt from their status timestamps
+   */
+  static getStatusHistory(order: Order): OrderStatusChange[] {
+    if (order.statusHistory && order.statusHistory.length > 0) {
+      return order.statusHistory;
+    }
+
+    const history: OrderStatusChange[] = [
+      { status: "PENDING", performedBy: order.customerId || "guest", timestamp: order.createdAt },
+    ];
+    const milestones: Array<[OrderStatus, Timestamp | undefined]> = [
+      ["CONFIRMED", order.confirmedAt],
+      ["SHIPPED", order.shippedAt],
+      ["COMPLETED", order.completedAt],
+      ["CANCELLED", order.cancelledAt],
+    ];
+    milestones
+      .filter((milestone): milestone is [OrderStatus, Timestamp] => !!milestone[1])
+      .sort((x, y) => x[1].toMillis() - y[1].toMillis())
+      .forEach(([status, timestamp]) => {
+        history.push({
+          status,
+          from: history[history.length - 1].status,
+          performedBy: order.performedBy || "system",
+          timestamp,
+        });
+      });
+    return history;
+  }
+
   /**
    * Update order status
+   * Rejects transitions not allowed by STATUS_TRANSITIONS and appends the change to statusHistory
    */
   static async updateOrderStatus(
     orderId: string,
     status: OrderStatus,
-    performedBy?: string
+    performedBy?: string,
+    note?: string
   ): Promise<void> {
     try {
       type OrderUpdateData = {
@@ -302,9 +453,10 @@ export class OrderService {
         processedBy?: string; // For backward compatibility
       };
 
+      const now = Timestamp.now();
       const updateData: OrderUpdateData = {
         status,
-        updatedAt: Timestamp.now(),
+        updatedAt: now,
       };
 
       // Always save performedBy if provided (who performed this status update)
@@ -321,39 +473,226 @@ export class OrderService {
 
       // Set timestamp based on status
       if (status === "CONFIRMED") {
-        updateData.confirmedAt = Timestamp.now();
-        // Create ledger entry when order is confirmed
-        const order = await this.getOrder(orderId);
-        if (order) {
+        updateData.confirmedAt = now;
+      } else if (status === "SHIPPED") {
+        updateData.shippedAt = now;
+      } else if (status === "COMPLETED") {
+        updateData.completedAt = now;
+      } else if (status === "CANCELLED") {
+        updateData.cancelledAt = now;
+      }
+
+      const costingMethod = await CostingService.getCostingMethod();
+
+      // Status and stock move together: reserved stock is deducted when the order ships
+      // or completes, and handed back when it is cancelled
+      const previousOrder = await runTransaction(db, async (transaction) => {
+        const orderRef = doc(db, "orders", orderId);
+        const orderDoc = await transaction.get(orderRef);
+        if (!orderDoc.exists()) {
+          throw new Error("Order not found");
+        }
+        const order = { id: orderDoc.id, ...orderDoc.data() } as Order;
+
+        if (!this.canTransition(order.status, status)) {
+          throw new Error(`Cannot change order status from ${order.status} to ${status}`);
+        }
+
+        let nextStockStatus: OrderStockStatus | undefined;
+        if ((status === "SHIPPED" || status === "COMPLETED") && order.stockStatus === "RESERVED") {
+          nextStockStatus = "COMMITTED";
+        } else if (
+          status === "CANCELLED" &&
+          (order.stockStatus === "RESERVED" || order.stockStatus === "COMMITTED")
+        ) {
+          nextStockStatus = "RELEASED";
+        }
+
+        // Goods are costed when the order is confirmed (that's when income is posted), and put
+        // back into the cost layers at that cost if a confirmed order is cancelled
+        const costed = order.items.some((item) => item.costOfGoods !== undefined);
+        const restoreCost = status === "CANCELLED" && costed;
+
+        // Products are also needed on confirmation to value the goods sold
+        const products =
+          nextStockStatus || status === "CONFIRMED" || restoreCost
+            ? await this.getOrderProducts(transaction, order.items)
+            : new Map<string, Product>();
+
+        let items = order.items;
+        if (status === "CONFIRMED" && !costed) {
+          items = order.items.map((item) => {
+            const product = products.get(item.productId);
+            if (!product) return item;
+            const issued = issueFromLayers(getCostLayers(product), item.quantity, costingMethod, product.costPrice);
+            product.costLayers = issued.layers;
+            product.costPrice = getProductCostPrice(issued.layers, costingMethod, product.costPrice);
+            return {
+              ...item,
+              unitCost: item.quantity > 0 ? issued.cost / item.quantity : 0,
+              costOfGoods: issued.cost,
+            };
+          });
+        } else if (restoreCost) {
+          for (const item of order.items) {
+            const product = products.get(item.productId);
+            if (!product) continue;
+            product.costLayers = receiveIntoLayers(
+              getCostLayers(product),
+              {
+                quantity: item.quantity,
+                unitCost: item.unitCost ?? product.costPrice ?? 0,
+                receivedAt: now,
+                sourceId: orderId,
+              },
+              costingMethod
+            );
+            product.costPrice = getProductCostPrice(product.costLayers, costingMethod, product.costPrice);
+          }
+        }
+        const costOfGoods = getCostOfGoods(items, products);
+
+        // Income is journalled with the status change, so a confirmed or cancelled order
+        // always has its matching entries. Any journal reads happen here, before the writes.
+        if (status === "CONFIRMED") {
           // Map Order paymentMethod to Ledger PaymentMethod
           // Order uses "COD" but Ledger uses "CASH"
-          const ledgerPaymentMethod: "CASH" | "BANK_TRANSFER" | "FONE_PAY" | "CREDIT" = 
+          const ledgerPaymentMethod: "CASH" | "BANK_TRANSFER" | "FONE_PAY" | "CREDIT" =
             order.paymentMethod === "COD" ? "CASH" : order.paymentMethod;
-          
+
           await LedgerService.postSaleIncome(
             orderId,
             order.total,
             ledgerPaymentMethod,
-            performedBy || "system"
+            performedBy || "system",
+            transaction,
+            { costOfGoods, tax: order.tax || 0, source: "ORDER" }
           );
+        } else if (status === "CANCELLED") {
+          // Reverse any income posted when the order was confirmed
+          await LedgerService.reverseSaleIncome(orderId, performedBy || "system", "order cancelled", transaction);
         }
-      } else if (status === "SHIPPED") {
-        updateData.shippedAt = Timestamp.now();
-      } else if (status === "COMPLETED") {
-        updateData.completedAt = Timestamp.now();
-      } else if (status === "CANCELLED") {
-        updateData.cancelledAt = Timestamp.now();
-        // If order was confirmed, we might want to reverse the ledger entry
-        // For now, we'll leave it as is (cancelled orders still show in ledger)
-      }
 
-      await updateDoc(doc(db, "orders", orderId), updateData);
+        if (nextStockStatus) {
+          const stockBefore = new Map(
+            Array.from(products, ([productId, product]) => [productId, structuredClone(product.warehouses)])
+          );
+          for (const item of order.items) {
+            const product = products.get(item.productId);
+            if (!product) continue;
+            for (const allocation of item.allocations || []) {
+              const warehouse = product.warehouses[allocation.warehouseId];
+              if (!warehouse) continue;
+              if (order.stockStatus === "RESERVED") {
+                // Reserved units are either shipped out or simply un-held
+                warehouse.reserved = Math.max(0, (warehouse.reserved || 0) - allocation.quantity);
+                if (nextStockStatus === "COMMITTED") {
+                  warehouse.quantity -= allocation.quantity;
+                }
+              } else {
+                // Committed units were already deducted, so cancelling puts them back on the shelf
+                warehouse.quantity += allocation.quantity;
+              }
+            }
+          }
+
+          // Only shipping and cancelling shipped goods move stock; reservations don't
+          for (const [productId, product] of products) {
+            await StockMovementService.recordChanges(
+              transaction,
+              product,
+              stockBefore.get(productId) || {},
+              product.warehouses,
+              {
+                type: nextStockStatus === "COMMITTED" ? "ORDER" : "ORDER_CANCEL",
+                performedBy: performedBy || "system",
+                referenceId: orderId,
+              }
+            );
+          }
+        }
+        if (nextStockStatus || items !== order.items || restoreCost) {
+          this.writeProductStock(transaction, products);
+        }
+
+        // Loyalty is rolled back at most once, the first time the order is cancelled
+        const reverseLoyalty =
+          status === "CANCELLED" && !!order.customerId && !order.loyaltyReversed;
+
+        // Build history entry - only include note if defined (Firestore doesn't allow undefined)
+        const statusChange: OrderStatusChange = {
+          status,
+          from: order.status,
+          performedBy: performedBy || "system",
+          timestamp: now,
+        };
+        if (note) {
+          statusChange.note = note;
+        }
+
+        transaction.update(orderRef, {
+          ...updateData,
+          ...(items !== order.items ? { items } : {}),
+          statusHistory: [...this.getStatusHistory(order), statusChange],
+          ...(nextStockStatus ? { stockStatus: nextStockStatus } : {}),
+          ...(reverseLoyalty ? { loyaltyReversed: true } : {}),
+        });
+
+        return { order, reverseLoyalty };
+      });
+
+      if (status === "CANCELLED") {
+        // Give back redeemed points and take back points earned from this order
+        const { order, reverseLoyalty } = previousOrder;
+        const pointsChange = (order.loyaltyPointsUsed || 0) - (order.loyaltyPointsEarned || 0);
+        if (reverseLoyalty && order.customerId && pointsChange !== 0) {
+          await LoyaltyService.updateCustomerPoints(order.customerId, pointsChange);
+        }
+      }
     } catch (error) {
       console.error("Error updating order status:", error);
       throw error;
     }
   }
 
+  /**
+   * Read the products referenced by order items inside a transaction, with the components of any bundles
+   */
+  private static async getOrderProducts(
+    transaction: Transaction,
+    items: OrderItem[]
+  ): Promise<Map<string, Product>> {
+    const products = new Map<string, Product>();
+    const readProducts = async (productIds: Iterable<string>) => {
+      for (const productId of productIds) {
+        if (products.has(productId)) continue;
+        const productDoc = await transaction.get(doc(db, "products", productId));
+        if (productDoc.exists()) {
+          products.set(productId, { id: productDoc.id, ...productDoc.data() } as Product);
+        }
+      }
+    };
+    await readProducts(new Set(items.map((item) => item.productId)));
+    await readProducts(getBundleComponentIds(products.values()));
+    return products;
+  }
+
+  /**
+   * Write back the (mutated) warehouse stock and cost layers of each product inside a transaction
+   */
+  private static writeProductStock(
+    transaction: Transaction,
+    products: Map<string, Product>
+  ): void {
+    products.forEach((product, productId) => {
+      transaction.update(doc(db, "products", productId), {
+        warehouses: product.warehouses,
+        ...(product.costLayers ? { costLayers: product.costLayers, costPrice: product.costPrice ?? 0 } : {}),
+        updatedAt: Timestamp.now(),
+      });
+    });
+  }
+
   /**
    * Update order notes
    */
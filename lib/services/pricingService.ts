@@ -0,0 +1,281 @@
+// Pricing Service - Price lists and promotions
+import {
+  collection,
+  doc,
+  addDoc,
+  deleteDoc,
+  deleteField,
+  getDoc,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { PriceList, PricingContext, Promotion } from "@/lib/types";
+import { validatePromotion } from "@/lib/utils/pricing";
+import { CategoryService } from "./categoryService";
+
+type PriceListInput = Omit<PriceList, "id" | "createdAt" | "updatedAt">;
+type PromotionInput = Omit<Promotion, "id" | "createdAt" | "updatedAt">;
+
+// Promotion fields that only some types and scopes use
+const OPTIONAL_PROMOTION_FIELDS = [
+  "productIds",
+  "categoryIds",
+  "value",
+  "minSubtotal",
+  "buyQuantity",
+  "getQuantity",
+  "quantityBreaks",
+  "endsAt",
+] as const;
+
+export class PricingService {
+  /**
+   * Get all price lists
+   */
+  static async getAllPriceLists(): Promise<PriceList[]> {
+    try {
+      const querySnapshot = await getDocs(collection(db, "price_lists"));
+      const priceLists: PriceList[] = [];
+      querySnapshot.forEach((doc) => {
+        priceLists.push({ id: doc.id, ...doc.data() } as PriceList);
+      });
+      return priceLists.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error("Error fetching price lists:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a price list by ID
+   */
+  static async getPriceList(priceListId: string): Promise<PriceList | null> {
+    try {
+      const priceListDoc = await getDoc(doc(db, "price_lists", priceListId));
+      if (priceListDoc.exists()) {
+        return { id: priceListDoc.id, ...priceListDoc.data() } as PriceList;
+      }
+      return null;
+    } catch (error) {
+      console.error("Error fetching price list:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a price list
+   */
+  static async createPriceList(priceListData: PriceListInput): Promise<string> {
+    try {
+      this.assertValidPriceList(priceListData);
+
+      // Only include optional fields if defined (Firestore doesn't allow undefined)
+      const data: Omit<PriceList, "id"> = {
+        name: priceListData.name,
+        prices: priceListData.prices,
+        isActive: priceListData.isActive,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      };
+      if (priceListData.description) data.description = priceListData.description;
+      if (priceListData.discountPercent) data.discountPercent = priceListData.discountPercent;
+
+      const priceListRef = await addDoc(collection(db, "price_lists"), data);
+      return priceListRef.id;
+    } catch (error) {
+      console.error("Error creating price list:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a price list
+   */
+  static async updatePriceList(priceListId: string, updates: PriceListInput): Promise<void> {
+    try {
+      this.assertValidPriceList(updates);
+
+      // Optional fields left empty are cleared rather than rejected by Firestore
+      await updateDoc(doc(db, "price_lists", priceListId), {
+        name: updates.name,
+        prices: updates.prices,
+        isActive: updates.isActive,
+        description: updates.description || deleteField(),
+        discountPercent: updates.discountPercent || deleteField(),
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error("Error updating price list:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a price list
+   * Only a list no customer is on can be deleted.
+   */
+  static async deletePriceList(priceListId: string): Promise<void> {
+    try {
+      const customersSnapshot = await getDocs(
+        query(collection(db, "customers"), where("priceListId", "==", priceListId))
+      );
+      if (!customersSnapshot.empty) {
+        throw new Error(`${customersSnapshot.size} customer(s) are still on this price list`);
+      }
+      await deleteDoc(doc(db, "price_lists", priceListId));
+    } catch (error) {
+      console.error("Error deleting price list:", error);
+      throw error;
+    }
+  }
+
+  private static assertValidPriceList(priceList: PriceListInput): void {
+    if (!priceList.name.trim()) {
+      throw new Error("Give the price list a name");
+    }
+    if (priceList.discountPercent !== undefined && (priceList.discountPercent < 0 || priceList.discountPercent > 100)) {
+      throw new Error("Discount off retail must be between 0 and 100");
+    }
+    if (Object.values(priceList.prices).some((price) => !Number.isFinite(price) || price < 0)) {
+      throw new Error("Product prices can't be negative");
+    }
+  }
+
+  /**
+   * Get all promotions, newest first
+   */
+  static async getAllPromotions(): Promise<Promotion[]> {
+    try {
+      const querySnapshot = await getDocs(collection(db, "promotions"));
+      const promotions: Promotion[] = [];
+      querySnapshot.forEach((doc) => {
+        promotions.push({ id: doc.id, ...doc.data() } as Promotion);
+      });
+      return promotions.sort((a, b) => b.startsAt.toMillis() - a.startsAt.toMillis());
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get promotions that are switched on, whatever their dates
+   */
+  static async getActivePromotions(): Promise<Promotion[]> {
+    try {
+      const querySnapshot = await getDocs(query(collection(db, "promotions"), where("isActive", "==", true)));
+      const promotions: Promotion[] = [];
+      querySnapshot.forEach((doc) => {
+        promotions.push({ id: doc.id, ...doc.data() } as Promotion);
+      });
+      return promotions;
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a promotion
+   */
+  static async createPromotion(promotionData: PromotionInput): Promise<string> {
+    try {
+      const error = validatePromotion(promotionData);
+      if (error) throw new Error(error);
+
+      // Only include optional fields if defined (Firestore doesn't allow undefined)
+      const data: Omit<Promotion, "id"> = {
+        name: promotionData.name,
+        type: promotionData.type,
+        scope: promotionData.scope,
+        startsAt: promotionData.startsAt,
+        isActive: promotionData.isActive,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      };
+      OPTIONAL_PROMOTION_FIELDS.forEach((field) => {
+        if (promotionData[field] !== undefined) Object.assign(data, { [field]: promotionData[field] });
+      });
+
+      const promotionRef = await addDoc(collection(db, "promotions"), data);
+      return promotionRef.id;
+    } catch (error) {
+      console.error("Error creating promotion:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a promotion
+   * Fields the promotion's type or scope doesn't use are cleared.
+   */
+  static async updatePromotion(promotionId: string, updates: PromotionInput): Promise<void> {
+    try {
+      const error = validatePromotion(updates);
+      if (error) throw new Error(error);
+
+      const data: Record<string, unknown> = {
+        name: updates.name,
+        type: updates.type,
+        scope: updates.scope,
+        startsAt: updates.startsAt,
+        isActive: updates.isActive,
+        updatedAt: Timestamp.now(),
+      };
+      OPTIONAL_PROMOTION_FIELDS.forEach((field) => {
+        data[field] = updates[field] ?? deleteField();
+      });
+      await updateDoc(doc(db, "promotions", promotionId), data);
+    } catch (error) {
+      console.error("Error updating promotion:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Switch a promotion on or off
+   */
+  static async setPromotionActive(promotionId: string, isActive: boolean): Promise<void> {
+    try {
+      await updateDoc(doc(db, "promotions", promotionId), { isActive, updatedAt: Timestamp.now() });
+    } catch (error) {
+      console.error("Error updating promotion:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a promotion
+   * Sales and orders keep the name and amount of promotions they used, so nothing else changes.
+   */
+  static async deletePromotion(promotionId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, "promotions", promotionId));
+    } catch (error) {
+      console.error("Error deleting promotion:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Everything needed to price a cart for a customer
+   * @param priceListId The customer's price list; an inactive or missing list means retail prices
+   */
+  static async getPricingContext(priceListId?: string): Promise<PricingContext> {
+    try {
+      const [priceList, promotions, categories] = await Promise.all([
+        priceListId ? this.getPriceList(priceListId) : Promise.resolve(null),
+        this.getActivePromotions(),
+        CategoryService.getAllCategories(),
+      ]);
+      return { priceList: priceList?.isActive ? priceList : null, promotions, categories };
+    } catch (error) {
+      console.error("Error loading pricing:", error);
+      throw error;
+    }
+  }
+}
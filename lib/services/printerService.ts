@@ -1,5 +1,5 @@
 // Printer Service - Business logic for thermal printer operations
-import { PrinterType, PrinterConnection } from "@/lib/types";
+import { PrinterType, PrinterConnection, CashShift, ShiftReport } from "@/lib/types";
 
 export interface PrinterAdapter {
   connect(): Promise<void>;
@@ -195,6 +195,7 @@ export class PrinterService {
     items: Array<{ name: string; quantity: number; price: number }>;
     subtotal: number;
     discount?: number;
+    tax?: number;
     total: number;
     paymentMethod: string;
     footer?: string;
@@ -233,6 +234,11 @@ export class PrinterService {
       receipt += ESCPOSCommands.lineFeed();
     }
 
+    if (receiptData.tax) {
+      receipt += `VAT: Rs ${receiptData.tax.toFixed(2)}`;
+      receipt += ESCPOSCommands.lineFeed();
+    }
+
     receipt += ESCPOSCommands.bold(true);
     receipt += `Total: Rs ${receiptData.total.toFixed(2)}`;
     receipt += ESCPOSCommands.bold(false);
@@ -255,6 +261,66 @@ export class PrinterService {
     await this.adapter.print(data);
   }
 
+  /**
+   * Print an X report (mid-shift snapshot) or a Z report (shift close)
+   */
+  async printShiftReport(shift: CashShift, report: ShiftReport, kind: "X" | "Z"): Promise<void> {
+    if (!this.adapter) {
+      throw new Error("Printer not connected");
+    }
+
+    const line = (label: string, amount: number) => `${label}: Rs ${amount.toFixed(2)}` + ESCPOSCommands.lineFeed();
+
+    let receipt = ESCPOSCommands.initialize();
+    receipt += ESCPOSCommands.center();
+    receipt += ESCPOSCommands.bold(true);
+    receipt += `${kind} REPORT`;
+    receipt += ESCPOSCommands.lineFeed(2);
+    receipt += ESCPOSCommands.bold(false);
+    receipt += ESCPOSCommands.left();
+
+    receipt += `Shift: ${shift.shiftNumber}` + ESCPOSCommands.lineFeed();
+    receipt += `Opened: ${shift.openedAt.toDate().toLocaleString()}` + ESCPOSCommands.lineFeed();
+    if (shift.closedAt) {
+      receipt += `Closed: ${shift.closedAt.toDate().toLocaleString()}` + ESCPOSCommands.lineFeed();
+    }
+    receipt += "Printed: " + new Date().toLocaleString() + ESCPOSCommands.lineFeed();
+    receipt += "--------------------------------" + ESCPOSCommands.lineFeed();
+
+    receipt += `Sales: ${report.salesCount}` + ESCPOSCommands.lineFeed();
+    receipt += line("Sales Total", report.salesTotal);
+    Object.entries(report.paymentBreakdown).forEach(([method, amount]) => {
+      receipt += line(`  ${method}`, amount || 0);
+    });
+    receipt += line("  On Credit", report.creditIssued);
+    receipt += `Returns: ${report.returnsCount}` + ESCPOSCommands.lineFeed();
+    receipt += "--------------------------------" + ESCPOSCommands.lineFeed();
+
+    receipt += line("Opening Float", report.openingFloat);
+    receipt += line("Cash Sales", report.cashSales);
+    receipt += line("Cash Refunds", -report.cashRefunds);
+    receipt += line("Cash In", report.cashIn);
+    receipt += line("Cash Out", -report.cashOut);
+    receipt += ESCPOSCommands.bold(true);
+    receipt += line("Expected Cash", report.expectedCash);
+    receipt += ESCPOSCommands.bold(false);
+
+    if (shift.countedCash !== undefined) {
+      receipt += line("Counted Cash", shift.countedCash);
+      receipt += ESCPOSCommands.bold(true);
+      receipt += line((shift.variance || 0) >= 0 ? "Over" : "Short", Math.abs(shift.variance || 0));
+      receipt += ESCPOSCommands.bold(false);
+    }
+
+    receipt += ESCPOSCommands.lineFeed(3);
+    receipt += ESCPOSCommands.cut();
+
+    const encoder = new TextEncoder();
+    const data = encoder.encode(receipt);
+
+    await this.adapter.print(data);
+  }
+
   async disconnect(): Promise<void> {
     if (this.adapter) {
       await this.adapter.disconnect();
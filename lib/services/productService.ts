@@ -1,44 +1,74 @@
 // Product Service - Business logic for product operations
-import { collection, doc, addDoc, updateDoc, deleteDoc, getDoc, getDocs, query, where, orderBy, Timestamp } from "firebase/firestore";
+import { collection, doc, updateDoc, deleteDoc, getDoc, getDocs, query, where, orderBy, runTransaction, Timestamp, deleteField } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Product, Warehouse } from "@/lib/types";
+import { Product, ProductImportRow, ProductWarehouse, StockMovementDetails, Warehouse } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+import { getCostLayers, getProductCostPrice, issueFromLayers, receiveIntoLayers } from "@/lib/utils/costing";
 import { generateProductQR } from "@/lib/utils/qrCode";
+import { findVariant, getVariantLabel, hasVariants } from "@/lib/utils/variants";
+import { CostingService } from "./costingService";
 import { ImageService } from "./imageService";
+import { LedgerService } from "./ledgerService";
+import { StockMovementService } from "./stockMovementService";
 
 export class ProductService {
   /**
    * Create a new product
+   * Any starting stock is recorded as an opening movement in each warehouse and journalled onto
+   * Inventory at the product's cost price
    */
   static async createProduct(
     productData: Omit<Product, "id" | "createdAt" | "updatedAt" | "trackTrace">,
-    imageFile?: File
+    imageFile?: File,
+    performedBy: string = "system"
   ): Promise<string> {
     try {
-      // Upload image if provided
-      let imageUrl: string | undefined;
+      // Upload image if provided, otherwise keep any image URL passed in (e.g., a variant's parent image)
+      let imageUrl: string | undefined = productData.imageUrl;
       if (imageFile) {
         imageUrl = await ImageService.uploadImage(imageFile, "products");
       }
 
-      // Generate QR code data
-      const qrData = generateProductQR("", productData.sku); // ID will be set after creation
-
-      // Create product document
-      const productRef = await addDoc(collection(db, "products"), {
-        ...productData,
-        imageUrl,
-        trackTrace: {
-          qrCodeUrl: qrData,
-          history: [],
-        },
-        createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
-      });
+      // The ID is known up front so the product, its QR code, opening movements and opening
+      // Inventory entry are all written together
+      const productRef = doc(collection(db, "products"));
+      const openingQuantity = Object.values(productData.warehouses).reduce(
+        (sum, warehouse) => sum + warehouse.quantity,
+        0
+      );
 
-      // Update QR code with actual product ID
-      const updatedQrData = generateProductQR(productRef.id, productData.sku);
-      await updateDoc(productRef, {
-        "trackTrace.qrCodeUrl": updatedQrData,
+      await runTransaction(db, async (transaction) => {
+        transaction.set(productRef, {
+          ...productData,
+          imageUrl,
+          trackTrace: {
+            qrCodeUrl: generateProductQR(productRef.id, productData.sku),
+            history: [],
+          },
+          createdAt: Timestamp.now(),
+          updatedAt: Timestamp.now(),
+        });
+
+        for (const [warehouseId, warehouse] of Object.entries(productData.warehouses)) {
+          if (warehouse.quantity !== 0) {
+            await StockMovementService.recordMovement(
+              { id: productRef.id, name: productData.name },
+              warehouseId,
+              warehouse.quantity,
+              warehouse.quantity,
+              { type: "OPENING", performedBy },
+              transaction
+            );
+          }
+        }
+
+        await LedgerService.postOpeningStock(
+          productRef.id,
+          roundAmount(openingQuantity * (productData.costPrice || 0)),
+          `Opening stock of ${productData.name}`,
+          performedBy,
+          transaction
+        );
       });
 
       return productRef.id;
@@ -48,14 +78,87 @@ export class ProductService {
     }
   }
 
+  /**
+   * Add a variant to a product sold in variants
+   * The variant is a product of its own - with its own SKU, QR code, price, cost and stock - named
+   * after its parent and its option values, and inheriting the parent's category, tax and image.
+   */
+  static async createVariant(
+    parentId: string,
+    variantData: Pick<Product, "sku" | "price" | "costPrice" | "warehouses"> & {
+      variantValues: Record<string, string>;
+    },
+    performedBy: string = "system"
+  ): Promise<string> {
+    const parent = await this.getProduct(parentId);
+    if (!parent || !hasVariants(parent)) {
+      throw new Error("Product is not sold in variants");
+    }
+    const options = parent.variantOptions || [];
+    for (const option of options) {
+      if (!option.values.includes(variantData.variantValues[option.name])) {
+        throw new Error(`Choose a ${option.name} for the variant`);
+      }
+    }
+    const existing = await this.getProductVariants(parentId);
+    if (findVariant(existing, variantData.variantValues)) {
+      throw new Error(`${parent.name} already has a ${getVariantLabel(variantData.variantValues, options)} variant`);
+    }
+
+    // Only include optional fields if defined (Firestore doesn't allow undefined)
+    const productData: Omit<Product, "id" | "createdAt" | "updatedAt" | "trackTrace"> = {
+      sku: variantData.sku,
+      name: `${parent.name} - ${getVariantLabel(variantData.variantValues, options)}`,
+      category: parent.category,
+      price: variantData.price,
+      warehouses: variantData.warehouses,
+      parentProductId: parentId,
+      variantValues: variantData.variantValues,
+      isActive: parent.isActive,
+    };
+    if (parent.categoryId) productData.categoryId = parent.categoryId;
+    if (parent.description) productData.description = parent.description;
+    if (variantData.costPrice !== undefined) productData.costPrice = variantData.costPrice;
+    if (parent.discount !== undefined) productData.discount = parent.discount;
+    if (parent.taxRateId !== undefined) productData.taxRateId = parent.taxRateId;
+    if (parent.taxInclusive !== undefined) productData.taxInclusive = parent.taxInclusive;
+    if (parent.preferredVendorId !== undefined) productData.preferredVendorId = parent.preferredVendorId;
+    if (parent.imageUrl) productData.imageUrl = parent.imageUrl;
+
+    return this.createProduct(productData, undefined, performedBy);
+  }
+
+  /**
+   * Get a product's variants
+   */
+  static async getProductVariants(parentId: string): Promise<Product[]> {
+    try {
+      const q = query(collection(db, "products"), where("parentProductId", "==", parentId));
+      const querySnapshot = await getDocs(q);
+      const variants: Product[] = [];
+      querySnapshot.forEach((doc) => {
+        variants.push({ id: doc.id, ...doc.data() } as Product);
+      });
+      return variants;
+    } catch (error) {
+      console.error("Error fetching product variants:", error);
+      throw error;
+    }
+  }
+
   /**
    * Update a product
    */
   static async updateProduct(productId: string, updates: Partial<Product>): Promise<void> {
     try {
       const productRef = doc(db, "products", productId);
+      // Optional fields passed as undefined are cleared rather than rejected by Firestore
+      const data: Record<string, unknown> = {};
+      Object.entries(updates).forEach(([key, value]) => {
+        data[key] = value === undefined ? deleteField() : value;
+      });
       await updateDoc(productRef, {
-        ...updates,
+        ...data,
         updatedAt: Timestamp.now(),
       });
     } catch (error) {
@@ -64,11 +167,185 @@ export class ProductService {
     }
   }
 
+  /**
+   * Apply a checked bulk import (see planProductImport)
+   * Rows are committed in transactions under Firestore's 500-write limit, so a failure part way leaves
+   * earlier ones in place; re-running the same file then only applies what's left.
+   * A quantity is changed by the difference seen in the dry run, applied to the stock at commit time, so
+   * anything sold or received since stays counted. The change goes through the cost layers and its value
+   * is journalled as an inventory variance; a new product's stock is journalled as opening stock. An
+   * imported cost price is ignored once a product has cost layers - its cost then comes from what the
+   * stock was bought at.
+   */
+  static async importProducts(
+    rows: ProductImportRow[],
+    performedBy: string
+  ): Promise<{ created: number; updated: number }> {
+    if (rows.some((row) => row.errors.length > 0)) {
+      throw new Error("Fix the rows with errors before importing");
+    }
+    const WRITE_LIMIT = 450;
+
+    try {
+      // Costing method is configuration, so it is read outside the transactions
+      const costingMethod = await CostingService.getCostingMethod();
+      const importId = `IMPORT-${Date.now()}`;
+      const reason = "Bulk import";
+
+      const chunks: ProductImportRow[][] = [];
+      let writes = 0;
+      rows
+        .filter((row) => row.action !== "UNCHANGED")
+        .forEach((row) => {
+          const rowWrites = 1 + Object.keys(row.quantities).length;
+          if (chunks.length === 0 || writes + rowWrites > WRITE_LIMIT) {
+            chunks.push([]);
+            writes = 0;
+          }
+          chunks[chunks.length - 1].push(row);
+          writes += rowWrites;
+        });
+
+      let created = 0;
+      let updated = 0;
+      for (const chunk of chunks) {
+        const { varianceValue, openingValue } = await runTransaction(db, async (transaction) => {
+          const products = new Map<string, Product>();
+          for (const row of chunk) {
+            if (row.action !== "UPDATE") continue;
+            const productDoc = row.productId ? await transaction.get(doc(db, "products", row.productId)) : null;
+            if (!productDoc?.exists()) throw new Error(`Product ${row.sku} no longer exists`);
+            products.set(productDoc.id, { id: productDoc.id, ...productDoc.data() } as Product);
+          }
+
+          let value = 0;
+          let opening = 0;
+          const now = Timestamp.now();
+          for (const row of chunk) {
+            if (row.action === "CREATE") {
+              const productRef = doc(collection(db, "products"));
+              const warehouses: Product["warehouses"] = {};
+              Object.entries(row.quantities).forEach(([warehouseId, quantity]) => {
+                warehouses[warehouseId] = { quantity, position: "", minQuantity: 0 };
+              });
+              transaction.set(productRef, {
+                category: "",
+                price: 0,
+                isActive: true,
+                ...row.fields,
+                sku: row.sku,
+                name: row.name,
+                warehouses,
+                trackTrace: {
+                  qrCodeUrl: generateProductQR(productRef.id, row.sku),
+                  history: [],
+                },
+                createdAt: now,
+                updatedAt: now,
+              });
+              for (const [warehouseId, quantity] of Object.entries(row.quantities)) {
+                if (quantity !== 0) {
+                  await StockMovementService.recordMovement(
+                    { id: productRef.id, name: row.name },
+                    warehouseId,
+                    quantity,
+                    quantity,
+                    { type: "OPENING", performedBy, referenceId: importId, reason },
+                    transaction
+                  );
+                  opening += quantity * (row.fields.costPrice || 0);
+                }
+              }
+              continue;
+            }
+
+            const product = products.get(row.productId!)!;
+            const { costPrice: importedCostPrice, ...fields } = row.fields;
+            const productUpdate: Record<string, unknown> = { ...fields, updatedAt: now };
+            const hasCostLayers = (product.costLayers?.length ?? 0) > 0;
+            if (!hasCostLayers && importedCostPrice !== undefined) {
+              productUpdate.costPrice = importedCostPrice;
+            }
+            const costPrice = hasCostLayers ? product.costPrice : importedCostPrice ?? product.costPrice;
+
+            let costLayers = getCostLayers({ ...product, costPrice });
+            let stockChanged = false;
+            for (const [warehouseId, plannedChange] of Object.entries(row.quantityChanges)) {
+              const warehouse = product.warehouses[warehouseId] || { quantity: 0, position: "", minQuantity: 0 };
+              const quantity = Math.max(0, warehouse.quantity + plannedChange);
+              const change = quantity - warehouse.quantity;
+              if (change === 0) continue;
+
+              if (change < 0) {
+                const issued = issueFromLayers(costLayers, -change, costingMethod, costPrice);
+                costLayers = issued.layers;
+                value -= issued.cost;
+              } else {
+                costLayers = receiveIntoLayers(
+                  costLayers,
+                  { quantity: change, unitCost: costPrice ?? 0, receivedAt: now, sourceId: importId },
+                  costingMethod
+                );
+                value += change * (costPrice ?? 0);
+              }
+              stockChanged = true;
+              productUpdate[`warehouses.${warehouseId}`] = { ...warehouse, quantity };
+              await StockMovementService.recordMovement(
+                { id: product.id, name: row.name },
+                warehouseId,
+                change,
+                quantity,
+                { type: "ADJUSTMENT", performedBy, referenceId: importId, reason },
+                transaction
+              );
+            }
+            if (stockChanged) {
+              productUpdate.costLayers = costLayers;
+              productUpdate.costPrice = getProductCostPrice(costLayers, costingMethod, costPrice);
+            }
+            transaction.update(doc(db, "products", product.id), productUpdate);
+          }
+          return { varianceValue: roundAmount(value), openingValue: roundAmount(opening) };
+        });
+
+        created += chunk.filter((row) => row.action === "CREATE").length;
+        updated += chunk.filter((row) => row.action === "UPDATE").length;
+        await LedgerService.postInventoryVariance(
+          importId,
+          varianceValue,
+          `Stock adjusted by bulk import ${importId}`,
+          performedBy
+        );
+        await LedgerService.postOpeningStock(
+          importId,
+          openingValue,
+          `Opening stock of products created by bulk import ${importId}`,
+          performedBy
+        );
+      }
+
+      return { created, updated };
+    } catch (error) {
+      console.error("Error importing products:", error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a product
    */
   static async deleteProduct(productId: string): Promise<void> {
     try {
+      const variants = await this.getProductVariants(productId);
+      if (variants.length > 0) {
+        throw new Error("Delete this product's variants first");
+      }
+      const bundles = (await this.getAllProducts()).filter((product) =>
+        product.bundleItems?.some((item) => item.productId === productId)
+      );
+      if (bundles.length > 0) {
+        throw new Error(`Take this product out of ${bundles.map((bundle) => bundle.name).join(", ")} first`);
+      }
       const productRef = doc(db, "products", productId);
       await deleteDoc(productRef);
     } catch (error) {
@@ -127,36 +404,161 @@ export class ProductService {
   }
 
   /**
-   * Update product quantity in warehouse
+   * Set a product's quantity in a warehouse (e.g., after counting it)
+   * The difference from the current quantity is recorded as a stock movement
    */
   static async updateWarehouseQuantity(
     productId: string,
     warehouseId: string,
     quantity: number,
+    details: StockMovementDetails,
     position?: string
+  ): Promise<void> {
+    await this.writeWarehouseStock(productId, warehouseId, () => quantity, details, position);
+  }
+
+  /**
+   * Move a product's quantity in a warehouse up or down and record the movement
+   * @param change Signed change: positive adds stock, negative removes it
+   */
+  static async adjustWarehouseStock(
+    productId: string,
+    warehouseId: string,
+    change: number,
+    details: StockMovementDetails,
+    position?: string
+  ): Promise<void> {
+    await this.writeWarehouseStock(productId, warehouseId, (current) => current + change, details, position);
+  }
+
+  /**
+   * Set the low stock threshold and par level for a product in a warehouse
+   * These drive reorder suggestions; they aren't stock changes, so no movement is recorded.
+   * @param maxQuantity Par level, or undefined to clear it
+   */
+  static async updateStockLevels(
+    productId: string,
+    warehouseId: string,
+    minQuantity: number,
+    maxQuantity?: number
   ): Promise<void> {
     try {
-      const product = await this.getProduct(productId);
-      if (!product) throw new Error("Product not found");
-
-      const warehouseData = product.warehouses[warehouseId] || {
-        quantity: 0,
-        position: position || "",
-        minQuantity: 0,
-      };
-
-      await updateDoc(doc(db, "products", productId), {
-        [`warehouses.${warehouseId}`]: {
-          ...warehouseData,
+      if (minQuantity < 0 || (maxQuantity !== undefined && maxQuantity < minQuantity)) {
+        throw new Error("Par level must be at least the minimum quantity");
+      }
+      await runTransaction(db, async (transaction) => {
+        const productRef = doc(db, "products", productId);
+        const productDoc = await transaction.get(productRef);
+        if (!productDoc.exists()) throw new Error("Product not found");
+        const product = productDoc.data() as Product;
+
+        const warehouseData: ProductWarehouse = {
+          ...(product.warehouses[warehouseId] || { quantity: 0, position: "" }),
+          minQuantity,
+        };
+        // Only include maxQuantity if a par level is set
+        if (maxQuantity !== undefined) {
+          warehouseData.maxQuantity = maxQuantity;
+        } else {
+          delete warehouseData.maxQuantity;
+        }
+
+        transaction.update(productRef, {
+          [`warehouses.${warehouseId}`]: warehouseData,
+          updatedAt: Timestamp.now(),
+        });
+      });
+    } catch (error) {
+      console.error("Error updating stock levels:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a warehouse's quantity and record the movement in one transaction
+   * The change goes through the cost layers - units removed at what they cost, units added at the
+   * cost price - and its value is journalled as an inventory variance
+   */
+  private static async writeWarehouseStock(
+    productId: string,
+    warehouseId: string,
+    getQuantity: (current: number) => number,
+    details: StockMovementDetails,
+    position?: string
+  ): Promise<void> {
+    try {
+      // Costing method is configuration, so it is read outside the transaction
+      const costingMethod = await CostingService.getCostingMethod();
+
+      const variance = await runTransaction(db, async (transaction) => {
+        const productRef = doc(db, "products", productId);
+        const productDoc = await transaction.get(productRef);
+        if (!productDoc.exists()) throw new Error("Product not found");
+        const product = { id: productDoc.id, ...productDoc.data() } as Product;
+
+        const warehouseData = product.warehouses[warehouseId] || {
+          quantity: 0,
+          position: position || "",
+          minQuantity: 0,
+        };
+        const quantity = getQuantity(warehouseData.quantity);
+        if (quantity < 0) {
+          throw new Error(`${product.name} only has ${warehouseData.quantity} in stock in this warehouse`);
+        }
+
+        const change = quantity - warehouseData.quantity;
+        const now = Timestamp.now();
+        let costLayers = getCostLayers(product);
+        let value = 0;
+        if (change < 0) {
+          const issued = issueFromLayers(costLayers, -change, costingMethod, product.costPrice);
+          costLayers = issued.layers;
+          value = -issued.cost;
+        } else if (change > 0) {
+          const unitCost = product.costPrice || 0;
+          costLayers = receiveIntoLayers(costLayers, { quantity: change, unitCost, receivedAt: now }, costingMethod);
+          value = change * unitCost;
+        }
+
+        transaction.update(productRef, {
+          [`warehouses.${warehouseId}`]: {
+            ...warehouseData,
+            quantity,
+            position: position || warehouseData.position,
+          },
+          ...(change !== 0
+            ? { costLayers, costPrice: getProductCostPrice(costLayers, costingMethod, product.costPrice) }
+            : {}),
+          updatedAt: now,
+        });
+
+        if (change === 0) {
+          return null;
+        }
+        const movementId = await StockMovementService.recordMovement(
+          product,
+          warehouseId,
+          change,
           quantity,
-          position: position || warehouseData.position,
-        },
-        updatedAt: Timestamp.now(),
+          details,
+          transaction
+        );
+        return { movementId, productName: product.name, value: roundAmount(value) };
       });
+
+      if (variance) {
+        await LedgerService.postInventoryVariance(
+          variance.movementId,
+          variance.value,
+          `${details.type === "WRITE_OFF" ? "Write-off" : "Stock adjustment"} of ${variance.productName}${
+            details.reason ? ` (${details.reason})` : ""
+          }`,
+          details.performedBy
+        );
+      }
     } catch (error) {
       console.error("Error updating warehouse quantity:", error);
       throw error;
     }
   }
 }
-
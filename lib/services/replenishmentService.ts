@@ -0,0 +1,131 @@
+// Replenishment Service - Reorder suggestions from stock levels and demand
+import { doc, getDoc, setDoc, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { PurchaseOrderItem, ReorderSuggestion, ReplenishmentSettings } from "@/lib/types";
+import {
+  calculateReorderSuggestion,
+  getQuantitiesOnOrder,
+  getUnitsSold,
+  groupSuggestionsByVendor,
+} from "@/lib/utils/reorder";
+import { OrderService } from "./orderService";
+import { ProductService } from "./productService";
+import { SaleService } from "./saleService";
+import { VendorService } from "./vendorService";
+
+const DEFAULT_SETTINGS: Omit<ReplenishmentSettings, "updatedAt"> = {
+  salesWindowDays: 30,
+  leadTimeDays: 7,
+  coverDays: 30,
+};
+
+export class ReplenishmentService {
+  /**
+   * Get replenishment settings (defaults until configured)
+   */
+  static async getSettings(): Promise<Omit<ReplenishmentSettings, "updatedAt">> {
+    try {
+      const settingsDoc = await getDoc(doc(db, "settings", "replenishment"));
+      if (!settingsDoc.exists()) {
+        return DEFAULT_SETTINGS;
+      }
+      const settings = settingsDoc.data() as ReplenishmentSettings;
+      return {
+        salesWindowDays: settings.salesWindowDays,
+        leadTimeDays: settings.leadTimeDays,
+        coverDays: settings.coverDays,
+      };
+    } catch (error) {
+      console.error("Error fetching replenishment settings:", error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  /**
+   * Update replenishment settings
+   */
+  static async updateSettings(settings: Omit<ReplenishmentSettings, "updatedAt">): Promise<void> {
+    try {
+      if (settings.salesWindowDays <= 0) {
+        throw new Error("Sales window must be at least one day");
+      }
+      if (settings.leadTimeDays < 0 || settings.coverDays < 0) {
+        throw new Error("Lead time and cover days cannot be negative");
+      }
+      await setDoc(doc(db, "settings", "replenishment"), {
+        ...settings,
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error("Error updating replenishment settings:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get products that need reordering, most urgent (fewest days of stock left) first
+   */
+  static async getReorderSuggestions(): Promise<ReorderSuggestion[]> {
+    try {
+      const settings = await this.getSettings();
+      const endDate = new Date();
+      const startDate = new Date(endDate.getTime() - settings.salesWindowDays * 24 * 60 * 60 * 1000);
+
+      const [products, sales, orders, purchaseOrders] = await Promise.all([
+        ProductService.getAllProducts(),
+        SaleService.getSales(startDate, endDate),
+        OrderService.getAllOrders({ startDate, endDate }),
+        VendorService.getAllPurchaseOrders(),
+      ]);
+      const unitsSold = getUnitsSold(sales, orders);
+      const onOrder = getQuantitiesOnOrder(purchaseOrders);
+
+      const suggestions: ReorderSuggestion[] = [];
+      for (const product of products) {
+        if (!product.isActive) continue;
+        const suggestion = calculateReorderSuggestion(
+          product,
+          unitsSold.get(product.id) || 0,
+          onOrder.get(product.id) || 0,
+          settings
+        );
+        if (suggestion) {
+          suggestions.push(suggestion);
+        }
+      }
+
+      const daysLeft = (s: ReorderSuggestion) =>
+        s.dailySales > 0 ? (s.available + s.onOrder) / s.dailySales : Infinity;
+      return suggestions.sort((a, b) => daysLeft(a) - daysLeft(b) || a.available - b.available);
+    } catch (error) {
+      console.error("Error calculating reorder suggestions:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Raise one PENDING purchase order per vendor for the given suggestions
+   * Suggestions without a vendor or quantity are skipped; the orders still need a manager to review them.
+   * @returns IDs of the purchase orders created
+   */
+  static async createDraftPurchaseOrders(suggestions: ReorderSuggestion[], createdBy: string): Promise<string[]> {
+    try {
+      const poIds: string[] = [];
+      const groups = groupSuggestionsByVendor(suggestions.filter((s) => s.suggestedQuantity > 0));
+      for (const [vendorId, vendorSuggestions] of groups) {
+        if (!vendorId) continue;
+        const items: PurchaseOrderItem[] = vendorSuggestions.map((s) => ({
+          productId: s.productId,
+          productName: s.productName,
+          quantity: s.suggestedQuantity,
+          unitPrice: s.unitPrice,
+        }));
+        poIds.push(await VendorService.createPurchaseOrder(vendorId, items, createdBy));
+      }
+      return poIds;
+    } catch (error) {
+      console.error("Error creating draft purchase orders:", error);
+      throw error;
+    }
+  }
+}
@@ -2,103 +2,640 @@
 import {
   collection,
   doc,
-  addDoc,
-  updateDoc,
   getDoc,
   getDocs,
   query,
   where,
   orderBy,
+  runTransaction,
   Timestamp,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Sale, SaleItem, PaymentMethod, Customer } from "@/lib/types";
+import {
+  Sale,
+  SaleItem,
+  SaleReturn,
+  SaleReturnItem,
+  StockAllocation,
+  CostLayer,
+  Customer,
+  CreditTransaction,
+  PaymentMethod,
+  Product,
+  User,
+} from "@/lib/types";
+import { getCostOfGoods } from "@/lib/utils/accounting";
+import { getCostLayers, getProductCostPrice, issueFromLayers, receiveIntoLayers } from "@/lib/utils/costing";
+import { allocateStock } from "@/lib/utils/stockAllocation";
+import { canOverrideCreditLimit, getCreditLimitExcess } from "@/lib/utils/credit";
+import { expandBundleItems, getBundleComponentIds } from "@/lib/utils/bundles";
+import { CostingService } from "./costingService";
 import { CreditService } from "./creditService";
 import { LedgerService } from "./ledgerService";
-import { ProductService } from "./productService";
+import { StockMovementService } from "./stockMovementService";
+import { WarehouseService } from "./warehouseService";
 
 export class SaleService {
   /**
    * Create a sale
+   * The sale, customer totals, inventory, credit and ledger writes commit together in
+   * one Firestore transaction, so a dropped connection can never leave a partial sale.
+   * Bundle lines are saved as a line per component, so each component's stock is what's sold.
+   * Credit past the customer's limit is rejected unless saleData.creditLimitOverriddenBy names a user
+   * allowed to override it.
+   * @param preferredWarehouseId Warehouse to fulfil from first (the cashier's assigned warehouse);
+   *   remaining quantity falls back across the other warehouses by priority
+   * @param saleId Client-generated ID; a sale that already exists under it is rejected, so a
+   *   retried sale can never be recorded twice
    */
   static async createSale(
     saleData: Omit<Sale, "id" | "createdAt">,
-    customerId?: string
+    customerId?: string,
+    preferredWarehouseId?: string,
+    saleId?: string
   ): Promise<string> {
     try {
-      // Create sale document - only include customerId if it's defined
-      const saleDoc: any = {
-        ...saleData,
-        createdAt: Timestamp.now(),
-      };
-      
-      // Only add customerId if it's not undefined
-      if (customerId) {
-        saleDoc.customerId = customerId;
-      }
+      const saleRef = saleId ? doc(db, "sales", saleId) : doc(collection(db, "sales"));
+      // Warehouse priority and costing method are configuration, so they are read outside the transaction
+      const warehouseOrder = await WarehouseService.getAllocationOrder(preferredWarehouseId);
+      const costingMethod = await CostingService.getCostingMethod();
+
+      await runTransaction(db, async (transaction) => {
+        // Reads first - Firestore transactions require all reads before any write
+        if (saleId) {
+          const existingSale = await transaction.get(saleRef);
+          if (existingSale.exists()) {
+            throw new Error(`Sale ${saleId} has already been recorded`);
+          }
+        }
+
+        const products = new Map<string, Product>();
+        for (const productId of new Set(saleData.items.map((item) => item.productId))) {
+          const productDoc = await transaction.get(doc(db, "products", productId));
+          if (productDoc.exists()) {
+            products.set(productId, { id: productDoc.id, ...productDoc.data() } as Product);
+          }
+        }
+        // A bundle's stock is its components', so they're read too
+        for (const productId of getBundleComponentIds(products.values())) {
+          if (products.has(productId)) continue;
+          const productDoc = await transaction.get(doc(db, "products", productId));
+          if (productDoc.exists()) {
+            products.set(productId, { id: productDoc.id, ...productDoc.data() } as Product);
+          }
+        }
+        const saleItems = expandBundleItems(saleData.items, products);
+
+        const customerRef = customerId ? doc(db, "customers", customerId) : null;
+        const customerDoc = customerRef ? await transaction.get(customerRef) : null;
+
+        // The limit is checked against what the customer owes now, not what the till last loaded
+        const limitExcess = customerDoc?.exists()
+          ? getCreditLimitExcess(customerDoc.data() as Customer, saleData.dueAmount)
+          : 0;
+        if (limitExcess > 0) {
+          const overriddenBy = saleData.creditLimitOverriddenBy;
+          const overrideUserDoc = overriddenBy ? await transaction.get(doc(db, "users", overriddenBy)) : null;
+          if (!overrideUserDoc?.exists() || !canOverrideCreditLimit(overrideUserDoc.data() as User)) {
+            throw new Error(`This sale takes the customer Rs ${limitExcess.toFixed(2)} over their credit limit`);
+          }
+        }
+
+        // Allocate each line across warehouses, rejecting oversell before anything is written.
+        // Allocations draw down a working copy so repeated lines of one product don't double-count stock.
+        const remainingStock = new Map<string, Product["warehouses"]>();
+        const remainingLayers = new Map<string, CostLayer[]>();
+        products.forEach((product, productId) => {
+          remainingStock.set(productId, structuredClone(product.warehouses));
+          remainingLayers.set(productId, getCostLayers(product));
+        });
+
+        const items: SaleItem[] = saleItems.map((item) => {
+          const product = products.get(item.productId);
+          const warehouses = remainingStock.get(item.productId);
+          if (!product || !warehouses) return item;
+
+          const { allocations, shortfall } = allocateStock({ warehouses }, item.quantity, warehouseOrder);
+          if (shortfall > 0) {
+            throw new Error(
+              `Insufficient stock for ${product.name}: ${item.quantity - shortfall} available, ${item.quantity} requested`
+            );
+          }
+
+          for (const allocation of allocations) {
+            warehouses[allocation.warehouseId].quantity -= allocation.quantity;
+          }
 
-      const saleRef = await addDoc(collection(db, "sales"), saleDoc);
+          // Snapshot what the units cost now so later purchase prices don't rewrite this sale's margin
+          const issued = issueFromLayers(
+            remainingLayers.get(item.productId) || [],
+            item.quantity,
+            costingMethod,
+            product.costPrice
+          );
+          remainingLayers.set(item.productId, issued.layers);
+          return {
+            ...item,
+            allocations,
+            unitCost: item.quantity > 0 ? issued.cost / item.quantity : 0,
+            costOfGoods: issued.cost,
+          };
+        });
 
-      // Update customer totalSpent if customerId is provided
-      if (customerId) {
-        const customerRef = doc(db, "customers", customerId);
-        const customerDoc = await getDoc(customerRef);
-        if (customerDoc.exists()) {
+        // Create sale document - only include customerId if it's defined
+        const saleDoc: Omit<Sale, "id"> = {
+          ...saleData,
+          items,
+          createdAt: Timestamp.now(),
+        };
+
+        // Only add customerId if it's not undefined
+        if (customerId) {
+          saleDoc.customerId = customerId;
+        }
+
+        transaction.set(saleRef, saleDoc);
+
+        // Update customer totalSpent (and totalDue for credit sales) if customer exists
+        if (customerRef && customerDoc?.exists()) {
           const customer = customerDoc.data() as Customer;
-          await updateDoc(customerRef, {
+          const customerUpdate: { totalSpent: number; totalDue?: number } = {
             totalSpent: (customer.totalSpent || 0) + saleData.total,
-          });
+          };
+          if (saleData.dueAmount > 0) {
+            customerUpdate.totalDue = (customer.totalDue || 0) + saleData.dueAmount;
+          }
+          transaction.update(customerRef, customerUpdate);
         }
-      }
 
-      // Update inventory for each item
-      for (const item of saleData.items) {
-        // Find the first warehouse with stock (simplified - in production, you'd select warehouse)
-        const product = await ProductService.getProduct(item.productId);
-        if (product) {
-          const warehouseId = Object.keys(product.warehouses)[0];
-          if (warehouseId) {
-            const currentQty = product.warehouses[warehouseId].quantity;
-            await ProductService.updateWarehouseQuantity(
-              item.productId,
-              warehouseId,
-              currentQty - item.quantity
-            );
+        // Update inventory and cost layers for each product and touched warehouse
+        for (const [productId, warehouses] of remainingStock) {
+          const product = products.get(productId)!;
+          const stockUpdate: Record<string, unknown> = {};
+          for (const [warehouseId, warehouseData] of Object.entries(warehouses)) {
+            if (warehouseData.quantity !== product.warehouses[warehouseId].quantity) {
+              stockUpdate[`warehouses.${warehouseId}`] = warehouseData;
+            }
+          }
+          if (Object.keys(stockUpdate).length > 0) {
+            const costLayers = remainingLayers.get(productId) || [];
+            transaction.update(doc(db, "products", productId), {
+              ...stockUpdate,
+              costLayers,
+              costPrice: getProductCostPrice(costLayers, costingMethod, product.costPrice),
+              updatedAt: Timestamp.now(),
+            });
+            await StockMovementService.recordChanges(transaction, product, product.warehouses, warehouses, {
+              type: "SALE",
+              performedBy: saleData.performedBy,
+              referenceId: saleRef.id,
+            });
           }
         }
-      }
 
-      // Handle credit transaction if there's a due amount
-      if (saleData.dueAmount > 0 && customerId) {
-        const creditItems = saleData.items.map((item) => ({
-          productId: item.productId,
-          productName: item.productName,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          status: "CREDIT" as const,
-        }));
-
-        await CreditService.createCreditTransaction(
-          customerId,
+        // Handle credit transaction if there's a due amount
+        if (saleData.dueAmount > 0 && customerId) {
+          const creditItems = saleItems.map((item) => ({
+            productId: item.productId,
+            productName: item.productName,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            status: "CREDIT" as const,
+          }));
+
+          await CreditService.createCreditTransaction(
+            customerId,
+            saleRef.id,
+            creditItems,
+            saleData.total,
+            saleData.paidAmount,
+            transaction,
+            customerDoc?.exists() ? (customerDoc.data() as Customer).paymentTermsDays : undefined
+          );
+        }
+
+        // Create ledger entry for full sale total (accrual accounting principle)
+        // Record income when sale is made, regardless of payment method (cash or credit)
+        await LedgerService.postSaleIncome(
           saleRef.id,
-          creditItems,
-          saleData.total,
-          saleData.paidAmount
+          saleData.total, // Record full total, not just paidAmount
+          saleData.paymentMethod,
+          saleData.performedBy,
+          transaction,
+          {
+            paidAmount: saleData.paidAmount,
+            costOfGoods: getCostOfGoods(items, products),
+            tax: saleData.tax || 0,
+          }
         );
+      });
+
+      return saleRef.id;
+    } catch (error) {
+      console.error("Error creating sale:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate unique return number
+   */
+  static generateReturnNumber(): string {
+    const timestamp = Date.now();
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+    return `RET-${timestamp}-${random}`;
+  }
+
+  /**
+   * Process a return (partial or full) against an existing sale
+   * Restocks the originating warehouses, writes the refund off the sale's open credit first,
+   * reduces the customer's totalSpent and posts reversing ledger entries - all in one transaction
+   */
+  static async processReturn(
+    saleId: string,
+    returnItems: Array<{ productId: string; quantity: number }>,
+    refundMethod: PaymentMethod,
+    performedBy: string,
+    reason?: string,
+    shiftId?: string
+  ): Promise<SaleReturn> {
+    try {
+      const itemsToReturn = returnItems.filter((item) => item.quantity > 0);
+      if (itemsToReturn.length === 0) {
+        throw new Error("Select at least one item to return");
       }
 
-      // Create ledger entry for full sale total (accrual accounting principle)
-      // Record income when sale is made, regardless of payment method (cash or credit)
-      await LedgerService.postSaleIncome(
-        saleRef.id,
-        saleData.total, // Record full total, not just paidAmount
-        saleData.paymentMethod,
-        saleData.performedBy
+      // Credit lookups need a query, which can't run inside a transaction
+      const creditSnapshot = await getDocs(
+        query(collection(db, "credit_transactions"), where("saleId", "==", saleId))
       );
+      const creditRef = creditSnapshot.empty ? null : creditSnapshot.docs[0].ref;
 
-      return saleRef.id;
+      const returnRef = doc(collection(db, "sale_returns"));
+      const returnNumber = this.generateReturnNumber();
+      const costingMethod = await CostingService.getCostingMethod();
+
+      return await runTransaction(db, async (transaction) => {
+        const saleRef = doc(db, "sales", saleId);
+        const saleDoc = await transaction.get(saleRef);
+        if (!saleDoc.exists()) {
+          throw new Error("Sale not found");
+        }
+        const sale = { id: saleDoc.id, ...saleDoc.data() } as Sale;
+
+        const products = new Map<string, Product>();
+        for (const { productId } of itemsToReturn) {
+          const productDoc = await transaction.get(doc(db, "products", productId));
+          if (productDoc.exists()) {
+            products.set(productId, { id: productDoc.id, ...productDoc.data() } as Product);
+          }
+        }
+
+        const creditDoc = creditRef ? await transaction.get(creditRef) : null;
+        const customerRef = sale.customerId ? doc(db, "customers", sale.customerId) : null;
+        const customerDoc = customerRef ? await transaction.get(customerRef) : null;
+
+        // Sale-level discount is spread across lines in proportion to their subtotal;
+        // tax charged on top of a line is refunded with it
+        const discountFactor = sale.subtotal > 0 ? Math.max(0, sale.subtotal - sale.discount) / sale.subtotal : 1;
+        const saleItems: SaleItem[] = sale.items.map((item) => ({ ...item }));
+        const returnedItems: SaleReturnItem[] = [];
+        let tax = 0;
+        const restock = new Map<string, Map<string, number>>();
+
+        for (const { productId, quantity } of itemsToReturn) {
+          const lines = saleItems.filter((item) => item.productId === productId);
+          const returnable = lines.reduce(
+            (sum, item) => sum + item.quantity - (item.returnedQuantity || 0),
+            0
+          );
+          if (lines.length === 0) {
+            throw new Error(`Product ${productId} is not part of this sale`);
+          }
+          if (quantity > returnable) {
+            throw new Error(
+              `Cannot return ${quantity} of ${lines[0].productName}: only ${returnable} left to return`
+            );
+          }
+
+          let remaining = quantity;
+          for (const line of lines) {
+            if (remaining <= 0) break;
+            const alreadyReturned = line.returnedQuantity || 0;
+            const take = Math.min(remaining, line.quantity - alreadyReturned);
+            if (take <= 0) continue;
+
+            const allocations = this.getRestockAllocations(
+              line,
+              alreadyReturned,
+              take,
+              products.get(productId)
+            );
+            const productRestock = restock.get(productId) || new Map<string, number>();
+            for (const allocation of allocations) {
+              productRestock.set(
+                allocation.warehouseId,
+                (productRestock.get(allocation.warehouseId) || 0) + allocation.quantity
+              );
+            }
+            restock.set(productId, productRestock);
+
+            const lineTax = line.taxAmount || 0;
+            const lineTotal = line.subtotal * discountFactor + (line.taxInclusive ? 0 : lineTax);
+            const unitRefund = lineTotal / line.quantity;
+            tax += (lineTax / line.quantity) * take;
+            // Only include unitCost if the line has a cost snapshot (Firestore doesn't allow undefined)
+            const returnedItem: SaleReturnItem = {
+              productId,
+              productName: line.productName,
+              sku: line.sku,
+              quantity: take,
+              unitPrice: unitRefund,
+              subtotal: unitRefund * take,
+              allocations,
+            };
+            if (line.unitCost !== undefined) {
+              returnedItem.unitCost = line.unitCost;
+            }
+            returnedItems.push(returnedItem);
+
+            line.returnedQuantity = alreadyReturned + take;
+            remaining -= take;
+          }
+        }
+
+        const total = returnedItems.reduce((sum, item) => sum + item.subtotal, 0);
+        tax = Math.round(tax * 100) / 100;
+
+        // Write the refund off the open credit first; only the rest is paid back
+        const credit = creditDoc?.exists()
+          ? ({ id: creditDoc.id, ...creditDoc.data() } as CreditTransaction)
+          : null;
+        const creditAdjusted = credit ? Math.min(total, credit.dueAmount) : 0;
+        const refundedAmount = total - creditAdjusted;
+
+        // Writes
+        for (const [productId, warehouseQuantities] of restock) {
+          const product = products.get(productId);
+          if (!product) continue;
+          const stockUpdate: Record<string, unknown> = {};
+          for (const [warehouseId, quantity] of warehouseQuantities) {
+            const warehouseData = product.warehouses[warehouseId] || {
+              quantity: 0,
+              position: "",
+              minQuantity: 0,
+            };
+            stockUpdate[`warehouses.${warehouseId}`] = {
+              ...warehouseData,
+              quantity: warehouseData.quantity + quantity,
+            };
+            await StockMovementService.recordMovement(
+              product,
+              warehouseId,
+              quantity,
+              warehouseData.quantity + quantity,
+              { type: "SALE_RETURN", performedBy, referenceId: returnRef.id, reason },
+              transaction
+            );
+          }
+
+          // Returned units go back into stock at the cost they were sold at
+          let costLayers = getCostLayers(product);
+          returnedItems
+            .filter((item) => item.productId === productId)
+            .forEach((item) => {
+              costLayers = receiveIntoLayers(
+                costLayers,
+                {
+                  quantity: item.quantity,
+                  unitCost: item.unitCost ?? product.costPrice ?? 0,
+                  receivedAt: Timestamp.now(),
+                  sourceId: returnRef.id,
+                },
+                costingMethod
+              );
+            });
+
+          transaction.update(doc(db, "products", productId), {
+            ...stockUpdate,
+            costLayers,
+            costPrice: getProductCostPrice(costLayers, costingMethod, product.costPrice),
+            updatedAt: Timestamp.now(),
+          });
+        }
+
+        transaction.update(saleRef, {
+          items: saleItems,
+          returnedTotal: (sale.returnedTotal || 0) + total,
+        });
+
+        if (credit && creditRef) {
+          const newDueAmount = credit.dueAmount - creditAdjusted;
+          const creditUpdate: Record<string, unknown> = {
+            totalAmount: credit.totalAmount - total,
+            paidAmount: credit.paidAmount - refundedAmount,
+            dueAmount: newDueAmount,
+          };
+          if (newDueAmount === 0 && credit.dueAmount > 0) {
+            creditUpdate.settledAt = Timestamp.now();
+          }
+          transaction.update(creditRef, creditUpdate);
+        }
+
+        if (customerRef && customerDoc?.exists()) {
+          const customer = customerDoc.data() as Customer;
+          transaction.update(customerRef, {
+            totalSpent: Math.max(0, (customer.totalSpent || 0) - total),
+            totalDue: Math.max(0, (customer.totalDue || 0) - creditAdjusted),
+          });
+        }
+
+        // Build return document - only include optional fields if they're defined
+        const saleReturn: Omit<SaleReturn, "id"> = {
+          returnNumber,
+          saleId,
+          items: returnedItems,
+          total,
+          creditAdjusted,
+          refundedAmount,
+          refundMethod,
+          performedBy,
+          createdAt: Timestamp.now(),
+        };
+        if (sale.customerId) {
+          saleReturn.customerId = sale.customerId;
+        }
+        if (tax > 0) {
+          saleReturn.tax = tax;
+        }
+        if (reason) {
+          saleReturn.reason = reason;
+        }
+        if (shiftId) {
+          saleReturn.shiftId = shiftId;
+        }
+        transaction.set(returnRef, saleReturn);
+
+        // Reverse the sale income: credit write-off and cash refund are posted separately
+        // so cash reports only see money that actually left the till. Tax is split between them
+        // in proportion to their amounts.
+        const creditTax = total > 0 ? Math.round(tax * (creditAdjusted / total) * 100) / 100 : 0;
+        if (creditAdjusted > 0) {
+          await LedgerService.postSaleRefund(
+            returnRef.id,
+            saleId,
+            creditAdjusted,
+            "CREDIT",
+            performedBy,
+            transaction,
+            creditTax
+          );
+        }
+        if (refundedAmount > 0) {
+          await LedgerService.postSaleRefund(
+            returnRef.id,
+            saleId,
+            refundedAmount,
+            refundMethod,
+            performedBy,
+            transaction,
+            tax - creditTax
+          );
+        }
+        await LedgerService.postReturnedStock(
+          returnRef.id,
+          saleId,
+          getCostOfGoods(returnedItems, products),
+          performedBy,
+          transaction
+        );
+
+        return { id: returnRef.id, ...saleReturn };
+      });
     } catch (error) {
-      console.error("Error creating sale:", error);
+      console.error("Error processing return:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Work out which warehouses returned units go back to
+   * Units are put back in the reverse order they were taken, skipping ones already returned.
+   * Sales recorded before allocations existed fall back to the product's first warehouse.
+   */
+  private static getRestockAllocations(
+    line: SaleItem,
+    alreadyReturned: number,
+    quantity: number,
+    product?: Product
+  ): StockAllocation[] {
+    if (!line.allocations || line.allocations.length === 0) {
+      const warehouseId = product ? Object.keys(product.warehouses)[0] : undefined;
+      return warehouseId ? [{ warehouseId, quantity }] : [];
+    }
+
+    const allocations: StockAllocation[] = [];
+    let skip = alreadyReturned;
+    let remaining = quantity;
+    for (const allocation of [...line.allocations].reverse()) {
+      if (remaining <= 0) break;
+      const available = allocation.quantity - Math.min(skip, allocation.quantity);
+      skip = Math.max(0, skip - allocation.quantity);
+      if (available <= 0) continue;
+
+      const take = Math.min(available, remaining);
+      allocations.push({ warehouseId: allocation.warehouseId, quantity: take });
+      remaining -= take;
+    }
+    return allocations;
+  }
+
+  /**
+   * Get returns recorded against a sale
+   */
+  static async getSaleReturns(saleId: string): Promise<SaleReturn[]> {
+    try {
+      const q = query(collection(db, "sale_returns"), where("saleId", "==", saleId));
+      const querySnapshot = await getDocs(q);
+      const returns: SaleReturn[] = [];
+      querySnapshot.forEach((doc) => {
+        returns.push({ id: doc.id, ...doc.data() } as SaleReturn);
+      });
+      return returns.sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+    } catch (error) {
+      console.error("Error fetching sale returns:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get returns for a customer
+   */
+  static async getCustomerReturns(customerId: string): Promise<SaleReturn[]> {
+    try {
+      const q = query(collection(db, "sale_returns"), where("customerId", "==", customerId));
+      const querySnapshot = await getDocs(q);
+      const returns: SaleReturn[] = [];
+      querySnapshot.forEach((doc) => {
+        returns.push({ id: doc.id, ...doc.data() } as SaleReturn);
+      });
+      return returns;
+    } catch (error) {
+      console.error("Error fetching customer returns:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get returns refunded during a cash drawer shift
+   */
+  static async getShiftReturns(shiftId: string): Promise<SaleReturn[]> {
+    try {
+      const q = query(collection(db, "sale_returns"), where("shiftId", "==", shiftId));
+      const querySnapshot = await getDocs(q);
+      const returns: SaleReturn[] = [];
+      querySnapshot.forEach((doc) => {
+        returns.push({ id: doc.id, ...doc.data() } as SaleReturn);
+      });
+      return returns;
+    } catch (error) {
+      console.error("Error fetching shift returns:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get sales printed with a receipt number
+   */
+  static async getSalesByReceiptNumber(receiptNumber: string): Promise<Sale[]> {
+    try {
+      const q = query(collection(db, "sales"), where("receiptNumber", "==", receiptNumber));
+      const querySnapshot = await getDocs(q);
+      const sales: Sale[] = [];
+      querySnapshot.forEach((doc) => {
+        sales.push({ id: doc.id, ...doc.data() } as Sale);
+      });
+      return sales;
+    } catch (error) {
+      console.error("Error fetching sales by receipt number:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get sales rung up during a cash drawer shift
+   */
+  static async getShiftSales(shiftId: string): Promise<Sale[]> {
+    try {
+      const q = query(collection(db, "sales"), where("shiftId", "==", shiftId));
+      const querySnapshot = await getDocs(q);
+      const sales: Sale[] = [];
+      querySnapshot.forEach((doc) => {
+        sales.push({ id: doc.id, ...doc.data() } as Sale);
+      });
+      return sales;
+    } catch (error) {
+      console.error("Error fetching shift sales:", error);
       throw error;
     }
   }
@@ -0,0 +1,228 @@
+// Shift Service - Cash drawer shifts for the POS
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  setDoc,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { CashMovement, CashMovementType, CashShift, ShiftReport } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+import { buildShiftReport } from "@/lib/utils/shift";
+import { LedgerService } from "./ledgerService";
+import { SaleService } from "./saleService";
+
+export class ShiftService {
+  /**
+   * Generate unique shift number
+   */
+  static generateShiftNumber(): string {
+    const timestamp = Date.now();
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+    return `SHIFT-${timestamp}-${random}`;
+  }
+
+  /**
+   * Open a shift with the cash counted into the drawer
+   * A cashier can only have one open shift at a time
+   */
+  static async openShift(
+    openedBy: string,
+    openingFloat: number,
+    warehouseId?: string
+  ): Promise<CashShift> {
+    try {
+      if (openingFloat < 0) {
+        throw new Error("Opening float cannot be negative");
+      }
+
+      const existing = await this.getOpenShift(openedBy);
+      if (existing) {
+        throw new Error(`Shift ${existing.shiftNumber} is already open`);
+      }
+
+      const shiftRef = doc(collection(db, "cash_shifts"));
+      // Only include warehouseId if it's defined
+      const shift: Omit<CashShift, "id"> = {
+        shiftNumber: this.generateShiftNumber(),
+        openingFloat: roundAmount(openingFloat),
+        movements: [],
+        status: "OPEN",
+        openedBy,
+        openedAt: Timestamp.now(),
+      };
+      if (warehouseId) {
+        shift.warehouseId = warehouseId;
+      }
+      await setDoc(shiftRef, shift);
+
+      return { id: shiftRef.id, ...shift };
+    } catch (error) {
+      console.error("Error opening shift:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the shift a cashier currently has open
+   */
+  static async getOpenShift(userId: string): Promise<CashShift | null> {
+    try {
+      const q = query(
+        collection(db, "cash_shifts"),
+        where("openedBy", "==", userId),
+        where("status", "==", "OPEN")
+      );
+      const querySnapshot = await getDocs(q);
+      if (querySnapshot.empty) {
+        return null;
+      }
+      const shiftDoc = querySnapshot.docs[0];
+      return { id: shiftDoc.id, ...shiftDoc.data() } as CashShift;
+    } catch (error) {
+      console.error("Error fetching open shift:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a shift by ID
+   */
+  static async getShift(shiftId: string): Promise<CashShift | null> {
+    try {
+      const shiftDoc = await getDoc(doc(db, "cash_shifts", shiftId));
+      if (shiftDoc.exists()) {
+        return { id: shiftDoc.id, ...shiftDoc.data() } as CashShift;
+      }
+      return null;
+    } catch (error) {
+      console.error("Error fetching shift:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record cash put into or taken out of the drawer outside of a sale
+   * (e.g., extra change, a payout or a drop to the safe)
+   */
+  static async addCashMovement(
+    shiftId: string,
+    type: CashMovementType,
+    amount: number,
+    reason: string,
+    performedBy: string
+  ): Promise<CashShift> {
+    try {
+      if (amount <= 0) {
+        throw new Error("Amount must be greater than 0");
+      }
+      if (!reason.trim()) {
+        throw new Error("A reason is required");
+      }
+
+      return await runTransaction(db, async (transaction) => {
+        const shiftRef = doc(db, "cash_shifts", shiftId);
+        const shiftDoc = await transaction.get(shiftRef);
+        if (!shiftDoc.exists()) {
+          throw new Error("Shift not found");
+        }
+
+        const shift = { id: shiftDoc.id, ...shiftDoc.data() } as CashShift;
+        if (shift.status !== "OPEN") {
+          throw new Error("Shift is already closed");
+        }
+
+        const movement: CashMovement = {
+          type,
+          amount: roundAmount(amount),
+          reason: reason.trim(),
+          performedBy,
+          createdAt: Timestamp.now(),
+        };
+        const movements = [...(shift.movements || []), movement];
+        transaction.update(shiftRef, { movements });
+
+        return { ...shift, movements };
+      });
+    } catch (error) {
+      console.error("Error recording cash movement:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the X/Z report for a shift from the sales and returns stamped with it
+   */
+  static async getShiftReport(shift: CashShift): Promise<ShiftReport> {
+    try {
+      const [sales, returns] = await Promise.all([
+        SaleService.getShiftSales(shift.id),
+        SaleService.getShiftReturns(shift.id),
+      ]);
+      return buildShiftReport(shift, sales, returns);
+    } catch (error) {
+      console.error("Error building shift report:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a shift against the cash counted in the drawer
+   * The over/short against expected cash is stored on the shift and posted to the ledger
+   */
+  static async closeShift(
+    shiftId: string,
+    countedCash: number,
+    closedBy: string,
+    notes?: string
+  ): Promise<{ shift: CashShift; report: ShiftReport }> {
+    try {
+      if (countedCash < 0) {
+        throw new Error("Counted cash cannot be negative");
+      }
+
+      // Closing and posting the over/short happen together, so a shift is only ever closed once
+      return await runTransaction(db, async (transaction) => {
+        const shiftRef = doc(db, "cash_shifts", shiftId);
+        const shiftDoc = await transaction.get(shiftRef);
+        if (!shiftDoc.exists()) {
+          throw new Error("Shift not found");
+        }
+
+        const shift = { id: shiftDoc.id, ...shiftDoc.data() } as CashShift;
+        if (shift.status !== "OPEN") {
+          throw new Error("Shift is already closed");
+        }
+
+        const report = await this.getShiftReport(shift);
+        const variance = roundAmount(countedCash - report.expectedCash);
+
+        // Only include notes if provided
+        const updates: Partial<CashShift> = {
+          status: "CLOSED",
+          closedBy,
+          closedAt: Timestamp.now(),
+          expectedCash: report.expectedCash,
+          countedCash: roundAmount(countedCash),
+          variance,
+        };
+        if (notes) {
+          updates.notes = notes;
+        }
+        transaction.update(shiftRef, updates);
+
+        await LedgerService.postCashVariance(shiftId, variance, closedBy, transaction);
+
+        return { shift: { ...shift, ...updates }, report };
+      });
+    } catch (error) {
+      console.error("Error closing shift:", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,149 @@
+// Stock Movement Service - Append-only ledger of every change to warehouse stock
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  setDoc,
+  Timestamp,
+  Transaction,
+  WriteBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Product, StockCard, StockMovement, StockMovementDetails } from "@/lib/types";
+import { buildStockCard } from "@/lib/utils/stockCard";
+
+export class StockMovementService {
+  /**
+   * Record a movement
+   * When a transaction or batch is passed, the movement is written as part of it, so it commits
+   * together with the stock change it describes
+   * @param quantity Signed change: positive into the warehouse, negative out of it
+   * @param balanceAfter Warehouse quantity once the change is applied
+   */
+  static async recordMovement(
+    product: Pick<Product, "id" | "name">,
+    warehouseId: string,
+    quantity: number,
+    balanceAfter: number,
+    details: StockMovementDetails,
+    transaction?: Transaction | WriteBatch
+  ): Promise<string> {
+    try {
+      const movementRef = doc(collection(db, "stock_movements"));
+      // Only include optional fields if they're defined (Firestore doesn't allow undefined)
+      const movement: Omit<StockMovement, "id"> = {
+        productId: product.id,
+        productName: product.name,
+        warehouseId,
+        type: details.type,
+        quantity,
+        balanceAfter,
+        performedBy: details.performedBy,
+        createdAt: Timestamp.now(),
+      };
+      if (details.referenceId) {
+        movement.referenceId = details.referenceId;
+      }
+      if (details.reason) {
+        movement.reason = details.reason;
+      }
+
+      if (transaction) {
+        // Transactions and batches write the same way
+        (transaction as Transaction).set(movementRef, movement);
+      } else {
+        await setDoc(movementRef, movement);
+      }
+      return movementRef.id;
+    } catch (error) {
+      console.error("Error recording stock movement:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a movement for every warehouse whose quantity differs between two snapshots of a
+   * product's stock (e.g., before and after a sale's allocations are applied)
+   */
+  static async recordChanges(
+    transaction: Transaction,
+    product: Pick<Product, "id" | "name">,
+    before: Product["warehouses"],
+    after: Product["warehouses"],
+    details: StockMovementDetails
+  ): Promise<void> {
+    for (const [warehouseId, warehouse] of Object.entries(after)) {
+      const change = warehouse.quantity - (before[warehouseId]?.quantity || 0);
+      if (change !== 0) {
+        await this.recordMovement(product, warehouseId, change, warehouse.quantity, details, transaction);
+      }
+    }
+  }
+
+  /**
+   * Get a product's movements, oldest first
+   */
+  static async getProductMovements(productId: string): Promise<StockMovement[]> {
+    try {
+      // Sorted here rather than in the query so no composite index is needed
+      const q = query(collection(db, "stock_movements"), where("productId", "==", productId));
+      const querySnapshot = await getDocs(q);
+      const movements: StockMovement[] = [];
+      querySnapshot.forEach((doc) => {
+        movements.push({ id: doc.id, ...doc.data() } as StockMovement);
+      });
+      return movements.sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the stock card of every warehouse a product is stocked in
+   */
+  static async getStockCards(product: Product): Promise<StockCard[]> {
+    const movements = await this.getProductMovements(product.id);
+    const warehouseIds = new Set([
+      ...Object.keys(product.warehouses || {}),
+      ...movements.map((movement) => movement.warehouseId),
+    ]);
+    return Array.from(warehouseIds).map((warehouseId) => buildStockCard(movements, warehouseId, product));
+  }
+
+  /**
+   * Bring the ledger back in line with a warehouse's stored quantity
+   * Records the unexplained difference as an adjustment; the quantity itself is not changed.
+   */
+  static async reconcile(card: StockCard, product: Product, performedBy: string): Promise<void> {
+    try {
+      if (card.difference === 0) return;
+      await runTransaction(db, async (transaction) => {
+        // Re-read so the adjustment lands on the quantity as it is now
+        const productDoc = await transaction.get(doc(db, "products", product.id));
+        if (!productDoc.exists()) {
+          throw new Error("Product not found");
+        }
+        const current = productDoc.data() as Product;
+        const quantity = current.warehouses[card.warehouseId]?.quantity || 0;
+        const difference = quantity - card.closingBalance;
+        if (difference === 0) return;
+
+        await this.recordMovement(
+          product,
+          card.warehouseId,
+          difference,
+          quantity,
+          { type: "ADJUSTMENT", performedBy, reason: "Reconciled to warehouse quantity" },
+          transaction
+        );
+      });
+    } catch (error) {
+      console.error("Error reconciling stock:", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,302 @@
+// Stock-take Service - Physical counts of a warehouse and posting what they find
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  setDoc,
+  Timestamp,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Product, StockTake, StockTakeLine } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+import { getCostLayers, getProductCostPrice, issueFromLayers, receiveIntoLayers } from "@/lib/utils/costing";
+import { getLineVariance } from "@/lib/utils/stockTake";
+import { CostingService } from "./costingService";
+import { LedgerService } from "./ledgerService";
+import { ProductService } from "./productService";
+import { StockMovementService } from "./stockMovementService";
+
+export class StockTakeService {
+  /**
+   * Generate unique stock-take number
+   */
+  static generateStockTakeNumber(): string {
+    const timestamp = Date.now();
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+    return `STK-${timestamp}-${random}`;
+  }
+
+  /**
+   * Start counting a warehouse (or one position in it)
+   * Expected quantities are frozen now; sales during the count still go through, and only the
+   * difference found is adjusted on approval. A warehouse can only have one count open at a time.
+   */
+  static async startStockTake(
+    warehouseId: string,
+    startedBy: string,
+    position?: string,
+    notes?: string
+  ): Promise<string> {
+    try {
+      const open = await getDocs(
+        query(
+          collection(db, "stock_takes"),
+          where("warehouseId", "==", warehouseId),
+          where("status", "==", "COUNTING")
+        )
+      );
+      if (!open.empty) {
+        const existing = open.docs[0].data() as StockTake;
+        throw new Error(`Stock-take ${existing.stockTakeNumber} is already open for this warehouse`);
+      }
+
+      const products = await ProductService.getAllProducts();
+      const lines: StockTakeLine[] = products
+        .filter((product) => {
+          const warehouse = product.warehouses?.[warehouseId];
+          return warehouse && (!position || warehouse.position === position);
+        })
+        .map((product) => this.buildLine(product, warehouseId));
+      if (lines.length === 0) {
+        throw new Error("No products are stocked in this warehouse" + (position ? ` at ${position}` : ""));
+      }
+
+      const stockTakeRef = doc(collection(db, "stock_takes"));
+      // Only include optional fields if they're defined
+      const stockTake: Omit<StockTake, "id"> = {
+        stockTakeNumber: this.generateStockTakeNumber(),
+        warehouseId,
+        lines,
+        status: "COUNTING",
+        startedBy,
+        startedAt: Timestamp.now(),
+      };
+      if (position) {
+        stockTake.position = position;
+      }
+      if (notes) {
+        stockTake.notes = notes;
+      }
+      await setDoc(stockTakeRef, stockTake);
+
+      return stockTakeRef.id;
+    } catch (error) {
+      console.error("Error starting stock-take:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a count line for a product with the quantity expected in the warehouse right now
+   * Used when a count starts and when a product that wasn't expected is found on the shelf
+   */
+  static buildLine(product: Product, warehouseId: string): StockTakeLine {
+    const warehouse = product.warehouses?.[warehouseId];
+    // Only include position if the product has one
+    const line: StockTakeLine = {
+      productId: product.id,
+      productName: product.name,
+      sku: product.sku,
+      expectedQuantity: warehouse?.quantity || 0,
+      unitCost: product.costPrice || 0,
+    };
+    if (warehouse?.position) {
+      line.position = warehouse.position;
+    }
+    return line;
+  }
+
+  /**
+   * Get all stock-takes, newest first
+   */
+  static async getAllStockTakes(): Promise<StockTake[]> {
+    try {
+      const q = query(collection(db, "stock_takes"), orderBy("startedAt", "desc"));
+      const querySnapshot = await getDocs(q);
+      const stockTakes: StockTake[] = [];
+      querySnapshot.forEach((doc) => {
+        stockTakes.push({ id: doc.id, ...doc.data() } as StockTake);
+      });
+      return stockTakes;
+    } catch (error) {
+      console.error("Error fetching stock-takes:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a stock-take by ID
+   */
+  static async getStockTake(stockTakeId: string): Promise<StockTake | null> {
+    try {
+      const stockTakeDoc = await getDoc(doc(db, "stock_takes", stockTakeId));
+      if (stockTakeDoc.exists()) {
+        return { id: stockTakeDoc.id, ...stockTakeDoc.data() } as StockTake;
+      }
+      return null;
+    } catch (error) {
+      console.error("Error fetching stock-take:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save counts entered so far
+   * @param lines All lines of the count, including any products added while counting
+   */
+  static async saveCounts(stockTakeId: string, lines: StockTakeLine[]): Promise<void> {
+    try {
+      await runTransaction(db, async (transaction) => {
+        const stockTakeRef = doc(db, "stock_takes", stockTakeId);
+        const stockTakeDoc = await transaction.get(stockTakeRef);
+        if (!stockTakeDoc.exists()) {
+          throw new Error("Stock-take not found");
+        }
+        if ((stockTakeDoc.data() as StockTake).status !== "COUNTING") {
+          throw new Error("This stock-take is no longer open for counting");
+        }
+        if (lines.some((line) => line.countedQuantity !== undefined && line.countedQuantity < 0)) {
+          throw new Error("Counted quantities cannot be negative");
+        }
+        transaction.update(stockTakeRef, { lines });
+      });
+    } catch (error) {
+      console.error("Error saving counts:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a count: adjust stock by the variance found and post the shrinkage
+   * Lines that weren't counted are left alone. Shortages come out of the cost layers and
+   * surpluses go in at the current cost price; the net value is journalled to Inventory Shrinkage.
+   */
+  static async approveStockTake(stockTakeId: string, approvedBy: string): Promise<StockTake> {
+    try {
+      // Costing method is configuration, so it is read outside the transaction
+      const costingMethod = await CostingService.getCostingMethod();
+
+      const approved = await runTransaction(db, async (transaction) => {
+        const stockTakeRef = doc(db, "stock_takes", stockTakeId);
+        const stockTakeDoc = await transaction.get(stockTakeRef);
+        if (!stockTakeDoc.exists()) {
+          throw new Error("Stock-take not found");
+        }
+        const stockTake = { id: stockTakeDoc.id, ...stockTakeDoc.data() } as StockTake;
+        if (stockTake.status !== "COUNTING") {
+          throw new Error("Only open stock-takes can be approved");
+        }
+
+        const varianceLines = stockTake.lines.filter((line) => (getLineVariance(line) ?? 0) !== 0);
+        const products = new Map<string, Product>();
+        for (const line of varianceLines) {
+          const productDoc = await transaction.get(doc(db, "products", line.productId));
+          if (productDoc.exists()) {
+            products.set(line.productId, { id: productDoc.id, ...productDoc.data() } as Product);
+          }
+        }
+
+        let varianceValue = 0;
+        const now = Timestamp.now();
+        const reason = `Stock-take ${stockTake.stockTakeNumber}`;
+        for (const line of varianceLines) {
+          const product = products.get(line.productId);
+          if (!product) continue;
+          const variance = getLineVariance(line)!;
+          const warehouse = product.warehouses[stockTake.warehouseId] || {
+            quantity: 0,
+            position: line.position || "",
+            minQuantity: 0,
+          };
+          // Applied to the quantity as it is now, so anything sold since the count started stays sold
+          const quantity = Math.max(0, warehouse.quantity + variance);
+          const change = quantity - warehouse.quantity;
+
+          let costLayers = getCostLayers(product);
+          if (change < 0) {
+            const issued = issueFromLayers(costLayers, -change, costingMethod, product.costPrice);
+            costLayers = issued.layers;
+            varianceValue -= issued.cost;
+          } else if (change > 0) {
+            const unitCost = product.costPrice ?? line.unitCost;
+            costLayers = receiveIntoLayers(
+              costLayers,
+              { quantity: change, unitCost, receivedAt: now, sourceId: stockTakeId },
+              costingMethod
+            );
+            varianceValue += change * unitCost;
+          }
+
+          transaction.update(doc(db, "products", line.productId), {
+            [`warehouses.${stockTake.warehouseId}`]: { ...warehouse, quantity },
+            costLayers,
+            costPrice: getProductCostPrice(costLayers, costingMethod, product.costPrice),
+            updatedAt: now,
+          });
+          if (change !== 0) {
+            await StockMovementService.recordMovement(
+              product,
+              stockTake.warehouseId,
+              change,
+              quantity,
+              { type: "STOCK_TAKE", performedBy: approvedBy, referenceId: stockTakeId, reason },
+              transaction
+            );
+          }
+        }
+
+        const updates = {
+          status: "APPROVED" as const,
+          approvedBy,
+          approvedAt: now,
+          varianceValue: roundAmount(varianceValue),
+        };
+        transaction.update(stockTakeRef, updates);
+        return { ...stockTake, ...updates };
+      });
+
+      await LedgerService.postInventoryVariance(
+        stockTakeId,
+        approved.varianceValue,
+        `Stock-take ${approved.stockTakeNumber} variance`,
+        approvedBy
+      );
+
+      return approved;
+    } catch (error) {
+      console.error("Error approving stock-take:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an open stock-take without changing any stock
+   */
+  static async cancelStockTake(stockTakeId: string, cancelledBy: string): Promise<void> {
+    try {
+      await runTransaction(db, async (transaction) => {
+        const stockTakeRef = doc(db, "stock_takes", stockTakeId);
+        const stockTakeDoc = await transaction.get(stockTakeRef);
+        if (!stockTakeDoc.exists()) {
+          throw new Error("Stock-take not found");
+        }
+        if ((stockTakeDoc.data() as StockTake).status !== "COUNTING") {
+          throw new Error("Only open stock-takes can be cancelled");
+        }
+        transaction.update(stockTakeRef, {
+          status: "CANCELLED",
+          cancelledBy,
+          cancelledAt: Timestamp.now(),
+        });
+      });
+    } catch (error) {
+      console.error("Error cancelling stock-take:", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// Tax Service - Tax (VAT) rates and pricing settings
+import { doc, getDoc, setDoc, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { TaxSettings } from "@/lib/types";
+
+export class TaxService {
+  /**
+   * Get current tax settings
+   */
+  static async getTaxSettings(): Promise<TaxSettings | null> {
+    try {
+      const settingsDoc = await getDoc(doc(db, "settings", "tax"));
+      if (!settingsDoc.exists()) {
+        // Return default settings if none exist - tax stays off until configured
+        return {
+          enabled: false,
+          rates: [{ id: "vat", name: "VAT 13%", rate: 13 }],
+          defaultRateId: "vat",
+          pricesIncludeTax: false,
+          updatedAt: Timestamp.now(),
+        };
+      }
+      return settingsDoc.data() as TaxSettings;
+    } catch (error) {
+      console.error("Error fetching tax settings:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Update tax settings (admin only)
+   */
+  static async updateTaxSettings(settings: Omit<TaxSettings, "updatedAt">): Promise<void> {
+    try {
+      await setDoc(doc(db, "settings", "tax"), {
+        ...settings,
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error("Error updating tax settings:", error);
+      throw error;
+    }
+  }
+}
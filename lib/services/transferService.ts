@@ -0,0 +1,362 @@
+// Transfer Service - Moving stock between warehouses
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  runTransaction,
+  setDoc,
+  DocumentReference,
+  Timestamp,
+  Transaction,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Product, StockTransfer, StockTransferItem } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+import { getCostLayers, getProductCostPrice, issueFromLayers } from "@/lib/utils/costing";
+import { CostingService } from "./costingService";
+import { LedgerService } from "./ledgerService";
+import { StockMovementService } from "./stockMovementService";
+
+export class TransferService {
+  /**
+   * Generate unique transfer number
+   */
+  static generateTransferNumber(): string {
+    const timestamp = Date.now();
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+    return `TRF-${timestamp}-${random}`;
+  }
+
+  /**
+   * Create a draft transfer
+   * Nothing moves until the transfer is dispatched; lines for the same product are combined
+   */
+  static async createTransfer(
+    fromWarehouseId: string,
+    toWarehouseId: string,
+    items: StockTransferItem[],
+    createdBy: string,
+    notes?: string
+  ): Promise<string> {
+    try {
+      if (fromWarehouseId === toWarehouseId) {
+        throw new Error("Source and destination warehouses must be different");
+      }
+
+      const lines = new Map<string, StockTransferItem>();
+      for (const item of items) {
+        if (item.quantity <= 0) continue;
+        const existing = lines.get(item.productId);
+        lines.set(item.productId, {
+          productId: item.productId,
+          productName: item.productName,
+          sku: item.sku,
+          quantity: (existing?.quantity || 0) + item.quantity,
+        });
+      }
+      if (lines.size === 0) {
+        throw new Error("Add at least one item to transfer");
+      }
+
+      const transferRef = doc(collection(db, "stock_transfers"));
+      // Only include notes if provided
+      const transfer: Omit<StockTransfer, "id"> = {
+        transferNumber: this.generateTransferNumber(),
+        fromWarehouseId,
+        toWarehouseId,
+        items: Array.from(lines.values()),
+        status: "DRAFT",
+        createdBy,
+        createdAt: Timestamp.now(),
+      };
+      if (notes) {
+        transfer.notes = notes;
+      }
+      await setDoc(transferRef, transfer);
+
+      return transferRef.id;
+    } catch (error) {
+      console.error("Error creating transfer:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all transfers, newest first
+   */
+  static async getAllTransfers(): Promise<StockTransfer[]> {
+    try {
+      const q = query(collection(db, "stock_transfers"), orderBy("createdAt", "desc"));
+      const querySnapshot = await getDocs(q);
+      const transfers: StockTransfer[] = [];
+      querySnapshot.forEach((doc) => {
+        transfers.push({ id: doc.id, ...doc.data() } as StockTransfer);
+      });
+      return transfers;
+    } catch (error) {
+      console.error("Error fetching transfers:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a transfer by ID
+   */
+  static async getTransfer(transferId: string): Promise<StockTransfer | null> {
+    try {
+      const transferDoc = await getDoc(doc(db, "stock_transfers", transferId));
+      if (transferDoc.exists()) {
+        return { id: transferDoc.id, ...transferDoc.data() } as StockTransfer;
+      }
+      return null;
+    } catch (error) {
+      console.error("Error fetching transfer:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Dispatch a transfer: take the goods out of the source warehouse and mark them in transit
+   * Units held for online orders can't be sent
+   */
+  static async dispatchTransfer(transferId: string, dispatchedBy: string): Promise<void> {
+    try {
+      await runTransaction(db, async (transaction) => {
+        const { transferRef, transfer, products } = await this.readTransfer(transaction, transferId);
+        if (transfer.status !== "DRAFT") {
+          throw new Error("Only draft transfers can be dispatched");
+        }
+
+        for (const item of transfer.items) {
+          const product = products.get(item.productId);
+          const source = product?.warehouses[transfer.fromWarehouseId];
+          const available = source ? source.quantity - (source.reserved || 0) : 0;
+          if (!product || !source || available < item.quantity) {
+            throw new Error(`Insufficient stock for ${item.productName}: ${available} available, ${item.quantity} requested`);
+          }
+        }
+
+        for (const item of transfer.items) {
+          const product = products.get(item.productId)!;
+          const source = product.warehouses[transfer.fromWarehouseId];
+          const quantity = source.quantity - item.quantity;
+          transaction.update(doc(db, "products", item.productId), {
+            [`warehouses.${transfer.fromWarehouseId}`]: { ...source, quantity },
+            updatedAt: Timestamp.now(),
+          });
+          await StockMovementService.recordMovement(
+            product,
+            transfer.fromWarehouseId,
+            -item.quantity,
+            quantity,
+            { type: "TRANSFER_OUT", performedBy: dispatchedBy, referenceId: transferId },
+            transaction
+          );
+        }
+
+        transaction.update(transferRef, {
+          status: "IN_TRANSIT",
+          dispatchedBy,
+          dispatchedAt: Timestamp.now(),
+        });
+      });
+    } catch (error) {
+      console.error("Error dispatching transfer:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Receive a transfer into the destination warehouse
+   * Units that didn't arrive are written off at cost as inventory shrinkage
+   * @param receivedQuantities Units counted in per product; lines left out are taken as fully received
+   * @param discrepancyNotes Required when anything is short
+   */
+  static async receiveTransfer(
+    transferId: string,
+    receivedQuantities: Record<string, number>,
+    receivedBy: string,
+    discrepancyNotes?: string
+  ): Promise<void> {
+    try {
+      // Costing method is configuration, so it is read outside the transaction
+      const costingMethod = await CostingService.getCostingMethod();
+
+      const { transfer, lossValue } = await runTransaction(db, async (transaction) => {
+        const { transferRef, transfer, products } = await this.readTransfer(transaction, transferId);
+        if (transfer.status !== "IN_TRANSIT") {
+          throw new Error("Only transfers in transit can be received");
+        }
+
+        const items: StockTransferItem[] = transfer.items.map((item) => {
+          const receivedQuantity = receivedQuantities[item.productId] ?? item.quantity;
+          if (receivedQuantity < 0 || receivedQuantity > item.quantity) {
+            throw new Error(`Received quantity for ${item.productName} must be between 0 and ${item.quantity}`);
+          }
+          return { ...item, receivedQuantity };
+        });
+        if (items.some((item) => item.receivedQuantity !== item.quantity) && !discrepancyNotes?.trim()) {
+          throw new Error("Explain why the received quantities differ from what was sent");
+        }
+
+        let lossValue = 0;
+        const now = Timestamp.now();
+        for (const item of items) {
+          const product = products.get(item.productId);
+          if (!product) continue;
+          const received = item.receivedQuantity || 0;
+          const destination = product.warehouses[transfer.toWarehouseId] || {
+            quantity: 0,
+            position: "",
+            minQuantity: 0,
+          };
+          const quantity = destination.quantity + received;
+
+          const productUpdate: Record<string, unknown> = {
+            [`warehouses.${transfer.toWarehouseId}`]: { ...destination, quantity },
+            "trackTrace.history": [
+              ...(product.trackTrace?.history || []),
+              {
+                action: `Transferred ${received} (${transfer.transferNumber})`,
+                from: transfer.fromWarehouseId,
+                to: transfer.toWarehouseId,
+                performedBy: receivedBy,
+                timestamp: now,
+              },
+            ],
+            updatedAt: now,
+          };
+
+          // Units lost on the way leave the cost layers too
+          const short = item.quantity - received;
+          if (short > 0) {
+            const issued = issueFromLayers(getCostLayers(product), short, costingMethod, product.costPrice);
+            productUpdate.costLayers = issued.layers;
+            productUpdate.costPrice = getProductCostPrice(issued.layers, costingMethod, product.costPrice);
+            lossValue += issued.cost;
+          }
+
+          transaction.update(doc(db, "products", item.productId), productUpdate);
+          if (received > 0) {
+            await StockMovementService.recordMovement(
+              product,
+              transfer.toWarehouseId,
+              received,
+              quantity,
+              { type: "TRANSFER_IN", performedBy: receivedBy, referenceId: transferId },
+              transaction
+            );
+          }
+        }
+
+        // Only include optional fields if they're defined
+        const transferUpdate: Partial<StockTransfer> = {
+          items,
+          status: "RECEIVED",
+          receivedBy,
+          receivedAt: now,
+        };
+        if (discrepancyNotes?.trim()) {
+          transferUpdate.discrepancyNotes = discrepancyNotes.trim();
+        }
+        if (lossValue > 0) {
+          transferUpdate.lossValue = roundAmount(lossValue);
+        }
+        transaction.update(transferRef, transferUpdate);
+
+        return { transfer, lossValue: roundAmount(lossValue) };
+      });
+
+      await LedgerService.postInventoryVariance(
+        transferId,
+        -lossValue,
+        `Stock lost in transit on transfer ${transfer.transferNumber}`,
+        receivedBy
+      );
+    } catch (error) {
+      console.error("Error receiving transfer:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a transfer
+   * Goods already dispatched go back into the source warehouse
+   */
+  static async cancelTransfer(transferId: string, cancelledBy: string): Promise<void> {
+    try {
+      await runTransaction(db, async (transaction) => {
+        const { transferRef, transfer, products } = await this.readTransfer(transaction, transferId);
+        if (transfer.status !== "DRAFT" && transfer.status !== "IN_TRANSIT") {
+          throw new Error(`Cannot cancel a transfer that is ${transfer.status.toLowerCase()}`);
+        }
+
+        if (transfer.status === "IN_TRANSIT") {
+          for (const item of transfer.items) {
+            const product = products.get(item.productId);
+            if (!product) continue;
+            const source = product.warehouses[transfer.fromWarehouseId] || {
+              quantity: 0,
+              position: "",
+              minQuantity: 0,
+            };
+            const quantity = source.quantity + item.quantity;
+            transaction.update(doc(db, "products", item.productId), {
+              [`warehouses.${transfer.fromWarehouseId}`]: { ...source, quantity },
+              updatedAt: Timestamp.now(),
+            });
+            await StockMovementService.recordMovement(
+              product,
+              transfer.fromWarehouseId,
+              item.quantity,
+              quantity,
+              {
+                type: "TRANSFER_IN",
+                performedBy: cancelledBy,
+                referenceId: transferId,
+                reason: "Transfer cancelled - returned to source",
+              },
+              transaction
+            );
+          }
+        }
+
+        transaction.update(transferRef, {
+          status: "CANCELLED",
+          cancelledBy,
+          cancelledAt: Timestamp.now(),
+        });
+      });
+    } catch (error) {
+      console.error("Error cancelling transfer:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read a transfer and the products on it inside a transaction
+   */
+  private static async readTransfer(
+    transaction: Transaction,
+    transferId: string
+  ): Promise<{ transferRef: DocumentReference; transfer: StockTransfer; products: Map<string, Product> }> {
+    const transferRef = doc(db, "stock_transfers", transferId);
+    const transferDoc = await transaction.get(transferRef);
+    if (!transferDoc.exists()) {
+      throw new Error("Transfer not found");
+    }
+    const transfer = { id: transferDoc.id, ...transferDoc.data() } as StockTransfer;
+
+    const products = new Map<string, Product>();
+    for (const item of transfer.items) {
+      const productDoc = await transaction.get(doc(db, "products", item.productId));
+      if (productDoc.exists()) {
+        products.set(item.productId, { id: productDoc.id, ...productDoc.data() } as Product);
+      }
+    }
+    return { transferRef, transfer, products };
+  }
+}
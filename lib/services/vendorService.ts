@@ -10,11 +10,28 @@ import {
   query,
   where,
   orderBy,
+  runTransaction,
   Timestamp,
+  QueryConstraint,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Vendor, PurchaseOrder, PurchaseOrderItem, PaymentMethod } from "@/lib/types";
-import { ProductService } from "./productService";
+import {
+  Vendor,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PaymentMethod,
+  GoodsReceivedNote,
+  GoodsReceivedNoteItem,
+  Product,
+  PurchaseReturn,
+  PurchaseReturnItem,
+} from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+import { getCostLayers, getProductCostPrice, issueFromLayers, receiveIntoLayers } from "@/lib/utils/costing";
+import { getOutstandingQuantity, hasReceivedGoods, isAwaitingDelivery } from "@/lib/utils/purchaseOrder";
+import { calculateInputTax } from "@/lib/utils/tax";
+import { CostingService } from "./costingService";
+import { StockMovementService } from "./stockMovementService";
 import { LedgerService } from "./ledgerService";
 
 export class VendorService {
@@ -100,11 +117,13 @@ export class VendorService {
         (sum, item) => sum + item.quantity * item.unitPrice,
         0
       );
+      const taxAmount = calculateInputTax(items);
 
       const poRef = await addDoc(collection(db, "purchase_orders"), {
         vendorId,
         items,
         totalAmount,
+        ...(taxAmount > 0 ? { taxAmount } : {}),
         status: "PENDING",
         createdBy,
         createdAt: Timestamp.now(),
@@ -117,90 +136,488 @@ export class VendorService {
     }
   }
 
+  /**
+   * Generate unique GRN number
+   */
+  static generateGRNNumber(): string {
+    const timestamp = Date.now();
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+    return `GRN-${timestamp}-${random}`;
+  }
+
   /**
    * Process GRN (Goods Received Note)
+   * A purchase order can be received over several deliveries; each one is stored as its own GRN
+   * and the order stays PARTIALLY_RECEIVED until every line has arrived or it is closed short.
+   * The GRN, stock, cost layers and vendor balance are written together; the journal follows.
+   * @returns The GRN's ID
    */
   static async processGRN(
     poId: string,
     receivedItems: Array<{ productId: string; receivedQuantity: number; receivedUnitPrice: number; warehouseId: string }>,
     receivedBy: string,
     billImageUrl?: string
-  ): Promise<void> {
+  ): Promise<string> {
     try {
-      const poDoc = await getDoc(doc(db, "purchase_orders", poId));
-      if (!poDoc.exists()) {
-        throw new Error("Purchase order not found");
+      const deliveredItems = receivedItems.filter((item) => item.receivedQuantity > 0);
+      if (deliveredItems.length === 0) {
+        throw new Error("Nothing was received");
       }
 
-      const po = { id: poDoc.id, ...poDoc.data() } as PurchaseOrder;
+      // Costing method is configuration, so it is read outside the transaction
+      const costingMethod = await CostingService.getCostingMethod();
+
+      const grn = await runTransaction(db, async (transaction) => {
+        const poRef = doc(db, "purchase_orders", poId);
+        const poDoc = await transaction.get(poRef);
+        if (!poDoc.exists()) {
+          throw new Error("Purchase order not found");
+        }
+        const po = { id: poDoc.id, ...poDoc.data() } as PurchaseOrder;
+        if (!isAwaitingDelivery(po)) {
+          throw new Error("This purchase order is no longer awaiting delivery");
+        }
+
+        const vendorRef = doc(db, "vendors", po.vendorId);
+        const vendorDoc = await transaction.get(vendorRef);
+
+        const products = new Map<string, Product>();
+        for (const item of deliveredItems) {
+          if (products.has(item.productId)) continue;
+          const productDoc = await transaction.get(doc(db, "products", item.productId));
+          if (productDoc.exists()) {
+            products.set(item.productId, { id: productDoc.id, ...productDoc.data() } as Product);
+          }
+        }
+
+        const grnItems: GoodsReceivedNoteItem[] = [];
+        for (const received of deliveredItems) {
+          const item = po.items.find((i) => i.productId === received.productId);
+          if (!item) {
+            throw new Error("Received a product that isn't on this purchase order");
+          }
+          const outstanding = getOutstandingQuantity(po, item);
+          if (received.receivedQuantity > outstanding) {
+            throw new Error(`Only ${outstanding} of ${item.productName} are still to be received`);
+          }
+          // Only include taxRate if the line has one
+          const grnItem: GoodsReceivedNoteItem = {
+            productId: item.productId,
+            productName: item.productName,
+            quantity: received.receivedQuantity,
+            unitPrice: received.receivedUnitPrice,
+            warehouseId: received.warehouseId,
+          };
+          if (item.taxRate !== undefined) {
+            grnItem.taxRate = item.taxRate;
+          }
+          grnItems.push(grnItem);
+        }
 
-      // Calculate received total amount based on received prices
-      let receivedTotalAmount = 0;
-      const updatedItems = po.items.map((item) => {
-        const received = receivedItems.find((ri) => ri.productId === item.productId);
-        if (received) {
-          const itemTotal = received.receivedQuantity * received.receivedUnitPrice;
-          receivedTotalAmount += itemTotal;
+        // Received quantities build up across GRNs; the unit price is averaged over everything received
+        const updatedItems = po.items.map((item) => {
+          const received = grnItems.find((ri) => ri.productId === item.productId);
+          if (!received) return item;
+          const previousQuantity = item.receivedQuantity || 0;
+          const receivedQuantity = previousQuantity + received.quantity;
+          const previousPrice = item.receivedUnitPrice ?? item.unitPrice;
           return {
             ...item,
-            receivedQuantity: received.receivedQuantity,
-            receivedUnitPrice: received.receivedUnitPrice,
+            receivedQuantity,
+            receivedUnitPrice: roundAmount(
+              (previousQuantity * previousPrice + received.quantity * received.unitPrice) / receivedQuantity
+            ),
           };
+        });
+
+        const totalAmount = roundAmount(grnItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+        // Input tax is charged on the received quantities at the received prices
+        const taxAmount = calculateInputTax(grnItems);
+        const receivedAt = Timestamp.now();
+
+        const grnRef = doc(collection(db, "goods_received_notes"));
+        // Only include optional fields if they're defined
+        const grn: Omit<GoodsReceivedNote, "id"> = {
+          grnNumber: this.generateGRNNumber(),
+          purchaseOrderId: poId,
+          vendorId: po.vendorId,
+          items: grnItems,
+          totalAmount,
+          receivedBy,
+          receivedAt,
+        };
+        if (taxAmount > 0) {
+          grn.taxAmount = taxAmount;
+        }
+        if (billImageUrl) {
+          grn.billImageUrl = billImageUrl;
         }
-        return {
-          ...item,
-          receivedQuantity: 0,
+        transaction.set(grnRef, grn);
+
+        // Put the goods into each warehouse and its cost layers
+        for (const item of grnItems) {
+          const product = products.get(item.productId);
+          if (!product) continue;
+          const warehouse = product.warehouses[item.warehouseId] || { quantity: 0, position: "", minQuantity: 0 };
+          const quantity = warehouse.quantity + item.quantity;
+          // Layers are read before the stock goes up, so any pre-existing stock is costed separately
+          const costLayers = receiveIntoLayers(
+            getCostLayers(product),
+            { quantity: item.quantity, unitCost: item.unitPrice, receivedAt, sourceId: poId },
+            costingMethod
+          );
+          // Keep the running product in step in case it appears on more than one line
+          product.warehouses = { ...product.warehouses, [item.warehouseId]: { ...warehouse, quantity } };
+          product.costLayers = costLayers;
+
+          transaction.update(doc(db, "products", item.productId), {
+            [`warehouses.${item.warehouseId}`]: product.warehouses[item.warehouseId],
+            costLayers,
+            costPrice: getProductCostPrice(costLayers, costingMethod, product.costPrice),
+            updatedAt: receivedAt,
+          });
+          await StockMovementService.recordMovement(
+            product,
+            item.warehouseId,
+            item.quantity,
+            quantity,
+            { type: "GRN", performedBy: receivedBy, referenceId: poId, reason: grn.grnNumber },
+            transaction
+          );
+        }
+
+        const fullyReceived = updatedItems.every((item) => (item.receivedQuantity || 0) >= item.quantity);
+        const receivedTaxAmount = roundAmount((po.receivedTaxAmount || 0) + taxAmount);
+        const updateData: Partial<PurchaseOrder> = {
+          status: fullyReceived ? "RECEIVED" : "PARTIALLY_RECEIVED",
+          receivedAt,
+          receivedBy,
+          items: updatedItems,
+          receivedTotalAmount: roundAmount((po.receivedTotalAmount || 0) + totalAmount),
         };
+        if (receivedTaxAmount > 0) {
+          updateData.receivedTaxAmount = receivedTaxAmount;
+        }
+        transaction.update(poRef, updateData);
+
+        // The delivery plus input tax goes onto Accounts Payable
+        if (vendorDoc.exists()) {
+          transaction.update(vendorRef, {
+            balance: roundAmount((vendorDoc.data() as Vendor).balance + totalAmount + taxAmount),
+            updatedAt: receivedAt,
+          });
+        }
+
+        return { id: grnRef.id, ...grn } as GoodsReceivedNote;
       });
 
-      // Update purchase order status
-      const updateData: any = {
-        status: "RECEIVED",
-        receivedAt: Timestamp.now(),
+      // Create ledger entry for the purchase expense using this delivery's amount
+      await LedgerService.postPurchaseExpense(
+        poId,
+        grn.totalAmount,
+        "CREDIT", // Purchase orders are typically on credit
         receivedBy,
-        items: updatedItems,
-        receivedTotalAmount,
-      };
-      if (billImageUrl) {
-        updateData.billImageUrl = billImageUrl;
+        grn.taxAmount || 0
+      );
+
+      return grn.id;
+    } catch (error) {
+      console.error("Error processing GRN:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the GRNs recorded against a purchase order, oldest first
+   */
+  static async getPurchaseOrderGRNs(poId: string): Promise<GoodsReceivedNote[]> {
+    return this.getGRNs(where("purchaseOrderId", "==", poId));
+  }
+
+  /**
+   * Get the GRNs recorded for a vendor, oldest first
+   */
+  static async getVendorGRNs(vendorId: string): Promise<GoodsReceivedNote[]> {
+    return this.getGRNs(where("vendorId", "==", vendorId));
+  }
+
+  /**
+   * Get every GRN, oldest first
+   */
+  static async getAllGRNs(): Promise<GoodsReceivedNote[]> {
+    return this.getGRNs();
+  }
+
+  private static async getGRNs(filter?: QueryConstraint): Promise<GoodsReceivedNote[]> {
+    try {
+      const q = filter
+        ? query(collection(db, "goods_received_notes"), filter)
+        : query(collection(db, "goods_received_notes"));
+      const querySnapshot = await getDocs(q);
+      const grns: GoodsReceivedNote[] = [];
+      querySnapshot.forEach((doc) => {
+        grns.push({ id: doc.id, ...doc.data() } as GoodsReceivedNote);
+      });
+      // Sorted here to avoid needing a composite index
+      return grns.sort((a, b) => a.receivedAt.toMillis() - b.receivedAt.toMillis());
+    } catch (error) {
+      console.error("Error fetching GRNs:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a purchase order short: the vendor won't deliver the rest
+   * An order with some deliveries becomes RECEIVED; one with none is cancelled.
+   */
+  static async closePurchaseOrderShort(poId: string, reason: string, closedBy: string): Promise<void> {
+    try {
+      if (!reason.trim()) {
+        throw new Error("Enter a reason for closing the order short");
       }
-      await updateDoc(doc(db, "purchase_orders", poId), updateData);
-
-      // Update inventory for each received item
-      for (const receivedItem of receivedItems) {
-        const poItem = po.items.find((item) => item.productId === receivedItem.productId);
-        if (poItem) {
-          // Get current product warehouse data
-          const product = await ProductService.getProduct(receivedItem.productId);
-          if (product) {
-            const currentQty = product.warehouses[receivedItem.warehouseId]?.quantity || 0;
-            await ProductService.updateWarehouseQuantity(
-              receivedItem.productId,
-              receivedItem.warehouseId,
-              currentQty + receivedItem.receivedQuantity
-            );
-          }
+      await runTransaction(db, async (transaction) => {
+        const poRef = doc(db, "purchase_orders", poId);
+        const poDoc = await transaction.get(poRef);
+        if (!poDoc.exists()) {
+          throw new Error("Purchase order not found");
+        }
+        const po = poDoc.data() as PurchaseOrder;
+        if (!isAwaitingDelivery(po)) {
+          throw new Error("This purchase order is no longer awaiting delivery");
         }
+        transaction.update(poRef, {
+          status: hasReceivedGoods(po) ? "RECEIVED" : "CANCELLED",
+          closedShortReason: reason.trim(),
+          closedBy,
+          closedAt: Timestamp.now(),
+        });
+      });
+    } catch (error) {
+      console.error("Error closing purchase order:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate unique debit note number
+   */
+  static generateDebitNoteNumber(): string {
+    const timestamp = Date.now();
+    const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+    return `DN-${timestamp}-${random}`;
+  }
+
+  /**
+   * Return received goods to the vendor
+   * Takes the goods out of stock and their cost layers, and raises a debit note that reduces what
+   * we owe the vendor by the received price plus input tax.
+   * @param grnId Delivery the goods came in on; its prices are used when given
+   * @returns The purchase return's ID
+   */
+  static async processPurchaseReturn(
+    poId: string,
+    returnedItems: Array<{ productId: string; quantity: number; warehouseId: string }>,
+    reason: string,
+    performedBy: string,
+    grnId?: string
+  ): Promise<string> {
+    try {
+      const itemsToReturn = returnedItems.filter((item) => item.quantity > 0);
+      if (itemsToReturn.length === 0) {
+        throw new Error("Nothing to return");
       }
+      if (!reason.trim()) {
+        throw new Error("Enter a reason for the return");
+      }
+
+      // Costing method is configuration, so it is read outside the transaction
+      const costingMethod = await CostingService.getCostingMethod();
+
+      const purchaseReturn = await runTransaction(db, async (transaction) => {
+        const poRef = doc(db, "purchase_orders", poId);
+        const poDoc = await transaction.get(poRef);
+        if (!poDoc.exists()) {
+          throw new Error("Purchase order not found");
+        }
+        const po = { id: poDoc.id, ...poDoc.data() } as PurchaseOrder;
+
+        let grn: GoodsReceivedNote | null = null;
+        if (grnId) {
+          const grnDoc = await transaction.get(doc(db, "goods_received_notes", grnId));
+          if (!grnDoc.exists() || grnDoc.data().purchaseOrderId !== poId) {
+            throw new Error("GRN not found on this purchase order");
+          }
+          grn = { id: grnDoc.id, ...grnDoc.data() } as GoodsReceivedNote;
+        }
+
+        const vendorRef = doc(db, "vendors", po.vendorId);
+        const vendorDoc = await transaction.get(vendorRef);
+
+        const products = new Map<string, Product>();
+        for (const item of itemsToReturn) {
+          if (products.has(item.productId)) continue;
+          const productDoc = await transaction.get(doc(db, "products", item.productId));
+          if (!productDoc.exists()) {
+            throw new Error("Product not found");
+          }
+          products.set(item.productId, { id: productDoc.id, ...productDoc.data() } as Product);
+        }
+
+        const returnItems: PurchaseReturnItem[] = [];
+        const updatedItems = po.items.map((item) => ({ ...item }));
+        for (const returned of itemsToReturn) {
+          const poItem = updatedItems.find((item) => item.productId === returned.productId);
+          if (!poItem) {
+            throw new Error("Returned a product that isn't on this purchase order");
+          }
+          const returnable = (poItem.receivedQuantity || 0) - (poItem.returnedQuantity || 0);
+          if (returned.quantity > returnable) {
+            throw new Error(`Only ${returnable} of ${poItem.productName} can be returned`);
+          }
+          const grnItem = grn?.items.find((item) => item.productId === returned.productId);
+          if (grn && !grnItem) {
+            throw new Error(`${poItem.productName} wasn't received on ${grn.grnNumber}`);
+          }
+          poItem.returnedQuantity = (poItem.returnedQuantity || 0) + returned.quantity;
+
+          // Only include taxRate if the line has one
+          const returnItem: PurchaseReturnItem = {
+            productId: poItem.productId,
+            productName: poItem.productName,
+            quantity: returned.quantity,
+            unitPrice: grnItem?.unitPrice ?? poItem.receivedUnitPrice ?? poItem.unitPrice,
+            warehouseId: returned.warehouseId,
+          };
+          if (poItem.taxRate !== undefined) {
+            returnItem.taxRate = poItem.taxRate;
+          }
+          returnItems.push(returnItem);
+        }
+
+        const totalAmount = roundAmount(returnItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+        const taxAmount = calculateInputTax(returnItems);
+        const now = Timestamp.now();
+        const returnRef = doc(collection(db, "purchase_returns"));
+
+        // Take the goods out of each warehouse and its cost layers
+        for (const item of returnItems) {
+          const product = products.get(item.productId)!;
+          const warehouse = product.warehouses[item.warehouseId];
+          const available = warehouse ? warehouse.quantity - (warehouse.reserved || 0) : 0;
+          if (item.quantity > available) {
+            throw new Error(`Only ${available} of ${product.name} available to return from this warehouse`);
+          }
+          const quantity = warehouse.quantity - item.quantity;
+          const { layers } = issueFromLayers(getCostLayers(product), item.quantity, costingMethod, product.costPrice);
+          // Keep the running product in step in case it appears on more than one line
+          product.warehouses = { ...product.warehouses, [item.warehouseId]: { ...warehouse, quantity } };
+          product.costLayers = layers;
+
+          transaction.update(doc(db, "products", item.productId), {
+            [`warehouses.${item.warehouseId}`]: product.warehouses[item.warehouseId],
+            costLayers: layers,
+            costPrice: getProductCostPrice(layers, costingMethod, product.costPrice),
+            updatedAt: now,
+          });
+          await StockMovementService.recordMovement(
+            product,
+            item.warehouseId,
+            -item.quantity,
+            quantity,
+            { type: "PURCHASE_RETURN", performedBy, referenceId: returnRef.id, reason: reason.trim() },
+            transaction
+          );
+        }
+
+        // Only include optional fields if they're defined
+        const purchaseReturn: Omit<PurchaseReturn, "id"> = {
+          debitNoteNumber: this.generateDebitNoteNumber(),
+          vendorId: po.vendorId,
+          purchaseOrderId: poId,
+          items: returnItems,
+          totalAmount,
+          reason: reason.trim(),
+          performedBy,
+          createdAt: now,
+        };
+        if (grn) {
+          purchaseReturn.grnId = grn.id;
+        }
+        if (taxAmount > 0) {
+          purchaseReturn.taxAmount = taxAmount;
+        }
+        transaction.set(returnRef, purchaseReturn);
 
-      // Update vendor balance (Accounts Payable) using received total amount
-      const vendor = await this.getVendor(po.vendorId);
-      if (vendor) {
-        await this.updateVendor(po.vendorId, {
-          balance: vendor.balance + receivedTotalAmount,
+        transaction.update(poRef, {
+          items: updatedItems,
+          returnedTotalAmount: roundAmount((po.returnedTotalAmount || 0) + totalAmount),
         });
-      }
 
-      // Create ledger entry for the purchase expense using received amount
-      const { LedgerService } = await import("@/lib/services/ledgerService");
-      await LedgerService.postPurchaseExpense(
+        // The debit note comes off Accounts Payable
+        if (vendorDoc.exists()) {
+          transaction.update(vendorRef, {
+            balance: roundAmount((vendorDoc.data() as Vendor).balance - totalAmount - taxAmount),
+            updatedAt: now,
+          });
+        }
+
+        return { id: returnRef.id, ...purchaseReturn } as PurchaseReturn;
+      });
+
+      await LedgerService.postPurchaseReturn(
+        purchaseReturn.id,
+        purchaseReturn.debitNoteNumber,
         poId,
-        receivedTotalAmount,
-        "CREDIT", // Purchase orders are typically on credit
-        receivedBy
+        purchaseReturn.totalAmount,
+        performedBy,
+        purchaseReturn.taxAmount || 0
       );
+
+      return purchaseReturn.id;
     } catch (error) {
-      console.error("Error processing GRN:", error);
+      console.error("Error processing purchase return:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get purchase returns for a vendor, newest first
+   */
+  static async getVendorPurchaseReturns(vendorId: string): Promise<PurchaseReturn[]> {
+    return this.getPurchaseReturns(where("vendorId", "==", vendorId));
+  }
+
+  /**
+   * Get purchase returns against a purchase order, newest first
+   */
+  static async getPurchaseOrderReturns(poId: string): Promise<PurchaseReturn[]> {
+    return this.getPurchaseReturns(where("purchaseOrderId", "==", poId));
+  }
+
+  /**
+   * Get purchase returns that include a specific product, newest first
+   */
+  static async getPurchaseReturnsByProduct(productId: string): Promise<PurchaseReturn[]> {
+    const purchaseReturns = await this.getPurchaseReturns();
+    return purchaseReturns.filter((purchaseReturn) =>
+      purchaseReturn.items.some((item) => item.productId === productId)
+    );
+  }
+
+  private static async getPurchaseReturns(filter?: QueryConstraint): Promise<PurchaseReturn[]> {
+    try {
+      const q = filter
+        ? query(collection(db, "purchase_returns"), filter)
+        : query(collection(db, "purchase_returns"));
+      const querySnapshot = await getDocs(q);
+      const purchaseReturns: PurchaseReturn[] = [];
+      querySnapshot.forEach((doc) => {
+        purchaseReturns.push({ id: doc.id, ...doc.data() } as PurchaseReturn);
+      });
+      // Sorted here to avoid needing a composite index
+      return purchaseReturns.sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+    } catch (error) {
+      console.error("Error fetching purchase returns:", error);
       throw error;
     }
   }
@@ -345,10 +762,9 @@ export class VendorService {
 
       await addDoc(collection(db, "vendors", vendorId, "payments"), paymentData);
 
-      // Note: We do NOT create a ledger expense entry here because:
-      // - The expense was already recorded when GRN was processed (PURCHASE category)
-      // - This payment is just reducing Accounts Payable (vendor balance)
-      // - Following accrual accounting: expense recorded when goods received, not when paid
+      // No expense is recorded here - the goods were booked into inventory when the GRN
+      // was processed. The journal only settles Accounts Payable from cash/bank.
+      await LedgerService.postVendorPayment(vendorId, amount, paymentMethod, performedBy);
     } catch (error) {
       console.error("Error settling vendor payment:", error);
       throw error;
@@ -0,0 +1,49 @@
+// Warehouse Service - Business logic for warehouse operations
+import { collection, doc, getDoc, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Warehouse } from "@/lib/types";
+import { getWarehousePriorityOrder } from "@/lib/utils/stockAllocation";
+
+export class WarehouseService {
+  /**
+   * Get all warehouses
+   */
+  static async getAllWarehouses(): Promise<Warehouse[]> {
+    try {
+      const querySnapshot = await getDocs(collection(db, "warehouses"));
+      const warehouses: Warehouse[] = [];
+      querySnapshot.forEach((doc) => {
+        warehouses.push({ id: doc.id, ...doc.data() } as Warehouse);
+      });
+      return warehouses;
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a warehouse by ID
+   */
+  static async getWarehouse(warehouseId: string): Promise<Warehouse | null> {
+    try {
+      const warehouseDoc = await getDoc(doc(db, "warehouses", warehouseId));
+      if (warehouseDoc.exists()) {
+        return { id: warehouseDoc.id, ...warehouseDoc.data() } as Warehouse;
+      }
+      return null;
+    } catch (error) {
+      console.error("Error fetching warehouse:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the order in which stock should be allocated across warehouses
+   * @param preferredWarehouseId Warehouse to draw from first (e.g., the cashier's assigned warehouse)
+   */
+  static async getAllocationOrder(preferredWarehouseId?: string): Promise<string[]> {
+    const warehouses = await this.getAllWarehouses();
+    return getWarehousePriorityOrder(warehouses, preferredWarehouseId);
+  }
+}
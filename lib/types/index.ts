@@ -18,6 +18,7 @@ export type EmployeePermissions = {
     customers: ResourcePermission & {
       viewCredits: boolean;
       settleCredits: boolean;
+      overrideCreditLimit: boolean; // Allow a credit sale that takes a customer past their limit
     };
     employees: ResourcePermission;
     vendors: ResourcePermission;
@@ -48,6 +49,7 @@ export type User = {
     currentAdvance: number;
     unpaidCommissions: number;
   };
+  assignedWarehouseId?: string; // Warehouse POS sales are fulfilled from first
 };
 
 // Product & Inventory Types
@@ -55,6 +57,7 @@ export type Warehouse = {
   id: string;
   name: string;
   address?: string;
+  priority?: number; // Allocation order when falling back across warehouses (lower first)
   isActive: boolean;
 };
 
@@ -62,6 +65,74 @@ export type ProductWarehouse = {
   quantity: number;
   position: string; // e.g., "Row A - Shelf 2"
   minQuantity: number; // Low stock threshold
+  maxQuantity?: number; // Par level to top stock back up to when reordering
+  reserved?: number; // Held for online orders that haven't shipped yet
+};
+
+// Stock still on hand from one receipt, at what it cost
+export type CostLayer = {
+  quantity: number; // Units left in this layer
+  unitCost: number;
+  receivedAt?: Timestamp; // Absent for opening stock that predates cost layers
+  sourceId?: string; // Purchase order or sales return the units came from
+};
+
+export type CostingMethod = "FIFO" | "WEIGHTED_AVERAGE";
+
+export type CostingSettings = {
+  method: CostingMethod;
+  updatedAt: Timestamp;
+};
+
+// The one-off posting of stock that was on hand before the journal began
+export type OpeningStockPosting = {
+  value: number; // Brought onto the Inventory account (negative if it was overstated)
+  postedBy: string;
+  postedAt: Timestamp;
+};
+
+export type Category = {
+  id: string;
+  name: string;
+  slug: string; // Storefront URL segment, unique across categories
+  parentId?: string; // Absent for top-level categories
+  description?: string;
+  imageUrl?: string;
+  sortOrder?: number; // Position among its siblings (lower first)
+  isActive: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+};
+
+// An axis a product varies along, e.g. { name: "Size", values: ["3L", "5L", "7L"] }
+export type VariantOption = {
+  name: string;
+  values: string[];
+};
+
+// One component of a bundle, e.g. { productId: <lid>, quantity: 1 }
+export type BundleItem = {
+  productId: string;
+  quantity: number; // Units of the component in one bundle
+};
+
+// The bundle a sale or order line was sold as part of
+export type BundleRef = {
+  productId: string;
+  productName: string;
+  sku: string;
+  quantity: number; // Bundles sold
+};
+
+export type CatalogSort = "newest" | "price-asc" | "price-desc" | "name";
+
+// Storefront facet selections - empty selections don't filter
+export type CatalogFilters = {
+  categoryIds: string[]; // Each includes its subcategories
+  minPrice?: number;
+  maxPrice?: number;
+  inStockOnly: boolean;
+  attributes: Record<string, string[]>; // Attribute key to accepted values
 };
 
 export type Product = {
@@ -69,10 +140,15 @@ export type Product = {
   sku: string; // The text inside the QR Code
   name: string;
   description?: string;
-  category: string;
+  category: string; // Category name, kept for display (free text on products that predate managed categories)
+  categoryId?: string; // Managed category the product is filed under
   price: number;
-  costPrice?: number; // For profit calculation
+  costPrice?: number; // Weighted average cost, or latest purchase price under FIFO
+  costLayers?: CostLayer[]; // Unsold stock by receipt, oldest first (one merged layer under weighted average)
   discount?: number; // Discount percentage or amount
+  taxRateId?: string; // Tax rate from settings (default rate when absent)
+  taxInclusive?: boolean; // Whether price already includes tax (settings default when absent)
+  preferredVendorId?: string; // Vendor reorder suggestions are raised against
   imageUrl?: string;
   warehouses: {
     [warehouseId: string]: ProductWarehouse;
@@ -88,11 +164,206 @@ export type Product = {
     }>;
   };
   attributes?: Record<string, string>; // e.g., { "wattage": "500W", "material": "steel" }
+  variantOptions?: VariantOption[]; // Set on a product sold in variants - the variants hold its stock
+  parentProductId?: string; // Set on a variant: the product it is a variant of
+  variantValues?: Record<string, string>; // Set on a variant: its value for each option, e.g. { "Size": "5L" }
+  bundleItems?: BundleItem[]; // Set on a bundle - sold as one item, its components' stock is what's sold
+  reservedFor?: string; // Last order to hold stock of this product
+  isActive: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+};
+
+// A product as listed on the storefront, with what its variants add to it
+export type CatalogEntry = {
+  product: Product;
+  variants: Product[];
+  price: number; // Price after discount - the cheapest variant's for a product sold in variants
+  inStock: boolean;
+  attributes: Record<string, string[]>; // Attributes plus variant option values
+};
+
+// One spreadsheet row of a bulk product import, checked against the catalogue as a dry run
+export type ProductImportRow = {
+  rowNumber: number; // Row in the file, the header being row 1
+  sku: string;
+  name: string;
+  action: "CREATE" | "UPDATE" | "UNCHANGED";
+  productId?: string; // Product an update applies to
+  fields: Partial<
+    Pick<Product, "name" | "description" | "category" | "categoryId" | "price" | "costPrice" | "discount" | "isActive">
+  >; // Everything to write for a create; only what changes for an update
+  quantities: Record<string, number>; // New quantity by warehouse ID
+  quantityChanges: Record<string, number>; // Update: change from the stock seen in the dry run, by warehouse ID
+  changes: Array<{ field: string; from: string; to: string }>; // What an update changes, for review
+  errors: string[]; // The import can't go ahead while any row has errors
+};
+
+// Stock Movement Types
+export type StockMovementType =
+  | "OPENING" // Stock entered when the product was created
+  | "SALE"
+  | "SALE_RETURN"
+  | "ORDER" // Online order shipped or completed
+  | "ORDER_CANCEL" // Shipped order cancelled and put back on the shelf
+  | "GRN"
+  | "TRANSFER_OUT"
+  | "TRANSFER_IN"
+  | "ADJUSTMENT"
+  | "WRITE_OFF"
+  | "PURCHASE_RETURN"
+  | "STOCK_TAKE"; // Variance found by a physical count
+
+// One signed change to a product's quantity in a warehouse; never edited once written
+export type StockMovement = {
+  id: string;
+  productId: string;
+  productName: string;
+  warehouseId: string;
+  type: StockMovementType;
+  quantity: number; // Positive into the warehouse, negative out of it
+  balanceAfter: number; // Warehouse quantity once this movement was applied
+  referenceId?: string; // Sale, return, order, purchase order... that caused it
+  reason?: string;
+  performedBy: string;
+  createdAt: Timestamp;
+};
+
+// Who and what a stock change is recorded against
+export type StockMovementDetails = {
+  type: StockMovementType;
+  performedBy: string;
+  referenceId?: string;
+  reason?: string;
+};
+
+// Running balance of one product in one warehouse, built from its movements
+export type StockCard = {
+  warehouseId: string;
+  openingBalance: number; // Stock already on hand when the first movement was recorded
+  lines: Array<{ movement: StockMovement; balance: number }>;
+  closingBalance: number;
+  warehouseQuantity: number; // Quantity currently on the product
+  difference: number; // warehouseQuantity - closingBalance; non-zero means a change went unrecorded
+};
+
+// Stock Transfer Types
+// DRAFT: not yet sent, IN_TRANSIT: taken out of the source, RECEIVED: booked into the destination
+export type StockTransferStatus = "DRAFT" | "IN_TRANSIT" | "RECEIVED" | "CANCELLED";
+
+export type StockTransferItem = {
+  productId: string;
+  productName: string;
+  sku: string;
+  quantity: number; // Sent from the source warehouse
+  receivedQuantity?: number; // Counted in at the destination; less than quantity if lost in transit
+};
+
+export type StockTransfer = {
+  id: string;
+  transferNumber: string;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  items: StockTransferItem[];
+  status: StockTransferStatus;
+  notes?: string;
+  createdBy: string;
+  createdAt: Timestamp;
+  dispatchedBy?: string;
+  dispatchedAt?: Timestamp;
+  receivedBy?: string;
+  receivedAt?: Timestamp;
+  discrepancyNotes?: string; // Why received quantities differ from what was sent
+  lossValue?: number; // Cost of units sent but not received
+  cancelledBy?: string;
+  cancelledAt?: Timestamp;
+};
+
+// Stock-take Types
+export type StockTakeStatus = "COUNTING" | "APPROVED" | "CANCELLED";
+
+export type StockTakeLine = {
+  productId: string;
+  productName: string;
+  sku: string;
+  position?: string;
+  expectedQuantity: number; // Warehouse quantity when the count started
+  countedQuantity?: number; // Left out until the item is counted
+  unitCost: number; // Cost price when the count started, for estimating the variance
+};
+
+export type StockTake = {
+  id: string;
+  stockTakeNumber: string;
+  warehouseId: string;
+  position?: string; // Only count one shelf/position of the warehouse
+  lines: StockTakeLine[];
+  status: StockTakeStatus;
+  notes?: string;
+  startedBy: string;
+  startedAt: Timestamp;
+  approvedBy?: string;
+  approvedAt?: Timestamp;
+  varianceValue?: number; // Signed cost of the adjustments posted on approval (negative = shrinkage)
+  cancelledBy?: string;
+  cancelledAt?: Timestamp;
+};
+
+// Pricing Types
+export type PriceList = {
+  id: string;
+  name: string; // e.g., "Wholesale"
+  description?: string;
+  discountPercent?: number; // Off the retail price of products the list has no price for
+  prices: Record<string, number>; // Product ID to its price on this list
   isActive: boolean;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 };
 
+// PERCENT_OFF / AMOUNT_OFF: off each unit (or off the cart); BUY_X_GET_Y: every Y after X bought is free;
+// QUANTITY_BREAK: a larger percentage off the more units are bought
+export type PromotionType = "PERCENT_OFF" | "AMOUNT_OFF" | "BUY_X_GET_Y" | "QUANTITY_BREAK";
+export type PromotionScope = "PRODUCT" | "CATEGORY" | "CART";
+
+export type QuantityBreak = {
+  minQuantity: number;
+  discountPercent: number;
+};
+
+export type Promotion = {
+  id: string;
+  name: string; // Shown on the cart and receipt, e.g., "Dashain Sale"
+  type: PromotionType;
+  scope: PromotionScope; // CART scope only takes PERCENT_OFF and AMOUNT_OFF
+  productIds?: string[]; // PRODUCT scope - a product sold in variants covers its variants
+  categoryIds?: string[]; // CATEGORY scope - each includes its subcategories
+  value?: number; // PERCENT_OFF: percentage; AMOUNT_OFF: Rs off each unit, or off the cart
+  minSubtotal?: number; // CART scope: cart subtotal needed before it applies
+  buyQuantity?: number; // BUY_X_GET_Y: units paid for...
+  getQuantity?: number; // ...before this many more are free
+  quantityBreaks?: QuantityBreak[]; // QUANTITY_BREAK: highest break reached applies
+  startsAt: Timestamp;
+  endsAt?: Timestamp; // Runs until switched off when unset
+  isActive: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+};
+
+// A promotion as applied to a sale or order
+export type AppliedPromotion = {
+  promotionId: string;
+  name: string;
+  amount: number; // Rs taken off
+};
+
+// What prices are worked out from - the customer's price list and the promotions that could apply
+export type PricingContext = {
+  priceList?: PriceList | null; // Retail prices when absent
+  promotions: Promotion[];
+  categories: Category[]; // For matching category promotions against subcategories
+};
+
 // Customer Types
 export type Customer = {
   id: string;
@@ -103,6 +374,10 @@ export type Customer = {
   loyaltyPoints: number;
   totalSpent: number;
   totalDue?: number; // Total outstanding credit
+  creditLimit?: number; // Most the customer may owe at once; no limit when unset
+  paymentTermsDays?: number; // Days a credit sale has to be settled in; DEFAULT_PAYMENT_TERMS_DAYS when unset
+  lastReminderAt?: Timestamp; // When the customer was last reminded about overdue credit
+  priceListId?: string; // Price list the customer buys at; retail prices when unset
   createdAt: Timestamp;
   updatedAt: Timestamp;
 };
@@ -126,17 +401,45 @@ export type CreditTransaction = {
   paidAmount: number;
   dueAmount: number;
   createdAt: Timestamp;
+  dueDate?: Timestamp; // Absent on credit given before payment terms were recorded
   settledAt?: Timestamp;
   settlementHistory: Array<{
     amount: number;
     date: Timestamp;
     settledBy: string;
     paymentMethod: PaymentMethod;
+    paymentId?: string; // Customer payment this settlement was part of
     notes?: string;
   }>;
 };
 
+// How much of a customer payment went to one credit transaction
+export type CreditPaymentAllocation = {
+  creditId: string;
+  saleId: string;
+  amount: number;
+};
+
+// One payment from a customer, spread across their open credits
+export type CreditPayment = {
+  id: string;
+  receiptNumber: string;
+  customerId: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  allocations: CreditPaymentAllocation[];
+  remainingDue: number; // Customer's total due once the payment was applied
+  notes?: string;
+  settledBy: string;
+  createdAt: Timestamp;
+};
+
 // Sale & POS Types
+export type StockAllocation = {
+  warehouseId: string;
+  quantity: number;
+};
+
 export type SaleItem = {
   productId: string;
   productName: string;
@@ -145,6 +448,15 @@ export type SaleItem = {
   unitPrice: number;
   discount?: number;
   subtotal: number;
+  taxRate?: number; // Tax percentage applied to this line
+  taxInclusive?: boolean; // Whether subtotal already includes the tax
+  taxAmount?: number; // Tax on this line after its share of the sale discount
+  unitCost?: number; // Cost per unit when sold, from the product's cost layers
+  costOfGoods?: number; // Cost of the line when sold - fixed so later purchase prices don't change margins
+  allocations?: StockAllocation[]; // Warehouses this line was fulfilled from
+  returnedQuantity?: number; // Units already brought back against this line
+  bundle?: BundleRef; // Set on a component line: the bundle it was sold in, its subtotal being its share of the bundle's
+  promotion?: AppliedPromotion; // Promotion behind the line's discount
 };
 
 export type PaymentMethod = "CASH" | "BANK_TRANSFER" | "FONE_PAY" | "CREDIT" | "CHEQUE";
@@ -154,18 +466,113 @@ export type Sale = {
   customerId?: string;
   items: SaleItem[];
   subtotal: number;
-  discount: number;
-  tax?: number;
+  discount: number; // Sale-level discount, including any cart promotion
+  tax?: number; // Total tax (output VAT) included in total
   total: number;
+  promotions?: AppliedPromotion[]; // Every promotion that took money off, with how much
+  priceListId?: string; // Price list the sale was priced at, when not retail
+  priceListName?: string;
   paidAmount: number;
   dueAmount: number;
   paymentMethod: PaymentMethod;
   isCredit: boolean;
   performedBy: string; // User ID
   source?: "POS" | "ONLINE"; // Transaction source
+  shiftId?: string; // Cash drawer shift the POS sale was rung up in
+  receiptNumber?: string; // Printed receipt number, assigned at the till
+  offlineRecordedAt?: Timestamp; // When a sale made offline was rung up (createdAt is when it synced)
+  returnedTotal?: number; // Total refunded through sales returns
+  creditLimitOverriddenBy?: string; // User who allowed this sale to take the customer past their credit limit
+  createdAt: Timestamp;
+};
+
+// Sales Return Types
+export type SaleReturnItem = {
+  productId: string;
+  productName: string;
+  sku: string;
+  quantity: number;
+  unitPrice: number; // Refund per unit, net of line and sale-level discounts
+  subtotal: number;
+  unitCost?: number; // Cost per unit the goods were sold at, used to put them back into stock
+  allocations: StockAllocation[]; // Warehouses the units were put back into
+};
+
+export type SaleReturn = {
+  id: string;
+  returnNumber: string;
+  saleId: string;
+  customerId?: string;
+  items: SaleReturnItem[];
+  total: number; // Total refund value
+  tax?: number; // Tax included in the refund
+  creditAdjusted: number; // Part of the refund written off the sale's open credit
+  refundedAmount: number; // Part of the refund paid back to the customer
+  refundMethod: PaymentMethod;
+  reason?: string;
+  shiftId?: string; // Cash drawer shift the refund was paid out of
+  performedBy: string; // User ID
+  createdAt: Timestamp;
+};
+
+// Offline POS Types
+export type QueuedSaleStatus = "PENDING" | "CONFLICT";
+
+export type QueuedSale = {
+  localId: string; // Also the sale's document ID, so a repeated sync can't record it twice
+  receiptNumber: string;
+  saleData: Omit<Sale, "id" | "createdAt">;
+  customerId?: string;
+  warehouseId?: string;
+  queuedAt: string; // ISO date - queue lives in localStorage
+  status: QueuedSaleStatus;
+  error?: string; // Why the sale couldn't be synced (conflicts only)
+};
+
+// Cash Drawer Shift Types
+export type CashMovementType = "IN" | "OUT";
+
+export type CashMovement = {
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  performedBy: string; // User ID
   createdAt: Timestamp;
 };
 
+export type CashShiftStatus = "OPEN" | "CLOSED";
+
+export type CashShift = {
+  id: string;
+  shiftNumber: string;
+  warehouseId?: string;
+  openingFloat: number;
+  movements: CashMovement[]; // Cash added to or taken out of the drawer, not sales
+  status: CashShiftStatus;
+  openedBy: string; // User ID
+  openedAt: Timestamp;
+  closedBy?: string; // User ID
+  closedAt?: Timestamp;
+  expectedCash?: number; // Set on close
+  countedCash?: number; // Set on close
+  variance?: number; // countedCash - expectedCash (negative = short)
+  notes?: string;
+};
+
+export type ShiftReport = {
+  openingFloat: number;
+  cashSales: number; // Cash actually taken for sales (paid portion only)
+  cashRefunds: number;
+  cashIn: number;
+  cashOut: number;
+  expectedCash: number;
+  salesCount: number;
+  salesTotal: number;
+  paymentBreakdown: Partial<Record<PaymentMethod, number>>; // Amount paid per method
+  creditIssued: number;
+  returnsCount: number;
+};
+
 // Finance & Ledger Types
 export type LedgerEntryType = "INCOME" | "EXPENSE" | "ASSET" | "LIABILITY";
 export type LedgerCategory =
@@ -177,6 +584,7 @@ export type LedgerCategory =
   | "VENDOR_PAY"
   | "ADVANCE"
   | "COMMISSION"
+  | "REFUND"
   | "OTHER";
 
 export type LedgerEntry = {
@@ -187,11 +595,52 @@ export type LedgerEntry = {
   amount: number;
   description: string;
   relatedId?: string; // ID of the Order, Employee, or Vendor
+  reversalOf?: string; // ID of the ledger entry this entry reverses
   paymentMethod: PaymentMethod;
   performedBy: string; // User ID
   createdAt: Timestamp;
 };
 
+// Double-entry Accounting Types
+export type AccountType = "ASSET" | "LIABILITY" | "EQUITY" | "INCOME" | "EXPENSE";
+
+export type Account = {
+  code: string;
+  name: string;
+  type: AccountType;
+};
+
+export type JournalLine = {
+  accountCode: string;
+  debit: number;
+  credit: number;
+};
+
+export type JournalSource =
+  | "SALE"
+  | "ORDER"
+  | "SALE_RETURN"
+  | "GRN"
+  | "VENDOR_PAYMENT"
+  | "CREDIT_SETTLEMENT"
+  | "EXPENSE"
+  | "SHIFT"
+  | "STOCK"
+  | "PURCHASE_RETURN"
+  | "OPENING"; // Stock brought onto the books rather than bought
+
+export type JournalEntry = {
+  id: string;
+  date: Timestamp;
+  source: JournalSource;
+  description: string;
+  lines: JournalLine[]; // Debits and credits must total the same
+  relatedId?: string; // ID of the Sale, Order, Return, Purchase Order, Vendor or Credit
+  reversalOf?: string; // ID of the journal entry this entry reverses
+  performedBy: string; // User ID
+  createdAt: Timestamp;
+};
+
 // Employee & HR Types
 export type EmployeeProfile = {
   uid: string; // Linked to Firebase Auth
@@ -231,15 +680,17 @@ export type Vendor = {
   updatedAt: Timestamp;
 };
 
-export type PurchaseOrderStatus = "PENDING" | "APPROVED" | "RECEIVED" | "CANCELLED";
+export type PurchaseOrderStatus = "PENDING" | "APPROVED" | "PARTIALLY_RECEIVED" | "RECEIVED" | "CANCELLED";
 
 export type PurchaseOrderItem = {
   productId: string;
   productName: string;
   quantity: number;
   unitPrice: number;
-  receivedQuantity?: number;
-  receivedUnitPrice?: number; // Actual unit price when received (may differ from unitPrice)
+  receivedQuantity?: number; // Received so far across all GRNs
+  receivedUnitPrice?: number; // Actual unit price when received (may differ from unitPrice), averaged across GRNs
+  returnedQuantity?: number; // Sent back to the vendor on purchase returns
+  taxRate?: number; // Input tax percentage charged by the vendor on top of the unit price
 };
 
 export type PurchaseOrder = {
@@ -247,18 +698,149 @@ export type PurchaseOrder = {
   vendorId: string;
   items: PurchaseOrderItem[];
   totalAmount: number;
-  receivedTotalAmount?: number; // Actual total amount when received (calculated from received prices)
+  receivedTotalAmount?: number; // Actual total amount received so far (calculated from received prices)
+  taxAmount?: number; // Input tax on the ordered items
+  receivedTaxAmount?: number; // Input tax on the received items, owed to the vendor on top of receivedTotalAmount
   status: PurchaseOrderStatus;
   createdBy: string;
   createdAt: Timestamp;
-  receivedAt?: Timestamp;
+  receivedAt?: Timestamp; // Latest GRN
   receivedBy?: string;
+  billImageUrl?: string; // Bill from before GRNs were recorded separately; each GRN now has its own
+  closedShortReason?: string; // Why the rest of the order won't be delivered
+  closedBy?: string;
+  closedAt?: Timestamp;
+  returnedTotalAmount?: number; // Value of goods sent back on purchase returns, excluding tax
+};
+
+// One delivery against a purchase order
+export type GoodsReceivedNoteItem = {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  warehouseId: string;
+  taxRate?: number;
+};
+
+export type GoodsReceivedNote = {
+  id: string;
+  grnNumber: string;
+  purchaseOrderId: string;
+  vendorId: string;
+  items: GoodsReceivedNoteItem[];
+  totalAmount: number;
+  taxAmount?: number; // Input tax on this delivery
   billImageUrl?: string;
+  receivedBy: string;
+  receivedAt: Timestamp;
+};
+
+// Goods sent back to a vendor; the debit note reduces what we owe them
+export type PurchaseReturnItem = {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number; // Price the goods were received at
+  warehouseId: string; // Warehouse the goods were taken out of
+  taxRate?: number;
+};
+
+export type PurchaseReturn = {
+  id: string;
+  debitNoteNumber: string;
+  vendorId: string;
+  purchaseOrderId: string;
+  grnId?: string; // Delivery the goods came in on, if known
+  items: PurchaseReturnItem[];
+  totalAmount: number; // Excluding tax
+  taxAmount?: number; // Input tax reclaimed from the vendor
+  reason: string;
+  performedBy: string;
+  createdAt: Timestamp;
+};
+
+// Vendor statement of account
+export type VendorStatementEntryType = "GRN" | "PAYMENT" | "RETURN";
+
+export type VendorStatementEntry = {
+  id: string;
+  date: Date;
+  type: VendorStatementEntryType;
+  reference: string; // GRN or debit note number, or the payment method
+  description: string;
+  purchaseOrderId?: string;
+  debit: number; // Reduces what we owe (payments and returns)
+  credit: number; // Increases what we owe (goods received, including tax)
+  balance: number; // Running balance owed after this entry
+};
+
+export type VendorStatement = {
+  vendorId: string;
+  vendorName: string;
+  startDate: Date;
+  endDate: Date;
+  openingBalance: number;
+  entries: VendorStatementEntry[];
+  totalReceived: number;
+  totalPaid: number;
+  totalReturned: number;
+  closingBalance: number;
+  recordedBalance: number; // Vendor.balance today, to spot balances edited outside these transactions
+};
+
+// A customer with credit past its due date, for payment reminders
+export type OverdueCustomer = {
+  customer: Customer;
+  overdueAmount: number;
+  totalDue: number;
+  oldestDueDate: Date;
+  daysOverdue: number; // Of the oldest overdue credit
+  credits: CreditTransaction[]; // Overdue credits, oldest first
+};
+
+// Outstanding amounts split by how long they have been owed
+export type AgingBuckets = {
+  current: number; // 0-30 days
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+};
+
+// Replenishment Types
+export type ReplenishmentSettings = {
+  salesWindowDays: number; // How far back sales are averaged to get daily demand
+  leadTimeDays: number; // Days a vendor usually takes to deliver
+  coverDays: number; // Days of demand to stock up for when no par level is set
+  updatedAt: Timestamp;
+};
+
+export type ReorderSuggestion = {
+  productId: string;
+  productName: string;
+  sku: string;
+  vendorId?: string; // Preferred vendor; absent if the product doesn't have one
+  available: number; // On hand across warehouses, less anything reserved for online orders
+  onOrder: number; // Still to arrive on open purchase orders
+  reorderPoint: number; // Minimum stock plus demand expected during the lead time
+  targetLevel: number; // Par level, or minimum plus the cover days' demand
+  dailySales: number;
+  suggestedQuantity: number;
+  unitPrice: number; // Last cost price, used as the draft PO price
 };
 
 // Order Types
 export type OrderStatus = "PENDING" | "CONFIRMED" | "SHIPPED" | "CANCELLED" | "COMPLETED";
 
+export type OrderStatusChange = {
+  status: OrderStatus;
+  from?: OrderStatus; // Absent for the initial PENDING entry
+  performedBy: string; // User ID, customer ID, or "guest"/"system"
+  timestamp: Timestamp;
+  note?: string;
+};
+
 export type OrderItem = {
   productId: string;
   productName: string;
@@ -266,9 +848,21 @@ export type OrderItem = {
   quantity: number;
   unitPrice: number;
   subtotal: number;
+  taxRate?: number; // Tax percentage applied to this line
+  taxInclusive?: boolean; // Whether subtotal already includes the tax
+  taxAmount?: number; // Tax on this line after its share of the order discount
+  unitCost?: number; // Cost per unit when the order was confirmed
+  costOfGoods?: number; // Cost of the line when the order was confirmed
   imageUrl?: string;
+  allocations?: StockAllocation[]; // Warehouses this line was reserved in / fulfilled from
+  bundle?: BundleRef; // Set on a component line: the bundle it was ordered in, its subtotal being its share of the bundle's
+  discount?: number; // Rs taken off the line by its promotion
+  promotion?: AppliedPromotion; // Promotion behind the line's discount
 };
 
+// RESERVED: held against warehouse stock, COMMITTED: deducted on ship/complete, RELEASED: returned on cancel
+export type OrderStockStatus = "RESERVED" | "COMMITTED" | "RELEASED";
+
 export type Order = {
   id: string;
   orderNumber: string; // Unique order number for tracking
@@ -281,20 +875,29 @@ export type Order = {
   };
   items: OrderItem[];
   subtotal: number;
-  discount: number; // Loyalty discount
+  discount: number; // Loyalty discount and any cart promotion
+  tax?: number; // Total tax (output VAT) included in total
   total: number;
+  promotions?: AppliedPromotion[]; // Every promotion that took money off, with how much
+  priceListId?: string; // Price list the order was priced at, when not retail
+  priceListName?: string;
   paymentMethod: "COD" | "BANK_TRANSFER" | "FONE_PAY";
   status: OrderStatus;
+  statusHistory?: OrderStatusChange[]; // Every transition, oldest first
   loyaltyPointsUsed?: number; // Points redeemed for this order
   loyaltyPointsEarned?: number; // Points earned from this order
   notes?: string; // Admin notes
   source?: "POS" | "ONLINE"; // Transaction source (default: "ONLINE")
   performedBy?: string; // User ID who processed/confirmed the order (optional for customer-created orders)
+  stockStatus?: OrderStockStatus; // Absent on orders placed before stock reservation existed
+  reservedQuantities?: Record<string, number>; // Units held when placed, by product ID
   createdAt: Timestamp;
   updatedAt: Timestamp;
   confirmedAt?: Timestamp;
   shippedAt?: Timestamp;
+  completedAt?: Timestamp;
   cancelledAt?: Timestamp;
+  loyaltyReversed?: boolean; // Points earned/used were rolled back on cancellation
 };
 
 // Loyalty Types
@@ -305,6 +908,21 @@ export type LoyaltyRules = {
   updatedAt: Timestamp;
 };
 
+// Tax Types
+export type TaxRate = {
+  id: string;
+  name: string; // e.g., "VAT 13%"
+  rate: number; // Percentage, e.g., 13
+};
+
+export type TaxSettings = {
+  enabled: boolean;
+  rates: TaxRate[];
+  defaultRateId?: string; // Applied to products without their own rate
+  pricesIncludeTax: boolean; // Default pricing mode for products that don't set taxInclusive
+  updatedAt: Timestamp;
+};
+
 // Printer Types
 export type PrinterType = "USB" | "SERIAL" | "BLUETOOTH";
 export type PrinterConnection = {
@@ -0,0 +1,236 @@
+import {
+  Account,
+  AccountType,
+  JournalEntry,
+  JournalLine,
+  LedgerCategory,
+  PaymentMethod,
+  Product,
+} from "@/lib/types";
+
+/**
+ * Account codes used by automatic postings
+ */
+export const ACCOUNTS = {
+  CASH: "1000",
+  BANK: "1010",
+  FONE_PAY: "1020",
+  CHEQUES: "1030",
+  RECEIVABLES: "1100",
+  INVENTORY: "1200",
+  EMPLOYEE_ADVANCES: "1300",
+  PAYABLES: "2000",
+  VAT: "2100",
+  OWNER_EQUITY: "3000",
+  OPENING_BALANCE_EQUITY: "3900",
+  SALES: "4000",
+  SALES_RETURNS: "4100",
+  OTHER_INCOME: "4900",
+  COST_OF_GOODS: "5000",
+  PURCHASES: "5100",
+  SALARIES: "5200",
+  RENT: "5300",
+  UTILITIES: "5400",
+  COMMISSIONS: "5500",
+  CASH_OVER_SHORT: "5600",
+  INVENTORY_SHRINKAGE: "5700",
+  OTHER_EXPENSES: "5900",
+} as const;
+
+export const CHART_OF_ACCOUNTS: Account[] = [
+  { code: ACCOUNTS.CASH, name: "Cash in Hand", type: "ASSET" },
+  { code: ACCOUNTS.BANK, name: "Bank", type: "ASSET" },
+  { code: ACCOUNTS.FONE_PAY, name: "FonePay Wallet", type: "ASSET" },
+  { code: ACCOUNTS.CHEQUES, name: "Cheques in Hand", type: "ASSET" },
+  { code: ACCOUNTS.RECEIVABLES, name: "Accounts Receivable", type: "ASSET" },
+  { code: ACCOUNTS.INVENTORY, name: "Inventory", type: "ASSET" },
+  { code: ACCOUNTS.EMPLOYEE_ADVANCES, name: "Employee Advances", type: "ASSET" },
+  { code: ACCOUNTS.PAYABLES, name: "Accounts Payable", type: "LIABILITY" },
+  { code: ACCOUNTS.VAT, name: "VAT Payable", type: "LIABILITY" },
+  { code: ACCOUNTS.OWNER_EQUITY, name: "Owner's Equity", type: "EQUITY" },
+  { code: ACCOUNTS.OPENING_BALANCE_EQUITY, name: "Opening Balance Equity", type: "EQUITY" },
+  { code: ACCOUNTS.SALES, name: "Sales Revenue", type: "INCOME" },
+  { code: ACCOUNTS.SALES_RETURNS, name: "Sales Returns", type: "INCOME" },
+  { code: ACCOUNTS.OTHER_INCOME, name: "Other Income", type: "INCOME" },
+  { code: ACCOUNTS.COST_OF_GOODS, name: "Cost of Goods Sold", type: "EXPENSE" },
+  { code: ACCOUNTS.PURCHASES, name: "Purchases & Supplies", type: "EXPENSE" },
+  { code: ACCOUNTS.SALARIES, name: "Salaries", type: "EXPENSE" },
+  { code: ACCOUNTS.RENT, name: "Rent", type: "EXPENSE" },
+  { code: ACCOUNTS.UTILITIES, name: "Utilities", type: "EXPENSE" },
+  { code: ACCOUNTS.COMMISSIONS, name: "Commissions", type: "EXPENSE" },
+  { code: ACCOUNTS.CASH_OVER_SHORT, name: "Cash Over/Short", type: "EXPENSE" },
+  { code: ACCOUNTS.INVENTORY_SHRINKAGE, name: "Inventory Shrinkage", type: "EXPENSE" },
+  { code: ACCOUNTS.OTHER_EXPENSES, name: "Other Expenses", type: "EXPENSE" },
+];
+
+/**
+ * Accounts that hold money, in the order they are reported
+ */
+export const CASH_ACCOUNTS: string[] = [ACCOUNTS.CASH, ACCOUNTS.BANK, ACCOUNTS.FONE_PAY, ACCOUNTS.CHEQUES];
+
+/**
+ * Look up an account in the chart of accounts
+ * @param code Account code
+ * @returns The account, or undefined if the code is unknown
+ */
+export function getAccount(code: string): Account | undefined {
+  return CHART_OF_ACCOUNTS.find((account) => account.code === code);
+}
+
+/**
+ * Get the account money moves through for a payment method
+ * @param paymentMethod How the money was paid
+ * @param direction "IN" for money received, "OUT" for money paid
+ * @returns Cash-like account, or Receivable/Payable when the payment is on credit
+ */
+export function getPaymentAccount(paymentMethod: PaymentMethod, direction: "IN" | "OUT"): string {
+  switch (paymentMethod) {
+    case "CASH":
+      return ACCOUNTS.CASH;
+    case "BANK_TRANSFER":
+      return ACCOUNTS.BANK;
+    case "FONE_PAY":
+      return ACCOUNTS.FONE_PAY;
+    case "CHEQUE":
+      return ACCOUNTS.CHEQUES;
+    case "CREDIT":
+      return direction === "IN" ? ACCOUNTS.RECEIVABLES : ACCOUNTS.PAYABLES;
+  }
+}
+
+/**
+ * Get the account a manual expense is charged to
+ * @param category Ledger category chosen for the expense
+ * @returns Expense account code (advances are an asset, vendor payments reduce payables)
+ */
+export function getExpenseAccount(category: LedgerCategory): string {
+  switch (category) {
+    case "PURCHASE":
+      return ACCOUNTS.PURCHASES;
+    case "SALARY":
+      return ACCOUNTS.SALARIES;
+    case "RENT":
+      return ACCOUNTS.RENT;
+    case "UTILITY":
+      return ACCOUNTS.UTILITIES;
+    case "COMMISSION":
+      return ACCOUNTS.COMMISSIONS;
+    case "ADVANCE":
+      return ACCOUNTS.EMPLOYEE_ADVANCES;
+    case "VENDOR_PAY":
+      return ACCOUNTS.PAYABLES;
+    case "REFUND":
+      return ACCOUNTS.SALES_RETURNS;
+    default:
+      return ACCOUNTS.OTHER_EXPENSES;
+  }
+}
+
+/**
+ * Round an amount to paisa so floating point noise doesn't unbalance entries
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Value line items at the cost they were sold at
+ * Lines without a cost snapshot (sold before costing was recorded) fall back to the product's cost price.
+ * @param items Sold or returned lines
+ * @param products Products keyed by ID (lines for unknown products count as zero)
+ * @returns Total cost of the goods
+ */
+export function getCostOfGoods(
+  items: Array<{ productId: string; quantity: number; unitCost?: number; costOfGoods?: number }>,
+  products: Map<string, Pick<Product, "costPrice">>
+): number {
+  return roundAmount(
+    items.reduce(
+      (sum, item) =>
+        sum +
+        (item.costOfGoods ??
+          item.quantity * (item.unitCost ?? products.get(item.productId)?.costPrice ?? 0)),
+      0
+    )
+  );
+}
+
+/**
+ * Check that a set of journal lines balances
+ * @param lines Journal lines
+ * @returns True when total debits equal total credits and every amount is non-negative
+ */
+export function isBalanced(lines: JournalLine[]): boolean {
+  if (lines.some((line) => line.debit < 0 || line.credit < 0)) return false;
+  const debits = lines.reduce((sum, line) => sum + line.debit, 0);
+  const credits = lines.reduce((sum, line) => sum + line.credit, 0);
+  return Math.abs(debits - credits) < 0.005;
+}
+
+/**
+ * Net the lines of several journal entries per account
+ * @param entries Journal entries
+ * @returns Debit minus credit for each account code touched
+ */
+export function getNetDebits(entries: Pick<JournalEntry, "lines">[]): Map<string, number> {
+  const net = new Map<string, number>();
+  entries.forEach((entry) => {
+    entry.lines.forEach((line) => {
+      net.set(line.accountCode, (net.get(line.accountCode) || 0) + line.debit - line.credit);
+    });
+  });
+  return net;
+}
+
+/**
+ * Build the lines that cancel out the net effect of earlier entries
+ * @param entries Journal entries to reverse
+ * @returns Opposite lines for every account with a non-zero net, or an empty array if already reversed
+ */
+export function getReversalLines(entries: Pick<JournalEntry, "lines">[]): JournalLine[] {
+  const lines: JournalLine[] = [];
+  getNetDebits(entries).forEach((net, accountCode) => {
+    const amount = roundAmount(Math.abs(net));
+    if (amount === 0) return;
+    lines.push(
+      net > 0
+        ? { accountCode, debit: 0, credit: amount }
+        : { accountCode, debit: amount, credit: 0 }
+    );
+  });
+  return lines;
+}
+
+/**
+ * Work out account balances in each account's normal direction
+ * Assets and expenses are debit-normal; liabilities, equity and income are credit-normal.
+ * @param entries Journal entries to total
+ * @returns Balance per account code for every account in the chart
+ */
+export function getAccountBalances(entries: Pick<JournalEntry, "lines">[]): Record<string, number> {
+  const net = getNetDebits(entries);
+  const balances: Record<string, number> = {};
+  CHART_OF_ACCOUNTS.forEach((account) => {
+    balances[account.code] = 0;
+  });
+  net.forEach((amount, accountCode) => {
+    const type: AccountType = getAccount(accountCode)?.type ?? "ASSET";
+    const debitNormal = type === "ASSET" || type === "EXPENSE";
+    balances[accountCode] = roundAmount(debitNormal ? amount : -amount);
+  });
+  return balances;
+}
+
+/**
+ * Total the balances of all accounts of one type
+ * @param balances Balances from getAccountBalances
+ * @param type Account type to total
+ */
+export function sumAccountType(balances: Record<string, number>, type: AccountType): number {
+  return roundAmount(
+    CHART_OF_ACCOUNTS.filter((account) => account.type === type).reduce(
+      (sum, account) => sum + (balances[account.code] || 0),
+      0
+    )
+  );
+}
@@ -0,0 +1,59 @@
+import { AgingBuckets } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function emptyAgingBuckets(): AgingBuckets {
+  return { current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+}
+
+/**
+ * Split an account's outstanding balance by the age of the charges that make it up
+ * Payments are assumed to settle the oldest charges first, so the balance is made up of the
+ * most recent charges. Any balance older than every charge on record is counted as over 90 days.
+ * @param charges Amounts that increased the balance and when they were raised, any order
+ * @param outstanding Balance still owed
+ */
+export function ageOutstandingBalance(
+  charges: Array<{ date: Date; amount: number }>,
+  outstanding: number,
+  asOf: Date = new Date()
+): AgingBuckets {
+  const buckets = emptyAgingBuckets();
+  if (outstanding <= 0) return buckets;
+
+  let remaining = outstanding;
+  const newestFirst = [...charges].sort((a, b) => b.date.getTime() - a.date.getTime());
+  for (const charge of newestFirst) {
+    if (remaining <= 0) break;
+    const amount = Math.min(charge.amount, remaining);
+    const days = Math.floor((asOf.getTime() - charge.date.getTime()) / DAY_MS);
+    if (days <= 30) buckets.current += amount;
+    else if (days <= 60) buckets.days31to60 += amount;
+    else if (days <= 90) buckets.days61to90 += amount;
+    else buckets.over90 += amount;
+    remaining -= amount;
+  }
+  buckets.over90 += Math.max(0, remaining);
+
+  return {
+    current: roundAmount(buckets.current),
+    days31to60: roundAmount(buckets.days31to60),
+    days61to90: roundAmount(buckets.days61to90),
+    over90: roundAmount(buckets.over90),
+    total: roundAmount(outstanding),
+  };
+}
+
+/**
+ * Add one set of aging buckets onto another, e.g. for a report's totals row
+ */
+export function addAgingBuckets(a: AgingBuckets, b: AgingBuckets): AgingBuckets {
+  return {
+    current: roundAmount(a.current + b.current),
+    days31to60: roundAmount(a.days31to60 + b.days31to60),
+    days61to90: roundAmount(a.days61to90 + b.days61to90),
+    over90: roundAmount(a.over90 + b.over90),
+    total: roundAmount(a.total + b.total),
+  };
+}
@@ -0,0 +1,147 @@
+import { AppliedPromotion, BundleItem, BundleRef, Product } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+import { getTotalAvailableStock } from "@/lib/utils/stockAllocation";
+import { hasVariants } from "@/lib/utils/variants";
+
+/**
+ * Whether a product is a bundle of other products (and so holds no stock itself)
+ */
+export function isBundle(product: Pick<Product, "bundleItems">): boolean {
+  return !!product.bundleItems && product.bundleItems.length > 0;
+}
+
+/**
+ * How many of a bundle can be sold from its components' available stock
+ * @param products Products to look the components up in (a missing component means none can be sold)
+ */
+export function getBundleAvailableStock(
+  bundle: Pick<Product, "bundleItems">,
+  products: Array<Pick<Product, "id" | "warehouses">>
+): number {
+  if (!isBundle(bundle)) return 0;
+  return Math.min(
+    ...(bundle.bundleItems || []).map((item) => {
+      const component = products.find((product) => product.id === item.productId);
+      return component ? Math.floor(getTotalAvailableStock(component) / item.quantity) : 0;
+    })
+  );
+}
+
+/**
+ * Sellable stock of any product - a bundle's comes from its components
+ */
+export function getSellableStock(product: Product, products: Product[]): number {
+  return isBundle(product) ? getBundleAvailableStock(product, products) : getTotalAvailableStock(product);
+}
+
+/**
+ * Check a bundle's components before it is saved
+ * @param bundleId The bundle being edited, so it can't be made a component of itself
+ * @returns What's wrong, or null when the components are fine
+ */
+export function validateBundleItems(items: BundleItem[], products: Product[], bundleId?: string): string | null {
+  if (items.length === 0) return "Add at least one product to the bundle";
+  const seen = new Set<string>();
+  for (const item of items) {
+    const component = products.find((product) => product.id === item.productId);
+    if (!component) return "Choose a product for every bundle component";
+    if (item.productId === bundleId) return "A bundle can't contain itself";
+    if (isBundle(component)) return `${component.name} is a bundle - bundles can't contain other bundles`;
+    if (hasVariants(component)) return `Choose one of ${component.name}'s variants rather than the product`;
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      return `Quantity of ${component.name} must be a whole number above 0`;
+    }
+    if (seen.has(item.productId)) return `${component.name} is in the bundle more than once`;
+    seen.add(item.productId);
+  }
+  return null;
+}
+
+/**
+ * Split an amount in proportion to weights, rounded to the paisa; the last share takes the rounding
+ */
+function splitAmount(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let allocated = 0;
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) return roundAmount(amount - allocated);
+    const share = roundAmount(totalWeight > 0 ? (amount * weight) / totalWeight : amount / weights.length);
+    allocated += share;
+    return share;
+  });
+}
+
+type BundleExpandableLine = {
+  productId: string;
+  productName: string;
+  sku: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  discount?: number;
+  taxAmount?: number;
+  imageUrl?: string;
+  bundle?: BundleRef;
+  promotion?: AppliedPromotion;
+};
+
+/**
+ * Replace bundle lines with a line per component, so stock, cost and returns work on real products
+ * A bundle's subtotal (and tax) is shared across its components in proportion to what they sell for
+ * on their own, which is the revenue each component is credited with in product reports.
+ * @param products Products keyed by ID, holding the bundles and their components
+ */
+export function expandBundleItems<T extends BundleExpandableLine>(items: T[], products: Map<string, Product>): T[] {
+  return items.flatMap((item) => {
+    const bundle = products.get(item.productId);
+    if (!bundle || !isBundle(bundle) || item.bundle) return [item];
+
+    const components = (bundle.bundleItems || []).map((bundleItem) => {
+      const component = products.get(bundleItem.productId);
+      if (!component) throw new Error(`A product in ${bundle.name} is no longer available`);
+      return { component, quantity: bundleItem.quantity * item.quantity };
+    });
+    const weights = components.map(({ component, quantity }) => component.price * quantity);
+    const subtotals = splitAmount(item.subtotal, weights);
+    const taxAmounts = item.taxAmount !== undefined ? splitAmount(item.taxAmount, weights) : undefined;
+    const bundleRef: BundleRef = {
+      productId: bundle.id,
+      productName: item.productName,
+      sku: item.sku,
+      quantity: item.quantity,
+    };
+
+    return components.map(({ component, quantity }, index) => {
+      const line: T = {
+        ...item,
+        productId: component.id,
+        productName: component.name,
+        sku: component.sku,
+        quantity,
+        unitPrice: quantity > 0 ? subtotals[index] / quantity : 0,
+        subtotal: subtotals[index],
+        bundle: bundleRef,
+      };
+      // The bundle's own discount is already in its subtotal; its promotion stays on the sale's list
+      delete line.discount;
+      delete line.promotion;
+      if (taxAmounts) line.taxAmount = taxAmounts[index];
+      if (line.imageUrl !== undefined) {
+        if (component.imageUrl) line.imageUrl = component.imageUrl;
+        else delete line.imageUrl;
+      }
+      return line;
+    });
+  });
+}
+
+/**
+ * Component IDs of the bundles among some products, for loading alongside them
+ */
+export function getBundleComponentIds(products: Iterable<Pick<Product, "bundleItems">>): string[] {
+  const ids = new Set<string>();
+  for (const product of products) {
+    (product.bundleItems || []).forEach((item) => ids.add(item.productId));
+  }
+  return Array.from(ids);
+}
@@ -0,0 +1,111 @@
+import { CatalogEntry, CatalogFilters, CatalogSort, Category, Product } from "@/lib/types";
+import { getDescendantCategoryIds } from "@/lib/utils/categories";
+import { getSellableStock } from "@/lib/utils/bundles";
+import { getProductVariants, hasVariants } from "@/lib/utils/variants";
+
+export const EMPTY_CATALOG_FILTERS: CatalogFilters = { categoryIds: [], inStockOnly: false, attributes: {} };
+
+const getEffectivePrice = (product: Pick<Product, "price" | "discount">) =>
+  product.discount && product.discount > 0 ? product.price * (1 - product.discount / 100) : product.price;
+
+/**
+ * Storefront listing for a set of active products
+ * Variants are folded into their product rather than listed on their own.
+ */
+export function buildCatalog(products: Product[]): CatalogEntry[] {
+  return products
+    .filter((product) => !product.parentProductId)
+    .map((product) => {
+      const variants = hasVariants(product) ? getProductVariants(product.id, products) : [];
+      const sellable = hasVariants(product) ? variants : [product];
+
+      const attributes: Record<string, string[]> = {};
+      Object.entries(product.attributes || {}).forEach(([key, value]) => {
+        attributes[key] = [value];
+      });
+      (product.variantOptions || []).forEach((option) => {
+        attributes[option.name] = Array.from(new Set([...(attributes[option.name] || []), ...option.values]));
+      });
+
+      return {
+        product,
+        variants,
+        price: sellable.length > 0 ? Math.min(...sellable.map(getEffectivePrice)) : getEffectivePrice(product),
+        inStock: sellable.some((p) => getSellableStock(p, products) > 0),
+        attributes,
+      };
+    });
+}
+
+/**
+ * Entries matching every facet selection
+ * A category matches its subcategories' products; an attribute matches any of its selected values.
+ */
+export function filterCatalog(
+  entries: CatalogEntry[],
+  filters: CatalogFilters,
+  categories: Category[]
+): CatalogEntry[] {
+  const categoryIds = new Set(filters.categoryIds.flatMap((id) => getDescendantCategoryIds(id, categories)));
+  return entries.filter((entry) => {
+    if (categoryIds.size > 0 && !categoryIds.has(entry.product.categoryId || "")) return false;
+    if (filters.minPrice !== undefined && entry.price < filters.minPrice) return false;
+    if (filters.maxPrice !== undefined && entry.price > filters.maxPrice) return false;
+    if (filters.inStockOnly && !entry.inStock) return false;
+    return Object.entries(filters.attributes).every(
+      ([key, values]) => values.length === 0 || (entry.attributes[key] || []).some((value) => values.includes(value))
+    );
+  });
+}
+
+/**
+ * Attribute values to offer as filters, with how many entries carry each
+ */
+export function getAttributeFacets(entries: CatalogEntry[]): Record<string, Array<{ value: string; count: number }>> {
+  const counts: Record<string, Record<string, number>> = {};
+  entries.forEach((entry) => {
+    Object.entries(entry.attributes).forEach(([key, values]) => {
+      counts[key] = counts[key] || {};
+      values.forEach((value) => {
+        counts[key][value] = (counts[key][value] || 0) + 1;
+      });
+    });
+  });
+
+  const facets: Record<string, Array<{ value: string; count: number }>> = {};
+  Object.keys(counts)
+    .sort()
+    .forEach((key) => {
+      facets[key] = Object.entries(counts[key])
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => a.value.localeCompare(b.value, undefined, { numeric: true }));
+    });
+  return facets;
+}
+
+/**
+ * Entries in the chosen order
+ */
+export function sortCatalog(entries: CatalogEntry[], sort: CatalogSort): CatalogEntry[] {
+  const sorted = [...entries];
+  switch (sort) {
+    case "price-asc":
+      return sorted.sort((a, b) => a.price - b.price);
+    case "price-desc":
+      return sorted.sort((a, b) => b.price - a.price);
+    case "name":
+      return sorted.sort((a, b) => a.product.name.localeCompare(b.product.name));
+    default:
+      return sorted.sort((a, b) => b.product.createdAt.toMillis() - a.product.createdAt.toMillis());
+  }
+}
+
+/**
+ * One page of items
+ * @param page 1-based page number, clamped to the pages there are
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): { items: T[]; page: number; pageCount: number } {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  return { items: items.slice((current - 1) * pageSize, current * pageSize), page: current, pageCount };
+}
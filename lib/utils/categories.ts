@@ -0,0 +1,92 @@
+import { Category } from "@/lib/types";
+
+/**
+ * URL-safe slug for a category name, e.g. "Pressure Cookers & Pans" -> "pressure-cookers-pans"
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+const bySortOrder = (a: Category, b: Category) =>
+  (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name);
+
+/**
+ * Direct subcategories of a category, in display order
+ * @param parentId Category ID, or undefined for the top-level categories
+ */
+export function getChildCategories(parentId: string | undefined, categories: Category[]): Category[] {
+  return categories.filter((category) => category.parentId === parentId).sort(bySortOrder);
+}
+
+/**
+ * Categories in tree order, each with how deep it is (0 for top level)
+ * Categories whose parent is missing are treated as top level so they don't disappear.
+ */
+export function flattenCategoryTree(categories: Category[]): Array<{ category: Category; depth: number }> {
+  const ids = new Set(categories.map((category) => category.id));
+  const rows: Array<{ category: Category; depth: number }> = [];
+  const visit = (category: Category, depth: number) => {
+    rows.push({ category, depth });
+    getChildCategories(category.id, categories).forEach((child) => visit(child, depth + 1));
+  };
+  categories
+    .filter((category) => !category.parentId || !ids.has(category.parentId))
+    .sort(bySortOrder)
+    .forEach((category) => visit(category, 0));
+  return rows;
+}
+
+/**
+ * A category and all of its ancestors, top level first
+ */
+export function getCategoryPath(categoryId: string, categories: Category[]): Category[] {
+  const path: Category[] = [];
+  let current = categories.find((category) => category.id === categoryId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId = current.parentId;
+    current = parentId ? categories.find((category) => category.id === parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Full name of a category, e.g. "Cookware > Pressure Cookers"
+ */
+export function getCategoryLabel(categoryId: string, categories: Category[]): string {
+  return getCategoryPath(categoryId, categories)
+    .map((category) => category.name)
+    .join(" > ");
+}
+
+/**
+ * IDs of a category and every category below it
+ */
+export function getDescendantCategoryIds(categoryId: string, categories: Category[]): string[] {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    categories.filter((category) => category.parentId === ids[i]).forEach((child) => ids.push(child.id));
+  }
+  return ids;
+}
+
+/**
+ * Add each category's amount to all of its ancestors, so every category holds its subtree's total
+ * @param amounts Amount filed directly under each category, by category ID
+ */
+export function rollUpCategoryAmounts(
+  amounts: Record<string, number>,
+  categories: Category[]
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  Object.entries(amounts).forEach(([categoryId, amount]) => {
+    getCategoryPath(categoryId, categories).forEach((category) => {
+      totals[category.id] = (totals[category.id] || 0) + amount;
+    });
+  });
+  return totals;
+}
@@ -0,0 +1,103 @@
+import { CostLayer, CostingMethod, Product } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+
+/**
+ * Get a product's cost layers, starting them from its current stock if it has none yet
+ * Stock that predates cost layers is treated as one opening layer at the product's cost price.
+ * @param product Product with stock and (optionally) cost layers
+ * @returns A copy of the layers, oldest first
+ */
+export function getCostLayers(product: Pick<Product, "costLayers" | "costPrice" | "warehouses">): CostLayer[] {
+  if (product.costLayers) {
+    return product.costLayers.map((layer) => ({ ...layer }));
+  }
+  const onHand = Object.values(product.warehouses || {}).reduce(
+    (sum, warehouse) => sum + (warehouse.quantity || 0),
+    0
+  );
+  return onHand > 0 ? [{ quantity: onHand, unitCost: product.costPrice || 0 }] : [];
+}
+
+/**
+ * Total units and value held in cost layers
+ */
+export function getLayersValue(layers: CostLayer[]): { quantity: number; value: number } {
+  return layers.reduce(
+    (total, layer) => ({
+      quantity: total.quantity + layer.quantity,
+      value: total.value + layer.quantity * layer.unitCost,
+    }),
+    { quantity: 0, value: 0 }
+  );
+}
+
+/**
+ * Merge layers into one at their weighted average cost
+ */
+function mergeLayers(layers: CostLayer[]): CostLayer[] {
+  const { quantity, value } = getLayersValue(layers);
+  if (quantity <= 0) return [];
+  const latest = layers[layers.length - 1];
+  const merged: CostLayer = { quantity, unitCost: value / quantity };
+  if (latest.receivedAt) {
+    merged.receivedAt = latest.receivedAt;
+  }
+  return [merged];
+}
+
+/**
+ * Add received units to a product's cost layers
+ * @param layers Current layers, oldest first
+ * @param receipt Units received and what they cost
+ * @param method FIFO keeps a layer per receipt; weighted average keeps one merged layer
+ * @returns New layers
+ */
+export function receiveIntoLayers(layers: CostLayer[], receipt: CostLayer, method: CostingMethod): CostLayer[] {
+  if (receipt.quantity <= 0) return layers;
+  const next = [...layers.filter((layer) => layer.quantity > 0), receipt];
+  return method === "WEIGHTED_AVERAGE" ? mergeLayers(next) : next;
+}
+
+/**
+ * Take units out of a product's cost layers and work out what they cost
+ * Units beyond what the layers hold (e.g., stock counted in without a receipt) are costed at
+ * the most recent unit cost known.
+ * @param layers Current layers, oldest first
+ * @param quantity Units going out
+ * @param method FIFO takes the oldest layers first; weighted average uses the merged average
+ * @param fallbackUnitCost Cost to use when there are no layers at all
+ * @returns Remaining layers and the cost of the units taken
+ */
+export function issueFromLayers(
+  layers: CostLayer[],
+  quantity: number,
+  method: CostingMethod,
+  fallbackUnitCost: number = 0
+): { layers: CostLayer[]; cost: number } {
+  const remaining = (method === "WEIGHTED_AVERAGE" ? mergeLayers(layers) : layers).map((layer) => ({ ...layer }));
+  const lastUnitCost = remaining.length > 0 ? remaining[remaining.length - 1].unitCost : fallbackUnitCost;
+
+  let cost = 0;
+  let toIssue = quantity;
+  for (const layer of remaining) {
+    if (toIssue <= 0) break;
+    const take = Math.min(layer.quantity, toIssue);
+    cost += take * layer.unitCost;
+    layer.quantity -= take;
+    toIssue -= take;
+  }
+  cost += toIssue * lastUnitCost;
+
+  return { layers: remaining.filter((layer) => layer.quantity > 0), cost: roundAmount(cost) };
+}
+
+/**
+ * Get the cost price to show on a product after its layers change
+ * @returns Weighted average cost, or the latest layer's cost under FIFO
+ */
+export function getProductCostPrice(layers: CostLayer[], method: CostingMethod, currentCostPrice?: number): number {
+  if (layers.length === 0) return currentCostPrice || 0;
+  if (method === "FIFO") return layers[layers.length - 1].unitCost;
+  const { quantity, value } = getLayersValue(layers);
+  return quantity > 0 ? roundAmount(value / quantity) : currentCostPrice || 0;
+}
@@ -0,0 +1,119 @@
+import { CreditTransaction, Customer, OverdueCustomer, User } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How far a new credit sale would take a customer past their credit limit
+ * @param additionalDue Amount the sale leaves owing
+ * @returns 0 when the customer has no limit or stays within it
+ */
+export function getCreditLimitExcess(
+  customer: Pick<Customer, "creditLimit" | "totalDue">,
+  additionalDue: number
+): number {
+  if (customer.creditLimit === undefined || additionalDue <= 0) return 0;
+  return Math.max(0, roundAmount((customer.totalDue || 0) + additionalDue - customer.creditLimit));
+}
+
+/**
+ * Whether a user may let a credit sale take a customer past their credit limit
+ */
+export function canOverrideCreditLimit(user: Pick<User, "role" | "permissions">): boolean {
+  return user.role === "admin" || user.permissions?.resources.customers?.overrideCreditLimit === true;
+}
+
+/**
+ * When credit given on a date has to be settled by, under the customer's payment terms
+ */
+export function getCreditDueDate(createdAt: Date, paymentTermsDays?: number): Date {
+  return new Date(createdAt.getTime() + (paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS) * DAY_MS);
+}
+
+/**
+ * Due date of a credit transaction
+ * Credit given before due dates were recorded falls due after the default payment terms.
+ */
+export function getCreditTransactionDueDate(credit: Pick<CreditTransaction, "createdAt" | "dueDate">): Date {
+  return credit.dueDate ? credit.dueDate.toDate() : getCreditDueDate(credit.createdAt.toDate());
+}
+
+/**
+ * Customers with outstanding credit past its due date, most overdue first
+ * @param credits Outstanding credit transactions, any customer
+ * @param customers Customers by ID; credit for unknown customers is left out
+ */
+export function getOverdueCustomers(
+  credits: CreditTransaction[],
+  customers: Record<string, Customer>,
+  asOf: Date = new Date()
+): OverdueCustomer[] {
+  const overdueByCustomer = new Map<string, CreditTransaction[]>();
+  for (const credit of credits) {
+    if (credit.dueAmount <= 0 || getCreditTransactionDueDate(credit) >= asOf) continue;
+    overdueByCustomer.set(credit.customerId, [...(overdueByCustomer.get(credit.customerId) || []), credit]);
+  }
+
+  const overdue: OverdueCustomer[] = [];
+  overdueByCustomer.forEach((customerCredits, customerId) => {
+    const customer = customers[customerId];
+    if (!customer) return;
+
+    const sorted = [...customerCredits].sort(
+      (a, b) => getCreditTransactionDueDate(a).getTime() - getCreditTransactionDueDate(b).getTime()
+    );
+    const oldestDueDate = getCreditTransactionDueDate(sorted[0]);
+    overdue.push({
+      customer,
+      overdueAmount: roundAmount(sorted.reduce((sum, credit) => sum + credit.dueAmount, 0)),
+      totalDue: customer.totalDue || 0,
+      oldestDueDate,
+      daysOverdue: Math.floor((asOf.getTime() - oldestDueDate.getTime()) / DAY_MS),
+      credits: sorted,
+    });
+  });
+
+  return overdue.sort((a, b) => b.daysOverdue - a.daysOverdue);
+}
+
+/**
+ * Payment reminder message for an overdue customer, ready to send by SMS or copy into a chat
+ */
+export function generateReminderMessage(
+  overdue: OverdueCustomer,
+  companyName: string = "Ghimire Kitchen Wares"
+): string {
+  const { customer, overdueAmount, totalDue, oldestDueDate } = overdue;
+  const lines = [
+    `Dear ${customer.name},`,
+    `This is a reminder from ${companyName} that Rs ${overdueAmount.toFixed(2)} on your account has been due since ${oldestDueDate.toLocaleDateString()}.`,
+  ];
+  if (totalDue > overdueAmount) {
+    lines.push(`Your total outstanding balance is Rs ${totalDue.toFixed(2)}.`);
+  }
+  lines.push("Please settle the overdue amount at your earliest convenience. Thank you.");
+  return lines.join("\n");
+}
+
+/**
+ * Spread a payment across open credits, settling the oldest first
+ * @returns Amount to settle on each credit by credit ID; credits the payment doesn't reach are left out
+ */
+export function allocatePaymentFIFO(
+  credits: Array<Pick<CreditTransaction, "id" | "dueAmount" | "createdAt">>,
+  amount: number
+): Record<string, number> {
+  const allocations: Record<string, number> = {};
+  let remaining = roundAmount(amount);
+  const oldestFirst = [...credits].sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+  for (const credit of oldestFirst) {
+    if (remaining <= 0) break;
+    const settled = roundAmount(Math.min(credit.dueAmount, remaining));
+    if (settled <= 0) continue;
+    allocations[credit.id] = settled;
+    remaining = roundAmount(remaining - settled);
+  }
+  return allocations;
+}
@@ -0,0 +1,309 @@
+import { AppliedPromotion, PriceList, PricingContext, Product, Promotion } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+import { getDescendantCategoryIds } from "@/lib/utils/categories";
+import { getEffectivePrice } from "@/lib/utils/price";
+
+export const PROMOTION_TYPE_LABELS: Record<Promotion["type"], string> = {
+  PERCENT_OFF: "Percentage off",
+  AMOUNT_OFF: "Amount off",
+  BUY_X_GET_Y: "Buy X get Y free",
+  QUANTITY_BREAK: "Quantity breaks",
+};
+
+// Timestamps read back from the offline cache are plain { seconds, nanoseconds } objects
+const toMillis = (timestamp: { seconds: number }) => timestamp.seconds * 1000;
+
+/**
+ * Whether a promotion is switched on and inside its dates
+ */
+export function isPromotionRunning(promotion: Promotion, now: Date = new Date()): boolean {
+  return (
+    promotion.isActive &&
+    toMillis(promotion.startsAt) <= now.getTime() &&
+    (!promotion.endsAt || now.getTime() < toMillis(promotion.endsAt))
+  );
+}
+
+/**
+ * Check a promotion before it is saved
+ * @returns What's wrong, or null when the promotion is fine
+ */
+export function validatePromotion(promotion: Omit<Promotion, "id" | "createdAt" | "updatedAt">): string | null {
+  if (!promotion.name.trim()) return "Give the promotion a name";
+  if (promotion.endsAt && toMillis(promotion.endsAt) <= toMillis(promotion.startsAt)) {
+    return "The promotion must end after it starts";
+  }
+
+  if (promotion.scope === "PRODUCT" && !promotion.productIds?.length) return "Choose the products it covers";
+  if (promotion.scope === "CATEGORY" && !promotion.categoryIds?.length) return "Choose the categories it covers";
+  if (promotion.scope === "CART" && promotion.type !== "PERCENT_OFF" && promotion.type !== "AMOUNT_OFF") {
+    return "A cart promotion can only take a percentage or an amount off";
+  }
+
+  switch (promotion.type) {
+    case "PERCENT_OFF":
+      if (!promotion.value || promotion.value <= 0 || promotion.value > 100) {
+        return "Percentage off must be above 0 and at most 100";
+      }
+      break;
+    case "AMOUNT_OFF":
+      if (!promotion.value || promotion.value <= 0) return "Amount off must be above 0";
+      break;
+    case "BUY_X_GET_Y":
+      if (
+        !Number.isInteger(promotion.buyQuantity) ||
+        !Number.isInteger(promotion.getQuantity) ||
+        (promotion.buyQuantity || 0) <= 0 ||
+        (promotion.getQuantity || 0) <= 0
+      ) {
+        return "Buy and get quantities must be whole numbers above 0";
+      }
+      break;
+    case "QUANTITY_BREAK": {
+      const breaks = promotion.quantityBreaks || [];
+      if (breaks.length === 0) return "Add at least one quantity break";
+      if (breaks.some((b) => !Number.isInteger(b.minQuantity) || b.minQuantity < 2)) {
+        return "Each break needs a whole-number quantity of 2 or more";
+      }
+      if (breaks.some((b) => b.discountPercent <= 0 || b.discountPercent > 100)) {
+        return "Each break's percentage off must be above 0 and at most 100";
+      }
+      if (new Set(breaks.map((b) => b.minQuantity)).size !== breaks.length) {
+        return "Two breaks can't start at the same quantity";
+      }
+      break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Short description of what a promotion gives, e.g. "Buy 2 get 1 free"
+ */
+export function describePromotion(promotion: Promotion): string {
+  switch (promotion.type) {
+    case "PERCENT_OFF":
+      return `${promotion.value}% off`;
+    case "AMOUNT_OFF":
+      return `Rs ${(promotion.value || 0).toFixed(2)} off${promotion.scope === "CART" ? "" : " each"}`;
+    case "BUY_X_GET_Y":
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+    case "QUANTITY_BREAK":
+      return [...(promotion.quantityBreaks || [])]
+        .sort((a, b) => a.minQuantity - b.minQuantity)
+        .map((b) => `${b.minQuantity}+: ${b.discountPercent}% off`)
+        .join(", ");
+  }
+}
+
+/**
+ * Unit price of a product before promotions, on a customer's price list
+ * A price list never charges more than the retail price (after the product's own discount).
+ * @param priceList The customer's price list, or null for retail
+ */
+export function getListPrice(
+  product: Pick<Product, "id" | "price" | "discount">,
+  priceList?: PriceList | null
+): number {
+  const retailPrice = getEffectivePrice(product.price, product.discount);
+  if (!priceList) return retailPrice;
+
+  const listedPrice = priceList.prices[product.id];
+  const price =
+    listedPrice !== undefined ? listedPrice : product.price * (1 - (priceList.discountPercent || 0) / 100);
+  return Math.min(retailPrice, price);
+}
+
+/**
+ * Whether a product or category promotion covers a product
+ */
+export function isProductInPromotion(
+  promotion: Promotion,
+  product: Pick<Product, "id" | "parentProductId" | "categoryId">,
+  categories: PricingContext["categories"]
+): boolean {
+  switch (promotion.scope) {
+    case "PRODUCT":
+      return (promotion.productIds || []).some((id) => id === product.id || id === product.parentProductId);
+    case "CATEGORY": {
+      const categoryId = product.categoryId;
+      return (
+        !!categoryId &&
+        (promotion.categoryIds || []).some((id) => getDescendantCategoryIds(id, categories).includes(categoryId))
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+type PriceableLine = {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  discount?: number;
+  promotion?: AppliedPromotion;
+};
+
+export type PricedItems<T> = {
+  items: T[];
+  subtotal: number; // Lines after their promotions
+  cartDiscount: number; // Taken off the subtotal by the cart promotion
+  cartPromotion?: AppliedPromotion;
+  promotions: AppliedPromotion[]; // Every promotion that applied, line ones totalled across lines
+};
+
+/**
+ * Discount a product or category promotion gives each of some lines, by line index
+ * Buy X get Y and quantity breaks count units across all the lines, so mixing variants still qualifies.
+ */
+function getLineDiscounts(
+  promotion: Promotion,
+  lines: Array<{ index: number; quantity: number; unitPrice: number }>
+): Map<number, number> {
+  const discounts = new Map<number, number>();
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const percentOff = (percent: number) =>
+    lines.forEach((line) => discounts.set(line.index, (line.unitPrice * line.quantity * percent) / 100));
+
+  switch (promotion.type) {
+    case "PERCENT_OFF":
+      percentOff(Math.min(promotion.value || 0, 100));
+      break;
+    case "AMOUNT_OFF":
+      lines.forEach((line) =>
+        discounts.set(line.index, Math.min(promotion.value || 0, line.unitPrice) * line.quantity)
+      );
+      break;
+    case "QUANTITY_BREAK": {
+      const reached = (promotion.quantityBreaks || [])
+        .filter((quantityBreak) => totalQuantity >= quantityBreak.minQuantity)
+        .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+      if (reached) percentOff(Math.min(reached.discountPercent, 100));
+      break;
+    }
+    case "BUY_X_GET_Y": {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      if (buy <= 0 || get <= 0) break;
+      // The cheapest units are the free ones
+      let free = Math.floor(totalQuantity / (buy + get)) * get;
+      [...lines]
+        .sort((a, b) => a.unitPrice - b.unitPrice)
+        .forEach((line) => {
+          const units = Math.min(free, line.quantity);
+          free -= units;
+          if (units > 0) discounts.set(line.index, line.unitPrice * units);
+        });
+      break;
+    }
+  }
+
+  discounts.forEach((amount, index) => discounts.set(index, roundAmount(amount)));
+  return discounts;
+}
+
+/**
+ * Price cart lines: price list first, then promotions
+ * Promotions don't stack - each line gets at most one, with the promotion saving the most taken
+ * first, then the best of what's left for the remaining lines. One cart promotion can then come
+ * off the subtotal on top. Lines keep their order; each comes back with its unit price, discount,
+ * subtotal and promotion set (discount and promotion are left off lines without one).
+ * @param products Products keyed by ID - a line whose product isn't here keeps its unit price and gets no promotion
+ * @param now When the sale happens, for promotion dates
+ */
+export function priceItems<T extends PriceableLine>(
+  items: T[],
+  products: Map<string, Product>,
+  context: PricingContext,
+  now: Date = new Date()
+): PricedItems<T> {
+  const lines = items.map((item, index) => {
+    const product = products.get(item.productId);
+    const unitPrice = product ? roundAmount(getListPrice(product, context.priceList)) : item.unitPrice;
+    return { index, product, quantity: item.quantity, unitPrice };
+  });
+
+  const running = context.promotions.filter((promotion) => isPromotionRunning(promotion, now));
+  const lineDiscounts = new Map<number, { amount: number; promotion: Promotion }>();
+  let open = lines.filter((line) => line.product);
+  let candidates = running.filter((promotion) => promotion.scope !== "CART");
+  while (open.length > 0 && candidates.length > 0) {
+    let best: { promotion: Promotion; covered: typeof lines; discounts: Map<number, number>; total: number } | null =
+      null;
+    for (const promotion of candidates) {
+      const covered = open.filter(
+        (line) => line.product && isProductInPromotion(promotion, line.product, context.categories)
+      );
+      if (covered.length === 0) continue;
+      const discounts = getLineDiscounts(promotion, covered);
+      const total = Array.from(discounts.values()).reduce((sum, amount) => sum + amount, 0);
+      if (total > (best?.total || 0)) best = { promotion, covered, discounts, total };
+    }
+    if (!best) break;
+
+    // Every line the promotion counted is spoken for, even ones it gave nothing off (the "buy" units)
+    const { promotion, covered, discounts } = best;
+    discounts.forEach((amount, index) => {
+      if (amount > 0) lineDiscounts.set(index, { amount, promotion });
+    });
+    open = open.filter((line) => !covered.includes(line));
+    candidates = candidates.filter((candidate) => candidate !== promotion);
+  }
+
+  const pricedItems = items.map((item, index) => {
+    const unitPrice = lines[index].unitPrice;
+    const lineDiscount = lineDiscounts.get(index);
+    const priced: T = {
+      ...item,
+      unitPrice,
+      subtotal: roundAmount(unitPrice * item.quantity - (lineDiscount?.amount || 0)),
+    };
+    delete priced.discount;
+    delete priced.promotion;
+    if (lineDiscount) {
+      priced.discount = lineDiscount.amount;
+      priced.promotion = {
+        promotionId: lineDiscount.promotion.id,
+        name: lineDiscount.promotion.name,
+        amount: lineDiscount.amount,
+      };
+    }
+    return priced;
+  });
+  const subtotal = roundAmount(pricedItems.reduce((sum, item) => sum + item.subtotal, 0));
+
+  let cartPromotion: AppliedPromotion | undefined;
+  running
+    .filter((promotion) => promotion.scope === "CART" && subtotal >= (promotion.minSubtotal || 0))
+    .forEach((promotion) => {
+      const amount = roundAmount(
+        promotion.type === "PERCENT_OFF"
+          ? (subtotal * Math.min(promotion.value || 0, 100)) / 100
+          : promotion.type === "AMOUNT_OFF"
+            ? Math.min(promotion.value || 0, subtotal)
+            : 0
+      );
+      if (amount > (cartPromotion?.amount || 0)) {
+        cartPromotion = { promotionId: promotion.id, name: promotion.name, amount };
+      }
+    });
+
+  const promotions: AppliedPromotion[] = [];
+  pricedItems.forEach((item) => {
+    if (!item.promotion) return;
+    const applied = promotions.find((promotion) => promotion.promotionId === item.promotion?.promotionId);
+    if (applied) applied.amount = roundAmount(applied.amount + item.promotion.amount);
+    else promotions.push({ ...item.promotion });
+  });
+  if (cartPromotion) promotions.push(cartPromotion);
+
+  return {
+    items: pricedItems,
+    subtotal,
+    cartDiscount: cartPromotion?.amount || 0,
+    ...(cartPromotion ? { cartPromotion } : {}),
+    promotions,
+  };
+}
@@ -0,0 +1,296 @@
+import { Category, Product, ProductImportRow, Warehouse } from "@/lib/types";
+import { isBundle } from "@/lib/utils/bundles";
+import { getCategoryLabel } from "@/lib/utils/categories";
+import { getProductVariants, hasVariants } from "@/lib/utils/variants";
+
+// Columns shared by the export and the import; "Variant Of", "Total Stock" and "Stock Value" are read-only
+const COLUMNS = {
+  sku: "SKU",
+  name: "Name",
+  category: "Category",
+  description: "Description",
+  price: "Price",
+  costPrice: "Cost Price",
+  discount: "Discount",
+  isActive: "Active",
+  variantOf: "Variant Of",
+  totalStock: "Total Stock",
+  stockValue: "Stock Value",
+};
+
+// Prefix of a warehouse quantity column header, followed by the warehouse ID
+const QUANTITY_COLUMN_PREFIX = "Qty: ";
+
+const formatValue = (value: string | number | boolean | undefined) =>
+  value === undefined ? "" : typeof value === "boolean" ? (value ? "Yes" : "No") : String(value);
+
+/**
+ * The whole catalogue as spreadsheet rows, header first, for editing offline and importing back
+ * Variants follow the product they belong to; products sold in variants and bundles leave quantities blank.
+ */
+export function productsToSheetRows(
+  products: Product[],
+  categories: Category[],
+  warehouses: Warehouse[]
+): Array<Array<string | number | undefined>> {
+  const header = [
+    COLUMNS.sku,
+    COLUMNS.name,
+    COLUMNS.category,
+    COLUMNS.description,
+    COLUMNS.price,
+    COLUMNS.costPrice,
+    COLUMNS.discount,
+    COLUMNS.isActive,
+    COLUMNS.variantOf,
+    ...warehouses.map((warehouse) => `${QUANTITY_COLUMN_PREFIX}${warehouse.id}`),
+    COLUMNS.totalStock,
+    COLUMNS.stockValue,
+  ];
+
+  const byName = (a: Product, b: Product) => a.name.localeCompare(b.name);
+  const ordered: Product[] = [];
+  products
+    .filter((product) => !product.parentProductId)
+    .sort(byName)
+    .forEach((product) => {
+      ordered.push(product);
+      if (hasVariants(product)) ordered.push(...getProductVariants(product.id, products).sort(byName));
+    });
+  // Variants whose product is gone still belong in the export
+  products.filter((product) => !ordered.includes(product)).forEach((product) => ordered.push(product));
+
+  const rows = ordered.map((product) => {
+    const parent = product.parentProductId
+      ? products.find((p) => p.id === product.parentProductId)
+      : undefined;
+    const holdsStock = !hasVariants(product) && !isBundle(product);
+    const totalStock = Object.values(product.warehouses).reduce((sum, warehouse) => sum + warehouse.quantity, 0);
+    const categoryLabel =
+      product.categoryId && categories.some((category) => category.id === product.categoryId)
+        ? getCategoryLabel(product.categoryId, categories)
+        : product.category;
+
+    return [
+      product.sku,
+      product.name,
+      categoryLabel,
+      product.description,
+      product.price,
+      product.costPrice,
+      product.discount,
+      formatValue(product.isActive),
+      parent?.sku,
+      ...warehouses.map((warehouse) => (holdsStock ? product.warehouses[warehouse.id]?.quantity ?? 0 : undefined)),
+      holdsStock ? totalStock : undefined,
+      holdsStock && product.costPrice !== undefined ? Math.round(totalStock * product.costPrice * 100) / 100 : undefined,
+    ];
+  });
+
+  return [header, ...rows];
+}
+
+/**
+ * Check spreadsheet rows against the catalogue and work out what importing them would do
+ * Rows are matched to products by SKU. Blank cells leave an existing product's value as it is.
+ * Throws if the header is missing required columns or names a warehouse that doesn't exist.
+ */
+export function planProductImport(
+  sheetRows: string[][],
+  products: Product[],
+  categories: Category[],
+  warehouses: Warehouse[]
+): ProductImportRow[] {
+  if (sheetRows.length < 2) {
+    throw new Error("The file has no products in it");
+  }
+
+  const header = sheetRows[0].map((cell) => cell.trim());
+  const columnIndex = (name: string) => header.findIndex((cell) => cell.toLowerCase() === name.toLowerCase());
+  for (const required of [COLUMNS.sku, COLUMNS.name, COLUMNS.price]) {
+    if (columnIndex(required) === -1) {
+      throw new Error(`The file needs a "${required}" column`);
+    }
+  }
+
+  const quantityColumns: Array<{ index: number; warehouse: Warehouse }> = [];
+  header.forEach((cell, index) => {
+    if (!cell.toLowerCase().startsWith(QUANTITY_COLUMN_PREFIX.toLowerCase())) return;
+    const warehouseId = cell.slice(QUANTITY_COLUMN_PREFIX.length).trim();
+    const warehouse = warehouses.find((w) => w.id === warehouseId);
+    if (!warehouse) {
+      throw new Error(`Column "${cell}" doesn't match any warehouse ID`);
+    }
+    quantityColumns.push({ index, warehouse });
+  });
+
+  const categoryByLabel = new Map<string, Category>();
+  categories.forEach((category) => {
+    categoryByLabel.set(getCategoryLabel(category.id, categories).toLowerCase(), category);
+  });
+  // Bare names work too, as long as only one category has the name
+  categories.forEach((category) => {
+    const sameName = categories.filter((c) => c.name.toLowerCase() === category.name.toLowerCase());
+    if (sameName.length === 1 && !categoryByLabel.has(category.name.toLowerCase())) {
+      categoryByLabel.set(category.name.toLowerCase(), category);
+    }
+  });
+
+  const productBySku = new Map(products.map((product) => [product.sku, product]));
+  const skuCounts = new Map<string, number>();
+  sheetRows.slice(1).forEach((cells) => {
+    const sku = (cells[columnIndex(COLUMNS.sku)] || "").trim();
+    skuCounts.set(sku, (skuCounts.get(sku) || 0) + 1);
+  });
+
+  return sheetRows.slice(1).map((cells, i) => {
+    const cell = (name: string) => {
+      const index = columnIndex(name);
+      return index === -1 ? "" : (cells[index] || "").trim();
+    };
+    const errors: string[] = [];
+    const parseAmount = (name: string, { integer = false, max }: { integer?: boolean; max?: number } = {}) => {
+      const value = cell(name);
+      if (!value) return undefined;
+      const amount = Number(value.replace(/,/g, ""));
+      if (!Number.isFinite(amount) || amount < 0 || (integer && !Number.isInteger(amount))) {
+        errors.push(`${name} must be a ${integer ? "whole number" : "number"} of 0 or more`);
+        return undefined;
+      }
+      if (max !== undefined && amount > max) {
+        errors.push(`${name} can't be more than ${max}`);
+        return undefined;
+      }
+      return amount;
+    };
+
+    const sku = cell(COLUMNS.sku);
+    const existing = productBySku.get(sku);
+    if (!sku) {
+      errors.push("SKU is required");
+    } else if (!existing && /\s/.test(sku)) {
+      errors.push("SKU can't contain spaces");
+    } else if ((skuCounts.get(sku) || 0) > 1) {
+      errors.push("SKU appears more than once in the file");
+    }
+
+    const values: ProductImportRow["fields"] = {};
+    const name = cell(COLUMNS.name);
+    if (name) values.name = name;
+    const description = cell(COLUMNS.description);
+    if (description) values.description = description;
+    const price = parseAmount(COLUMNS.price);
+    if (price !== undefined) values.price = price;
+    const costPrice = parseAmount(COLUMNS.costPrice);
+    if (costPrice !== undefined) values.costPrice = costPrice;
+    const discount = parseAmount(COLUMNS.discount, { max: 100 });
+    if (discount !== undefined) values.discount = discount;
+
+    const active = cell(COLUMNS.isActive).toLowerCase();
+    if (["yes", "true", "1"].includes(active)) {
+      values.isActive = true;
+    } else if (["no", "false", "0"].includes(active)) {
+      values.isActive = false;
+    } else if (active) {
+      errors.push("Active must be Yes or No");
+    }
+
+    const categoryValue = cell(COLUMNS.category);
+    if (categoryValue && categories.length > 0) {
+      const category = categoryByLabel.get(categoryValue.replace(/\s*>\s*/g, " > ").toLowerCase());
+      if (category) {
+        values.category = category.name;
+        values.categoryId = category.id;
+      } else {
+        errors.push(`Category "${categoryValue}" isn't in the category tree`);
+      }
+    } else if (categoryValue) {
+      values.category = categoryValue;
+    }
+
+    const quantities: Record<string, number> = {};
+    quantityColumns.forEach(({ index, warehouse }) => {
+      const quantity = parseAmount(header[index], { integer: true });
+      if (quantity !== undefined) quantities[warehouse.id] = quantity;
+    });
+
+    const row: ProductImportRow = {
+      rowNumber: i + 2,
+      sku,
+      name: name || existing?.name || "",
+      action: "CREATE",
+      fields: values,
+      quantities,
+      quantityChanges: {},
+      changes: [],
+      errors,
+    };
+
+    if (!existing) {
+      if (cell(COLUMNS.variantOf)) errors.push("New variants are added from their product's page");
+      if (!name) errors.push("Name is required for a new product");
+      if (price === undefined && !cell(COLUMNS.price)) errors.push("Price is required for a new product");
+      if (!values.category) errors.push("Category is required for a new product");
+      return row;
+    }
+
+    row.action = "UPDATE";
+    row.productId = existing.id;
+    const labels: Record<string, string> = {
+      name: COLUMNS.name,
+      description: COLUMNS.description,
+      price: COLUMNS.price,
+      costPrice: COLUMNS.costPrice,
+      discount: COLUMNS.discount,
+      isActive: COLUMNS.isActive,
+    };
+    const fields: ProductImportRow["fields"] = {};
+    // A product with cost layers is costed at what its stock was bought at, not an imported cost
+    if ((existing.costLayers?.length ?? 0) > 0) {
+      delete values.costPrice;
+    }
+    (Object.keys(values) as Array<keyof ProductImportRow["fields"]>).forEach((key) => {
+      if (values[key] === existing[key]) return;
+      Object.assign(fields, { [key]: values[key] });
+      if (labels[key]) {
+        row.changes.push({ field: labels[key], from: formatValue(existing[key]), to: formatValue(values[key]) });
+      }
+    });
+    // Category name and ID change together, so they're shown as one change
+    if (fields.category !== undefined || fields.categoryId !== undefined) {
+      row.changes.push({
+        field: COLUMNS.category,
+        from:
+          existing.categoryId && categories.some((category) => category.id === existing.categoryId)
+            ? getCategoryLabel(existing.categoryId, categories)
+            : existing.category,
+        to: values.categoryId ? getCategoryLabel(values.categoryId, categories) : categoryValue,
+      });
+    }
+    row.fields = fields;
+
+    if (hasVariants(existing) && Object.values(quantities).some((quantity) => quantity !== 0)) {
+      errors.push("A product sold in variants holds no stock - set quantities on its variants");
+    }
+    if (isBundle(existing) && Object.values(quantities).some((quantity) => quantity !== 0)) {
+      errors.push("A bundle holds no stock - set quantities on its components");
+    }
+    row.quantities = {};
+    Object.entries(quantities).forEach(([warehouseId, quantity]) => {
+      const current = existing.warehouses[warehouseId]?.quantity ?? 0;
+      if (quantity === current) return;
+      row.quantities[warehouseId] = quantity;
+      row.quantityChanges[warehouseId] = quantity - current;
+      row.changes.push({
+        field: `Qty: ${warehouses.find((w) => w.id === warehouseId)?.name || warehouseId}`,
+        from: String(current),
+        to: String(quantity),
+      });
+    });
+
+    if (Object.keys(row.fields).length === 0 && Object.keys(row.quantities).length === 0) {
+      row.action = "UNCHANGED";
+    }
+    return row;
+  });
+}
@@ -0,0 +1,27 @@
+import { PurchaseOrder, PurchaseOrderItem } from "@/lib/types";
+
+/**
+ * Whether goods have been received against a purchase order, so it counts as a purchase
+ */
+export function hasReceivedGoods(po: Pick<PurchaseOrder, "status">): boolean {
+  return po.status === "RECEIVED" || po.status === "PARTIALLY_RECEIVED";
+}
+
+/**
+ * Whether more goods can still be received against a purchase order
+ */
+export function isAwaitingDelivery(po: Pick<PurchaseOrder, "status">): boolean {
+  return po.status === "PENDING" || po.status === "APPROVED" || po.status === "PARTIALLY_RECEIVED";
+}
+
+/**
+ * Units of a line still to be delivered
+ * Nothing is outstanding once the order is received in full, closed short or cancelled.
+ */
+export function getOutstandingQuantity(
+  po: Pick<PurchaseOrder, "status">,
+  item: Pick<PurchaseOrderItem, "quantity" | "receivedQuantity">
+): number {
+  if (!isAwaitingDelivery(po)) return 0;
+  return Math.max(0, item.quantity - (item.receivedQuantity || 0));
+}
@@ -1,11 +1,12 @@
 // Receipt Generator - Generate HTML and PDF receipts for orders
-import { Order } from "@/lib/types";
+import { CreditPayment, Order, SaleReturn } from "@/lib/types";
 
 /**
  * Generate HTML receipt
  */
 export function generateReceiptHTML(order: Order, companyName: string = "Ghimire Kitchen Wares"): string {
   const orderDate = order.createdAt.toDate().toLocaleString();
+  const includedTax = order.items.reduce((sum, item) => sum + (item.taxInclusive ? item.taxAmount || 0 : 0), 0);
   
   return `
 <!DOCTYPE html>
@@ -121,7 +122,7 @@ export function generateReceiptHTML(order: Order, companyName: string = "Ghimire
     <tbody>
       ${order.items.map(item => `
         <tr>
-          <td>${item.productName}</td>
+          <td>${item.productName}${item.bundle ? `<br><small>Part of ${item.bundle.productName} x ${item.bundle.quantity}</small>` : ''}${item.promotion ? `<br><small>${item.promotion.name}: -Rs ${item.promotion.amount.toFixed(2)}</small>` : ''}</td>
           <td>${item.sku}</td>
           <td class="text-right">${item.quantity}</td>
           <td class="text-right">Rs ${item.unitPrice.toFixed(2)}</td>
@@ -142,6 +143,18 @@ export function generateReceiptHTML(order: Order, companyName: string = "Ghimire
       <span>-Rs ${order.discount.toFixed(2)}</span>
     </div>
     ` : ''}
+    ${order.promotions && order.promotions.length > 0 ? `
+    <div class="totals-row">
+      <span>Promotions:</span>
+      <span>${order.promotions.map(promotion => promotion.name).join(', ')}</span>
+    </div>
+    ` : ''}
+    ${order.tax ? `
+    <div class="totals-row">
+      <span>${includedTax >= order.tax ? 'VAT (included):' : 'VAT:'}</span>
+      <span>Rs ${order.tax.toFixed(2)}</span>
+    </div>
+    ` : ''}
     ${order.loyaltyPointsUsed ? `
     <div class="totals-row">
       <span>Loyalty Points Used:</span>
@@ -204,3 +217,301 @@ export function downloadReceiptHTML(order: Order, companyName?: string): void {
   URL.revokeObjectURL(url);
 }
 
+
+/**
+ * Generate HTML receipt for a sales return
+ */
+export function generateReturnReceiptHTML(saleReturn: SaleReturn, companyName: string = "Ghimire Kitchen Wares"): string {
+  const returnDate = saleReturn.createdAt.toDate().toLocaleString();
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Return Receipt - ${saleReturn.returnNumber}</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .header {
+      text-align: center;
+      border-bottom: 2px solid #000;
+      padding-bottom: 20px;
+      margin-bottom: 20px;
+    }
+    .header h1 {
+      margin: 0;
+      font-size: 24px;
+    }
+    .info p {
+      margin: 5px 0;
+    }
+    .items-table {
+      width: 100%;
+      border-collapse: collapse;
+      margin: 20px 0;
+    }
+    .items-table th,
+    .items-table td {
+      padding: 10px;
+      text-align: left;
+      border-bottom: 1px solid #ddd;
+    }
+    .items-table th {
+      background-color: #f5f5f5;
+      font-weight: bold;
+    }
+    .items-table .text-right {
+      text-align: right;
+    }
+    .totals {
+      border-top: 2px solid #000;
+      padding-top: 10px;
+    }
+    .totals-row {
+      display: flex;
+      justify-content: space-between;
+      margin: 5px 0;
+    }
+    .total-row {
+      font-weight: bold;
+      font-size: 18px;
+      margin-top: 10px;
+    }
+    .footer {
+      margin-top: 30px;
+      text-align: center;
+      font-size: 12px;
+      color: #666;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>${companyName}</h1>
+    <p>Return Receipt</p>
+  </div>
+
+  <div class="info">
+    <p><strong>Return Number:</strong> ${saleReturn.returnNumber}</p>
+    <p><strong>Original Sale:</strong> ${saleReturn.saleId}</p>
+    <p><strong>Date:</strong> ${returnDate}</p>
+    ${saleReturn.reason ? `<p><strong>Reason:</strong> ${saleReturn.reason}</p>` : ''}
+  </div>
+
+  <table class="items-table">
+    <thead>
+      <tr>
+        <th>Item</th>
+        <th>SKU</th>
+        <th class="text-right">Qty</th>
+        <th class="text-right">Refund/Unit</th>
+        <th class="text-right">Subtotal</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${saleReturn.items.map(item => `
+        <tr>
+          <td>${item.productName}</td>
+          <td>${item.sku}</td>
+          <td class="text-right">${item.quantity}</td>
+          <td class="text-right">Rs ${item.unitPrice.toFixed(2)}</td>
+          <td class="text-right">Rs ${item.subtotal.toFixed(2)}</td>
+        </tr>
+      `).join('')}
+    </tbody>
+  </table>
+
+  <div class="totals">
+    ${saleReturn.tax ? `
+    <div class="totals-row">
+      <span>VAT Reversed:</span>
+      <span>Rs ${saleReturn.tax.toFixed(2)}</span>
+    </div>
+    ` : ''}
+    ${saleReturn.creditAdjusted > 0 ? `
+    <div class="totals-row">
+      <span>Adjusted Against Credit:</span>
+      <span>Rs ${saleReturn.creditAdjusted.toFixed(2)}</span>
+    </div>
+    ` : ''}
+    ${saleReturn.refundedAmount > 0 ? `
+    <div class="totals-row">
+      <span>Refunded (${saleReturn.refundMethod}):</span>
+      <span>Rs ${saleReturn.refundedAmount.toFixed(2)}</span>
+    </div>
+    ` : ''}
+    <div class="totals-row total-row">
+      <span>Total Refund:</span>
+      <span>Rs ${saleReturn.total.toFixed(2)}</span>
+    </div>
+  </div>
+
+  <div class="footer">
+    <p>Please keep this receipt for your records.</p>
+  </div>
+</body>
+</html>
+  `;
+}
+
+/**
+ * Print return receipt (using browser print functionality)
+ */
+export function printReturnReceipt(saleReturn: SaleReturn, companyName?: string): void {
+  const html = generateReturnReceiptHTML(saleReturn, companyName);
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}
+
+/**
+ * Generate HTML receipt for a payment against customer credit
+ * @param customerName Printed on the receipt (payments only store the customer ID)
+ */
+export function generateCreditPaymentReceiptHTML(
+  payment: CreditPayment,
+  customerName: string,
+  companyName: string = "Ghimire Kitchen Wares"
+): string {
+  const paymentDate = payment.createdAt.toDate().toLocaleString();
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Payment Receipt - ${payment.receiptNumber}</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .header {
+      text-align: center;
+      border-bottom: 2px solid #000;
+      padding-bottom: 20px;
+      margin-bottom: 20px;
+    }
+    .header h1 {
+      margin: 0;
+      font-size: 24px;
+    }
+    .info p {
+      margin: 5px 0;
+    }
+    .items-table {
+      width: 100%;
+      border-collapse: collapse;
+      margin: 20px 0;
+    }
+    .items-table th,
+    .items-table td {
+      padding: 10px;
+      text-align: left;
+      border-bottom: 1px solid #ddd;
+    }
+    .items-table th {
+      background-color: #f5f5f5;
+      font-weight: bold;
+    }
+    .items-table .text-right {
+      text-align: right;
+    }
+    .totals {
+      border-top: 2px solid #000;
+      padding-top: 10px;
+    }
+    .totals-row {
+      display: flex;
+      justify-content: space-between;
+      margin: 5px 0;
+    }
+    .total-row {
+      font-weight: bold;
+      font-size: 18px;
+      margin-top: 10px;
+    }
+    .footer {
+      margin-top: 30px;
+      text-align: center;
+      font-size: 12px;
+      color: #666;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>${companyName}</h1>
+    <p>Payment Receipt</p>
+  </div>
+
+  <div class="info">
+    <p><strong>Receipt Number:</strong> ${payment.receiptNumber}</p>
+    <p><strong>Customer:</strong> ${customerName}</p>
+    <p><strong>Date:</strong> ${paymentDate}</p>
+    <p><strong>Payment Method:</strong> ${payment.paymentMethod.replace("_", " ")}</p>
+    ${payment.notes ? `<p><strong>Notes:</strong> ${payment.notes}</p>` : ''}
+  </div>
+
+  <table class="items-table">
+    <thead>
+      <tr>
+        <th>Settled Against Sale</th>
+        <th class="text-right">Amount</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${payment.allocations.map(allocation => `
+        <tr>
+          <td>${allocation.saleId}</td>
+          <td class="text-right">Rs ${allocation.amount.toFixed(2)}</td>
+        </tr>
+      `).join('')}
+    </tbody>
+  </table>
+
+  <div class="totals">
+    <div class="totals-row total-row">
+      <span>Amount Received:</span>
+      <span>Rs ${payment.amount.toFixed(2)}</span>
+    </div>
+    <div class="totals-row">
+      <span>Remaining Balance:</span>
+      <span>Rs ${payment.remainingDue.toFixed(2)}</span>
+    </div>
+  </div>
+
+  <div class="footer">
+    <p>Thank you for your payment. Please keep this receipt for your records.</p>
+  </div>
+</body>
+</html>
+  `;
+}
+
+/**
+ * Print credit payment receipt (using browser print functionality)
+ */
+export function printCreditPaymentReceipt(payment: CreditPayment, customerName: string, companyName?: string): void {
+  const html = generateCreditPaymentReceiptHTML(payment, customerName, companyName);
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import { Order, Product, PurchaseOrder, ReorderSuggestion, ReplenishmentSettings, Sale } from "@/lib/types";
+import { getOutstandingQuantity } from "@/lib/utils/purchaseOrder";
+
+/**
+ * Units sold per product across POS sales and online orders
+ * Returned units are taken off sales and cancelled orders are ignored.
+ */
+export function getUnitsSold(sales: Sale[], orders: Order[]): Map<string, number> {
+  const unitsSold = new Map<string, number>();
+  const add = (productId: string, quantity: number) => {
+    unitsSold.set(productId, (unitsSold.get(productId) || 0) + quantity);
+  };
+
+  for (const sale of sales) {
+    for (const item of sale.items) {
+      add(item.productId, item.quantity - (item.returnedQuantity || 0));
+    }
+  }
+  for (const order of orders) {
+    if (order.status === "CANCELLED") continue;
+    for (const item of order.items) {
+      add(item.productId, item.quantity);
+    }
+  }
+
+  return unitsSold;
+}
+
+/**
+ * Units per product still to arrive on open purchase orders
+ */
+export function getQuantitiesOnOrder(purchaseOrders: PurchaseOrder[]): Map<string, number> {
+  const onOrder = new Map<string, number>();
+  for (const po of purchaseOrders) {
+    for (const item of po.items) {
+      const outstanding = getOutstandingQuantity(po, item);
+      if (outstanding > 0) {
+        onOrder.set(item.productId, (onOrder.get(item.productId) || 0) + outstanding);
+      }
+    }
+  }
+  return onOrder;
+}
+
+/**
+ * Work out whether a product needs reordering and how many to order
+ * A product is reordered once what is available plus what is already on order falls to the
+ * reorder point (minimum stock plus the demand expected while waiting for delivery). The
+ * quantity tops it up to the par level, or to the minimum plus coverDays of demand when no
+ * warehouse has a par level set.
+ * @param unitsSold Units sold over the settings' sales window
+ * @returns The suggestion, or null if the product doesn't need reordering
+ */
+export function calculateReorderSuggestion(
+  product: Product,
+  unitsSold: number,
+  onOrder: number,
+  settings: Pick<ReplenishmentSettings, "salesWindowDays" | "leadTimeDays" | "coverDays">
+): ReorderSuggestion | null {
+  const warehouses = Object.values(product.warehouses || {});
+  if (warehouses.length === 0) return null;
+
+  const available = warehouses.reduce((sum, wh) => sum + wh.quantity - (wh.reserved || 0), 0);
+  const minQuantity = warehouses.reduce((sum, wh) => sum + (wh.minQuantity || 0), 0);
+  const dailySales = settings.salesWindowDays > 0 ? Math.max(0, unitsSold) / settings.salesWindowDays : 0;
+
+  const reorderPoint = minQuantity + Math.ceil(dailySales * settings.leadTimeDays);
+  // Products nobody has set a minimum for and that haven't sold aren't worth reordering
+  if (reorderPoint <= 0 || available + onOrder > reorderPoint) return null;
+
+  const hasParLevel = warehouses.some((wh) => wh.maxQuantity !== undefined);
+  const targetLevel = Math.max(
+    reorderPoint,
+    hasParLevel
+      ? warehouses.reduce((sum, wh) => sum + (wh.maxQuantity ?? wh.minQuantity ?? 0), 0)
+      : minQuantity + Math.ceil(dailySales * settings.coverDays)
+  );
+  const suggestedQuantity = targetLevel - available - onOrder;
+  if (suggestedQuantity <= 0) return null;
+
+  // Only include vendorId if the product has a preferred vendor
+  const suggestion: ReorderSuggestion = {
+    productId: product.id,
+    productName: product.name,
+    sku: product.sku,
+    available,
+    onOrder,
+    reorderPoint,
+    targetLevel,
+    dailySales: Math.round(dailySales * 100) / 100,
+    suggestedQuantity,
+    unitPrice: product.costPrice || 0,
+  };
+  if (product.preferredVendorId) {
+    suggestion.vendorId = product.preferredVendorId;
+  }
+  return suggestion;
+}
+
+/**
+ * Group reorder suggestions by preferred vendor
+ * Suggestions without a vendor are grouped under an empty string.
+ */
+export function groupSuggestionsByVendor(suggestions: ReorderSuggestion[]): Map<string, ReorderSuggestion[]> {
+  const groups = new Map<string, ReorderSuggestion[]>();
+  for (const suggestion of suggestions) {
+    const vendorId = suggestion.vendorId || "";
+    groups.set(vendorId, [...(groups.get(vendorId) || []), suggestion]);
+  }
+  return groups;
+}
@@ -0,0 +1,53 @@
+import { CashShift, Sale, SaleReturn, ShiftReport } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+
+/**
+ * Summarise a cash drawer shift from the sales and returns stamped with it
+ * Only money taken in cash counts towards the drawer; credit and other methods are reported
+ * for reference.
+ * @param shift Shift with its opening float and cash movements
+ * @param sales Sales rung up during the shift
+ * @param returns Returns refunded during the shift
+ * @returns Totals for an X/Z report, including the cash expected in the drawer
+ */
+export function buildShiftReport(
+  shift: Pick<CashShift, "openingFloat" | "movements">,
+  sales: Pick<Sale, "total" | "paidAmount" | "dueAmount" | "paymentMethod">[],
+  returns: Pick<SaleReturn, "refundedAmount" | "refundMethod">[]
+): ShiftReport {
+  const paymentBreakdown: ShiftReport["paymentBreakdown"] = {};
+  let salesTotal = 0;
+  let creditIssued = 0;
+  sales.forEach((sale) => {
+    salesTotal += sale.total;
+    creditIssued += sale.dueAmount;
+    if (sale.paidAmount > 0) {
+      paymentBreakdown[sale.paymentMethod] = (paymentBreakdown[sale.paymentMethod] || 0) + sale.paidAmount;
+    }
+  });
+
+  const cashSales = paymentBreakdown.CASH || 0;
+  const cashRefunds = returns
+    .filter((saleReturn) => saleReturn.refundMethod === "CASH")
+    .reduce((sum, saleReturn) => sum + saleReturn.refundedAmount, 0);
+  const cashIn = shift.movements
+    .filter((movement) => movement.type === "IN")
+    .reduce((sum, movement) => sum + movement.amount, 0);
+  const cashOut = shift.movements
+    .filter((movement) => movement.type === "OUT")
+    .reduce((sum, movement) => sum + movement.amount, 0);
+
+  return {
+    openingFloat: shift.openingFloat,
+    cashSales: roundAmount(cashSales),
+    cashRefunds: roundAmount(cashRefunds),
+    cashIn: roundAmount(cashIn),
+    cashOut: roundAmount(cashOut),
+    expectedCash: roundAmount(shift.openingFloat + cashSales - cashRefunds + cashIn - cashOut),
+    salesCount: sales.length,
+    salesTotal: roundAmount(salesTotal),
+    paymentBreakdown,
+    creditIssued: roundAmount(creditIssued),
+    returnsCount: returns.length,
+  };
+}
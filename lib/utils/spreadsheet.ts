@@ -0,0 +1,49 @@
+import { downloadBlob, parseCSV } from "@/lib/utils/csv";
+
+/**
+ * Rows of cell text from an uploaded .csv or .xlsx file (first worksheet only)
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (!file.name.toLowerCase().endsWith(".xlsx")) {
+    return parseCSV(await file.text());
+  }
+
+  // Loaded on demand - only import and export need it
+  const ExcelJS = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow((row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(row.getCell(column).text.trim());
+    }
+    if (cells.some((cell) => cell !== "")) rows.push(cells);
+  });
+  return rows;
+}
+
+/**
+ * Download rows of cells as an Excel workbook with a single worksheet (browser only)
+ * The first row is treated as a header and frozen.
+ */
+export async function downloadXLSX(
+  filename: string,
+  rows: Array<Array<string | number | undefined>>,
+  sheetName: string = "Sheet1"
+): Promise<void> {
+  const ExcelJS = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName, { views: [{ state: "frozen", ySplit: 1 }] });
+  worksheet.addRows(rows.map((row) => row.map((cell) => (cell === undefined ? null : cell))));
+  worksheet.getRow(1).font = { bold: true };
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(
+    filename,
+    new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
+  );
+}
@@ -0,0 +1,79 @@
+import { Product, ProductWarehouse, StockAllocation, Warehouse } from "@/lib/types";
+
+/**
+ * Get the quantity in a warehouse that is free to sell
+ * @param warehouse Product stock in one warehouse
+ * @returns On-hand quantity minus units reserved for open online orders
+ */
+export function getAvailableQuantity(warehouse?: Pick<ProductWarehouse, "quantity" | "reserved">): number {
+  if (!warehouse) return 0;
+  return Math.max(0, (warehouse.quantity || 0) - (warehouse.reserved || 0));
+}
+
+/**
+ * Get a product's sellable stock across all warehouses
+ * @param product Product with warehouse stock
+ * @returns Total available quantity net of reservations
+ */
+export function getTotalAvailableStock(product: Pick<Product, "warehouses">): number {
+  return Object.values(product.warehouses || {}).reduce(
+    (sum, warehouse) => sum + getAvailableQuantity(warehouse),
+    0
+  );
+}
+
+/**
+ * Build the order in which warehouses should be drawn from
+ * @param warehouses All known warehouses
+ * @param preferredWarehouseId Warehouse to try first (e.g., the cashier's assigned warehouse)
+ * @returns Active warehouse IDs, preferred first, then by priority (lower number first)
+ */
+export function getWarehousePriorityOrder(
+  warehouses: Warehouse[],
+  preferredWarehouseId?: string
+): string[] {
+  const ordered = warehouses
+    .filter((warehouse) => warehouse.isActive)
+    .sort((a, b) => (a.priority ?? Number.MAX_SAFE_INTEGER) - (b.priority ?? Number.MAX_SAFE_INTEGER))
+    .map((warehouse) => warehouse.id);
+
+  if (preferredWarehouseId) {
+    return [preferredWarehouseId, ...ordered.filter((id) => id !== preferredWarehouseId)];
+  }
+  return ordered;
+}
+
+/**
+ * Split a requested quantity across a product's warehouses (only unreserved stock is used)
+ * @param product Product with current warehouse stock
+ * @param quantity Quantity to allocate
+ * @param warehouseOrder Warehouse IDs in the order they should be drawn from
+ * @returns Allocations and any quantity that could not be covered by stock
+ */
+export function allocateStock(
+  product: Pick<Product, "warehouses">,
+  quantity: number,
+  warehouseOrder: string[]
+): { allocations: StockAllocation[]; shortfall: number } {
+  // Warehouses holding this product that aren't in the priority list still count, but come last
+  const productWarehouseIds = Object.keys(product.warehouses || {});
+  const candidates = [
+    ...warehouseOrder.filter((id) => productWarehouseIds.includes(id)),
+    ...productWarehouseIds.filter((id) => !warehouseOrder.includes(id)),
+  ];
+
+  const allocations: StockAllocation[] = [];
+  let remaining = quantity;
+
+  for (const warehouseId of candidates) {
+    if (remaining <= 0) break;
+    const available = getAvailableQuantity(product.warehouses[warehouseId]);
+    if (available <= 0) continue;
+
+    const take = Math.min(available, remaining);
+    allocations.push({ warehouseId, quantity: take });
+    remaining -= take;
+  }
+
+  return { allocations, shortfall: remaining };
+}
@@ -0,0 +1,40 @@
+import { Product, StockCard, StockMovement } from "@/lib/types";
+
+/**
+ * Build the stock card for one warehouse: every movement with the running balance after it
+ * The balance is derived from the signed movement quantities alone, so comparing it with the
+ * quantity stored on the product shows any change that bypassed the movement ledger.
+ * @param movements The product's movements, any order and any warehouse
+ * @param warehouseId Warehouse to build the card for
+ * @param product Product whose current warehouse quantity the card is reconciled against
+ */
+export function buildStockCard(
+  movements: StockMovement[],
+  warehouseId: string,
+  product: Pick<Product, "warehouses">
+): StockCard {
+  const warehouseMovements = movements
+    .filter((movement) => movement.warehouseId === warehouseId)
+    .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+
+  // Stock that predates the ledger is whatever was there before the first movement
+  // (or all of it, if nothing has moved yet)
+  const warehouseQuantity = product.warehouses[warehouseId]?.quantity || 0;
+  const first = warehouseMovements[0];
+  const openingBalance = first ? first.balanceAfter - first.quantity : warehouseQuantity;
+
+  let balance = openingBalance;
+  const lines = warehouseMovements.map((movement) => {
+    balance += movement.quantity;
+    return { movement, balance };
+  });
+
+  return {
+    warehouseId,
+    openingBalance,
+    lines,
+    closingBalance: balance,
+    warehouseQuantity,
+    difference: warehouseQuantity - balance,
+  };
+}
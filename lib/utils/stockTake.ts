@@ -0,0 +1,53 @@
+import { StockTakeLine } from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+
+/**
+ * Difference between what was counted and what the system expected
+ * @returns Signed units (negative = short), or null if the line hasn't been counted
+ */
+export function getLineVariance(line: Pick<StockTakeLine, "expectedQuantity" | "countedQuantity">): number | null {
+  return line.countedQuantity === undefined ? null : line.countedQuantity - line.expectedQuantity;
+}
+
+/**
+ * Summarise a stock-take's progress and variance
+ * Values use the cost price captured when the count started; the amount actually posted is
+ * taken from the cost layers at approval.
+ */
+export function summariseStockTake(lines: StockTakeLine[]): {
+  counted: number;
+  uncounted: number;
+  linesWithVariance: number;
+  unitsShort: number;
+  unitsOver: number;
+  estimatedValue: number;
+} {
+  let counted = 0;
+  let linesWithVariance = 0;
+  let unitsShort = 0;
+  let unitsOver = 0;
+  let estimatedValue = 0;
+
+  for (const line of lines) {
+    const variance = getLineVariance(line);
+    if (variance === null) continue;
+    counted++;
+    if (variance === 0) continue;
+    linesWithVariance++;
+    if (variance < 0) {
+      unitsShort -= variance;
+    } else {
+      unitsOver += variance;
+    }
+    estimatedValue += variance * line.unitCost;
+  }
+
+  return {
+    counted,
+    uncounted: lines.length - counted,
+    linesWithVariance,
+    unitsShort,
+    unitsOver,
+    estimatedValue: roundAmount(estimatedValue),
+  };
+}
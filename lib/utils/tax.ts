@@ -0,0 +1,107 @@
+import { Product, TaxSettings } from "@/lib/types";
+
+type TaxableLine = {
+  subtotal: number;
+  taxRate?: number;
+  taxInclusive?: boolean;
+};
+
+/**
+ * Round an amount to paisa
+ */
+function roundTax(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Get the tax percentage that applies to a product
+ * @param product Product with optional tax rate override
+ * @param settings Current tax settings (null when not loaded)
+ * @returns Tax percentage, or 0 when tax is disabled or no rate applies
+ */
+export function getProductTaxRate(
+  product: Pick<Product, "taxRateId">,
+  settings: TaxSettings | null
+): number {
+  if (!settings?.enabled) return 0;
+  const rateId = product.taxRateId || settings.defaultRateId;
+  return settings.rates.find((rate) => rate.id === rateId)?.rate ?? 0;
+}
+
+/**
+ * Check whether a product's price already includes tax
+ * @param product Product with optional pricing mode override
+ * @param settings Current tax settings (null when not loaded)
+ */
+export function isProductTaxInclusive(
+  product: Pick<Product, "taxInclusive">,
+  settings: TaxSettings | null
+): boolean {
+  return product.taxInclusive ?? settings?.pricesIncludeTax ?? false;
+}
+
+/**
+ * Split an amount into its taxable value and tax
+ * @param amount Amount as priced
+ * @param rate Tax percentage (e.g., 13)
+ * @param inclusive Whether amount already includes the tax
+ * @returns Net (before tax), tax and gross (what the customer pays)
+ */
+export function splitTax(
+  amount: number,
+  rate: number,
+  inclusive: boolean
+): { net: number; tax: number; gross: number } {
+  if (!rate || rate <= 0) {
+    return { net: amount, tax: 0, gross: amount };
+  }
+  if (inclusive) {
+    const tax = roundTax(amount - amount / (1 + rate / 100));
+    return { net: amount - tax, tax, gross: amount };
+  }
+  const tax = roundTax(amount * (rate / 100));
+  return { net: amount, tax, gross: amount + tax };
+}
+
+/**
+ * Work out tax for a set of lines after a discount on their combined subtotal
+ * The discount is spread across lines in proportion to their subtotal before tax is taken.
+ * @param items Lines with subtotal, tax rate and pricing mode
+ * @param discount Discount on the combined subtotal
+ * @returns Lines with taxAmount set, total tax and the amount payable
+ */
+export function calculateTaxes<T extends TaxableLine>(
+  items: T[],
+  discount: number
+): { items: Array<T & { taxAmount: number }>; tax: number; total: number } {
+  const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+  const discountFactor = subtotal > 0 ? Math.max(0, subtotal - discount) / subtotal : 0;
+
+  let tax = 0;
+  let total = 0;
+  const taxedItems = items.map((item) => {
+    const { tax: taxAmount, gross } = splitTax(
+      item.subtotal * discountFactor,
+      item.taxRate || 0,
+      item.taxInclusive ?? false
+    );
+    tax += taxAmount;
+    total += gross;
+    return { ...item, taxAmount };
+  });
+
+  return { items: taxedItems, tax: roundTax(tax), total: roundTax(total) };
+}
+
+/**
+ * Work out input tax charged by a vendor on top of purchase prices
+ * @param items Purchase lines with quantity, unit price and tax percentage
+ * @returns Total input tax
+ */
+export function calculateInputTax(
+  items: Array<{ quantity: number; unitPrice: number; taxRate?: number }>
+): number {
+  return roundTax(
+    items.reduce((sum, item) => sum + item.quantity * item.unitPrice * ((item.taxRate || 0) / 100), 0)
+  );
+}
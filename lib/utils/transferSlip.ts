@@ -0,0 +1,148 @@
+// Transfer Slip - Printable document that travels with goods between warehouses
+import { StockTransfer } from "@/lib/types";
+
+/**
+ * Generate HTML transfer slip
+ * @param warehouseNames Warehouse names by ID (IDs are printed when a name is missing)
+ */
+export function generateTransferSlipHTML(
+  transfer: StockTransfer,
+  warehouseNames: Record<string, string>,
+  companyName: string = "Ghimire Kitchen Wares"
+): string {
+  const from = warehouseNames[transfer.fromWarehouseId] || transfer.fromWarehouseId;
+  const to = warehouseNames[transfer.toWarehouseId] || transfer.toWarehouseId;
+  const received = transfer.status === "RECEIVED";
+  const totalUnits = transfer.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Transfer Slip - ${transfer.transferNumber}</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      max-width: 700px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .header {
+      text-align: center;
+      border-bottom: 2px solid #000;
+      padding-bottom: 20px;
+      margin-bottom: 20px;
+    }
+    .header h1 {
+      margin: 0;
+      font-size: 24px;
+    }
+    .info p {
+      margin: 5px 0;
+    }
+    .items-table {
+      width: 100%;
+      border-collapse: collapse;
+      margin: 20px 0;
+    }
+    .items-table th,
+    .items-table td {
+      padding: 10px;
+      text-align: left;
+      border-bottom: 1px solid #ddd;
+    }
+    .items-table th {
+      background-color: #f5f5f5;
+      font-weight: bold;
+    }
+    .items-table .text-right {
+      text-align: right;
+    }
+    .signatures {
+      display: flex;
+      justify-content: space-between;
+      margin-top: 60px;
+    }
+    .signatures div {
+      width: 40%;
+      border-top: 1px solid #000;
+      padding-top: 5px;
+      text-align: center;
+      font-size: 12px;
+    }
+    @media print {
+      body {
+        padding: 0;
+      }
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>${companyName}</h1>
+    <p>Stock Transfer Slip</p>
+  </div>
+
+  <div class="info">
+    <p><strong>Transfer #:</strong> ${transfer.transferNumber}</p>
+    <p><strong>Date:</strong> ${(transfer.dispatchedAt || transfer.createdAt).toDate().toLocaleString()}</p>
+    <p><strong>From:</strong> ${from}</p>
+    <p><strong>To:</strong> ${to}</p>
+    <p><strong>Status:</strong> ${transfer.status.replace("_", " ")}</p>
+    ${transfer.notes ? `<p><strong>Notes:</strong> ${transfer.notes}</p>` : ''}
+  </div>
+
+  <table class="items-table">
+    <thead>
+      <tr>
+        <th>Item</th>
+        <th>SKU</th>
+        <th class="text-right">Sent</th>
+        <th class="text-right">Received</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${transfer.items.map(item => `
+        <tr>
+          <td>${item.productName}</td>
+          <td>${item.sku}</td>
+          <td class="text-right">${item.quantity}</td>
+          <td class="text-right">${received ? item.receivedQuantity ?? item.quantity : ''}</td>
+        </tr>
+      `).join('')}
+    </tbody>
+  </table>
+
+  <div class="info">
+    <p><strong>Total units sent:</strong> ${totalUnits}</p>
+    ${transfer.discrepancyNotes ? `<p><strong>Discrepancy:</strong> ${transfer.discrepancyNotes}</p>` : ''}
+  </div>
+
+  <div class="signatures">
+    <div>Dispatched by</div>
+    <div>Received by</div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+/**
+ * Print transfer slip (using browser print functionality)
+ */
+export function printTransferSlip(
+  transfer: StockTransfer,
+  warehouseNames: Record<string, string>,
+  companyName?: string
+): void {
+  const html = generateTransferSlipHTML(transfer, warehouseNames, companyName);
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { Product, VariantOption } from "@/lib/types";
+import { getTotalAvailableStock } from "@/lib/utils/stockAllocation";
+
+/**
+ * Whether a product is sold in variants (and so can't be sold itself)
+ */
+export function hasVariants(product: Pick<Product, "variantOptions">): boolean {
+  return !!product.variantOptions && product.variantOptions.length > 0;
+}
+
+/**
+ * Get a product's variants from a list of products
+ */
+export function getProductVariants<T extends Pick<Product, "parentProductId">>(
+  parentId: string,
+  products: T[]
+): T[] {
+  return products.filter((product) => product.parentProductId === parentId);
+}
+
+/**
+ * Every combination of option values, in option order
+ * @returns e.g. [{ Size: "3L", Colour: "Red" }, { Size: "3L", Colour: "Black" }, ...]
+ */
+export function getVariantCombinations(options: VariantOption[]): Record<string, string>[] {
+  return options.reduce<Record<string, string>[]>(
+    (combinations, option) =>
+      combinations.flatMap((combination) =>
+        option.values.map((value) => ({ ...combination, [option.name]: value }))
+      ),
+    [{}]
+  );
+}
+
+/**
+ * Short label for a variant's option values, e.g. "5L / Red"
+ * @param options Parent's options, to keep values in option order
+ */
+export function getVariantLabel(values: Record<string, string>, options?: VariantOption[]): string {
+  const names = options ? options.map((option) => option.name) : Object.keys(values);
+  return names
+    .map((name) => values[name])
+    .filter(Boolean)
+    .join(" / ");
+}
+
+/**
+ * Find the variant matching every selected option value
+ */
+export function findVariant<T extends Pick<Product, "variantValues">>(
+  variants: T[],
+  values: Record<string, string>
+): T | undefined {
+  return variants.find((variant) =>
+    Object.entries(values).every(([name, value]) => variant.variantValues?.[name] === value)
+  );
+}
+
+/**
+ * Cheapest and dearest variant prices, for "from Rs ..." listings
+ */
+export function getVariantPriceRange(variants: Array<Pick<Product, "price">>): { min: number; max: number } {
+  const prices = variants.map((variant) => variant.price);
+  return prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : { min: 0, max: 0 };
+}
+
+/**
+ * Sellable stock across a product's variants
+ */
+export function getVariantsAvailableStock(variants: Array<Pick<Product, "warehouses">>): number {
+  return variants.reduce((sum, variant) => sum + getTotalAvailableStock(variant), 0);
+}
@@ -0,0 +1,297 @@
+// Vendor Statement - How a vendor's balance was reached, printable and exportable
+import { Timestamp } from "firebase/firestore";
+import {
+  GoodsReceivedNote,
+  PaymentMethod,
+  PurchaseOrder,
+  PurchaseReturn,
+  Vendor,
+  VendorStatement,
+  VendorStatementEntry,
+} from "@/lib/types";
+import { roundAmount } from "@/lib/utils/accounting";
+import { hasReceivedGoods } from "@/lib/utils/purchaseOrder";
+import { toCSV } from "@/lib/utils/csv";
+
+type StatementTransaction = Omit<VendorStatementEntry, "balance">;
+
+/**
+ * Goods received from a vendor as statement transactions
+ * Purchase orders received before GRNs were recorded separately have no GRN, so the order's
+ * received total stands in for its deliveries.
+ */
+export function getReceiptTransactions(
+  grns: GoodsReceivedNote[],
+  purchaseOrders: PurchaseOrder[]
+): StatementTransaction[] {
+  const transactions: StatementTransaction[] = grns.map((grn) => ({
+    id: grn.id,
+    date: grn.receivedAt.toDate(),
+    type: "GRN",
+    reference: grn.grnNumber,
+    description: `Goods received (${grn.items.length} item${grn.items.length === 1 ? "" : "s"})`,
+    purchaseOrderId: grn.purchaseOrderId,
+    debit: 0,
+    credit: roundAmount(grn.totalAmount + (grn.taxAmount || 0)),
+  }));
+
+  const ordersWithGRNs = new Set(grns.map((grn) => grn.purchaseOrderId));
+  for (const po of purchaseOrders) {
+    if (!hasReceivedGoods(po) || ordersWithGRNs.has(po.id)) continue;
+    transactions.push({
+      id: po.id,
+      date: (po.receivedAt || po.createdAt).toDate(),
+      type: "GRN",
+      reference: `PO #${po.id.substring(0, 8)}`,
+      description: "Goods received",
+      purchaseOrderId: po.id,
+      debit: 0,
+      credit: roundAmount(
+        (po.receivedTotalAmount ?? po.totalAmount) + (po.receivedTaxAmount ?? po.taxAmount ?? 0)
+      ),
+    });
+  }
+
+  return transactions;
+}
+
+/**
+ * Payments made to a vendor as statement transactions
+ */
+export function getPaymentTransactions(
+  payments: Array<{ id: string; amount: number; paymentMethod: PaymentMethod; notes?: string; createdAt: Timestamp }>
+): StatementTransaction[] {
+  return payments.map((payment) => ({
+    id: payment.id,
+    date: payment.createdAt.toDate(),
+    type: "PAYMENT",
+    reference: payment.paymentMethod.replace("_", " "),
+    description: payment.notes || "Payment",
+    debit: payment.amount,
+    credit: 0,
+  }));
+}
+
+/**
+ * Debit notes for goods returned to a vendor as statement transactions
+ */
+export function getReturnTransactions(purchaseReturns: PurchaseReturn[]): StatementTransaction[] {
+  return purchaseReturns.map((purchaseReturn) => ({
+    id: purchaseReturn.id,
+    date: purchaseReturn.createdAt.toDate(),
+    type: "RETURN",
+    reference: purchaseReturn.debitNoteNumber,
+    description: `Returned: ${purchaseReturn.reason}`,
+    purchaseOrderId: purchaseReturn.purchaseOrderId,
+    debit: roundAmount(purchaseReturn.totalAmount + (purchaseReturn.taxAmount || 0)),
+    credit: 0,
+  }));
+}
+
+/**
+ * Build a vendor's statement of account for a date range
+ * Everything before the start date is rolled into the opening balance, and each entry in the
+ * range carries the running balance after it.
+ * @param transactions Receipts, payments and returns, any order
+ */
+export function buildVendorStatement(
+  vendor: Pick<Vendor, "id" | "companyName" | "balance">,
+  transactions: StatementTransaction[],
+  startDate: Date,
+  endDate: Date
+): VendorStatement {
+  const sorted = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let balance = 0;
+  for (const transaction of sorted) {
+    if (transaction.date >= startDate) break;
+    balance += transaction.credit - transaction.debit;
+  }
+  const openingBalance = roundAmount(balance);
+
+  let totalReceived = 0;
+  let totalPaid = 0;
+  let totalReturned = 0;
+  const entries = sorted
+    .filter((transaction) => transaction.date >= startDate && transaction.date <= endDate)
+    .map((transaction) => {
+      balance += transaction.credit - transaction.debit;
+      if (transaction.type === "GRN") totalReceived += transaction.credit;
+      if (transaction.type === "PAYMENT") totalPaid += transaction.debit;
+      if (transaction.type === "RETURN") totalReturned += transaction.debit;
+      return { ...transaction, balance: roundAmount(balance) };
+    });
+
+  return {
+    vendorId: vendor.id,
+    vendorName: vendor.companyName,
+    startDate,
+    endDate,
+    openingBalance,
+    entries,
+    totalReceived: roundAmount(totalReceived),
+    totalPaid: roundAmount(totalPaid),
+    totalReturned: roundAmount(totalReturned),
+    closingBalance: roundAmount(balance),
+    recordedBalance: vendor.balance,
+  };
+}
+
+/**
+ * Statement as CSV, opening and closing balances included
+ */
+export function vendorStatementToCSV(statement: VendorStatement): string {
+  return toCSV([
+    ["Date", "Type", "Reference", "Description", "Debit", "Credit", "Balance"],
+    [statement.startDate.toLocaleDateString(), "", "", "Opening balance", "", "", statement.openingBalance.toFixed(2)],
+    ...statement.entries.map((entry) => [
+      entry.date.toLocaleDateString(),
+      entry.type,
+      entry.reference,
+      entry.description,
+      entry.debit ? entry.debit.toFixed(2) : "",
+      entry.credit ? entry.credit.toFixed(2) : "",
+      entry.balance.toFixed(2),
+    ]),
+    [statement.endDate.toLocaleDateString(), "", "", "Closing balance", "", "", statement.closingBalance.toFixed(2)],
+  ]);
+}
+
+/**
+ * Generate HTML statement of account
+ */
+export function generateVendorStatementHTML(
+  statement: VendorStatement,
+  companyName: string = "Ghimire Kitchen Wares"
+): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Statement - ${statement.vendorName}</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      max-width: 800px;
+      margin: 0 auto;
+      padding: 20px;
+      font-size: 13px;
+    }
+    .header {
+      text-align: center;
+      border-bottom: 2px solid #000;
+      padding-bottom: 20px;
+      margin-bottom: 20px;
+    }
+    .header h1 {
+      margin: 0;
+      font-size: 24px;
+    }
+    .info p {
+      margin: 5px 0;
+    }
+    .entries-table {
+      width: 100%;
+      border-collapse: collapse;
+      margin: 20px 0;
+    }
+    .entries-table th,
+    .entries-table td {
+      padding: 8px;
+      text-align: left;
+      border-bottom: 1px solid #ddd;
+    }
+    .entries-table th {
+      background-color: #f5f5f5;
+      font-weight: bold;
+    }
+    .entries-table .text-right {
+      text-align: right;
+    }
+    .entries-table .balance-row td {
+      font-weight: bold;
+    }
+    @media print {
+      body {
+        padding: 0;
+      }
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>${companyName}</h1>
+    <p>Statement of Account</p>
+  </div>
+
+  <div class="info">
+    <p><strong>Vendor:</strong> ${statement.vendorName}</p>
+    <p><strong>Period:</strong> ${statement.startDate.toLocaleDateString()} - ${statement.endDate.toLocaleDateString()}</p>
+  </div>
+
+  <table class="entries-table">
+    <thead>
+      <tr>
+        <th>Date</th>
+        <th>Reference</th>
+        <th>Description</th>
+        <th class="text-right">Debit</th>
+        <th class="text-right">Credit</th>
+        <th class="text-right">Balance</th>
+      </tr>
+    </thead>
+    <tbody>
+      <tr class="balance-row">
+        <td>${statement.startDate.toLocaleDateString()}</td>
+        <td></td>
+        <td>Opening balance</td>
+        <td></td>
+        <td></td>
+        <td class="text-right">Rs ${statement.openingBalance.toFixed(2)}</td>
+      </tr>
+      ${statement.entries.map(entry => `
+        <tr>
+          <td>${entry.date.toLocaleDateString()}</td>
+          <td>${entry.reference}</td>
+          <td>${entry.description}</td>
+          <td class="text-right">${entry.debit ? `Rs ${entry.debit.toFixed(2)}` : ''}</td>
+          <td class="text-right">${entry.credit ? `Rs ${entry.credit.toFixed(2)}` : ''}</td>
+          <td class="text-right">Rs ${entry.balance.toFixed(2)}</td>
+        </tr>
+      `).join('')}
+      <tr class="balance-row">
+        <td>${statement.endDate.toLocaleDateString()}</td>
+        <td></td>
+        <td>Closing balance</td>
+        <td></td>
+        <td></td>
+        <td class="text-right">Rs ${statement.closingBalance.toFixed(2)}</td>
+      </tr>
+    </tbody>
+  </table>
+
+  <div class="info">
+    <p><strong>Goods received:</strong> Rs ${statement.totalReceived.toFixed(2)}</p>
+    <p><strong>Payments:</strong> Rs ${statement.totalPaid.toFixed(2)}</p>
+    <p><strong>Returns:</strong> Rs ${statement.totalReturned.toFixed(2)}</p>
+  </div>
+</body>
+</html>
+  `;
+}
+
+/**
+ * Print vendor statement (using browser print functionality, which can also save it as a PDF)
+ */
+export function printVendorStatement(statement: VendorStatement, companyName?: string): void {
+  const html = generateVendorStatementHTML(statement, companyName);
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.print();
+    };
+  }
+}